@@ -0,0 +1,397 @@
+/**
+ * Audit log of tool invocations and resource reads
+ *
+ * Every tool call and resource read is appended as one JSON line: which
+ * client called which tool with what (sanitized) arguments, which BambooHR
+ * endpoints it read and how many records came back. Each record carries the
+ * hash of the one before it, so editing, removing or reordering lines breaks
+ * the chain. The chain continues across rotated files, from an anchor file
+ * once rotation has deleted the oldest. With a key the hashes are
+ * HMAC-SHA256, so rewritten records cannot be rehashed without it.
+ */
+
+import { createHash, createHmac, type Hash, type Hmac } from 'node:crypto';
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import type { DataAccessInfo, ToolCallOutcome } from '../types.js';
+import {
+  FIXTURE_SANITIZATION_RULES,
+  sanitizeData,
+  type SanitizationRule,
+} from '../utils/sanitize.js';
+
+export const DEFAULT_AUDIT_MAX_BYTES = 10 * 1024 * 1024;
+export const DEFAULT_AUDIT_MAX_FILES = 5;
+
+/** `prevHash` of the very first record */
+export const AUDIT_GENESIS_HASH = '0'.repeat(64);
+
+export type AuditOutcome = ToolCallOutcome;
+
+export type AuditMethod = 'tools/call' | 'resources/list' | 'resources/read';
+
+/**
+ * The MCP client behind a call, as far as the transport can tell
+ */
+export interface AuditClientIdentity {
+  /** From the client's `initialize` request */
+  name?: string;
+  version?: string;
+  transport: 'stdio' | 'http';
+  /** Streamable HTTP session */
+  sessionId?: string;
+}
+
+/**
+ * What the server reports about one tool call or resource read
+ */
+export interface AuditEvent {
+  method: AuditMethod;
+  /** Tool name, resource URI, or `resources` for a listing */
+  target: string;
+  arguments: Record<string, unknown>;
+  company?: string;
+  client: AuditClientIdentity;
+  dataAccess: DataAccessInfo[];
+  durationMs: number;
+  outcome: AuditOutcome;
+  error?: string;
+}
+
+/**
+ * On-disk record: the event plus its position in the hash chain
+ */
+export interface AuditRecord {
+  seq: number;
+  timestamp: string;
+  method: AuditMethod;
+  target: string;
+  company?: string;
+  client: AuditClientIdentity;
+  arguments: Record<string, unknown>;
+  endpoints: DataAccessInfo[];
+  recordCount: number;
+  durationMs: number;
+  outcome: AuditOutcome;
+  error?: string;
+  prevHash: string;
+  hash: string;
+}
+
+export interface AuditLogOptions {
+  filePath: string;
+  /** Rotate before the active file would grow past this size */
+  maxBytes?: number;
+  /** Rotated files kept next to the active one (`audit.jsonl.1` is newest) */
+  maxFiles?: number;
+  /** Applied to tool arguments before they are written */
+  sanitizationRules?: readonly SanitizationRule[];
+  /** Secret for HMAC-SHA256 hashes; plain SHA-256 without one */
+  key?: string;
+}
+
+/**
+ * Where the kept chain starts once rotation has deleted older records: the
+ * last record of the newest deleted file
+ */
+export interface AuditAnchor {
+  seq: number;
+  hash: string;
+  /** Hash of `seq` and `hash`, so the anchor cannot be moved unnoticed */
+  check: string;
+}
+
+/**
+ * Raised when an audit record cannot be written
+ */
+export class AuditLogError extends Error {
+  constructor(
+    message: string,
+    public readonly filePath: string
+  ) {
+    super(message);
+    this.name = 'AuditLogError';
+  }
+}
+
+function digest(key: string | undefined): Hash | Hmac {
+  return key === undefined ? createHash('sha256') : createHmac('sha256', key);
+}
+
+/**
+ * Hash of a record: previous hash plus the record's JSON without `hash`
+ */
+export function hashAuditRecord(
+  record: Omit<AuditRecord, 'hash'>,
+  key?: string
+): string {
+  return digest(key)
+    .update(record.prevHash)
+    .update(JSON.stringify(record))
+    .digest('hex');
+}
+
+function anchorCheck(seq: number, hash: string, key?: string): string {
+  return digest(key).update(`anchor:${seq}:${hash}`).digest('hex');
+}
+
+/**
+ * Anchor file kept next to the active file
+ */
+export function auditAnchorPath(filePath: string): string {
+  return `${filePath}.anchor`;
+}
+
+/**
+ * Rotated files, oldest first, followed by the active file
+ */
+export function listAuditFiles(filePath: string): string[] {
+  const rotated: string[] = [];
+  for (let index = 1; fs.existsSync(`${filePath}.${index}`); index++) {
+    rotated.unshift(`${filePath}.${index}`);
+  }
+  return fs.existsSync(filePath) ? [...rotated, filePath] : rotated;
+}
+
+function readLines(filePath: string): string[] {
+  return fs
+    .readFileSync(filePath, 'utf8')
+    .split('\n')
+    .filter((line) => line.trim() !== '');
+}
+
+/**
+ * Newest record in a file; a torn final line (crash mid-write) is skipped,
+ * verification still reports it
+ */
+function lastRecord(filePath: string): AuditRecord | undefined {
+  const lines = readLines(filePath);
+  for (let index = lines.length - 1; index >= 0; index--) {
+    try {
+      const record = JSON.parse(lines[index]) as AuditRecord;
+      if (typeof record.hash === 'string' && Number.isInteger(record.seq)) {
+        return record;
+      }
+    } catch {
+      // Keep looking further back
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Append-only JSON Lines audit sink with size-based rotation
+ */
+export class AuditLog {
+  readonly filePath: string;
+  private readonly maxBytes: number;
+  private readonly maxFiles: number;
+  private readonly sanitizationRules: readonly SanitizationRule[];
+  private readonly key: string | undefined;
+  private lastHash = AUDIT_GENESIS_HASH;
+  private seq = 0;
+  private size = 0;
+
+  constructor(options: AuditLogOptions) {
+    this.filePath = path.resolve(options.filePath);
+    this.maxBytes = options.maxBytes ?? DEFAULT_AUDIT_MAX_BYTES;
+    this.maxFiles = options.maxFiles ?? DEFAULT_AUDIT_MAX_FILES;
+    this.sanitizationRules =
+      options.sanitizationRules ?? FIXTURE_SANITIZATION_RULES;
+    this.key = options.key;
+
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    this.resumeChain();
+  }
+
+  /**
+   * Append one call. Throws AuditLogError if the record cannot be
+   * written, so callers can refuse to return data that was not audited.
+   */
+  write(event: AuditEvent, now = new Date()): AuditRecord {
+    const unhashed: Omit<AuditRecord, 'hash'> = {
+      seq: this.seq + 1,
+      timestamp: now.toISOString(),
+      method: event.method,
+      target: event.target,
+      ...(event.company && { company: event.company }),
+      client: event.client,
+      arguments: sanitizeData(event.arguments, this.sanitizationRules),
+      endpoints: event.dataAccess,
+      recordCount: event.dataAccess.reduce(
+        (total, access) => total + access.records,
+        0
+      ),
+      durationMs: event.durationMs,
+      outcome: event.outcome,
+      ...(event.error && { error: event.error }),
+      prevHash: this.lastHash,
+    };
+    const record: AuditRecord = {
+      ...unhashed,
+      hash: hashAuditRecord(unhashed, this.key),
+    };
+    const line = `${JSON.stringify(record)}\n`;
+    const bytes = Buffer.byteLength(line);
+
+    try {
+      if (this.size > 0 && this.size + bytes > this.maxBytes) {
+        this.rotate();
+      }
+      fs.appendFileSync(this.filePath, line, { mode: 0o600 });
+    } catch (error) {
+      throw new AuditLogError(
+        `Failed to write audit record: ${error instanceof Error ? error.message : error}`,
+        this.filePath
+      );
+    }
+
+    this.size += bytes;
+    this.seq = record.seq;
+    this.lastHash = record.hash;
+    return record;
+  }
+
+  /**
+   * Continue the chain from the newest record on disk
+   */
+  private resumeChain(): void {
+    const files = listAuditFiles(this.filePath);
+    this.size = fs.existsSync(this.filePath)
+      ? fs.statSync(this.filePath).size
+      : 0;
+
+    for (const file of [...files].reverse()) {
+      const record = lastRecord(file);
+      if (record) {
+        this.lastHash = record.hash;
+        this.seq = record.seq;
+        return;
+      }
+    }
+  }
+
+  /**
+   * audit.jsonl -> audit.jsonl.1 -> ... -> audit.jsonl.<maxFiles>, dropping
+   * the oldest and anchoring the chain at its last record
+   */
+  private rotate(): void {
+    const oldest = `${this.filePath}.${this.maxFiles}`;
+    if (fs.existsSync(oldest)) {
+      const record = lastRecord(oldest);
+      if (record) {
+        const anchor: AuditAnchor = {
+          seq: record.seq,
+          hash: record.hash,
+          check: anchorCheck(record.seq, record.hash, this.key),
+        };
+        fs.writeFileSync(
+          auditAnchorPath(this.filePath),
+          `${JSON.stringify(anchor)}\n`,
+          { mode: 0o600 }
+        );
+      }
+      fs.unlinkSync(oldest);
+    }
+    for (let index = this.maxFiles - 1; index >= 1; index--) {
+      const from = `${this.filePath}.${index}`;
+      if (fs.existsSync(from)) {
+        fs.renameSync(from, `${this.filePath}.${index + 1}`);
+      }
+    }
+    fs.renameSync(this.filePath, `${this.filePath}.1`);
+    this.size = 0;
+  }
+}
+
+/**
+ * Result of checking an audit log's hash chain
+ */
+export interface AuditVerification {
+  valid: boolean;
+  /** Records checked */
+  records: number;
+  files: string[];
+  /** Newest record; compare it with a copy kept elsewhere to detect removal */
+  last?: { seq: number; hash: string };
+  /** First problem found */
+  error?: { file: string; line: number; message: string };
+}
+
+/**
+ * Check every record's hash and its link to the previous record, across
+ * rotated files. The first record must follow the genesis hash, or the
+ * anchor left by rotation. Pass the key the log was written with, if any.
+ */
+export function verifyAuditLog(
+  filePath: string,
+  key?: string
+): AuditVerification {
+  const resolved = path.resolve(filePath);
+  const files = listAuditFiles(resolved);
+  // Record 0 stands for the genesis hash
+  let previous: { seq: number; hash: string } = {
+    seq: 0,
+    hash: AUDIT_GENESIS_HASH,
+  };
+  let records = 0;
+
+  const anchorPath = auditAnchorPath(resolved);
+  if (fs.existsSync(anchorPath)) {
+    let anchor: AuditAnchor | undefined;
+    try {
+      anchor = JSON.parse(fs.readFileSync(anchorPath, 'utf8')) as AuditAnchor;
+    } catch {
+      // Reported below
+    }
+    if (!anchor || anchorCheck(anchor.seq, anchor.hash, key) !== anchor.check) {
+      return {
+        valid: false,
+        records,
+        files,
+        error: { file: anchorPath, line: 1, message: 'anchor hash mismatch' },
+      };
+    }
+    previous = { seq: anchor.seq, hash: anchor.hash };
+  }
+
+  for (const file of files) {
+    const lines = readLines(file);
+    for (let index = 0; index < lines.length; index++) {
+      const fail = (message: string): AuditVerification => ({
+        valid: false,
+        records,
+        files,
+        error: { file, line: index + 1, message },
+      });
+
+      let record: AuditRecord;
+      try {
+        record = JSON.parse(lines[index]) as AuditRecord;
+      } catch {
+        return fail('not valid JSON');
+      }
+      const { hash, ...unhashed } = record;
+      if (hashAuditRecord(unhashed, key) !== hash) {
+        return fail(`hash mismatch for record ${record.seq}`);
+      }
+      if (record.prevHash !== previous.hash) {
+        return fail(
+          `record ${record.seq} does not follow record ${previous.seq}`
+        );
+      }
+      if (record.seq !== previous.seq + 1) {
+        return fail(`expected record ${previous.seq + 1}, found ${record.seq}`);
+      }
+      previous = record;
+      records++;
+    }
+  }
+
+  return {
+    valid: true,
+    records,
+    files,
+    ...(records > 0 && { last: { seq: previous.seq, hash: previous.hash } }),
+  };
+}
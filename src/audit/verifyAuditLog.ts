@@ -0,0 +1,37 @@
+/**
+ * CLI entry point for checking an audit log's hash chain
+ * Usage: npm run audit:verify -- <audit.jsonl>
+ * Exits 1 and names the first broken record if the log was altered. Logs
+ * written with a key need the same BAMBOO_AUDIT_KEY.
+ */
+
+import { verifyAuditLog } from './auditLog.js';
+
+const filePath = process.argv[2] ?? process.env.BAMBOO_AUDIT_LOG;
+if (!filePath) {
+  process.stderr.write('Usage: npm run audit:verify -- <audit.jsonl>\n');
+  process.exit(2);
+}
+
+const result = verifyAuditLog(filePath, process.env.BAMBOO_AUDIT_KEY);
+if (result.files.length === 0) {
+  process.stderr.write(`No audit log found at ${filePath}\n`);
+  process.exit(2);
+}
+
+if (result.valid) {
+  process.stdout.write(
+    `OK: ${result.records} records in ${result.files.length} file(s), hash chain intact\n`
+  );
+  if (result.last) {
+    process.stdout.write(
+      `Last record: ${result.last.seq} ${result.last.hash}\n`
+    );
+  }
+} else {
+  const { file, line, message } = result.error!;
+  process.stderr.write(
+    `TAMPERED: ${file}:${line}: ${message} (${result.records} records verified before it)\n`
+  );
+  process.exit(1);
+}
@@ -6,19 +6,66 @@
  *
  * Features:
  * - HTTP Basic Auth with API key
- * - 5-minute in-memory cache with TTL
- * - Comprehensive error handling and logging
+ * - Pluggable LRU response cache (in-memory or file-backed) with per-endpoint TTLs
+ * - Single-flight coalescing of concurrent identical GETs
+ * - Client-side rate limit and concurrency cap, queueing excess requests
+ * - Circuit breaker that fails fast during outages and serves stale cache for GETs
+ * - Record-and-replay fixtures for offline tests and demos
+ * - Typed errors (BambooApiError subclasses) and comprehensive logging
+ * - OpenTelemetry spans and metrics for requests, retries and cache lookups
  * - Support for GET and POST requests
  * - Request timing and debugging information
  */
 
-import type { CacheEntry } from './types';
+import {
+  MemoryCacheStore,
+  buildCacheTtlRules,
+  resolveCacheTtl,
+  type CacheStore,
+  type CacheTtlRule,
+} from './cache/cacheStore.js';
+import {
+  QueueAbortedError,
+  RequestLimiter,
+  type RequestPermit,
+} from './utils/rateLimiter.js';
+import { CircuitBreaker, type CircuitState } from './utils/circuitBreaker.js';
+import { FixtureStore, type FixtureRequest } from './fixtures/fixtureStore.js';
+import { ClientRequestTrace } from './telemetry/telemetry.js';
+import type { Context } from '@opentelemetry/api';
+import type {
+  CacheEntry,
+  DataAccessInfo,
+  RequestQueueStats,
+  StaleResponseInfo,
+} from './types.js';
+
+// =============================================================================
+// Error Types
+// =============================================================================
+//
+// Every error raised by BambooClient extends BambooApiError, so callers can
+// classify failures with instanceof (and HTTP status) instead of matching on
+// message text.
 
 /**
- * Custom HTTP error class that preserves response information
- * Compatible with axios-like error structure for testing
+ * Base class for all errors raised by BambooClient
  */
-class HTTPError extends Error {
+export class BambooApiError extends Error {
+  constructor(
+    message: string,
+    public readonly endpoint?: string
+  ) {
+    super(message);
+    this.name = 'BambooApiError';
+  }
+}
+
+/**
+ * BambooHR answered with a non-2xx status
+ * Compatible with axios-like error structure (`error.response.status`)
+ */
+export class HTTPError extends BambooApiError {
   public response: {
     status: number;
     statusText: string;
@@ -29,9 +76,10 @@ class HTTPError extends Error {
     message: string,
     status: number,
     statusText: string,
-    data?: unknown
+    data?: unknown,
+    endpoint?: string
   ) {
-    super(message);
+    super(message, endpoint);
     this.name = 'HTTPError';
     this.response = {
       status,
@@ -39,6 +87,199 @@ class HTTPError extends Error {
       data,
     };
   }
+
+  get status(): number {
+    return this.response.status;
+  }
+}
+
+/**
+ * 401/403: the API key is invalid or lacks access to the resource
+ */
+export class AuthenticationError extends HTTPError {
+  constructor(...args: ConstructorParameters<typeof HTTPError>) {
+    super(...args);
+    this.name = 'AuthenticationError';
+  }
+}
+
+/**
+ * 404: the employee, report or endpoint does not exist
+ */
+export class NotFoundError extends HTTPError {
+  constructor(...args: ConstructorParameters<typeof HTTPError>) {
+    super(...args);
+    this.name = 'NotFoundError';
+  }
+}
+
+/**
+ * 429 that persisted through all retries
+ */
+export class RateLimitError extends HTTPError {
+  constructor(
+    message: string,
+    status: number,
+    statusText: string,
+    data?: unknown,
+    endpoint?: string,
+    /** Delay BambooHR asked for via Retry-After, if it sent one */
+    public readonly retryAfterMs?: number
+  ) {
+    super(message, status, statusText, data, endpoint);
+    this.name = 'RateLimitError';
+  }
+}
+
+/**
+ * No response within requestTimeoutMs
+ */
+export class TimeoutError extends BambooApiError {
+  constructor(
+    endpoint: string,
+    public readonly timeoutMs: number
+  ) {
+    super(
+      `Request to BambooHR API timed out after ${timeoutMs / 1000} seconds: ${endpoint}`,
+      endpoint
+    );
+    this.name = 'TimeoutError';
+  }
+}
+
+/**
+ * The request never reached BambooHR (DNS, connection refused, reset...)
+ */
+export class NetworkError extends BambooApiError {
+  constructor(message: string, endpoint?: string) {
+    super(`Network error connecting to BambooHR API: ${message}`, endpoint);
+    this.name = 'NetworkError';
+  }
+}
+
+/**
+ * A 2xx response whose body is not the JSON we expected
+ */
+export class MalformedResponseError extends BambooApiError {
+  constructor(message: string, endpoint?: string) {
+    super(message, endpoint);
+    this.name = 'MalformedResponseError';
+  }
+}
+
+/**
+ * Raised when a request is aborted through its caller-supplied AbortSignal
+ * (e.g. the MCP client sent notifications/cancelled)
+ */
+export class RequestCancelledError extends BambooApiError {
+  constructor(endpoint: string) {
+    super(`Request to BambooHR API was cancelled: ${endpoint}`, endpoint);
+    this.name = 'RequestCancelledError';
+  }
+}
+
+/**
+ * Raised without calling BambooHR while the circuit breaker is open
+ * (the API has failed repeatedly and is assumed to be down), or half-open
+ * with its trial request still in progress (`retryAfterMs` is then 0)
+ */
+export class CircuitOpenError extends BambooApiError {
+  constructor(
+    endpoint: string,
+    public readonly retryAfterMs: number
+  ) {
+    super(
+      retryAfterMs > 0
+        ? `BambooHR API is unavailable after repeated failures; not calling ${endpoint} for another ${Math.ceil(retryAfterMs / 1000)}s`
+        : `BambooHR API is unavailable after repeated failures; not calling ${endpoint} while a trial request is in progress`,
+      endpoint
+    );
+    this.name = 'CircuitOpenError';
+  }
+}
+
+/**
+ * HTTP status carried by an error (HTTPError or axios-style `response.status`)
+ */
+export function getErrorStatus(error: unknown): number | undefined {
+  if (error instanceof HTTPError) {
+    return error.status;
+  }
+  const status = (error as { response?: { status?: unknown } } | null)?.response
+    ?.status;
+  return typeof status === 'number' ? status : undefined;
+}
+
+/**
+ * Build the HTTPError subclass matching a response status
+ */
+export function createHTTPError(
+  message: string,
+  status: number,
+  statusText: string,
+  data?: unknown,
+  endpoint?: string,
+  retryAfterMs?: number
+): HTTPError {
+  switch (status) {
+    case 401:
+    case 403:
+      return new AuthenticationError(
+        message,
+        status,
+        statusText,
+        data,
+        endpoint
+      );
+    case 404:
+      return new NotFoundError(message, status, statusText, data, endpoint);
+    case 429:
+      return new RateLimitError(
+        message,
+        status,
+        statusText,
+        data,
+        endpoint,
+        retryAfterMs
+      );
+    default:
+      return new HTTPError(message, status, statusText, data, endpoint);
+  }
+}
+
+// BambooHR list payloads wrap their rows in one of these properties
+const RECORD_LIST_KEYS = ['employees', 'data', 'requests', 'rows'];
+
+/**
+ * Number of records in a response: array items, the rows of a wrapped
+ * list such as `{ fields, employees }`, or 1 for a single object
+ */
+function countRecords(data: unknown): number {
+  if (Array.isArray(data)) {
+    return data.length;
+  }
+  if (!data || typeof data !== 'object') {
+    return data === undefined || data === null || data === '' ? 0 : 1;
+  }
+  const record = data as Record<string, unknown>;
+  const listKey = RECORD_LIST_KEYS.find((key) => Array.isArray(record[key]));
+  return listKey ? (record[listKey] as unknown[]).length : 1;
+}
+
+/**
+ * Add one request's limiter waits to a caller's queue stats
+ */
+function addQueueStats(
+  stats: RequestQueueStats | undefined,
+  added: RequestQueueStats
+): void {
+  if (!stats) {
+    return;
+  }
+  stats.requests += added.requests;
+  stats.queued += added.queued;
+  stats.waitMs += added.waitMs;
+  stats.maxWaitMs = Math.max(stats.maxWaitMs, added.maxWaitMs);
 }
 
 // Simple console logger interface for MCP compatibility
@@ -76,12 +317,52 @@ export interface BambooClientConfig {
   subdomain: string;
   baseUrl?: string;
   cacheTimeoutMs?: number;
+  /** Per-endpoint TTL overrides; endpoints without a rule use cacheTimeoutMs */
+  cacheTtlRules?: CacheTtlRule[];
+  /** Response cache backend (defaults to an in-memory LRU store) */
+  cacheStore?: CacheStore;
+  /** Record responses to, or replay them from, a fixture directory */
+  fixtureStore?: FixtureStore;
   requestTimeoutMs?: number;
   maxRetryAttempts?: number;
   retryBaseDelayMs?: number;
   retryMaxDelayMs?: number;
+  /** Sustained request rate (requests/second); 0 disables rate limiting */
+  rateLimitPerSecond?: number;
+  /** Requests that may be sent back-to-back before the rate applies */
+  rateLimitBurst?: number;
+  /** Requests allowed in flight at once; 0 disables the cap */
+  maxConcurrentRequests?: number;
+  /** Consecutive upstream failures that open the circuit; 0 disables it */
+  circuitBreakerThreshold?: number;
+  /** How long the circuit stays open before a trial request */
+  circuitBreakerResetMs?: number;
+  /** How long after expiry a cached GET may still be served during an outage */
+  staleCacheMaxAgeMs?: number;
 }
 
+/**
+ * BambooClientConfig fields that can be changed on a running client
+ */
+export type BambooClientSettings = Omit<
+  BambooClientConfig,
+  'apiKey' | 'subdomain' | 'baseUrl' | 'cacheStore' | 'fixtureStore'
+>;
+
+const DEFAULT_CLIENT_SETTINGS = {
+  cacheTimeoutMs: 300000, // 5 minutes
+  requestTimeoutMs: 30000, // 30 seconds
+  maxRetryAttempts: 3, // Number of retry attempts
+  retryBaseDelayMs: 1000, // Base delay for exponential backoff (1 second)
+  retryMaxDelayMs: 30000, // Maximum delay between retries (30 seconds)
+  rateLimitPerSecond: 10, // Sustained requests per second
+  rateLimitBurst: 10, // Back-to-back requests before throttling
+  maxConcurrentRequests: 5, // Requests in flight at once
+  circuitBreakerThreshold: 5, // Consecutive failures before failing fast
+  circuitBreakerResetMs: 30000, // Wait before probing the API again (30 seconds)
+  staleCacheMaxAgeMs: 24 * 60 * 60 * 1000, // Serve expired GETs up to a day old
+};
+
 /**
  * HTTP request options for BambooHR API calls
  */
@@ -90,6 +371,52 @@ export interface BambooRequestOptions {
   body?: unknown;
   headers?: Record<string, string>;
   skipCache?: boolean;
+  signal?: AbortSignal;
+  /** Accumulates time this call spent queued behind the request limiter */
+  queueStats?: RequestQueueStats;
+  /** Receives an entry for each GET answered from expired cache */
+  staleResponses?: StaleResponseInfo[];
+  /** Receives an entry for every request, for the audit log */
+  dataAccess?: DataAccessInfo[];
+  /** Parent for the request's spans (defaults to the active context) */
+  traceContext?: Context;
+}
+
+/**
+ * Request options once the public method has started the request's trace
+ */
+interface TracedRequestOptions extends BambooRequestOptions {
+  requestTrace: ClientRequestTrace;
+}
+
+/**
+ * Cache effectiveness counters reported by getCacheStats
+ */
+export interface BambooCacheStats {
+  size: number;
+  entries: string[];
+  /** GETs answered from the cache store */
+  hits: number;
+  /** GETs that started a network request */
+  misses: number;
+  /** GETs that joined an identical request already in flight */
+  coalesced: number;
+  /** Network requests currently shared by one or more callers */
+  inFlight: number;
+}
+
+/**
+ * A GET shared by every concurrent caller with the same cache key.
+ * The network request is only aborted once every waiting caller has cancelled.
+ */
+interface InFlightRequest {
+  promise: Promise<unknown>;
+  controller: AbortController;
+  waiters: number;
+  /** Limiter waits of the shared request, added to every caller's stats */
+  queueStats: RequestQueueStats;
+  /** Trace of the caller that started the request; the others link to it */
+  requestTrace: ClientRequestTrace;
 }
 
 /**
@@ -97,23 +424,87 @@ export interface BambooRequestOptions {
  * Encapsulates all HTTP communication with BambooHR API
  */
 export class BambooClient {
-  private readonly config: Required<BambooClientConfig>;
-  private readonly cache = new Map<string, CacheEntry>();
+  private readonly config: Required<Omit<BambooClientConfig, 'fixtureStore'>>;
+  private readonly cache: CacheStore;
+  private readonly fixtures: FixtureStore | null;
+  private readonly inFlight = new Map<string, InFlightRequest>();
+  private readonly cacheCounters = { hits: 0, misses: 0, coalesced: 0 };
+  private limiter: RequestLimiter;
+  private readonly circuit: CircuitBreaker;
   private logger: SimpleLogger;
 
   constructor(config: BambooClientConfig, logger?: SimpleLogger) {
     this.config = {
       baseUrl: `https://api.bamboohr.com/api/gateway.php/${config.subdomain}/v1`,
-      cacheTimeoutMs: 300000, // 5 minutes
-      requestTimeoutMs: 30000, // 30 seconds
-      maxRetryAttempts: 3, // Number of retry attempts
-      retryBaseDelayMs: 1000, // Base delay for exponential backoff (1 second)
-      retryMaxDelayMs: 30000, // Maximum delay between retries (30 seconds)
+      ...DEFAULT_CLIENT_SETTINGS,
+      // An explicit cacheTimeoutMs keeps its single-TTL meaning unless rules are given
+      cacheTtlRules:
+        config.cacheTimeoutMs === undefined ? buildCacheTtlRules() : [],
+      cacheStore: new MemoryCacheStore(),
       ...config,
     };
+    this.cache = this.config.cacheStore;
+    this.fixtures = config.fixtureStore ?? null;
+    this.limiter = this.createLimiter();
+    this.circuit = new CircuitBreaker({
+      failureThreshold: this.config.circuitBreakerThreshold,
+      resetTimeoutMs: this.config.circuitBreakerResetMs,
+    });
     this.logger = logger || defaultLogger;
   }
 
+  private createLimiter(): RequestLimiter {
+    return new RequestLimiter({
+      ratePerSecond: this.config.rateLimitPerSecond,
+      burst: this.config.rateLimitBurst,
+      maxConcurrent: this.config.maxConcurrentRequests,
+    });
+  }
+
+  /**
+   * Replace the tunable settings at runtime (config reload).
+   * Settings left out return to their defaults; credentials, the API root
+   * and the cache and fixture stores cannot be changed.
+   */
+  updateSettings(settings: BambooClientSettings): void {
+    const previous = { ...this.config };
+    const given = Object.fromEntries(
+      Object.entries(settings).filter(([, value]) => value !== undefined)
+    );
+    Object.assign(this.config, DEFAULT_CLIENT_SETTINGS, {
+      cacheTtlRules:
+        settings.cacheTimeoutMs === undefined ? buildCacheTtlRules() : [],
+      ...given,
+    });
+
+    if (
+      previous.rateLimitPerSecond !== this.config.rateLimitPerSecond ||
+      previous.rateLimitBurst !== this.config.rateLimitBurst ||
+      previous.maxConcurrentRequests !== this.config.maxConcurrentRequests
+    ) {
+      // Requests already holding a permit release it to the old limiter
+      this.limiter = this.createLimiter();
+    }
+    this.circuit.configure({
+      failureThreshold: this.config.circuitBreakerThreshold,
+      resetTimeoutMs: this.config.circuitBreakerResetMs,
+    });
+  }
+
+  /**
+   * Current tunable settings
+   */
+  getSettings(): Required<BambooClientSettings> {
+    const {
+      apiKey: _apiKey,
+      subdomain: _subdomain,
+      baseUrl: _baseUrl,
+      cacheStore: _cacheStore,
+      ...settings
+    } = this.config;
+    return { ...settings, cacheTtlRules: [...settings.cacheTtlRules] };
+  }
+
   /**
    * Set the logger instance (for dependency injection)
    */
@@ -132,7 +523,9 @@ export class BambooClient {
     endpoint: string,
     options: Omit<BambooRequestOptions, 'method' | 'body'> = {}
   ): Promise<unknown> {
-    return this.request(endpoint, { ...options, method: 'GET' });
+    return this.trackRequest('GET', endpoint, options, (requestTrace) =>
+      this.request(endpoint, { ...options, method: 'GET', requestTrace })
+    );
   }
 
   /**
@@ -143,11 +536,52 @@ export class BambooClient {
     body: unknown,
     options: Omit<BambooRequestOptions, 'method' | 'body'> = {}
   ): Promise<unknown> {
-    return this.request(endpoint, {
-      ...options,
-      method: 'POST',
-      body,
-      skipCache: true,
+    return this.trackRequest('POST', endpoint, options, (requestTrace) =>
+      this.request(endpoint, {
+        ...options,
+        method: 'POST',
+        body,
+        skipCache: true,
+        requestTrace,
+      })
+    );
+  }
+
+  /**
+   * Fetch binary content (e.g. employee photos) from BambooHR API
+   * Binary responses are never cached
+   */
+  async getBinary(
+    endpoint: string,
+    options: Omit<BambooRequestOptions, 'method' | 'body'> = {}
+  ): Promise<{ data: Buffer; mimeType: string }> {
+    return this.trackRequest('GET', endpoint, options, async (requestTrace) => {
+      this.logger.debug('Making BambooHR binary request:', endpoint);
+
+      requestTrace.recordCache('bypass');
+      const response = await this.makeHttpRequestWithRetry(endpoint, {
+        ...options,
+        method: 'GET',
+        headers: { Accept: '*/*', ...options.headers },
+        requestTrace,
+      });
+
+      if (!response.ok) {
+        throw createHTTPError(
+          await this.buildErrorMessage(response),
+          response.status,
+          response.statusText,
+          undefined,
+          endpoint,
+          this.parseRetryAfter(response)
+        );
+      }
+
+      return {
+        data: Buffer.from(await response.arrayBuffer()),
+        mimeType:
+          response.headers.get('Content-Type') || 'application/octet-stream',
+      };
     });
   }
 
@@ -162,17 +596,36 @@ export class BambooClient {
   /**
    * Get cache statistics for monitoring
    */
-  getCacheStats(): { size: number; entries: string[] } {
+  getCacheStats(): BambooCacheStats {
     const entries: string[] = [];
     const now = Date.now();
 
-    this.cache.forEach((entry, key) => {
+    this.cache.entries().forEach(([key, entry]) => {
       if (entry.expires > now) {
         entries.push(key);
       }
     });
 
-    return { size: entries.length, entries };
+    return {
+      size: entries.length,
+      entries,
+      ...this.cacheCounters,
+      inFlight: this.inFlight.size,
+    };
+  }
+
+  /**
+   * Current circuit breaker state for monitoring
+   */
+  getCircuitState(): CircuitState {
+    return this.circuit.getState();
+  }
+
+  /**
+   * Persist the cache if its store is durable (call before process exit)
+   */
+  flushCache(): void {
+    this.cache.flush?.();
   }
 
   /**
@@ -186,28 +639,202 @@ export class BambooClient {
   // Private Implementation Methods
   // ===========================================================================
 
+  /**
+   * Run a request inside its trace span, and log the endpoint and record
+   * count to `dataAccess` whether the answer came from the API or the cache
+   */
+  private async trackRequest<T>(
+    method: DataAccessInfo['method'],
+    endpoint: string,
+    options: BambooRequestOptions,
+    run: (requestTrace: ClientRequestTrace) => Promise<T>
+  ): Promise<T> {
+    const requestTrace = new ClientRequestTrace(
+      method,
+      endpoint,
+      new URL(this.config.baseUrl).host,
+      options.traceContext
+    );
+    try {
+      const data = await run(requestTrace);
+      options.dataAccess?.push({
+        method,
+        endpoint,
+        records: countRecords(data),
+      });
+      requestTrace.end();
+      return data;
+    } catch (error) {
+      options.dataAccess?.push({ method, endpoint, records: 0, failed: true });
+      requestTrace.end(error);
+      throw error;
+    }
+  }
+
   /**
    * Main request method that handles caching, authentication, and error handling
    */
   private async request(
     endpoint: string,
-    options: BambooRequestOptions = {}
+    options: TracedRequestOptions
   ): Promise<unknown> {
     const method = options.method || 'GET';
     const cacheKey = this.buildCacheKey(endpoint, options);
 
+    if (options.signal?.aborted) {
+      throw new RequestCancelledError(endpoint);
+    }
+
+    if (method !== 'GET' || options.skipCache) {
+      options.requestTrace.recordCache('bypass');
+      return this.fetchAndCache(endpoint, options, cacheKey);
+    }
+
     // Check cache for GET requests (unless explicitly skipped)
-    if (method === 'GET' && !options.skipCache) {
-      const cached = this.getCachedResponse(cacheKey);
-      if (cached !== null) {
-        this.logger.debug(
-          'BambooHR API request served from cache:',
+    const cached = this.getCachedResponse(cacheKey);
+    if (cached !== null) {
+      this.cacheCounters.hits++;
+      options.requestTrace.recordCache('hit');
+      this.logger.debug(
+        'BambooHR API request served from cache:',
+        endpoint,
+        method
+      );
+      return cached;
+    }
+
+    // Single-flight: concurrent identical GETs share one network request
+    let shared = this.inFlight.get(cacheKey);
+    if (shared) {
+      this.cacheCounters.coalesced++;
+      options.requestTrace.recordCache('coalesced');
+      this.logger.debug('BambooHR API request coalesced:', method, endpoint);
+    } else {
+      this.cacheCounters.misses++;
+      options.requestTrace.recordCache('miss');
+      const controller = new AbortController();
+      const queueStats = { requests: 0, queued: 0, waitMs: 0, maxWaitMs: 0 };
+      const entry: InFlightRequest = {
+        controller,
+        waiters: 0,
+        queueStats,
+        requestTrace: options.requestTrace,
+        // No caller's accounting: each records its own once it has the answer
+        promise: this.fetchAndCache(
           endpoint,
-          method
-        );
-        return cached;
+          {
+            method,
+            headers: options.headers,
+            signal: controller.signal,
+            queueStats,
+            requestTrace: options.requestTrace,
+          },
+          cacheKey
+        ).finally(() => {
+          // Unless an abort already replaced it with a newer request
+          if (this.inFlight.get(cacheKey) === entry) {
+            this.inFlight.delete(cacheKey);
+          }
+        }),
+      };
+      this.inFlight.set(cacheKey, entry);
+      shared = entry;
+    }
+
+    try {
+      return await this.awaitInFlight(shared, options, endpoint, cacheKey);
+    } catch (error) {
+      // Outage: an expired answer beats no answer for read-only lookups
+      const stale =
+        error instanceof CircuitOpenError
+          ? this.getStaleResponse(cacheKey)
+          : undefined;
+      if (!stale) {
+        throw error;
       }
+      this.logger.warn(
+        'BambooHR API unavailable, serving stale cached response:',
+        endpoint
+      );
+      options.staleResponses?.push({
+        endpoint,
+        expiredAt: new Date(stale.expires).toISOString(),
+      });
+      options.requestTrace.recordCache('stale');
+      return stale.data;
     }
+  }
+
+  /**
+   * Wait for a shared request on behalf of one caller.
+   * A caller that cancels stops waiting immediately; the network request
+   * itself is aborted only when no other caller is still waiting for it.
+   * Callers that see it settle add its queue stats to their own, and link
+   * their span to the one tracing its attempts.
+   */
+  private awaitInFlight(
+    shared: InFlightRequest,
+    options: TracedRequestOptions,
+    endpoint: string,
+    cacheKey: string
+  ): Promise<unknown> {
+    const { signal } = options;
+    shared.waiters++;
+
+    return new Promise((resolve, reject) => {
+      let settled = false;
+      const settle = () => {
+        settled = true;
+        shared.waiters--;
+        signal?.removeEventListener('abort', onAbort);
+      };
+      const onAbort = () => {
+        if (settled) {
+          return;
+        }
+        settle();
+        if (shared.waiters === 0) {
+          shared.controller.abort();
+          // Later callers start a new request instead of joining this one
+          if (this.inFlight.get(cacheKey) === shared) {
+            this.inFlight.delete(cacheKey);
+          }
+        }
+        reject(new RequestCancelledError(endpoint));
+      };
+
+      signal?.addEventListener('abort', onAbort, { once: true });
+      const record = () => {
+        settle();
+        addQueueStats(options.queueStats, shared.queueStats);
+        options.requestTrace.linkSharedRequest(shared.requestTrace);
+      };
+      shared.promise.then(
+        (data) => {
+          if (!settled) {
+            record();
+            resolve(data);
+          }
+        },
+        (error) => {
+          if (!settled) {
+            record();
+            reject(error);
+          }
+        }
+      );
+    });
+  }
+
+  /**
+   * Perform the network request, parse it and cache successful GET responses
+   */
+  private async fetchAndCache(
+    endpoint: string,
+    options: TracedRequestOptions,
+    cacheKey: string
+  ): Promise<unknown> {
+    const method = options.method || 'GET';
 
     this.logger.debug('Making BambooHR API request:', method, endpoint);
 
@@ -217,7 +844,7 @@ export class BambooClient {
 
       // Cache successful GET responses
       if (method === 'GET' && !options.skipCache) {
-        this.setCachedResponse(cacheKey, data);
+        this.setCachedResponse(cacheKey, endpoint, data);
       }
 
       this.logger.info(
@@ -230,6 +857,11 @@ export class BambooClient {
 
       return data;
     } catch (error) {
+      if (error instanceof RequestCancelledError) {
+        this.logger.info('BambooHR API request cancelled:', method, endpoint);
+        throw error;
+      }
+
       this.logger.error(
         'BambooHR API request failed after all retries:',
         method,
@@ -245,24 +877,28 @@ export class BambooClient {
    */
   private async makeHttpRequestWithRetry(
     endpoint: string,
-    options: BambooRequestOptions
+    options: TracedRequestOptions
   ): Promise<Response> {
+    const { requestTrace } = options;
     let lastError: Error | undefined;
 
     for (let attempt = 0; attempt <= this.config.maxRetryAttempts; attempt++) {
       try {
-        const response = await this.makeHttpRequest(endpoint, options);
+        const response = await this.attemptRequest(endpoint, options, attempt);
 
         // Check if this is a rate limit response that we should retry
         if (response.status === 429) {
           const retryAfter = this.getRetryAfterDelay(response);
+          // Hold every queued request, not just this one, until BambooHR is ready
+          this.limiter.pause(retryAfter);
 
           if (attempt < this.config.maxRetryAttempts) {
             this.logger.warn(
               `Rate limit hit (429) for ${endpoint}, attempt ${attempt + 1}/${this.config.maxRetryAttempts + 1}, waiting ${retryAfter}ms`
             );
 
-            await this.sleep(retryAfter);
+            requestTrace.recordRetry(attempt, 'rate_limited', retryAfter);
+            await this.sleep(retryAfter, options.signal, endpoint);
             continue; // Retry the request
           }
 
@@ -273,12 +909,14 @@ export class BambooClient {
         // Check for other retryable errors (5xx server errors)
         if (response.status >= 500 && response.status < 600) {
           if (attempt < this.config.maxRetryAttempts) {
+            this.assertCircuitClosed(endpoint);
             const delay = this.calculateExponentialBackoffDelay(attempt);
             this.logger.warn(
               `Server error (${response.status}) for ${endpoint}, attempt ${attempt + 1}/${this.config.maxRetryAttempts + 1}, waiting ${delay}ms`
             );
+            requestTrace.recordRetry(attempt, 'server_error', delay);
 
-            await this.sleep(delay);
+            await this.sleep(delay, options.signal, endpoint);
             continue; // Retry the request
           }
         }
@@ -286,6 +924,13 @@ export class BambooClient {
         // Success or non-retryable error
         return response;
       } catch (error) {
+        if (
+          error instanceof RequestCancelledError ||
+          error instanceof CircuitOpenError
+        ) {
+          throw error;
+        }
+
         lastError = error instanceof Error ? error : new Error(String(error));
 
         // Check if this is a retryable network error
@@ -293,12 +938,14 @@ export class BambooClient {
           this.isRetryableNetworkError(lastError) &&
           attempt < this.config.maxRetryAttempts
         ) {
+          this.assertCircuitClosed(endpoint);
           const delay = this.calculateExponentialBackoffDelay(attempt);
           this.logger.warn(
             `Network error for ${endpoint}, attempt ${attempt + 1}/${this.config.maxRetryAttempts + 1}, waiting ${delay}ms: ${lastError.message}`
           );
+          requestTrace.recordRetry(attempt, 'network_error', delay);
 
-          await this.sleep(delay);
+          await this.sleep(delay, options.signal, endpoint);
           continue; // Retry the request
         }
 
@@ -311,6 +958,161 @@ export class BambooClient {
     throw lastError || new Error('Request failed after all retry attempts');
   }
 
+  /**
+   * Send one network attempt through the circuit breaker and request limiter.
+   * 5xx responses and retryable network errors count as upstream failures.
+   */
+  private async attemptRequest(
+    endpoint: string,
+    options: TracedRequestOptions,
+    attempt: number
+  ): Promise<Response> {
+    if (this.fixtures?.mode === 'replay') {
+      return this.fixtures.replay(this.toFixtureRequest(endpoint, options));
+    }
+
+    if (!this.circuit.tryAcquire()) {
+      throw new CircuitOpenError(endpoint, this.circuit.retryAfterMs);
+    }
+
+    try {
+      const permit = await this.acquirePermit(endpoint, options);
+      const endAttempt = options.requestTrace.startAttempt(attempt);
+      let response: Response;
+      try {
+        response = await this.makeHttpRequest(endpoint, options);
+        endAttempt(response.status);
+      } catch (error) {
+        endAttempt(error instanceof Error ? error : new Error(String(error)));
+        throw error;
+      } finally {
+        permit.release();
+      }
+
+      if (this.fixtures?.mode === 'record') {
+        await this.recordFixture(endpoint, options, response);
+      }
+
+      if (response.status >= 500 && response.status < 600) {
+        this.recordCircuitFailure();
+      } else {
+        this.recordCircuitSuccess();
+      }
+      return response;
+    } catch (error) {
+      if (
+        error instanceof Error &&
+        !(error instanceof RequestCancelledError) &&
+        this.isRetryableNetworkError(error)
+      ) {
+        this.recordCircuitFailure();
+      } else {
+        this.circuit.abandonTrial();
+      }
+      throw error;
+    }
+  }
+
+  private toFixtureRequest(
+    endpoint: string,
+    options: BambooRequestOptions
+  ): FixtureRequest {
+    return {
+      method: options.method || 'GET',
+      endpoint,
+      ...(options.body !== undefined && { body: options.body }),
+    };
+  }
+
+  /**
+   * Save a sanitized copy of the response; a failed write never fails the request
+   */
+  private async recordFixture(
+    endpoint: string,
+    options: BambooRequestOptions,
+    response: Response
+  ): Promise<void> {
+    try {
+      await this.fixtures!.record(
+        this.toFixtureRequest(endpoint, options),
+        response.clone()
+      );
+    } catch (error) {
+      this.logger.warn(
+        'Failed to record BambooHR fixture:',
+        endpoint,
+        error instanceof Error ? error.message : error
+      );
+    }
+  }
+
+  private recordCircuitFailure(): void {
+    const wasOpen = this.circuit.getState() === 'open';
+    this.circuit.recordFailure();
+    if (!wasOpen && this.circuit.getState() === 'open') {
+      this.logger.warn(
+        `BambooHR API circuit breaker opened after repeated failures; failing fast for ${this.circuit.retryAfterMs}ms`
+      );
+    }
+  }
+
+  private recordCircuitSuccess(): void {
+    if (this.circuit.getState() !== 'closed') {
+      this.logger.info('BambooHR API circuit breaker closed: API recovered');
+    }
+    this.circuit.recordSuccess();
+  }
+
+  /**
+   * Stop retrying once the circuit has opened (possibly due to other requests)
+   */
+  private assertCircuitClosed(endpoint: string): void {
+    if (this.circuit.getState() === 'open') {
+      throw new CircuitOpenError(endpoint, this.circuit.retryAfterMs);
+    }
+  }
+
+  /**
+   * Wait for the request limiter before a network attempt.
+   * Time spent queued is logged and added to the caller's queue stats.
+   */
+  private async acquirePermit(
+    endpoint: string,
+    options: TracedRequestOptions
+  ): Promise<RequestPermit> {
+    let permit: RequestPermit;
+    try {
+      permit = await this.limiter.acquire(options.signal);
+    } catch (error) {
+      if (error instanceof QueueAbortedError) {
+        throw new RequestCancelledError(endpoint);
+      }
+      throw error;
+    }
+
+    const queued = permit.queuedFor.length > 0;
+    options.requestTrace.recordRateLimitWait(permit.waitedMs, permit.queuedFor);
+    const stats = options.queueStats;
+    if (stats) {
+      stats.requests++;
+      if (queued) {
+        stats.queued++;
+        stats.waitMs += permit.waitedMs;
+        stats.maxWaitMs = Math.max(stats.maxWaitMs, permit.waitedMs);
+      }
+    }
+
+    if (queued) {
+      this.logger.info(
+        `BambooHR API request queued ${permit.waitedMs}ms by ${permit.queuedFor.join(' and ')} limit:`,
+        endpoint,
+        this.limiter.getStats()
+      );
+    }
+
+    return permit;
+  }
+
   /**
    * Make the actual HTTP request to BambooHR API
    */
@@ -354,31 +1156,38 @@ export class BambooClient {
       fetchConfig.body = JSON.stringify(options.body);
     }
 
-    try {
-      // Add timeout wrapper for complex queries
-      const controller = new AbortController();
-      const timeoutId = setTimeout(
-        () => controller.abort(),
-        this.config.requestTimeoutMs
-      );
+    // Add timeout wrapper for complex queries, chained to the caller's signal
+    const controller = new AbortController();
+    const timeoutId = setTimeout(
+      () => controller.abort(),
+      this.config.requestTimeoutMs
+    );
+    const onCallerAbort = () => controller.abort();
+    options.signal?.addEventListener('abort', onCallerAbort, { once: true });
 
+    try {
       fetchConfig.signal = controller.signal;
 
-      const response = await fetch(url, fetchConfig);
-      clearTimeout(timeoutId);
-
-      return response;
+      return await fetch(url, fetchConfig);
     } catch (networkError) {
-      if (networkError instanceof Error && networkError.name === 'AbortError') {
-        const timeoutSeconds = this.config.requestTimeoutMs / 1000;
-        throw new Error(
-          `Request to BambooHR API timed out after ${timeoutSeconds} seconds: ${endpoint}`
-        );
+      if (options.signal?.aborted) {
+        throw new RequestCancelledError(endpoint);
+      }
+
+      // Our own timeout fired (the caller's signal was checked above)
+      if (controller.signal.aborted) {
+        throw new TimeoutError(endpoint, this.config.requestTimeoutMs);
       }
 
-      throw new Error(
-        `Network error connecting to BambooHR API: ${networkError instanceof Error ? networkError.message : 'Unknown network error'}`
+      throw new NetworkError(
+        networkError instanceof Error
+          ? networkError.message
+          : 'Unknown network error',
+        endpoint
       );
+    } finally {
+      clearTimeout(timeoutId);
+      options.signal?.removeEventListener('abort', onCallerAbort);
     }
   }
 
@@ -416,11 +1225,13 @@ export class BambooClient {
         // Ignore parsing errors for error data
       }
 
-      throw new HTTPError(
+      throw createHTTPError(
         errorMessage,
         response.status,
         response.statusText,
-        errorData
+        errorData,
+        endpoint,
+        this.parseRetryAfter(response)
       );
     }
 
@@ -451,8 +1262,9 @@ export class BambooClient {
 
       // Check if response looks like HTML (common error page)
       if (responseText.trim().startsWith('<')) {
-        throw new Error(
-          `BambooHR returned HTML instead of JSON. This usually indicates an authentication or server error. Endpoint: ${endpoint}`
+        throw new MalformedResponseError(
+          `BambooHR returned HTML instead of JSON. This usually indicates an authentication or server error. Endpoint: ${endpoint}`,
+          endpoint
         );
       }
 
@@ -461,13 +1273,16 @@ export class BambooClient {
         responseText.trim().startsWith('{') ||
         responseText.trim().startsWith('[')
       ) {
-        throw new Error(
-          `Incomplete JSON response from BambooHR API. Response was truncated or corrupted. Endpoint: ${endpoint}`
+        throw new MalformedResponseError(
+          `Incomplete JSON response from BambooHR API. Response was truncated or corrupted. Endpoint: ${endpoint}`,
+          endpoint
         );
       }
 
-      const error = `Invalid JSON response from BambooHR API: ${parseError instanceof Error ? parseError.message : 'Unknown parsing error'}`;
-      throw new Error(error);
+      throw new MalformedResponseError(
+        `Invalid JSON response from BambooHR API: ${parseError instanceof Error ? parseError.message : 'Unknown parsing error'}`,
+        endpoint
+      );
     }
   }
 
@@ -546,8 +1361,8 @@ export class BambooClient {
       return cached.data;
     }
 
-    // Remove expired entries
-    if (cached) {
+    // Expired entries are kept as a fallback while stale data is still useful
+    if (cached && !this.isServableWhenStale(cached)) {
       this.cache.delete(cacheKey);
     }
 
@@ -555,12 +1370,34 @@ export class BambooClient {
   }
 
   /**
-   * Store response in cache with TTL
+   * Look up an expired entry that may be served while the circuit is open
+   */
+  private getStaleResponse(cacheKey: string): CacheEntry | undefined {
+    const cached = this.cache.get(cacheKey);
+    return cached && this.isServableWhenStale(cached) ? cached : undefined;
+  }
+
+  private isServableWhenStale(entry: CacheEntry): boolean {
+    return Date.now() - entry.expires <= this.config.staleCacheMaxAgeMs;
+  }
+
+  /**
+   * Store response in cache with the TTL configured for its endpoint
    */
-  private setCachedResponse(cacheKey: string, data: unknown): void {
+  private setCachedResponse(
+    cacheKey: string,
+    endpoint: string,
+    data: unknown
+  ): void {
     this.cache.set(cacheKey, {
       data,
-      expires: Date.now() + this.config.cacheTimeoutMs,
+      expires:
+        Date.now() +
+        resolveCacheTtl(
+          endpoint,
+          this.config.cacheTtlRules,
+          this.config.cacheTimeoutMs
+        ),
     });
   }
 
@@ -572,22 +1409,10 @@ export class BambooClient {
    * Get retry delay from Retry-After header or use exponential backoff
    */
   private getRetryAfterDelay(response: Response): number {
-    const retryAfterHeader = response.headers.get('Retry-After');
-
-    if (retryAfterHeader) {
-      // Retry-After can be in seconds or a date
-      const retryAfterSeconds = parseInt(retryAfterHeader, 10);
-      if (!isNaN(retryAfterSeconds)) {
-        // Convert seconds to milliseconds, but cap at max delay
-        return Math.min(retryAfterSeconds * 1000, this.config.retryMaxDelayMs);
-      }
-
-      // Try parsing as date
-      const retryAfterDate = new Date(retryAfterHeader);
-      if (!isNaN(retryAfterDate.getTime())) {
-        const delayMs = retryAfterDate.getTime() - Date.now();
-        return Math.min(Math.max(delayMs, 0), this.config.retryMaxDelayMs);
-      }
+    const retryAfterMs = this.parseRetryAfter(response);
+    if (retryAfterMs !== undefined) {
+      // Honour the server's delay, but cap at max delay
+      return Math.min(retryAfterMs, this.config.retryMaxDelayMs);
     }
 
     // Fallback to exponential backoff for rate limits
@@ -597,6 +1422,28 @@ export class BambooClient {
     );
   }
 
+  /**
+   * Read the Retry-After header (seconds or HTTP date) as milliseconds
+   */
+  private parseRetryAfter(response: Response): number | undefined {
+    const retryAfterHeader = response.headers.get('Retry-After');
+    if (!retryAfterHeader) {
+      return undefined;
+    }
+
+    const retryAfterSeconds = parseInt(retryAfterHeader, 10);
+    if (!isNaN(retryAfterSeconds)) {
+      return retryAfterSeconds * 1000;
+    }
+
+    const retryAfterDate = new Date(retryAfterHeader);
+    if (!isNaN(retryAfterDate.getTime())) {
+      return Math.max(retryAfterDate.getTime() - Date.now(), 0);
+    }
+
+    return undefined;
+  }
+
   /**
    * Calculate exponential backoff delay with jitter
    */
@@ -614,31 +1461,36 @@ export class BambooClient {
   }
 
   /**
-   * Check if error is retryable (network errors, timeouts, etc.)
+   * Check if error is retryable (network errors and timeouts)
    */
   private isRetryableNetworkError(error: Error): boolean {
-    // Network-related errors that should be retried (all lowercase for consistent comparison)
-    const retryableErrorMessages = [
-      'fetch is not defined',
-      'network error',
-      'timeout',
-      'connection',
-      'econnreset',
-      'enotfound',
-      'econnrefused',
-      'etimedout',
-      'socket hang up',
-    ];
-
-    const errorMessage = error.message.toLowerCase();
-    return retryableErrorMessages.some((msg) => errorMessage.includes(msg));
+    return error instanceof NetworkError || error instanceof TimeoutError;
   }
 
   /**
-   * Sleep for specified milliseconds
+   * Sleep for specified milliseconds, waking early if the caller cancels
    */
-  private sleep(ms: number): Promise<void> {
-    return new Promise((resolve) => setTimeout(resolve, ms));
+  private sleep(
+    ms: number,
+    signal?: AbortSignal,
+    endpoint = ''
+  ): Promise<void> {
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(new RequestCancelledError(endpoint));
+        return;
+      }
+
+      const onAbort = () => {
+        clearTimeout(timeoutId);
+        reject(new RequestCancelledError(endpoint));
+      };
+      const timeoutId = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+      }, ms);
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
   }
 }
 
@@ -15,29 +15,98 @@
 
 import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
+import type { RequestHandlerExtra } from '@modelcontextprotocol/sdk/shared/protocol.js';
 import {
   CallToolRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
   ListToolsRequestSchema,
+  ReadResourceRequestSchema,
+  SetLevelRequestSchema,
+  type CallToolRequest,
+  type ServerNotification,
+  type ServerRequest,
 } from '@modelcontextprotocol/sdk/types.js';
+import { context as otelContext } from '@opentelemetry/api';
 
+import * as path from 'node:path';
+import {
+  AuditLog,
+  type AuditClientIdentity,
+  type AuditMethod,
+  type AuditOutcome,
+} from './audit/auditLog.js';
 import { BambooClient } from './bamboo-client.js';
+import {
+  FileCacheStore,
+  MemoryCacheStore,
+  type CacheStore,
+} from './cache/cacheStore.js';
+import { FixtureStore } from './fixtures/fixtureStore.js';
+import { configurePiiPolicy } from './privacy/piiPolicy.js';
+import { EmployeeSnapshotStore } from './snapshots/employeeSnapshots.js';
+import { ToolCallTrace, configureTelemetry } from './telemetry/telemetry.js';
+import {
+  TenantRegistry,
+  loadTenantsFile,
+  type TenantConfig,
+  type TenantsConfig,
+} from './tenants/tenantRegistry.js';
 import { BAMBOO_TOOLS } from './config/toolDefinitions.js';
+import {
+  ConfigValidationError,
+  diffServerConfig,
+  loadServerConfig,
+  toAuditSanitizationRules,
+  toClientSettings,
+  toLoggerConfig,
+  toPiiPolicy,
+  type LoadedServerConfig,
+} from './config/serverConfig.js';
 import {
   initializeToolRouter,
+  assertToolEnabled,
+  configureToolEnablement,
+  getEnabledTools,
   getToolHandler,
   hasToolHandler,
+  validateToolArguments,
 } from './config/toolRouter.js';
 // Initialize domain-specific handlers
-import { initializeEmployeeHandlers } from './handlers/employeeHandlers.js';
+import {
+  configureEmployeeSnapshots,
+  initializeEmployeeHandlers,
+} from './handlers/employeeHandlers.js';
 import { initializeTimeOffHandlers } from './handlers/timeOffHandlers.js';
 import { initializeDatasetHandlers } from './handlers/datasetHandlers.js';
 import { initializeWorkforceAnalyticsHandlers } from './handlers/workforceAnalyticsHandlers.js';
 import { initializeReportHandlers } from './handlers/reportHandlers.js';
 import { initializeOrganizationHandlers } from './handlers/organizationHandlers.js';
+import { initializeCompanyHandlers } from './handlers/companyHandlers.js';
+import {
+  initializeResourceHandlers,
+  handleListResources,
+  handleListResourceTemplates,
+  handleReadResource,
+} from './handlers/resourceHandlers.js';
 import * as formatters from './formatters.js';
-import { extractProgressToken } from './utils/progressTracker.js';
-import { mcpLogger } from './utils/mcpLogger.js';
-import type { MCPRequest, ToolContext } from './types.js';
+import {
+  createProgressContext,
+  extractProgressToken,
+} from './utils/progressTracker.js';
+import { BambooErrorType, bambooErrorHandler } from './utils/errorHandler.js';
+import { LOG_CATEGORIES, mcpLogger } from './utils/mcpLogger.js';
+import { createQueueStats } from './utils/requestOptions.js';
+import { startHttpTransport } from './transports/httpTransport.js';
+import { redactText } from './utils/sanitize.js';
+import type {
+  DataAccessInfo,
+  MCPRequest,
+  MCPToolResponse,
+  RedactedFieldInfo,
+  StaleResponseInfo,
+  ToolContext,
+} from './types.js';
 
 // Enhanced logger with structured output for 2025-06-18 compliance
 // Maintain compatibility with existing handler interface while adding structured logging
@@ -68,7 +137,7 @@ const logger = {
       args.length > 0 ? { additionalData: args } : undefined
     ),
   fatal: (msg: string, ...args: unknown[]) =>
-    mcpLogger.error(
+    mcpLogger.critical(
       'server',
       `FATAL: ${msg}`,
       args.length > 0 ? { additionalData: args } : undefined
@@ -76,46 +145,193 @@ const logger = {
   child: () => logger,
 };
 
-// Environment validation with enhanced security
-const API_KEY = process.env.BAMBOO_API_KEY;
-const SUBDOMAIN = process.env.BAMBOO_SUBDOMAIN;
+// Configuration: optional JSON/YAML file (--config or BAMBOO_CONFIG_FILE),
+// overridden by environment variables, overridden by CLI flags
+function loadConfiguration(): LoadedServerConfig {
+  try {
+    return loadServerConfig({ argv: process.argv.slice(2) });
+  } catch (error) {
+    if (error instanceof ConfigValidationError) {
+      logger.fatal(error.message);
+      process.exit(1);
+    }
+    throw error;
+  }
+}
+
+const LOADED_CONFIG = loadConfiguration();
+let CONFIG = LOADED_CONFIG.config;
+mcpLogger.configure(toLoggerConfig(CONFIG));
+configurePiiPolicy(toPiiPolicy(CONFIG));
+configureTelemetry({ enabled: CONFIG.telemetry.enabled });
 
-if (!API_KEY || !SUBDOMAIN) {
-  logger.fatal(
-    'Missing required environment variables:',
-    `BAMBOO_API_KEY: ${!API_KEY ? 'missing' : 'present'}`,
-    `BAMBOO_SUBDOMAIN: ${!SUBDOMAIN ? 'missing' : 'present'}`
-  );
-  process.exit(1);
+// Fixture mode: record sanitized API traffic, or replay it without network access
+const RECORD_DIR = CONFIG.fixtures.recordDir;
+const REPLAY_DIR = CONFIG.fixtures.replayDir;
+
+// Companies: a companies file lists several tenants; otherwise a single
+// company comes from BAMBOO_API_KEY / BAMBOO_SUBDOMAIN
+const COMPANIES_FILE = CONFIG.bamboo.companiesFile;
+
+// Alternative API root, e.g. the local fake server (npm run fake-api)
+const BASE_URL = CONFIG.bamboo.baseUrl;
+
+function loadCompaniesFromFile(filePath: string): TenantsConfig {
+  try {
+    // Replay never calls BambooHR, so API keys are optional there
+    return loadTenantsFile(filePath, { requireApiKey: !REPLAY_DIR });
+  } catch (error) {
+    logger.fatal(
+      'Invalid BAMBOO_COMPANIES_FILE:',
+      error instanceof Error ? error.message : error
+    );
+    process.exit(1);
+  }
 }
 
-if (API_KEY.trim() === '' || SUBDOMAIN.trim() === '') {
-  logger.fatal(
-    'Environment variables cannot be empty:',
-    `BAMBOO_API_KEY empty: ${API_KEY.trim() === ''}`,
-    `BAMBOO_SUBDOMAIN empty: ${SUBDOMAIN.trim() === ''}`
+function loadCompanyFromEnvironment(): TenantsConfig {
+  // Credential validation with enhanced security
+  // (replay never calls BambooHR, so credentials are optional there)
+  const apiKey = CONFIG.bamboo.apiKey || (REPLAY_DIR ? 'replay' : undefined);
+  const subdomain =
+    CONFIG.bamboo.subdomain || (REPLAY_DIR ? 'replay' : undefined);
+
+  if (!apiKey || !subdomain) {
+    logger.fatal(
+      'Missing required environment variables:',
+      `BAMBOO_API_KEY: ${!apiKey ? 'missing' : 'present'}`,
+      `BAMBOO_SUBDOMAIN: ${!subdomain ? 'missing' : 'present'}`
+    );
+    process.exit(1);
+  }
+
+  // Validate subdomain format (security enhancement)
+  const subdomainPattern = /^[a-zA-Z0-9-]+$/;
+  if (!subdomainPattern.test(subdomain)) {
+    logger.fatal(
+      'Invalid BAMBOO_SUBDOMAIN format. Must contain only letters, numbers, and hyphens. Got:',
+      subdomain
+    );
+    process.exit(1);
+  }
+
+  return {
+    defaultCompany: subdomain,
+    companies: [
+      {
+        name: subdomain,
+        subdomain,
+        apiKey,
+        ...(BASE_URL && { baseUrl: BASE_URL }),
+      },
+    ],
+  };
+}
+
+const COMPANIES = COMPANIES_FILE
+  ? loadCompaniesFromFile(COMPANIES_FILE)
+  : loadCompanyFromEnvironment();
+const MULTI_COMPANY = COMPANIES.companies.length > 1;
+
+// Transport selection: stdio (default, one client per process) or Streamable HTTP
+const TRANSPORT = CONFIG.transport.mode;
+const HTTP_PORT = CONFIG.transport.port;
+const HTTP_HOST = CONFIG.transport.host;
+const HTTP_ALLOWED_HOSTS = CONFIG.transport.allowedHosts;
+const HTTP_ALLOWED_ORIGINS = CONFIG.transport.allowedOrigins;
+const HTTP_SESSION_IDLE_TIMEOUT_MS = CONFIG.transport.sessionIdleTimeoutMs;
+
+// Each company gets its own cache; with several companies, the cache file
+// becomes one file per company (cache.json -> cache.<company>.json)
+function createCacheStore(tenant: TenantConfig): CacheStore {
+  const { file: cacheFile, maxEntries } = CONFIG.cache;
+  if (!cacheFile) {
+    return new MemoryCacheStore(maxEntries);
+  }
+  const parsed = path.parse(cacheFile);
+  return new FileCacheStore({
+    filePath: MULTI_COMPANY
+      ? path.join(parsed.dir, `${parsed.name}.${tenant.name}${parsed.ext}`)
+      : cacheFile,
+    maxEntries,
+    namespace: tenant.subdomain,
+  });
+}
+
+// With several companies each one records to / replays from its own subdirectory
+function createFixtureStore(tenant: TenantConfig): FixtureStore | undefined {
+  const dir = REPLAY_DIR || RECORD_DIR;
+  if (!dir) {
+    return undefined;
+  }
+  try {
+    return new FixtureStore(
+      REPLAY_DIR ? 'replay' : 'record',
+      MULTI_COMPANY ? path.join(dir, tenant.name) : dir
+    );
+  } catch (error) {
+    logger.fatal(
+      'Invalid fixture directory:',
+      error instanceof Error ? error.message : error
+    );
+    process.exit(1);
+  }
+}
+
+if (REPLAY_DIR || RECORD_DIR) {
+  logger.warn(
+    REPLAY_DIR
+      ? `Replaying recorded BambooHR fixtures from ${REPLAY_DIR}; no API calls will be made`
+      : `Recording sanitized BambooHR fixtures to ${RECORD_DIR}`
   );
-  process.exit(1);
 }
 
-// Validate subdomain format (security enhancement)
-const subdomainPattern = /^[a-zA-Z0-9-]+$/;
-if (!subdomainPattern.test(SUBDOMAIN)) {
-  logger.fatal(
-    'Invalid BAMBOO_SUBDOMAIN format. Must contain only letters, numbers, and hyphens. Got:',
-    SUBDOMAIN
+// Audit log: one hash-chained JSON line per tool call and resource read
+function openAuditLog(): AuditLog | undefined {
+  const { file, key, maxBytes, maxFiles } = CONFIG.audit;
+  if (!file) {
+    return undefined;
+  }
+  try {
+    return new AuditLog({
+      filePath: file,
+      maxBytes,
+      maxFiles,
+      key,
+      sanitizationRules: toAuditSanitizationRules(CONFIG),
+    });
+  } catch (error) {
+    logger.fatal(
+      'Cannot open audit log:',
+      error instanceof Error ? error.message : error
+    );
+    process.exit(1);
+  }
+}
+
+const auditLog = openAuditLog();
+
+// One BambooHR client per company, with the client settings shared
+function createTenantClient(tenant: TenantConfig): BambooClient {
+  const fixtureStore = createFixtureStore(tenant);
+  return new BambooClient(
+    {
+      apiKey: tenant.apiKey,
+      subdomain: tenant.subdomain,
+      ...(tenant.baseUrl && { baseUrl: tenant.baseUrl }),
+      cacheStore: createCacheStore(tenant),
+      ...(fixtureStore && { fixtureStore }),
+      ...toClientSettings(CONFIG),
+    },
+    // Client logs go out under the bamboo-client category
+    mcpLogger.forCategory(LOG_CATEGORIES.bambooClient)
   );
-  process.exit(1);
 }
 
-// Initialize BambooHR client with environment configuration
-const bambooClient = new BambooClient({
-  apiKey: API_KEY,
-  subdomain: SUBDOMAIN,
-  ...(process.env.CACHE_TIMEOUT_MS && {
-    cacheTimeoutMs: parseInt(process.env.CACHE_TIMEOUT_MS, 10),
-  }),
-});
+const tenants = new TenantRegistry(COMPANIES, createTenantClient);
+
+// The default company's client serves calls and resource URIs without a company
+const bambooClient = tenants.getDefault().client;
 
 // Initialize dependencies for domain-specific handlers
 const handlerDependencies = {
@@ -125,36 +341,52 @@ const handlerDependencies = {
 };
 
 initializeEmployeeHandlers(handlerDependencies);
+configureEmployeeSnapshots(new EmployeeSnapshotStore(CONFIG.snapshots.file));
 initializeTimeOffHandlers(handlerDependencies);
 initializeDatasetHandlers(handlerDependencies);
 initializeWorkforceAnalyticsHandlers(handlerDependencies);
 initializeReportHandlers(handlerDependencies);
 initializeOrganizationHandlers(handlerDependencies);
+initializeCompanyHandlers(tenants);
+initializeResourceHandlers(handlerDependencies, tenants);
+
+// Initialize tool router with real handlers, offering the configured profile
+initializeToolRouter(CONFIG.tools);
 
-// Initialize tool router with real handlers
-initializeToolRouter();
-
-// Create modern MCP server with 2025-06-18 compliance
-const server = new Server(
-  {
-    name: 'bamboohr-mcp',
-    version: '1.1.1',
-    title: 'BambooHR MCP Server',
-    description:
-      'Unofficial BambooHR integration for workforce analytics and HR data access',
+// Server identity and capabilities shared by every transport
+const SERVER_INFO = {
+  name: 'bamboohr-mcp',
+  version: '1.1.1',
+  title: 'BambooHR MCP Server',
+  description:
+    'Unofficial BambooHR integration for workforce analytics and HR data access',
+};
+
+const SERVER_OPTIONS = {
+  capabilities: {
+    // Both lists follow the tool settings, which a reload can change
+    tools: { listChanged: true },
+    resources: { listChanged: true },
+    logging: {},
+    elicitation: false, // Explicitly declare elicitation capability per 2025-06-18
   },
-  {
-    capabilities: {
-      tools: {},
-      elicitation: false, // Explicitly declare elicitation capability per 2025-06-18
-    },
-    instructions: `BambooHR MCP Server - Discovery-driven workforce analytics with 2025-06-18 compliance
+  instructions: `BambooHR MCP Server - Discovery-driven workforce analytics with 2025-06-18 compliance
 
 Core Tools:
 • bamboo_find_employee - Find employees by name/email/ID (enhanced with structured outputs)
+• bamboo_get_employee - Full employee profile with custom fields and job/compensation history
+• bamboo_employee_changes - What changed in employee records since a date, with field-level diffs
 • bamboo_whos_out - See who's on leave (with metadata)
 • bamboo_team_info - Get department roster (with analytics metadata)
 • bamboo_time_off_requests - View time-off requests
+• bamboo_time_off_balance - Current and projected time-off balances of an employee, by name or ID
+• bamboo_list_time_off_types - Time-off types with IDs and units; use the names to filter time-off requests
+• bamboo_list_time_off_policies - Time-off policies, optionally for one type
+
+Org Chart Tools:
+• bamboo_manager_chain - An employee's managers up to the CEO
+• bamboo_reports - Direct and indirect reports of a manager
+• bamboo_org_chart - Department or company tree with span of control and reporting issues
 
 Discovery Tools (Use These First):
 • bamboo_discover_datasets - See what datasets are available
@@ -167,6 +399,14 @@ Analytics Tools:
 Additional Tools:
 • bamboo_get_employee_photo - Get employee profile photos
 • bamboo_list_departments - List all company departments
+• bamboo_list_companies - List configured companies; pass one as "company" to any other tool
+
+Resources:
+• employee://{id} - Employee record
+• employee://{id}/photo - Employee profile photo
+• department://{name} - Department roster
+• report://{id} - Custom report results
+With several companies, resource URIs end in ?company=<name>; without it they read the default company
 
 Features:
 - Structured tool outputs with _meta fields and resource links
@@ -175,15 +415,15 @@ Features:
 - Read-only access with comprehensive security validation
 
 All tools are read-only. For analytics, always use discovery tools first to understand API structure.`,
-  }
-);
+};
 
-// Set up MCP logger with server instance
-mcpLogger.setServer(server);
 mcpLogger.startup('info', 'BambooHR MCP Server initialized', {
-  serverName: 'bamboohr-mcp',
-  version: '1.1.1',
+  serverName: SERVER_INFO.name,
+  version: SERVER_INFO.version,
+  transport: TRANSPORT,
   toolCount: BAMBOO_TOOLS.length,
+  toolProfile: CONFIG.tools.profile,
+  enabledToolCount: getEnabledTools().length,
   handlerModules: [
     'employeeHandlers',
     'timeOffHandlers',
@@ -191,38 +431,200 @@ mcpLogger.startup('info', 'BambooHR MCP Server initialized', {
     'workforceAnalyticsHandlers',
     'reportHandlers',
     'organizationHandlers',
+    'companyHandlers',
+    'resourceHandlers',
   ],
+  companyCount: tenants.size,
 });
 
 // Modern MCP tool registration with enhanced structured outputs
-server.setRequestHandler(ListToolsRequestSchema, async () => {
+async function handleListTools() {
   return {
-    tools: BAMBOO_TOOLS,
+    tools: getEnabledTools(),
+  };
+}
+
+// Who is calling: the client's initialize info plus the HTTP session
+function describeClient(
+  server: Server,
+  extra: RequestHandlerExtra<ServerRequest, ServerNotification>
+): AuditClientIdentity {
+  const clientInfo = server.getClientVersion();
+  return {
+    ...(clientInfo && { name: clientInfo.name, version: clientInfo.version }),
+    transport: TRANSPORT,
+    ...(extra.sessionId && { sessionId: extra.sessionId }),
+  };
+}
+
+/**
+ * Audit trail for one request; only the first outcome is recorded.
+ * `record` throws if the audit log cannot be written, so successful calls
+ * return no HR data unaudited; `recordQuietly` only logs the failure, for
+ * calls that return no data anyway.
+ */
+function createRequestAudit(
+  method: AuditMethod,
+  target: string,
+  args: Record<string, unknown>,
+  context: ToolContext,
+  client: AuditClientIdentity
+) {
+  const startTime = Date.now();
+  let recorded = false;
+
+  const record = (outcome: AuditOutcome, error?: unknown): void => {
+    if (!auditLog || recorded) {
+      return;
+    }
+    recorded = true;
+    auditLog.write({
+      method,
+      target,
+      arguments: args,
+      company: context.company,
+      client,
+      dataAccess: context.dataAccess ?? [],
+      durationMs: Date.now() - startTime,
+      outcome,
+      ...(error !== undefined && {
+        error: redactText(
+          error instanceof Error ? error.message : String(error)
+        ),
+      }),
+    });
+  };
+
+  const recordQuietly = (outcome: AuditOutcome, error?: unknown): void => {
+    try {
+      record(outcome, error);
+    } catch (auditError) {
+      logger.error(
+        'Audit log write failed:',
+        auditError instanceof Error ? auditError.message : auditError
+      );
+    }
   };
-});
 
-server.setRequestHandler(CallToolRequestSchema, async (request) => {
+  return { record, recordQuietly };
+}
+
+function createCancelledResult(toolName: string) {
+  return {
+    content: [
+      {
+        type: 'text',
+        text: `Tool execution cancelled: ${toolName}`,
+        _meta: {
+          toolName,
+          error: true,
+          cancelled: true,
+          timestamp: new Date().toISOString(),
+          protocolVersion: '2025-06-18',
+        },
+      },
+    ],
+    isError: true,
+  };
+}
+
+/**
+ * errorType of a result a handler returned instead of throwing, or
+ * undefined if the call succeeded
+ */
+function getResultErrorType(
+  result: MCPToolResponse | undefined
+): string | undefined {
+  const meta = result?.content?.[0]?._meta;
+  if (!result?.isError && meta?.error !== true) {
+    return undefined;
+  }
+  return typeof meta?.errorType === 'string'
+    ? meta.errorType
+    : BambooErrorType.UNKNOWN_ERROR;
+}
+
+async function handleCallTool(
+  server: Server,
+  request: CallToolRequest,
+  extra: RequestHandlerExtra<ServerRequest, ServerNotification>
+) {
   const { name, arguments: args } = request.params;
+  const queueStats = createQueueStats();
+  const staleResponses: StaleResponseInfo[] = [];
+  const redactedFields: RedactedFieldInfo[] = [];
+  const dataAccess: DataAccessInfo[] = [];
+  const toolTrace = new ToolCallTrace(name);
 
   // Extract context for 2025-06-18 compliance features
   const context: ToolContext = {
     _meta: {
       ...((request.params._meta as Record<string, unknown>) || {}),
     },
+    // Aborted by the SDK on notifications/cancelled or transport close
+    signal: extra.signal,
+    // Filled in by BambooClient when requests wait on the rate/concurrency limit
+    queueStats,
+    // Filled in by BambooClient when a GET falls back to expired cache
+    staleResponses,
+    // Filled in by redactPii when the PII policy changes API data
+    redactedFields,
+    // Filled in by BambooClient with each endpoint read, for the audit log
+    dataAccess,
+    // BambooClient request spans become children of the tool call's span
+    traceContext: toolTrace.traceContext,
   };
+  const audit = createRequestAudit(
+    'tools/call',
+    name,
+    args || {},
+    context,
+    describeClient(server, extra)
+  );
 
-  // Extract progress token if present
+  // Extract progress token if present and wire real progress notifications
   const progressToken = extractProgressToken(request as MCPRequest);
-  if (progressToken) {
+  if (progressToken !== null) {
+    const progress = createProgressContext(
+      progressToken,
+      extra.sendNotification
+    );
     context._meta!.progressToken = progressToken;
+    context.progressToken = progressToken;
+    context.isEnabled = true;
+    context.sendProgress = progress.sendProgress;
   }
 
-  // Validate tool exists
-  if (!hasToolHandler(name)) {
-    throw new Error(
-      `Unknown tool: ${name}. Available tools: ${BAMBOO_TOOLS.map((t) => t.name).join(', ')}`
-    );
+  let tenant: ReturnType<typeof tenants.resolve>;
+  try {
+    // Validate tool exists (listing only the tools this deployment offers)
+    if (!hasToolHandler(name)) {
+      throw new Error(
+        `Unknown tool: ${name}. Available tools: ${getEnabledTools()
+          .map((t) => t.name)
+          .join(', ')}`
+      );
+    }
+
+    // Tools outside the configured profile or allow/deny lists are rejected
+    assertToolEnabled(name);
+
+    // Reject malformed arguments with INVALID_PARAMS before dispatch
+    validateToolArguments(name, args || {});
+
+    // Route the call to its company's client (INVALID_PARAMS if unknown)
+    tenant = tenants.resolve(args?.company);
+  } catch (error) {
+    audit.recordQuietly('rejected', error);
+    toolTrace.end('rejected', BambooErrorType.VALIDATION, error);
+    throw error;
+  }
+  context.bambooClient = tenant.client;
+  if (MULTI_COMPANY) {
+    // Also qualifies the resource URIs the tool links to
+    context.company = tenant.config.name;
   }
+  toolTrace.setAttributes({ 'bamboo.company': tenant.config.name });
 
   // Get and execute tool handler
   const handler = getToolHandler(name);
@@ -230,15 +632,29 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
   try {
     mcpLogger.info('tool-execution', `Executing tool: ${name}`, {
       toolName: name,
-      hasProgressToken: !!progressToken,
+      hasProgressToken: progressToken !== null,
       argumentCount: Object.keys(args || {}).length,
       contextKeys: Object.keys(context._meta || {}),
     });
 
     const startTime = Date.now();
-    const result = await handler(args || {}, context);
+    const result = await otelContext.with(toolTrace.traceContext, () =>
+      handler(args || {}, context)
+    );
     const executionTime = Date.now() - startTime;
 
+    if (extra.signal.aborted) {
+      // The SDK drops responses to cancelled requests; log for visibility
+      mcpLogger.info('tool-execution', `Tool execution cancelled: ${name}`, {
+        toolName: name,
+        executionTimeMs: executionTime,
+        reason: String(extra.signal.reason ?? 'cancelled'),
+      });
+      audit.recordQuietly('cancelled');
+      toolTrace.end('cancelled');
+      return createCancelledResult(name);
+    }
+
     mcpLogger.info('tool-execution', `Tool execution completed: ${name}`, {
       toolName: name,
       executionTimeMs: executionTime,
@@ -262,8 +678,62 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
       }
     }
 
+    // Say which company answered when more than one is configured
+    if (
+      MULTI_COMPANY &&
+      name !== 'bamboo_list_companies' &&
+      result?.content?.[0]
+    ) {
+      result.content[0]._meta = {
+        ...result.content[0]._meta,
+        company: tenant.config.name,
+      };
+    }
+
+    // Report client-side queueing so callers can see throttling delays
+    if (queueStats.requests > 0 && result?.content?.[0]) {
+      result.content[0]._meta = {
+        ...result.content[0]._meta,
+        requestQueue: { ...queueStats },
+      };
+    }
+
+    // Flag answers built from expired cache while BambooHR was unavailable
+    if (staleResponses.length > 0 && result?.content?.[0]) {
+      result.content[0]._meta = {
+        ...result.content[0]._meta,
+        stale: true,
+        staleResponses,
+      };
+    }
+
+    // Say which fields the PII policy masked, hashed or dropped
+    if (redactedFields.length > 0 && result?.content?.[0]) {
+      result.content[0]._meta = {
+        ...result.content[0]._meta,
+        redactedFields,
+      };
+    }
+
+    // Handlers report API failures as error results rather than throwing
+    const errorType = getResultErrorType(result);
+    audit.record(errorType ? 'error' : 'success');
+    toolTrace.end(errorType ? 'error' : 'success', errorType);
+
     return result;
   } catch (error) {
+    if (
+      extra.signal.aborted ||
+      (error instanceof Error && error.name === 'RequestCancelledError')
+    ) {
+      mcpLogger.info('tool-execution', `Tool execution cancelled: ${name}`, {
+        toolName: name,
+      });
+      audit.recordQuietly('cancelled');
+      toolTrace.end('cancelled');
+      return createCancelledResult(name);
+    }
+
     mcpLogger.error('tool-execution', `Tool execution failed for ${name}`, {
       toolName: name,
       errorMessage: error instanceof Error ? error.message : 'Unknown error',
@@ -271,6 +741,14 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
       arguments: args,
       context: context._meta,
     });
+    audit.recordQuietly('error', error);
+    toolTrace.end(
+      'error',
+      bambooErrorHandler.categorizeError(
+        error instanceof Error ? error : new Error(String(error))
+      ),
+      error
+    );
 
     // Enhanced error response with 2025-06-18 compliance
     return {
@@ -289,25 +767,129 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
       _mcpError: {
         code: -32603,
         message: error instanceof Error ? error.message : 'Unknown error',
-        data: { toolName: name, context },
+        // Never the context itself: it holds the tenant's BambooClient, and
+        // with it the API key
+        data: {
+          toolName: name,
+          ...(progressToken !== null && { _meta: { progressToken } }),
+        },
       },
     };
   }
-});
+}
+
+// Resource listings and reads return HR data too, so they are audited like
+// tool calls
+async function listResources(
+  server: Server,
+  cursor: string | undefined,
+  extra: RequestHandlerExtra<ServerRequest, ServerNotification>
+) {
+  const context: ToolContext = { signal: extra.signal, dataAccess: [] };
+  const audit = createRequestAudit(
+    'resources/list',
+    'resources',
+    cursor === undefined ? {} : { cursor },
+    context,
+    describeClient(server, extra)
+  );
+  try {
+    const result = await handleListResources(cursor, context);
+    audit.record('success');
+    return result;
+  } catch (error) {
+    audit.recordQuietly('error', error);
+    throw error;
+  }
+}
+
+async function readResource(
+  server: Server,
+  uri: string,
+  extra: RequestHandlerExtra<ServerRequest, ServerNotification>
+) {
+  const context: ToolContext = { signal: extra.signal, dataAccess: [] };
+  const audit = createRequestAudit(
+    'resources/read',
+    uri,
+    { uri },
+    context,
+    describeClient(server, extra)
+  );
+  try {
+    const result = await handleReadResource(uri, context);
+    audit.record('success');
+    return result;
+  } catch (error) {
+    audit.recordQuietly('error', error);
+    throw error;
+  }
+}
+
+// Every connected Server, told when a reload changes the tool list
+const connectedServers = new Set<Server>();
+
+/**
+ * Create a Server with the shared request handlers registered.
+ * stdio uses a single instance; HTTP mode creates one per MCP session.
+ */
+function createServer(): Server {
+  const server = new Server(SERVER_INFO, SERVER_OPTIONS);
+  connectedServers.add(server);
+  server.onclose = () => connectedServers.delete(server);
+  server.setRequestHandler(ListToolsRequestSchema, handleListTools);
+  server.setRequestHandler(CallToolRequestSchema, (request, extra) =>
+    handleCallTool(server, request, extra)
+  );
+  server.setRequestHandler(ListResourcesRequestSchema, (request, extra) =>
+    listResources(server, request.params?.cursor, extra)
+  );
+  server.setRequestHandler(
+    ListResourceTemplatesRequestSchema,
+    handleListResourceTemplates
+  );
+  server.setRequestHandler(ReadResourceRequestSchema, (request, extra) =>
+    readResource(server, request.params.uri, extra)
+  );
+  // The level applies to this server (one HTTP session) only; per-category
+  // levels from the configuration still take precedence for their category
+  server.setRequestHandler(SetLevelRequestSchema, (request) => {
+    mcpLogger.setServerLevel(server, request.params.level);
+    mcpLogger.notice('server', `Log level set to ${request.params.level}`);
+    return {};
+  });
+  return server;
+}
 
 // Start server with enhanced error handling
 async function main() {
   try {
     logger.info('Starting BambooHR MCP Server with 2025-06-18 compliance...');
     logger.debug('Server configuration:', {
-      apiKeyLength: API_KEY?.length || 0,
-      subdomain: SUBDOMAIN,
-      toolCount: BAMBOO_TOOLS.length,
+      companies: tenants.list().map((company) => company.subdomain),
+      defaultCompany: tenants.defaultCompany,
+      transport: TRANSPORT,
+      configFile: LOADED_CONFIG.filePath,
+      toolCount: getEnabledTools().length,
       protocolVersion: '2025-06-18',
     });
 
-    const transport = new StdioServerTransport();
-    await server.connect(transport);
+    if (TRANSPORT === 'http') {
+      const httpTransport = await startHttpTransport(createServer, {
+        port: HTTP_PORT,
+        host: HTTP_HOST,
+        allowedHosts: HTTP_ALLOWED_HOSTS,
+        allowedOrigins: HTTP_ALLOWED_ORIGINS,
+        sessionIdleTimeoutMs: HTTP_SESSION_IDLE_TIMEOUT_MS,
+      });
+      logger.info(
+        `MCP Streamable HTTP endpoint listening on http://${HTTP_HOST}:${httpTransport.port}/mcp`
+      );
+    } else {
+      const server = createServer();
+      mcpLogger.setServer(server);
+      await server.connect(new StdioServerTransport());
+    }
 
     logger.info('MCP server connected successfully and ready for requests');
     logger.info(
@@ -325,10 +907,94 @@ async function main() {
 // Graceful shutdown with cleanup
 process.on('SIGINT', () => {
   logger.info('Received SIGINT, shutting down gracefully');
-  bambooClient.clearCache();
   process.exit(0);
 });
 
+process.on('SIGTERM', () => {
+  logger.info('Received SIGTERM, shutting down gracefully');
+  process.exit(0);
+});
+
+// Re-read the configuration and apply the settings that are safe to change
+// at runtime; an invalid file leaves the running configuration untouched
+function reloadConfiguration(): void {
+  let next: LoadedServerConfig;
+  try {
+    next = loadServerConfig({ argv: process.argv.slice(2) });
+  } catch (error) {
+    logger.error(
+      'Configuration reload failed; keeping the current configuration.',
+      error instanceof Error ? error.message : error
+    );
+    return;
+  }
+
+  const reload = diffServerConfig(CONFIG, next.config);
+  CONFIG = reload.config;
+  const clientSettings = toClientSettings(CONFIG);
+  tenants.clients().forEach((client) => client.updateSettings(clientSettings));
+  // Levels chosen with logging/setLevel are per session and stay as they are
+  mcpLogger.configure(toLoggerConfig(CONFIG));
+  configurePiiPolicy(toPiiPolicy(CONFIG));
+  const toolsBefore = enabledToolNames();
+  configureToolEnablement(CONFIG.tools);
+  if (enabledToolNames() !== toolsBefore) {
+    notifyToolListChanged();
+  }
+
+  logger.info(
+    reload.applied.length > 0
+      ? `Configuration reloaded; changed: ${reload.applied.join(', ')}`
+      : 'Configuration reloaded; no changes'
+  );
+  if (reload.restartRequired.length > 0) {
+    logger.warn(
+      `Restart the server to apply: ${reload.restartRequired.join(', ')}`
+    );
+  }
+}
+
+function enabledToolNames(): string {
+  return getEnabledTools()
+    .map((tool) => tool.name)
+    .join(',');
+}
+
+/**
+ * Tell every client to fetch the tool and resource lists again
+ */
+function notifyToolListChanged(): void {
+  for (const server of connectedServers) {
+    Promise.all([
+      server.sendToolListChanged(),
+      server.sendResourceListChanged(),
+    ]).catch((error) =>
+      logger.warn(
+        'Failed to send list changed notifications:',
+        error instanceof Error ? error.message : error
+      )
+    );
+  }
+}
+
+process.on('SIGHUP', () => {
+  logger.info('Received SIGHUP, reloading configuration');
+  reloadConfiguration();
+});
+
+// Persist (rather than clear) the cache on every exit path, including stdin
+// closing under stdio, so the next start is warm
+process.on('exit', () => {
+  try {
+    tenants.clients().forEach((client) => client.flushCache());
+  } catch (error) {
+    logger.warn(
+      'Failed to persist cache on exit:',
+      error instanceof Error ? error.message : error
+    );
+  }
+});
+
 // Enhanced error handling
 process.on('uncaughtException', (error) => {
   logger.fatal('Uncaught exception occurred:', error.message);
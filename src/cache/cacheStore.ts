@@ -0,0 +1,274 @@
+/**
+ * Cache stores for BambooClient responses
+ *
+ * BambooClient talks to a CacheStore rather than a Map so the backing storage
+ * can be swapped: MemoryCacheStore keeps entries for the life of the process,
+ * FileCacheStore also persists them so stdio restarts start with a warm cache.
+ * Both cap the number of entries and evict the least recently used first.
+ */
+
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import type { CacheEntry } from '../types.js';
+import { mcpLogger } from '../utils/mcpLogger.js';
+
+/**
+ * Storage backend for cached API responses
+ */
+export interface CacheStore {
+  /** Look up an entry and mark it as recently used */
+  get(key: string): CacheEntry | undefined;
+  set(key: string, entry: CacheEntry): void;
+  delete(key: string): void;
+  clear(): void;
+  /** All entries, least recently used first */
+  entries(): Array<[string, CacheEntry]>;
+  readonly size: number;
+  /** Write pending changes to durable storage, if the store has any */
+  flush?(): void;
+}
+
+export const DEFAULT_CACHE_MAX_ENTRIES = 500;
+
+/**
+ * In-memory LRU store. Map iteration order doubles as recency order:
+ * reads re-insert the key, so the first key is always the eviction candidate.
+ */
+export class MemoryCacheStore implements CacheStore {
+  protected readonly cache = new Map<string, CacheEntry>();
+
+  constructor(private readonly maxEntries = DEFAULT_CACHE_MAX_ENTRIES) {
+    if (!Number.isInteger(maxEntries) || maxEntries < 1) {
+      throw new Error(
+        `Cache size cap must be a positive integer, got ${maxEntries}`
+      );
+    }
+  }
+
+  get(key: string): CacheEntry | undefined {
+    const entry = this.cache.get(key);
+    if (entry) {
+      this.cache.delete(key);
+      this.cache.set(key, entry);
+    }
+    return entry;
+  }
+
+  set(key: string, entry: CacheEntry): void {
+    this.cache.delete(key);
+    this.cache.set(key, entry);
+    this.evictOverflow();
+  }
+
+  delete(key: string): void {
+    this.cache.delete(key);
+  }
+
+  clear(): void {
+    this.cache.clear();
+  }
+
+  entries(): Array<[string, CacheEntry]> {
+    return Array.from(this.cache.entries());
+  }
+
+  get size(): number {
+    return this.cache.size;
+  }
+
+  private evictOverflow(): void {
+    while (this.cache.size > this.maxEntries) {
+      const oldestKey = this.cache.keys().next().value as string;
+      this.cache.delete(oldestKey);
+    }
+  }
+}
+
+/**
+ * Options for the file-backed cache store
+ */
+export interface FileCacheStoreOptions {
+  filePath: string;
+  maxEntries?: number;
+  /**
+   * Identifies whose data the file holds (e.g. the BambooHR subdomain).
+   * A file written for a different namespace is ignored rather than reused.
+   */
+  namespace?: string;
+  /** Delay before batching writes to disk (defaults to 1 second) */
+  writeDelayMs?: number;
+}
+
+interface CacheFileContents {
+  version: 1;
+  namespace: string;
+  entries: Array<[string, CacheEntry]>;
+}
+
+/**
+ * LRU store persisted to a JSON file.
+ * Reads are served from memory; changes are written back after a short delay
+ * (and on flush) via write-to-temp + rename so a crash never leaves a torn file.
+ * The file contains HR data exactly as BambooHR returned it (the PII policy
+ * applies later, to tool output), so it is created with owner-only permissions.
+ */
+export class FileCacheStore extends MemoryCacheStore {
+  private readonly filePath: string;
+  private readonly namespace: string;
+  private readonly writeDelayMs: number;
+  private writeTimer: NodeJS.Timeout | null = null;
+
+  constructor(options: FileCacheStoreOptions) {
+    super(options.maxEntries);
+    this.filePath = path.resolve(options.filePath);
+    this.namespace = options.namespace || '';
+    this.writeDelayMs = options.writeDelayMs ?? 1000;
+    this.load();
+  }
+
+  set(key: string, entry: CacheEntry): void {
+    super.set(key, entry);
+    this.scheduleWrite();
+  }
+
+  delete(key: string): void {
+    super.delete(key);
+    this.scheduleWrite();
+  }
+
+  clear(): void {
+    super.clear();
+    this.scheduleWrite();
+  }
+
+  flush(): void {
+    if (this.writeTimer) {
+      clearTimeout(this.writeTimer);
+      this.writeTimer = null;
+    }
+
+    const now = Date.now();
+    const contents: CacheFileContents = {
+      version: 1,
+      namespace: this.namespace,
+      entries: this.entries().filter(([, entry]) => entry.expires > now),
+    };
+
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    const tempPath = `${this.filePath}.${process.pid}.tmp`;
+    fs.writeFileSync(tempPath, JSON.stringify(contents), { mode: 0o600 });
+    fs.renameSync(tempPath, this.filePath);
+  }
+
+  private load(): void {
+    let raw: string;
+    try {
+      raw = fs.readFileSync(this.filePath, 'utf8');
+    } catch {
+      return; // No cache file yet
+    }
+
+    try {
+      const contents = JSON.parse(raw) as Partial<CacheFileContents>;
+      if (
+        contents.version !== 1 ||
+        contents.namespace !== this.namespace ||
+        !Array.isArray(contents.entries)
+      ) {
+        return;
+      }
+
+      const now = Date.now();
+      for (const [key, entry] of contents.entries) {
+        if (entry && typeof entry.expires === 'number' && entry.expires > now) {
+          super.set(key, entry);
+        }
+      }
+    } catch {
+      // Corrupt cache file - start empty, it is overwritten on the next write
+    }
+  }
+
+  private scheduleWrite(): void {
+    if (this.writeTimer) {
+      return;
+    }
+
+    this.writeTimer = setTimeout(() => {
+      this.writeTimer = null;
+      try {
+        this.flush();
+      } catch (error) {
+        // A failed write only costs a cold cache after restart
+        mcpLogger.warn('bamboo-client', 'Failed to persist BambooHR cache', {
+          errorMessage: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }, this.writeDelayMs);
+    // Never keep the process alive just to write the cache
+    this.writeTimer.unref();
+  }
+}
+
+// =============================================================================
+// Per-endpoint TTLs
+// =============================================================================
+
+/**
+ * TTL for GET endpoints whose path starts with `prefix` (first match wins).
+ * A `*` in the prefix stands for one path segment, e.g. an employee ID.
+ */
+export interface CacheTtlRule {
+  prefix: string;
+  ttlMs: number;
+}
+
+/**
+ * Build the default per-endpoint TTL rules.
+ * Company metadata rarely changes, the directory changes daily at most, and
+ * time-off data should reflect new requests within minutes. That includes
+ * time off under an employee's path, and the feeds of changed employees.
+ */
+export function buildCacheTtlRules(
+  ttls: {
+    metadataMs?: number;
+    employeesMs?: number;
+    timeOffMs?: number;
+  } = {}
+): CacheTtlRule[] {
+  const metadataMs = ttls.metadataMs ?? 6 * 60 * 60 * 1000; // 6 hours
+  const employeesMs = ttls.employeesMs ?? 60 * 60 * 1000; // 1 hour
+  const timeOffMs = ttls.timeOffMs ?? 5 * 60 * 1000; // 5 minutes
+
+  return [
+    { prefix: '/datasets', ttlMs: metadataMs },
+    { prefix: '/meta/', ttlMs: metadataMs },
+    { prefix: '/employees/changed', ttlMs: timeOffMs },
+    { prefix: '/employees/*/time_off/', ttlMs: timeOffMs },
+    { prefix: '/employees/', ttlMs: employeesMs },
+    { prefix: '/time_off/', ttlMs: timeOffMs },
+  ];
+}
+
+/**
+ * Resolve the TTL for an endpoint, falling back to `defaultTtlMs`
+ */
+export function resolveCacheTtl(
+  endpoint: string,
+  rules: readonly CacheTtlRule[],
+  defaultTtlMs: number
+): number {
+  const rule = rules.find((r) => matchesPrefix(endpoint, r.prefix));
+  return rule ? rule.ttlMs : defaultTtlMs;
+}
+
+function matchesPrefix(endpoint: string, prefix: string): boolean {
+  if (!prefix.includes('*')) {
+    return endpoint.startsWith(prefix);
+  }
+  const pattern = prefix
+    .split('*')
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('[^/?]+');
+  return new RegExp(`^${pattern}`).test(endpoint);
+}
@@ -0,0 +1,108 @@
+/**
+ * Resource template definitions for MCP 2025-06-18 compliance
+ * These match the pseudo-URIs handlers emit in `_meta` and `_links`. With
+ * several companies configured, URIs name theirs in a `company` query
+ * parameter; without one they read from the default company.
+ */
+
+export const BAMBOO_RESOURCE_TEMPLATES = [
+  {
+    uriTemplate: 'employee://{id}{?company}',
+    name: 'employee',
+    title: 'Employee Record',
+    description:
+      'Employee profile by BambooHR employee ID (name, job title, department, contact details)',
+    mimeType: 'application/json',
+  },
+  {
+    uriTemplate: 'employee://{id}/photo{?company}',
+    name: 'employee_photo',
+    title: 'Employee Photo',
+    description: 'Profile photo for an employee by BambooHR employee ID',
+    mimeType: 'image/jpeg',
+  },
+  {
+    uriTemplate: 'department://{name}{?company}',
+    name: 'department',
+    title: 'Department Roster',
+    description:
+      'Employees in a department (exact department name, URL-encoded)',
+    mimeType: 'application/json',
+  },
+  {
+    uriTemplate: 'report://{id}{?company}',
+    name: 'custom_report',
+    title: 'Custom Report',
+    description: 'Results of a saved BambooHR custom report by report ID',
+    mimeType: 'application/json',
+  },
+] as const;
+
+/**
+ * Parsed resource URI
+ */
+export type BambooResourceRef = (
+  | { kind: 'employee'; id: string }
+  | { kind: 'employee_photo'; id: string }
+  | { kind: 'department'; name: string }
+  | { kind: 'custom_report'; id: string }
+) & { company?: string };
+
+/**
+ * Tool that returns the same data as each resource kind; a resource is only
+ * listed and readable while its tool is enabled (see toolProfiles)
+ */
+export const RESOURCE_TOOLS: Record<BambooResourceRef['kind'], string> = {
+  employee: 'bamboo_find_employee',
+  employee_photo: 'bamboo_get_employee_photo',
+  department: 'bamboo_team_info',
+  custom_report: 'bamboo_run_custom_report',
+};
+
+/**
+ * Parse a resource URI into a typed reference, or null if it is not recognised
+ */
+export function parseResourceUri(uri: string): BambooResourceRef | null {
+  const match = /^([a-z]+):\/\/([^/?]+)(\/photo)?(?:\?company=([^&]+))?$/.exec(
+    uri
+  );
+  if (!match) {
+    return null;
+  }
+
+  const [, scheme, rawValue, photoSuffix, rawCompany] = match;
+  let value: string;
+  let company: string | undefined;
+  try {
+    value = decodeURIComponent(rawValue);
+    company =
+      rawCompany === undefined ? undefined : decodeURIComponent(rawCompany);
+  } catch {
+    return null;
+  }
+  const tenant = company === undefined ? {} : { company };
+
+  if (scheme === 'employee' && /^\d+$/.test(value)) {
+    return photoSuffix
+      ? { kind: 'employee_photo', id: value, ...tenant }
+      : { kind: 'employee', id: value, ...tenant };
+  }
+  if (photoSuffix) {
+    return null;
+  }
+  if (scheme === 'department' && value.trim().length > 0) {
+    return { kind: 'department', name: value, ...tenant };
+  }
+  if (scheme === 'report' && /^[A-Za-z0-9_-]+$/.test(value)) {
+    return { kind: 'custom_report', id: value, ...tenant };
+  }
+
+  return null;
+}
+
+/**
+ * Qualify a resource URI with the company it was read from, if any
+ */
+export function resourceUri(uri: string, company?: string): string {
+  return company ? `${uri}?company=${encodeURIComponent(company)}` : uri;
+}
@@ -0,0 +1,1091 @@
+/**
+ * Server configuration loader
+ * Merges defaults, a JSON/YAML config file, environment variables and CLI
+ * flags (in that order of precedence) into one validated ServerConfig.
+ * Every problem is reported at once, with the setting and where it came from.
+ */
+
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { parse as parseYaml } from 'yaml';
+import {
+  DEFAULT_AUDIT_MAX_BYTES,
+  DEFAULT_AUDIT_MAX_FILES,
+} from '../audit/auditLog.js';
+import { DEFAULT_SESSION_IDLE_TIMEOUT_MS } from '../transports/httpTransport.js';
+import type { BambooClientSettings } from '../bamboo-client.js';
+import {
+  DEFAULT_CACHE_MAX_ENTRIES,
+  buildCacheTtlRules,
+  type CacheTtlRule,
+} from '../cache/cacheStore.js';
+import {
+  DEFAULT_PII_RULES,
+  compilePiiPolicy,
+  type PiiAction,
+  type PiiFieldRule,
+  type PiiPolicy,
+} from '../privacy/piiPolicy.js';
+import {
+  LOG_CATEGORIES,
+  LOG_LEVELS,
+  resolveLogCategory,
+  type LogLevel,
+  type MCPLoggerConfig,
+} from '../utils/mcpLogger.js';
+import {
+  DEFAULT_SANITIZATION_RULES,
+  FIXTURE_SANITIZATION_RULES,
+  REDACTED,
+  type SanitizationRule,
+} from '../utils/sanitize.js';
+import { BAMBOO_TOOLS } from './toolDefinitions.js';
+import {
+  DEFAULT_TOOL_PROFILE,
+  TOOL_PROFILE_NAMES,
+  type ToolProfileName,
+} from './toolProfiles.js';
+
+/**
+ * Extra log redaction rule; `pattern` is a case-insensitive regular
+ * expression matched against property names
+ */
+export interface RedactionRuleConfig {
+  pattern: string;
+  replacement: string;
+}
+
+export interface ServerConfig {
+  bamboo: {
+    apiKey?: string;
+    subdomain?: string;
+    baseUrl?: string;
+    companiesFile?: string;
+  };
+  client: Omit<BambooClientSettings, 'cacheTtlRules'> & {
+    /** Per-endpoint-family TTLs, used unless cacheTtlRules is given */
+    cacheTtl: { employeesMs?: number; timeOffMs?: number; metadataMs?: number };
+    cacheTtlRules?: CacheTtlRule[];
+  };
+  cache: { file?: string; maxEntries: number };
+  fixtures: { recordDir?: string; replayDir?: string };
+  audit: { file?: string; key?: string; maxBytes: number; maxFiles: number };
+  snapshots: { file?: string };
+  telemetry: { enabled: boolean };
+  logging: {
+    level: LogLevel;
+    /** Minimum level per logger category, keyed by logger name */
+    categories: Record<string, LogLevel>;
+    console: boolean;
+    redact: RedactionRuleConfig[];
+  };
+  transport: {
+    mode: 'stdio' | 'http';
+    port: number;
+    host: string;
+    /** Host header names; empty means the loopback names on loopback */
+    allowedHosts: string[];
+    allowedOrigins: string[];
+    sessionIdleTimeoutMs: number;
+  };
+  privacy: { rules?: PiiFieldRule[]; hashSalt?: string };
+  tools: {
+    profile: ToolProfileName;
+    enabled?: string[];
+    disabled: string[];
+  };
+}
+
+/**
+ * A single invalid setting
+ */
+export interface ConfigIssue {
+  /** Dotted setting name, e.g. `client.requestTimeoutMs` */
+  path: string;
+  /** Where the bad value came from, e.g. `env REQUEST_TIMEOUT_SECONDS` */
+  source: string;
+  message: string;
+}
+
+/**
+ * Raised when the configuration cannot be loaded; lists every issue found
+ */
+export class ConfigValidationError extends Error {
+  constructor(readonly issues: ConfigIssue[]) {
+    super(
+      `Invalid configuration:\n${issues
+        .map((issue) => `  - ${issue.path}: ${issue.message} (${issue.source})`)
+        .join('\n')}`
+    );
+    this.name = 'ConfigValidationError';
+  }
+}
+
+type FieldKind =
+  | 'string'
+  | 'url'
+  | 'integer'
+  | 'number'
+  | 'boolean'
+  | 'enum'
+  | 'toolList'
+  | 'stringList'
+  | 'ttlRules'
+  | 'redactionRules'
+  | 'piiRules'
+  | 'logLevels';
+
+interface ConfigField {
+  path: string;
+  kind: FieldKind;
+  min?: number;
+  max?: number;
+  values?: readonly string[];
+  /** Environment variable that overrides the file */
+  env?: string;
+  /** The environment variable is in seconds; the setting is in milliseconds */
+  envSeconds?: boolean;
+  /** Dedicated CLI flag, in addition to `--set <path>=<value>` */
+  flag?: string;
+  /** Never echoed in errors */
+  secret?: boolean;
+  /** Applied on SIGHUP without a restart */
+  reloadable?: boolean;
+  default?: unknown;
+}
+
+const CONFIG_FIELDS: readonly ConfigField[] = [
+  // Credentials and API location are fixed for the life of the process
+  {
+    path: 'bamboo.apiKey',
+    kind: 'string',
+    env: 'BAMBOO_API_KEY',
+    secret: true,
+  },
+  { path: 'bamboo.subdomain', kind: 'string', env: 'BAMBOO_SUBDOMAIN' },
+  { path: 'bamboo.baseUrl', kind: 'url', env: 'BAMBOO_BASE_URL' },
+  {
+    path: 'bamboo.companiesFile',
+    kind: 'string',
+    env: 'BAMBOO_COMPANIES_FILE',
+  },
+
+  // BambooClient tunables
+  {
+    path: 'client.cacheTimeoutMs',
+    kind: 'integer',
+    min: 0,
+    env: 'CACHE_TIMEOUT_MS',
+    reloadable: true,
+  },
+  {
+    path: 'client.cacheTtl.employeesMs',
+    kind: 'integer',
+    min: 0,
+    env: 'CACHE_TTL_EMPLOYEES',
+    envSeconds: true,
+    reloadable: true,
+  },
+  {
+    path: 'client.cacheTtl.timeOffMs',
+    kind: 'integer',
+    min: 0,
+    env: 'CACHE_TTL_TIME_OFF',
+    envSeconds: true,
+    reloadable: true,
+  },
+  {
+    path: 'client.cacheTtl.metadataMs',
+    kind: 'integer',
+    min: 0,
+    env: 'CACHE_TTL_COMPANY_META',
+    envSeconds: true,
+    reloadable: true,
+  },
+  { path: 'client.cacheTtlRules', kind: 'ttlRules', reloadable: true },
+  {
+    path: 'client.requestTimeoutMs',
+    kind: 'integer',
+    min: 1,
+    env: 'REQUEST_TIMEOUT_SECONDS',
+    envSeconds: true,
+    reloadable: true,
+  },
+  {
+    path: 'client.maxRetryAttempts',
+    kind: 'integer',
+    min: 0,
+    env: 'MAX_RETRY_ATTEMPTS',
+    reloadable: true,
+  },
+  {
+    path: 'client.retryBaseDelayMs',
+    kind: 'integer',
+    min: 0,
+    env: 'RETRY_BASE_DELAY_SECONDS',
+    envSeconds: true,
+    reloadable: true,
+  },
+  {
+    path: 'client.retryMaxDelayMs',
+    kind: 'integer',
+    min: 0,
+    env: 'RETRY_MAX_DELAY_SECONDS',
+    envSeconds: true,
+    reloadable: true,
+  },
+  {
+    path: 'client.rateLimitPerSecond',
+    kind: 'number',
+    min: 0,
+    env: 'RATE_LIMIT_PER_SECOND',
+    reloadable: true,
+  },
+  {
+    path: 'client.rateLimitBurst',
+    kind: 'number',
+    min: 0,
+    env: 'RATE_LIMIT_BURST',
+    reloadable: true,
+  },
+  {
+    path: 'client.maxConcurrentRequests',
+    kind: 'integer',
+    min: 0,
+    env: 'MAX_CONCURRENT_REQUESTS',
+    reloadable: true,
+  },
+  {
+    path: 'client.circuitBreakerThreshold',
+    kind: 'integer',
+    min: 0,
+    env: 'CIRCUIT_BREAKER_THRESHOLD',
+    reloadable: true,
+  },
+  {
+    path: 'client.circuitBreakerResetMs',
+    kind: 'integer',
+    min: 0,
+    env: 'CIRCUIT_BREAKER_RESET_SECONDS',
+    envSeconds: true,
+    reloadable: true,
+  },
+  {
+    path: 'client.staleCacheMaxAgeMs',
+    kind: 'integer',
+    min: 0,
+    env: 'CACHE_STALE_MAX_AGE',
+    envSeconds: true,
+    reloadable: true,
+  },
+
+  // Cache storage is opened once at startup. The file holds raw API
+  // responses: the PII policy only applies to tool output, so personal data
+  // is written to disk unredacted
+  { path: 'cache.file', kind: 'string', env: 'CACHE_FILE' },
+  {
+    path: 'cache.maxEntries',
+    kind: 'integer',
+    min: 1,
+    env: 'CACHE_MAX_ENTRIES',
+    default: DEFAULT_CACHE_MAX_ENTRIES,
+  },
+
+  { path: 'fixtures.recordDir', kind: 'string', env: 'BAMBOO_RECORD_DIR' },
+  { path: 'fixtures.replayDir', kind: 'string', env: 'BAMBOO_REPLAY_DIR' },
+
+  // Audit log of tool calls; opened once at startup
+  { path: 'audit.file', kind: 'string', env: 'BAMBOO_AUDIT_LOG' },
+  { path: 'audit.key', kind: 'string', env: 'BAMBOO_AUDIT_KEY', secret: true },
+  {
+    path: 'audit.maxBytes',
+    kind: 'integer',
+    min: 1024,
+    env: 'BAMBOO_AUDIT_MAX_BYTES',
+    default: DEFAULT_AUDIT_MAX_BYTES,
+  },
+  {
+    path: 'audit.maxFiles',
+    kind: 'integer',
+    min: 1,
+    env: 'BAMBOO_AUDIT_MAX_FILES',
+    default: DEFAULT_AUDIT_MAX_FILES,
+  },
+
+  // Field snapshots bamboo_employee_changes diffs against; opened once at startup
+  { path: 'snapshots.file', kind: 'string', env: 'BAMBOO_SNAPSHOT_FILE' },
+
+  // OpenTelemetry spans and metrics, exported by whichever SDK is registered
+  {
+    path: 'telemetry.enabled',
+    kind: 'boolean',
+    env: 'BAMBOO_TELEMETRY',
+    default: true,
+  },
+
+  // MCPLoggerConfig
+  {
+    path: 'logging.level',
+    kind: 'enum',
+    values: LOG_LEVELS,
+    env: 'LOG_LEVEL',
+    reloadable: true,
+    default: 'info',
+  },
+  {
+    path: 'logging.categories',
+    kind: 'logLevels',
+    env: 'LOG_CATEGORY_LEVELS',
+    reloadable: true,
+    default: {},
+  },
+  {
+    path: 'logging.console',
+    kind: 'boolean',
+    env: 'LOG_CONSOLE',
+    reloadable: true,
+    default: true,
+  },
+  {
+    path: 'logging.redact',
+    kind: 'redactionRules',
+    reloadable: true,
+    default: [],
+  },
+
+  {
+    path: 'transport.mode',
+    kind: 'enum',
+    values: ['stdio', 'http'],
+    env: 'MCP_TRANSPORT',
+    flag: 'transport',
+    default: 'stdio',
+  },
+  {
+    path: 'transport.port',
+    kind: 'integer',
+    min: 0,
+    max: 65535,
+    env: 'MCP_HTTP_PORT',
+    flag: 'port',
+    default: 3000,
+  },
+  {
+    path: 'transport.host',
+    kind: 'string',
+    env: 'MCP_HTTP_HOST',
+    flag: 'host',
+    default: '127.0.0.1',
+  },
+  {
+    path: 'transport.allowedHosts',
+    kind: 'stringList',
+    env: 'MCP_HTTP_ALLOWED_HOSTS',
+    default: [],
+  },
+  {
+    path: 'transport.allowedOrigins',
+    kind: 'stringList',
+    env: 'MCP_HTTP_ALLOWED_ORIGINS',
+    default: [],
+  },
+  {
+    path: 'transport.sessionIdleTimeoutMs',
+    kind: 'integer',
+    min: 1000,
+    env: 'MCP_HTTP_SESSION_IDLE_TIMEOUT',
+    envSeconds: true,
+    default: DEFAULT_SESSION_IDLE_TIMEOUT_MS,
+  },
+
+  // PII policy for tool output; rules replace the defaults when given
+  { path: 'privacy.rules', kind: 'piiRules', reloadable: true },
+  {
+    path: 'privacy.hashSalt',
+    kind: 'string',
+    env: 'BAMBOO_PII_HASH_SALT',
+    secret: true,
+    reloadable: true,
+  },
+
+  // Tool enablement: the profile's tools, narrowed by `enabled`, minus `disabled`
+  {
+    path: 'tools.profile',
+    kind: 'enum',
+    values: TOOL_PROFILE_NAMES,
+    env: 'BAMBOO_TOOL_PROFILE',
+    flag: 'tool-profile',
+    reloadable: true,
+    default: DEFAULT_TOOL_PROFILE,
+  },
+  {
+    path: 'tools.enabled',
+    kind: 'toolList',
+    env: 'BAMBOO_TOOLS_ENABLED',
+    reloadable: true,
+  },
+  {
+    path: 'tools.disabled',
+    kind: 'toolList',
+    env: 'BAMBOO_TOOLS_DISABLED',
+    reloadable: true,
+    default: [],
+  },
+];
+
+const TOOL_NAMES: readonly string[] = BAMBOO_TOOLS.map((tool) => tool.name);
+
+type Coerced = { value: unknown } | { error: string };
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function describeValue(field: ConfigField, value: unknown): string {
+  return field.secret ? '' : `, got ${JSON.stringify(value)}`;
+}
+
+function rangeText(field: ConfigField): string {
+  if (field.max !== undefined) {
+    return ` between ${field.min ?? 0} and ${field.max}`;
+  }
+  return field.min === 0
+    ? ' (0 or more)'
+    : field.min !== undefined
+      ? ` of at least ${field.min}`
+      : '';
+}
+
+function coerceNumber(
+  field: ConfigField,
+  raw: unknown,
+  fromText: boolean
+): Coerced {
+  const seconds = fromText && field.envSeconds;
+  const text = typeof raw === 'string' ? raw.trim() : raw;
+  let value = fromText && text !== '' ? Number(text) : text;
+  const integer = field.kind === 'integer' && !seconds;
+  const expected = `${integer ? 'an integer' : 'a number'}${seconds ? ' of seconds' : ''}${rangeText(field)}`;
+
+  if (
+    typeof value !== 'number' ||
+    !Number.isFinite(value) ||
+    (integer && !Number.isInteger(value)) ||
+    (field.min !== undefined && value < field.min) ||
+    (field.max !== undefined && value > field.max)
+  ) {
+    return { error: `must be ${expected}${describeValue(field, raw)}` };
+  }
+  if (seconds) {
+    value = Math.round(value * 1000);
+  }
+  return { value };
+}
+
+// Environment variables and flags give lists comma-separated
+function splitList(raw: unknown, fromText: boolean): unknown {
+  return fromText && typeof raw === 'string'
+    ? raw
+        .split(',')
+        .map((item) => item.trim())
+        .filter(Boolean)
+    : raw;
+}
+
+function coerceStringList(raw: unknown, fromText: boolean): Coerced {
+  const list = splitList(raw, fromText);
+  if (!Array.isArray(list) || list.some((item) => typeof item !== 'string')) {
+    return { error: 'must be a list of strings' };
+  }
+  return { value: Array.from(new Set(list)) };
+}
+
+function coerceToolList(raw: unknown, fromText: boolean): Coerced {
+  const list = splitList(raw, fromText);
+  if (!Array.isArray(list) || list.some((name) => typeof name !== 'string')) {
+    return { error: 'must be a list of tool names' };
+  }
+  const unknown = list.filter((name) => !TOOL_NAMES.includes(name));
+  if (unknown.length > 0) {
+    return {
+      error: `unknown tool ${unknown.map((name) => `"${name}"`).join(', ')}. Known tools: ${TOOL_NAMES.join(', ')}`,
+    };
+  }
+  return { value: Array.from(new Set(list)) };
+}
+
+function coerceTtlRules(raw: unknown): Coerced {
+  if (!Array.isArray(raw)) {
+    return { error: 'must be a list of { prefix, ttlMs } rules' };
+  }
+  for (const [index, rule] of raw.entries()) {
+    if (
+      !isPlainObject(rule) ||
+      typeof rule.prefix !== 'string' ||
+      !rule.prefix.startsWith('/') ||
+      typeof rule.ttlMs !== 'number' ||
+      !Number.isInteger(rule.ttlMs) ||
+      rule.ttlMs < 0
+    ) {
+      return {
+        error: `rule ${index} must have a "prefix" starting with "/" and a non-negative integer "ttlMs"`,
+      };
+    }
+  }
+  return {
+    value: raw.map((rule) => ({ prefix: rule.prefix, ttlMs: rule.ttlMs })),
+  };
+}
+
+function coerceRedactionRules(raw: unknown): Coerced {
+  if (!Array.isArray(raw)) {
+    return { error: 'must be a list of { pattern, replacement? } rules' };
+  }
+  const rules: RedactionRuleConfig[] = [];
+  for (const [index, rule] of raw.entries()) {
+    const entry = typeof rule === 'string' ? { pattern: rule } : rule;
+    if (!isPlainObject(entry) || typeof entry.pattern !== 'string') {
+      return { error: `rule ${index} must have a string "pattern"` };
+    }
+    if (
+      entry.replacement !== undefined &&
+      typeof entry.replacement !== 'string'
+    ) {
+      return { error: `rule ${index}: "replacement" must be a string` };
+    }
+    try {
+      new RegExp(entry.pattern, 'i');
+    } catch (error) {
+      return {
+        error: `rule ${index}: invalid pattern: ${error instanceof Error ? error.message : error}`,
+      };
+    }
+    rules.push({
+      pattern: entry.pattern,
+      replacement: (entry.replacement as string | undefined) ?? REDACTED,
+    });
+  }
+  return { value: rules };
+}
+
+function coercePiiRules(raw: unknown): Coerced {
+  if (!Array.isArray(raw)) {
+    return { error: 'must be a list of { field | pattern, action } rules' };
+  }
+  const rules: PiiFieldRule[] = [];
+  for (const [index, rule] of raw.entries()) {
+    if (
+      !isPlainObject(rule) ||
+      (rule.field !== undefined && typeof rule.field !== 'string') ||
+      (rule.pattern !== undefined && typeof rule.pattern !== 'string')
+    ) {
+      return {
+        error: `rule ${index} must be an object with a string "field" or "pattern"`,
+      };
+    }
+    rules.push({
+      ...(rule.field !== undefined && { field: rule.field as string }),
+      ...(rule.pattern !== undefined && { pattern: rule.pattern as string }),
+      action: rule.action as PiiAction,
+    });
+  }
+  try {
+    compilePiiPolicy({ rules });
+  } catch (error) {
+    return { error: error instanceof Error ? error.message : String(error) };
+  }
+  return { value: rules };
+}
+
+/**
+ * `{ category: level }`, or `category=level,...` from the environment or
+ * command line; categories are stored under their logger names
+ */
+function coerceLogLevels(raw: unknown, fromText: boolean): Coerced {
+  let entries: Array<[string, unknown]>;
+  if (fromText && typeof raw === 'string') {
+    entries = [];
+    for (const pair of raw.split(',').filter((part) => part.trim())) {
+      const separator = pair.indexOf('=');
+      if (separator < 1) {
+        return { error: `expected <category>=<level>, got "${pair.trim()}"` };
+      }
+      entries.push([
+        pair.slice(0, separator).trim(),
+        pair.slice(separator + 1).trim(),
+      ]);
+    }
+  } else if (isPlainObject(raw)) {
+    entries = Object.entries(raw);
+  } else {
+    return { error: 'must map logger categories to levels' };
+  }
+
+  const levels: Record<string, LogLevel> = {};
+  for (const [category, level] of entries) {
+    const logger = resolveLogCategory(category);
+    if (!logger) {
+      return {
+        error: `unknown logger category "${category}". Known categories: ${Object.keys(LOG_CATEGORIES).join(', ')}`,
+      };
+    }
+    if (typeof level !== 'string' || !LOG_LEVELS.includes(level as LogLevel)) {
+      return {
+        error: `${category}: level must be one of ${LOG_LEVELS.join(', ')}`,
+      };
+    }
+    levels[logger] = level as LogLevel;
+  }
+  return { value: levels };
+}
+
+/**
+ * Convert and check one value. `fromText` values come from the environment
+ * or the command line and are parsed from strings first.
+ */
+function coerceField(
+  field: ConfigField,
+  raw: unknown,
+  fromText: boolean
+): Coerced {
+  switch (field.kind) {
+    case 'string':
+    case 'url': {
+      const value = typeof raw === 'string' ? raw.trim() : raw;
+      if (typeof value !== 'string' || value === '') {
+        return { error: 'must be a non-empty string' };
+      }
+      if (field.kind === 'url' && !/^https?:\/\/[^/]/.test(value)) {
+        return {
+          error: `must be an http(s) URL${describeValue(field, value)}`,
+        };
+      }
+      return {
+        value: field.kind === 'url' ? value.replace(/\/+$/, '') : value,
+      };
+    }
+    case 'integer':
+    case 'number':
+      return coerceNumber(field, raw, fromText);
+    case 'boolean': {
+      if (typeof raw === 'boolean') {
+        return { value: raw };
+      }
+      const text = fromText && typeof raw === 'string' ? raw.toLowerCase() : '';
+      if (['true', '1', 'yes', 'on'].includes(text)) {
+        return { value: true };
+      }
+      if (['false', '0', 'no', 'off'].includes(text)) {
+        return { value: false };
+      }
+      return { error: `must be true or false${describeValue(field, raw)}` };
+    }
+    case 'enum':
+      return typeof raw === 'string' && field.values!.includes(raw.trim())
+        ? { value: raw.trim() }
+        : {
+            error: `must be one of ${field.values!.join(', ')}${describeValue(field, raw)}`,
+          };
+    case 'toolList':
+      return coerceToolList(raw, fromText);
+    case 'stringList':
+      return coerceStringList(raw, fromText);
+    case 'logLevels':
+      return coerceLogLevels(raw, fromText);
+    case 'ttlRules':
+    case 'redactionRules':
+    case 'piiRules': {
+      let value = raw;
+      if (fromText && typeof raw === 'string') {
+        try {
+          value = JSON.parse(raw);
+        } catch {
+          return { error: 'must be a JSON array' };
+        }
+      }
+      if (field.kind === 'piiRules') {
+        return coercePiiRules(value);
+      }
+      return field.kind === 'ttlRules'
+        ? coerceTtlRules(value)
+        : coerceRedactionRules(value);
+    }
+  }
+}
+
+function getPath(target: unknown, dottedPath: string): unknown {
+  return dottedPath
+    .split('.')
+    .reduce<unknown>(
+      (node, key) => (isPlainObject(node) ? node[key] : undefined),
+      target
+    );
+}
+
+function setPath(
+  target: Record<string, unknown>,
+  dottedPath: string,
+  value: unknown
+): void {
+  const keys = dottedPath.split('.');
+  let node = target;
+  for (const key of keys.slice(0, -1)) {
+    if (!isPlainObject(node[key])) {
+      node[key] = {};
+    }
+    node = node[key] as Record<string, unknown>;
+  }
+  node[keys[keys.length - 1]] = value;
+}
+
+/**
+ * Report keys in the file that match no setting, e.g. a misspelled
+ * `requestTimeout`, instead of silently ignoring them
+ */
+function findUnknownKeys(
+  node: Record<string, unknown>,
+  prefix: string,
+  source: string,
+  issues: ConfigIssue[]
+): void {
+  for (const [key, value] of Object.entries(node)) {
+    const keyPath = prefix ? `${prefix}.${key}` : key;
+    if (CONFIG_FIELDS.some((field) => field.path === keyPath)) {
+      continue;
+    }
+    if (!CONFIG_FIELDS.some((field) => field.path.startsWith(`${keyPath}.`))) {
+      issues.push({ path: keyPath, source, message: 'unknown setting' });
+    } else if (!isPlainObject(value)) {
+      issues.push({ path: keyPath, source, message: 'must be an object' });
+    } else {
+      findUnknownKeys(value, keyPath, source, issues);
+    }
+  }
+}
+
+/**
+ * Read a config file; `.json` is parsed as JSON, anything else as YAML
+ */
+function readConfigFile(
+  filePath: string,
+  issues: ConfigIssue[]
+): Record<string, unknown> | undefined {
+  let raw: unknown;
+  try {
+    const text = fs.readFileSync(filePath, 'utf8');
+    raw =
+      path.extname(filePath).toLowerCase() === '.json'
+        ? JSON.parse(text)
+        : parseYaml(text);
+  } catch (error) {
+    issues.push({
+      path: '(file)',
+      source: filePath,
+      message: `could not be read: ${error instanceof Error ? error.message : error}`,
+    });
+    return undefined;
+  }
+  // An empty YAML file means "all defaults"
+  if (raw === null || raw === undefined) {
+    return {};
+  }
+  if (!isPlainObject(raw)) {
+    issues.push({
+      path: '(file)',
+      source: filePath,
+      message: 'must contain an object of settings',
+    });
+    return undefined;
+  }
+  return raw;
+}
+
+interface CliSettings {
+  configFile?: string;
+  values: Array<{ path: string; value: string; source: string }>;
+  issues: ConfigIssue[];
+}
+
+/**
+ * Pick configuration flags out of argv: `--config <file>`,
+ * `--set <setting>=<value>` and the dedicated flags (`--port 8080`).
+ * Both `--flag value` and `--flag=value` are accepted.
+ */
+function parseCliArguments(argv: readonly string[]): CliSettings {
+  const settings: CliSettings = { values: [], issues: [] };
+
+  for (let i = 0; i < argv.length; i++) {
+    const match = /^--([a-z-]+)(?:=(.*))?$/.exec(argv[i]);
+    if (!match) {
+      continue;
+    }
+    const [, name, inline] = match;
+    const readValue = () => (inline !== undefined ? inline : argv[++i]);
+
+    if (name === 'config') {
+      settings.configFile = readValue();
+    } else if (name === 'set') {
+      const assignment = readValue() ?? '';
+      const separator = assignment.indexOf('=');
+      const settingPath = assignment.slice(0, Math.max(separator, 0));
+      if (separator < 1) {
+        settings.issues.push({
+          path: assignment || '(empty)',
+          source: '--set',
+          message: 'expected --set <setting>=<value>',
+        });
+      } else if (!CONFIG_FIELDS.some((field) => field.path === settingPath)) {
+        settings.issues.push({
+          path: settingPath,
+          source: '--set',
+          message: 'unknown setting',
+        });
+      } else {
+        settings.values.push({
+          path: settingPath,
+          value: assignment.slice(separator + 1),
+          source: `--set ${settingPath}`,
+        });
+      }
+    } else {
+      const field = CONFIG_FIELDS.find((f) => f.flag === name);
+      const value = field ? readValue() : undefined;
+      if (field && value !== undefined) {
+        settings.values.push({
+          path: field.path,
+          value,
+          source: `--${name}`,
+        });
+      }
+    }
+  }
+
+  return settings;
+}
+
+export interface LoadServerConfigOptions {
+  /** Command-line arguments without the node and script paths */
+  argv?: readonly string[];
+  env?: NodeJS.ProcessEnv;
+}
+
+export interface LoadedServerConfig {
+  config: ServerConfig;
+  /** Config file in use, from `--config` or BAMBOO_CONFIG_FILE */
+  filePath?: string;
+  /** Where each explicitly set value came from, by setting name */
+  sources: Record<string, string>;
+}
+
+/**
+ * Load and validate the server configuration.
+ * Precedence: CLI flags > environment variables > config file > defaults.
+ * Throws ConfigValidationError listing every invalid setting.
+ */
+export function loadServerConfig(
+  options: LoadServerConfigOptions = {}
+): LoadedServerConfig {
+  const env = options.env ?? process.env;
+  const cli = parseCliArguments(options.argv ?? []);
+  const issues: ConfigIssue[] = [...cli.issues];
+  const config: Record<string, unknown> = {};
+  const sources: Record<string, string> = {};
+
+  const assign = (
+    field: ConfigField,
+    raw: unknown,
+    source: string,
+    fromText: boolean
+  ) => {
+    const result = coerceField(field, raw, fromText);
+    if ('error' in result) {
+      issues.push({ path: field.path, source, message: result.error });
+    } else {
+      setPath(config, field.path, result.value);
+      sources[field.path] = source;
+    }
+  };
+
+  for (const field of CONFIG_FIELDS) {
+    if (field.default !== undefined) {
+      setPath(config, field.path, field.default);
+    }
+  }
+
+  const filePath = cli.configFile ?? (env.BAMBOO_CONFIG_FILE || undefined);
+  if (filePath) {
+    const file = readConfigFile(filePath, issues);
+    if (file) {
+      findUnknownKeys(file, '', filePath, issues);
+      for (const field of CONFIG_FIELDS) {
+        const value = getPath(file, field.path);
+        if (value !== undefined) {
+          assign(field, value, filePath, false);
+        }
+      }
+    }
+  }
+
+  for (const field of CONFIG_FIELDS) {
+    const value = field.env ? env[field.env] : undefined;
+    if (value !== undefined && value !== '') {
+      assign(field, value, `env ${field.env}`, true);
+    }
+  }
+
+  for (const setting of cli.values) {
+    const field = CONFIG_FIELDS.find((f) => f.path === setting.path)!;
+    assign(field, setting.value, setting.source, true);
+  }
+
+  // Checks that span more than one setting
+  if (
+    getPath(config, 'fixtures.recordDir') &&
+    getPath(config, 'fixtures.replayDir')
+  ) {
+    issues.push({
+      path: 'fixtures',
+      source: sources['fixtures.replayDir'],
+      message: 'set only one of recordDir and replayDir',
+    });
+  }
+  const baseDelay = getPath(config, 'client.retryBaseDelayMs') as
+    | number
+    | undefined;
+  const maxDelay = getPath(config, 'client.retryMaxDelayMs') as
+    | number
+    | undefined;
+  if (
+    baseDelay !== undefined &&
+    maxDelay !== undefined &&
+    baseDelay > maxDelay
+  ) {
+    issues.push({
+      path: 'client.retryBaseDelayMs',
+      source: sources['client.retryBaseDelayMs'],
+      message: `must not exceed client.retryMaxDelayMs (${maxDelay})`,
+    });
+  }
+
+  if (issues.length > 0) {
+    throw new ConfigValidationError(issues);
+  }
+
+  // Sections are always present so callers can read them without guards
+  for (const section of [
+    'bamboo',
+    'cache',
+    'fixtures',
+    'snapshots',
+    'privacy',
+    'client.cacheTtl',
+  ]) {
+    if (getPath(config, section) === undefined) {
+      setPath(config, section, {});
+    }
+  }
+
+  return {
+    config: config as unknown as ServerConfig,
+    ...(filePath && { filePath }),
+    sources,
+  };
+}
+
+/**
+ * Outcome of re-reading the configuration on SIGHUP
+ */
+export interface ConfigReload {
+  /** New configuration; settings that need a restart keep their old values */
+  config: ServerConfig;
+  /** Reloadable settings whose value changed */
+  applied: string[];
+  /** Changed settings that only take effect after a restart */
+  restartRequired: string[];
+}
+
+/**
+ * Compare a freshly loaded configuration with the running one
+ */
+export function diffServerConfig(
+  current: ServerConfig,
+  next: ServerConfig
+): ConfigReload {
+  const merged = JSON.parse(JSON.stringify(next)) as Record<string, unknown>;
+  const applied: string[] = [];
+  const restartRequired: string[] = [];
+
+  for (const field of CONFIG_FIELDS) {
+    const before = getPath(current, field.path);
+    const after = getPath(next, field.path);
+    if (JSON.stringify(before) === JSON.stringify(after)) {
+      continue;
+    }
+    if (field.reloadable) {
+      applied.push(field.path);
+    } else {
+      restartRequired.push(field.path);
+      setPath(merged, field.path, before);
+    }
+  }
+
+  return {
+    config: merged as unknown as ServerConfig,
+    applied,
+    restartRequired,
+  };
+}
+
+/**
+ * BambooClient settings from the `client` section
+ */
+export function toClientSettings(config: ServerConfig): BambooClientSettings {
+  const { cacheTtl, cacheTtlRules, ...settings } = config.client;
+  return {
+    ...settings,
+    cacheTtlRules: cacheTtlRules ?? buildCacheTtlRules(cacheTtl),
+  };
+}
+
+/**
+ * mcpLogger settings from the `logging` section; extra redaction rules
+ * are added to the defaults, never replace them
+ */
+export function toLoggerConfig(config: ServerConfig): MCPLoggerConfig {
+  return {
+    minLevel: config.logging.level,
+    categoryLevels: config.logging.categories,
+    enableConsoleOutput: config.logging.console,
+    sanitizationRules: [
+      ...DEFAULT_SANITIZATION_RULES,
+      ...configuredRedactionRules(config),
+    ],
+  };
+}
+
+/**
+ * Redaction rules for audit log arguments: the fixture rules, which also
+ * cover PII, plus the `logging.redact` rules
+ */
+export function toAuditSanitizationRules(
+  config: ServerConfig
+): SanitizationRule[] {
+  return [...FIXTURE_SANITIZATION_RULES, ...configuredRedactionRules(config)];
+}
+
+function configuredRedactionRules(config: ServerConfig): SanitizationRule[] {
+  return config.logging.redact.map((rule) => ({
+    pattern: new RegExp(rule.pattern, 'i'),
+    replacement: rule.replacement,
+  }));
+}
+
+/**
+ * PII policy from the `privacy` section
+ */
+export function toPiiPolicy(config: ServerConfig): PiiPolicy {
+  return {
+    rules: config.privacy.rules ?? DEFAULT_PII_RULES,
+    ...(config.privacy.hashSalt && { hashSalt: config.privacy.hashSalt }),
+  };
+}
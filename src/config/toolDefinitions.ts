@@ -1,7 +1,85 @@
 /**
  * Tool definitions for MCP 2025-06-18 compliance
+ * Each tool declares an outputSchema describing its structuredContent payload
  */
 
+// Shared output schema fragments
+const EMPLOYEE_SUMMARY_SCHEMA = {
+  type: 'object',
+  properties: {
+    id: { type: 'string' },
+    firstName: { type: 'string' },
+    lastName: { type: 'string' },
+    workEmail: { type: 'string' },
+    jobTitle: { type: 'string' },
+    department: { type: 'string' },
+  },
+} as const;
+
+const DATE_RANGE_PROPERTIES = {
+  startDate: { type: 'string', description: 'YYYY-MM-DD' },
+  endDate: { type: 'string', description: 'YYYY-MM-DD' },
+} as const;
+
+// Org chart tools list employees depth first; depth 0 starts a tree
+const ORG_CHART_ENTRY_SCHEMA = {
+  type: 'object',
+  properties: {
+    id: { type: 'string' },
+    name: { type: 'string' },
+    jobTitle: { type: 'string' },
+    department: { type: 'string' },
+    managerId: { type: 'string' },
+    depth: { type: 'integer' },
+    directReports: {
+      type: 'integer',
+      description: 'Span of control: employees reporting directly',
+    },
+    totalReports: { type: 'integer' },
+  },
+  required: ['id', 'name', 'depth', 'directReports', 'totalReports'],
+} as const;
+
+const ORG_CHART_ISSUES_SCHEMA = {
+  type: 'object',
+  properties: {
+    orphans: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          id: { type: 'string' },
+          name: { type: 'string' },
+          managerId: { type: 'string' },
+        },
+        required: ['id', 'name', 'managerId'],
+      },
+      description: 'Employees whose manager is not in the directory',
+    },
+    cycles: {
+      type: 'array',
+      items: { type: 'array', items: { type: 'string' } },
+      description: 'Employee IDs of each reporting loop',
+    },
+  },
+  required: ['orphans', 'cycles'],
+} as const;
+
+const MAX_DEPTH_ARGUMENT = {
+  type: 'integer',
+  minimum: 1,
+  description:
+    'Levels of reports to include (1 = direct reports only). Defaults to all levels',
+} as const;
+
+// Optional on every BambooHR tool; see bamboo_list_companies
+const COMPANY_ARGUMENT = {
+  type: 'string',
+  minLength: 1,
+  description:
+    'Configured company to query (from bamboo_list_companies). Defaults to the default company.',
+} as const;
+
 export const BAMBOO_TOOLS = [
   {
     name: 'bamboo_find_employee',
@@ -13,13 +91,228 @@ export const BAMBOO_TOOLS = [
       properties: {
         query: {
           type: 'string',
+          minLength: 1,
           description:
             'Employee name, email, or ID to search for. Examples: "John Smith", "john.smith@company.com", "123"',
         },
+        company: COMPANY_ARGUMENT,
       },
       required: ['query'],
       additionalProperties: false,
     },
+    outputSchema: {
+      type: 'object',
+      properties: {
+        query: { type: 'string' },
+        count: { type: 'integer' },
+        employees: {
+          type: 'array',
+          items: EMPLOYEE_SUMMARY_SCHEMA,
+          description: 'All matching employees, best match first',
+        },
+      },
+      required: ['query', 'count', 'employees'],
+    },
+  },
+  {
+    name: 'bamboo_get_employee',
+    title: 'Get Employee',
+    description:
+      'Get a full employee profile by ID: any standard or custom fields, grouped into sections, plus optional job, employment status and compensation history',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        employee_id: {
+          type: 'string',
+          minLength: 1,
+          description:
+            'Employee ID (use bamboo_find_employee to get the ID first). Example: "123"',
+        },
+        fields: {
+          type: 'array',
+          items: { type: 'string', minLength: 1 },
+          minItems: 1,
+          description:
+            'Fields to return, by alias ("jobTitle"), custom field ID ("4012") or name as shown in BambooHR ("Shirt Size"). Defaults to the main job and contact fields',
+        },
+        tables: {
+          type: 'array',
+          items: {
+            type: 'string',
+            enum: ['jobInfo', 'employmentStatus', 'compensation'],
+          },
+          description:
+            'History tables to include. Compensation is withheld unless the PII policy allows it',
+        },
+        company: COMPANY_ARGUMENT,
+      },
+      required: ['employee_id'],
+      additionalProperties: false,
+    },
+    outputSchema: {
+      type: 'object',
+      properties: {
+        employeeId: { type: 'string' },
+        name: { type: 'string' },
+        fields: {
+          type: 'object',
+          additionalProperties: { type: 'string' },
+          description: 'Field values keyed by alias or custom field ID',
+        },
+        sections: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              title: { type: 'string' },
+              fields: {
+                type: 'array',
+                items: {
+                  type: 'object',
+                  properties: {
+                    field: { type: 'string' },
+                    label: { type: 'string' },
+                    value: { type: 'string' },
+                  },
+                  required: ['field', 'label', 'value'],
+                },
+              },
+            },
+            required: ['title', 'fields'],
+          },
+        },
+        tables: {
+          type: 'object',
+          additionalProperties: { type: 'array', items: { type: 'object' } },
+          description: 'Rows of each requested table, oldest first',
+        },
+      },
+      required: ['employeeId', 'name', 'fields', 'sections', 'tables'],
+    },
+  },
+  {
+    name: 'bamboo_employee_changes',
+    title: 'Employee Changes',
+    description:
+      'See which employee records were inserted, updated or deleted since a date, with optional changed table rows and before/after values of selected fields',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        since: {
+          type: 'string',
+          format: 'date',
+          description:
+            'Report changes since this date (YYYY-MM-DD, midnight UTC). Defaults to 7 days ago',
+        },
+        type: {
+          type: 'string',
+          enum: ['inserted', 'updated', 'deleted', 'all'],
+          description: 'Only report this kind of change. Defaults to all',
+        },
+        tables: {
+          type: 'array',
+          items: {
+            type: 'string',
+            enum: ['jobInfo', 'employmentStatus', 'compensation'],
+          },
+          description:
+            'Tables whose changed rows to include. Compensation is withheld unless the PII policy allows it',
+        },
+        fields: {
+          type: 'array',
+          items: { type: 'string', minLength: 1 },
+          minItems: 1,
+          description:
+            'Fields to compare with the values stored the last time this tool saw each employee, by alias, custom field ID or name. The first call only records a baseline',
+        },
+        company: COMPANY_ARGUMENT,
+      },
+      additionalProperties: false,
+    },
+    outputSchema: {
+      type: 'object',
+      properties: {
+        since: { type: 'string' },
+        latest: {
+          type: 'string',
+          description: 'Time of the most recent change; a timestamp',
+        },
+        type: { type: 'string' },
+        counts: {
+          type: 'object',
+          properties: {
+            inserted: { type: 'integer' },
+            updated: { type: 'integer' },
+            deleted: { type: 'integer' },
+          },
+          required: ['inserted', 'updated', 'deleted'],
+        },
+        changes: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              employeeId: { type: 'string' },
+              name: { type: 'string' },
+              action: {
+                type: 'string',
+                enum: ['inserted', 'updated', 'deleted'],
+              },
+              lastChanged: { type: 'string' },
+            },
+            required: ['employeeId', 'name', 'action', 'lastChanged'],
+          },
+          description: 'Most recent first',
+        },
+        tables: {
+          type: 'object',
+          additionalProperties: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: {
+                employeeId: { type: 'string' },
+                name: { type: 'string' },
+                lastChanged: { type: 'string' },
+                rows: { type: 'array', items: { type: 'object' } },
+              },
+              required: ['employeeId', 'name', 'lastChanged', 'rows'],
+            },
+          },
+        },
+        diffs: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              employeeId: { type: 'string' },
+              name: { type: 'string' },
+              baseline: {
+                type: 'boolean',
+                description:
+                  'No earlier snapshot; current values were stored for next time',
+              },
+              previousCapture: { type: 'string' },
+              changes: {
+                type: 'array',
+                items: {
+                  type: 'object',
+                  properties: {
+                    field: { type: 'string' },
+                    label: { type: 'string' },
+                    before: { type: 'string' },
+                    after: { type: 'string' },
+                  },
+                  required: ['field', 'label'],
+                },
+              },
+            },
+            required: ['employeeId', 'name', 'baseline', 'changes'],
+          },
+        },
+      },
+      required: ['since', 'type', 'counts', 'changes', 'tables'],
+    },
   },
   {
     name: 'bamboo_whos_out',
@@ -31,17 +324,46 @@ export const BAMBOO_TOOLS = [
       properties: {
         start_date: {
           type: 'string',
+          format: 'date',
           description:
             'Start date in YYYY-MM-DD format (optional, defaults to today). Example: "2024-01-15"',
         },
         end_date: {
           type: 'string',
+          format: 'date',
           description:
             'End date in YYYY-MM-DD format (optional, defaults to start_date). Example: "2024-01-20"',
         },
+        company: COMPANY_ARGUMENT,
       },
       additionalProperties: false,
     },
+    outputSchema: {
+      type: 'object',
+      properties: {
+        ...DATE_RANGE_PROPERTIES,
+        count: { type: 'integer' },
+        entries: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              id: { type: 'string' },
+              type: { type: 'string' },
+              employeeId: { type: 'string' },
+              name: { type: 'string' },
+              start: { type: 'string' },
+              end: { type: 'string' },
+              timeOffType: {
+                type: 'string',
+                description: 'Time-off type name, when the catalog has it',
+              },
+            },
+          },
+        },
+      },
+      required: ['startDate', 'endDate', 'count', 'entries'],
+    },
   },
   {
     name: 'bamboo_team_info',
@@ -53,13 +375,24 @@ export const BAMBOO_TOOLS = [
       properties: {
         department: {
           type: 'string',
+          minLength: 1,
           description:
             'Department name to get roster for. Supports partial matching. Examples: "Engineering", "Product", "QA", "Sales"',
         },
+        company: COMPANY_ARGUMENT,
       },
       required: ['department'],
       additionalProperties: false,
     },
+    outputSchema: {
+      type: 'object',
+      properties: {
+        department: { type: 'string' },
+        count: { type: 'integer' },
+        employees: { type: 'array', items: EMPLOYEE_SUMMARY_SCHEMA },
+      },
+      required: ['department', 'count', 'employees'],
+    },
   },
   {
     name: 'bamboo_time_off_requests',
@@ -70,21 +403,211 @@ export const BAMBOO_TOOLS = [
       properties: {
         start_date: {
           type: 'string',
+          format: 'date',
           description: 'Start date in YYYY-MM-DD format (required)',
         },
         end_date: {
           type: 'string',
+          format: 'date',
           description: 'End date in YYYY-MM-DD format (required)',
         },
         status: {
           type: 'string',
+          enum: ['approved', 'denied', 'pending', 'all'],
           description:
             'Filter by request status (approved, denied, pending, all). Defaults to all',
         },
+        type: {
+          type: 'string',
+          minLength: 1,
+          description:
+            'Only requests of this time-off type, by name or ID as listed by bamboo_list_time_off_types. Example: "Vacation"',
+        },
+        company: COMPANY_ARGUMENT,
       },
       required: ['start_date', 'end_date'],
       additionalProperties: false,
     },
+    outputSchema: {
+      type: 'object',
+      properties: {
+        ...DATE_RANGE_PROPERTIES,
+        status: { type: 'string' },
+        type: { type: 'string', description: 'Time-off type filtered on' },
+        typeId: { type: 'string' },
+        count: { type: 'integer' },
+        requests: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              id: { type: 'string' },
+              employeeId: { type: 'string' },
+              name: { type: 'string' },
+              start: { type: 'string' },
+              end: { type: 'string' },
+              type: { type: 'string' },
+              status: { type: 'string' },
+              amount: {
+                type: 'object',
+                properties: {
+                  unit: { type: 'string' },
+                  amount: { type: 'string' },
+                },
+              },
+            },
+          },
+        },
+      },
+      required: ['startDate', 'endDate', 'count', 'requests'],
+    },
+  },
+  {
+    name: 'bamboo_time_off_balance',
+    title: 'Time Off Balance',
+    description:
+      "Get an employee's current time-off balance per time-off type, and the balance projected to a future date including accrual. The employee can be given by ID, name or email",
+    inputSchema: {
+      type: 'object',
+      properties: {
+        employee: {
+          type: 'string',
+          minLength: 1,
+          description:
+            'Employee ID, full name or work email, matched as in bamboo_find_employee. Example: "Avery Chen"',
+        },
+        date: {
+          type: 'string',
+          format: 'date',
+          description:
+            'Project balances to this date in YYYY-MM-DD format. Defaults to today',
+        },
+        company: COMPANY_ARGUMENT,
+      },
+      required: ['employee'],
+      additionalProperties: false,
+    },
+    outputSchema: {
+      type: 'object',
+      properties: {
+        employeeId: { type: 'string' },
+        name: { type: 'string' },
+        asOf: { type: 'string', description: 'Date of the current balances' },
+        date: { type: 'string', description: 'Date of the projected balances' },
+        balances: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              typeId: { type: 'string' },
+              name: { type: 'string' },
+              units: { type: 'string', description: 'hours or days' },
+              policyType: { type: 'string' },
+              policyId: { type: 'string' },
+              accrualStartDate: { type: 'string' },
+              current: { type: 'number' },
+              projected: { type: 'number' },
+              change: {
+                type: 'number',
+                description:
+                  'Projected minus current: accrual, less time off already booked',
+              },
+              usedYearToDate: { type: 'number' },
+            },
+            required: [
+              'typeId',
+              'name',
+              'units',
+              'current',
+              'projected',
+              'change',
+            ],
+          },
+        },
+      },
+      required: ['employeeId', 'name', 'asOf', 'date', 'balances'],
+    },
+  },
+  {
+    name: 'bamboo_list_time_off_types',
+    title: 'List Time Off Types',
+    description:
+      'List the time-off types the company uses (vacation, sick leave and so on), with their IDs, units and policy counts',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        company: COMPANY_ARGUMENT,
+      },
+      additionalProperties: false,
+    },
+    outputSchema: {
+      type: 'object',
+      properties: {
+        count: { type: 'integer' },
+        types: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              id: { type: 'string' },
+              name: { type: 'string' },
+              units: { type: 'string', description: 'hours or days' },
+              icon: { type: 'string', description: 'BambooHR icon name' },
+              color: { type: 'string' },
+              policyCount: { type: 'integer' },
+            },
+            required: ['id', 'name', 'units', 'policyCount'],
+          },
+        },
+      },
+      required: ['count', 'types'],
+    },
+  },
+  {
+    name: 'bamboo_list_time_off_policies',
+    title: 'List Time Off Policies',
+    description:
+      'List the time-off policies that govern accrual, optionally for one time-off type',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        type: {
+          type: 'string',
+          minLength: 1,
+          description:
+            'Only policies of this time-off type, by name or ID. Example: "Vacation"',
+        },
+        company: COMPANY_ARGUMENT,
+      },
+      additionalProperties: false,
+    },
+    outputSchema: {
+      type: 'object',
+      properties: {
+        type: { type: 'string', description: 'Time-off type filtered on' },
+        typeId: { type: 'string' },
+        count: { type: 'integer' },
+        policies: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              id: { type: 'string' },
+              name: { type: 'string' },
+              typeId: { type: 'string' },
+              typeName: { type: 'string' },
+              type: {
+                type: 'string',
+                description: 'Policy type, such as accruing or manual',
+              },
+              effectiveDate: { type: 'string' },
+            },
+            required: ['id', 'name', 'typeId', 'type'],
+          },
+        },
+      },
+      required: ['count', 'policies'],
+    },
   },
   {
     name: 'bamboo_discover_datasets',
@@ -93,9 +616,29 @@ export const BAMBOO_TOOLS = [
       'Discover what datasets are available in BambooHR for analytics',
     inputSchema: {
       type: 'object',
-      properties: {},
+      properties: {
+        company: COMPANY_ARGUMENT,
+      },
       additionalProperties: false,
     },
+    outputSchema: {
+      type: 'object',
+      properties: {
+        count: { type: 'integer' },
+        datasets: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              id: { type: 'string' },
+              name: { type: 'string' },
+              description: { type: 'string' },
+            },
+          },
+        },
+      },
+      required: ['count', 'datasets'],
+    },
   },
   {
     name: 'bamboo_discover_fields',
@@ -107,13 +650,36 @@ export const BAMBOO_TOOLS = [
       properties: {
         dataset_id: {
           type: 'string',
+          minLength: 1,
           description:
             'Dataset ID to explore (use bamboo_discover_datasets first to get IDs). Examples: "employee", "time_off", "performance"',
         },
+        company: COMPANY_ARGUMENT,
       },
       required: ['dataset_id'],
       additionalProperties: false,
     },
+    outputSchema: {
+      type: 'object',
+      properties: {
+        datasetId: { type: 'string' },
+        count: { type: 'integer' },
+        fields: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              id: { type: 'string' },
+              name: { type: 'string' },
+              label: { type: 'string' },
+              type: { type: 'string' },
+              description: { type: 'string' },
+            },
+          },
+        },
+      },
+      required: ['datasetId', 'count', 'fields'],
+    },
   },
   {
     name: 'bamboo_workforce_analytics',
@@ -125,14 +691,16 @@ export const BAMBOO_TOOLS = [
       properties: {
         dataset_id: {
           type: 'string',
+          minLength: 1,
           description:
-            'Dataset ID (use bamboo_discover_datasets to find available datasets)',
+            'Dataset ID; run bamboo_discover_datasets first to find available datasets',
         },
         fields: {
           type: 'array',
-          items: { type: 'string' },
+          items: { type: 'string', minLength: 1 },
+          minItems: 1,
           description:
-            'Array of field names to retrieve (use bamboo_discover_fields to find available fields)',
+            'Array of field names to retrieve; run bamboo_discover_fields with the dataset ID first to find available fields',
         },
         filters: {
           type: 'array',
@@ -145,16 +713,34 @@ export const BAMBOO_TOOLS = [
             },
             required: ['field', 'operator', 'value'],
           },
-          description: 'Optional filters to apply to the data',
+          description:
+            'Optional filters, each an object with field, operator and value, e.g. {"field": "status", "operator": "equal", "value": "Active"}',
         },
         group_by: {
           type: 'string',
           description: 'Optional field name to group results by',
         },
+        company: COMPANY_ARGUMENT,
       },
       required: ['dataset_id', 'fields'],
       additionalProperties: false,
     },
+    outputSchema: {
+      type: 'object',
+      properties: {
+        datasetId: { type: 'string' },
+        fields: { type: 'array', items: { type: 'string' } },
+        groupBy: { type: 'array', items: { type: 'string' } },
+        filterCount: { type: 'integer' },
+        recordCount: { type: 'integer' },
+        records: {
+          type: 'array',
+          items: { type: 'object' },
+          description: 'Raw dataset records keyed by field name',
+        },
+      },
+      required: ['datasetId', 'fields', 'recordCount', 'records'],
+    },
   },
   {
     name: 'bamboo_run_custom_report',
@@ -171,6 +757,7 @@ export const BAMBOO_TOOLS = [
         },
         report_id: {
           type: 'string',
+          minLength: 1,
           description:
             'ID of specific report to run (get from list_reports first). Example: {"report_id": "123"}',
         },
@@ -180,9 +767,36 @@ export const BAMBOO_TOOLS = [
           description:
             'Output format for the report (defaults to json). Example: {"report_id": "123", "format": "json"}',
         },
+        company: COMPANY_ARGUMENT,
       },
       additionalProperties: false,
     },
+    outputSchema: {
+      type: 'object',
+      properties: {
+        operation: { type: 'string', enum: ['list_reports', 'run_report'] },
+        count: { type: 'integer' },
+        reports: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              id: { type: 'string' },
+              name: { type: 'string' },
+              description: { type: 'string' },
+            },
+          },
+          description: 'Available reports (list_reports only)',
+        },
+        reportId: { type: 'string' },
+        format: { type: 'string' },
+        data: {
+          description:
+            'Report results as returned by BambooHR (run_report only)',
+        },
+      },
+      required: ['operation'],
+    },
   },
   {
     name: 'bamboo_get_employee_photo',
@@ -193,22 +807,214 @@ export const BAMBOO_TOOLS = [
       properties: {
         employee_id: {
           type: 'string',
+          minLength: 1,
           description:
             'Employee ID to get photo for. Use bamboo_find_employee to get the ID first.',
         },
+        company: COMPANY_ARGUMENT,
       },
       required: ['employee_id'],
       additionalProperties: false,
     },
+    outputSchema: {
+      type: 'object',
+      properties: {
+        employeeId: { type: 'string' },
+        employeeName: { type: 'string' },
+        photoUrl: { type: 'string' },
+        resourceUri: { type: 'string' },
+      },
+      required: ['employeeId', 'photoUrl'],
+    },
   },
   {
     name: 'bamboo_list_departments',
     title: 'List Departments',
     description: 'Get a list of all departments in the company',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        company: COMPANY_ARGUMENT,
+      },
+      additionalProperties: false,
+    },
+    outputSchema: {
+      type: 'object',
+      properties: {
+        departmentCount: { type: 'integer' },
+        employeeCount: { type: 'integer' },
+        departments: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              name: { type: 'string' },
+              employeeCount: { type: 'integer' },
+              percentage: { type: 'number' },
+            },
+            required: ['name', 'employeeCount'],
+          },
+        },
+      },
+      required: ['departmentCount', 'employeeCount', 'departments'],
+    },
+  },
+  {
+    name: 'bamboo_manager_chain',
+    title: 'Manager Chain',
+    description:
+      "Get an employee's reporting line: their manager, that manager's manager and so on up to the CEO",
+    inputSchema: {
+      type: 'object',
+      properties: {
+        employee_id: {
+          type: 'string',
+          minLength: 1,
+          description:
+            'Employee ID (use bamboo_find_employee to get the ID first). Example: "123"',
+        },
+        company: COMPANY_ARGUMENT,
+      },
+      required: ['employee_id'],
+      additionalProperties: false,
+    },
+    outputSchema: {
+      type: 'object',
+      properties: {
+        employeeId: { type: 'string' },
+        name: { type: 'string' },
+        chain: {
+          type: 'array',
+          items: ORG_CHART_ENTRY_SCHEMA,
+          description: 'Top of the chain first, ending with the employee',
+        },
+        complete: {
+          type: 'boolean',
+          description: 'False when the chain stops at an orphan or a cycle',
+        },
+        issues: ORG_CHART_ISSUES_SCHEMA,
+      },
+      required: ['employeeId', 'name', 'chain', 'complete', 'issues'],
+    },
+  },
+  {
+    name: 'bamboo_reports',
+    title: 'Direct and Indirect Reports',
+    description:
+      'Get everyone who reports to an employee, directly or indirectly, as an indented tree with span-of-control counts',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        employee_id: {
+          type: 'string',
+          minLength: 1,
+          description:
+            'Manager\'s employee ID (use bamboo_find_employee to get the ID first). Example: "123"',
+        },
+        max_depth: MAX_DEPTH_ARGUMENT,
+        company: COMPANY_ARGUMENT,
+      },
+      required: ['employee_id'],
+      additionalProperties: false,
+    },
+    outputSchema: {
+      type: 'object',
+      properties: {
+        employeeId: { type: 'string' },
+        name: { type: 'string' },
+        directReports: { type: 'integer' },
+        totalReports: { type: 'integer' },
+        entries: {
+          type: 'array',
+          items: ORG_CHART_ENTRY_SCHEMA,
+          description: 'The manager (depth 0) followed by their reports',
+        },
+        issues: ORG_CHART_ISSUES_SCHEMA,
+      },
+      required: [
+        'employeeId',
+        'name',
+        'directReports',
+        'totalReports',
+        'entries',
+        'issues',
+      ],
+    },
+  },
+  {
+    name: 'bamboo_org_chart',
+    title: 'Org Chart',
+    description:
+      'Get the org chart of a department or the whole company as an indented tree, with span-of-control counts and any orphaned or circular reporting lines',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        department: {
+          type: 'string',
+          minLength: 1,
+          description:
+            'Department name, as listed by bamboo_list_departments. Defaults to the whole company',
+        },
+        max_depth: MAX_DEPTH_ARGUMENT,
+        company: COMPANY_ARGUMENT,
+      },
+      additionalProperties: false,
+    },
+    outputSchema: {
+      type: 'object',
+      properties: {
+        department: { type: 'string' },
+        count: { type: 'integer' },
+        managerCount: {
+          type: 'integer',
+          description: 'Employees in the chart with at least one report',
+        },
+        averageSpanOfControl: {
+          type: 'number',
+          description: 'Mean direct reports per manager',
+        },
+        entries: { type: 'array', items: ORG_CHART_ENTRY_SCHEMA },
+        issues: ORG_CHART_ISSUES_SCHEMA,
+      },
+      required: [
+        'count',
+        'managerCount',
+        'averageSpanOfControl',
+        'entries',
+        'issues',
+      ],
+    },
+  },
+  {
+    name: 'bamboo_list_companies',
+    title: 'List Companies',
+    description:
+      'List the BambooHR companies this server is configured for. Pass a company name as the "company" argument of other tools.',
     inputSchema: {
       type: 'object',
       properties: {},
       additionalProperties: false,
     },
+    outputSchema: {
+      type: 'object',
+      properties: {
+        defaultCompany: { type: 'string' },
+        count: { type: 'integer' },
+        companies: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              name: { type: 'string' },
+              displayName: { type: 'string' },
+              subdomain: { type: 'string' },
+              isDefault: { type: 'boolean' },
+            },
+            required: ['name', 'subdomain', 'isDefault'],
+          },
+        },
+      },
+      required: ['defaultCompany', 'count', 'companies'],
+    },
   },
 ] as const;
@@ -0,0 +1,58 @@
+/**
+ * Tool profiles
+ * Named sets of tools a deployment may expose, from a staff directory up to
+ * full HR access. Every BambooHR tool is read-only; profiles control which
+ * HR data an assistant can see, not whether it can change anything.
+ */
+
+import { BAMBOO_TOOLS } from './toolDefinitions.js';
+
+export type BambooToolName = (typeof BAMBOO_TOOLS)[number]['name'];
+
+/** Who works here and where: names, titles, departments, reporting lines */
+const DIRECTORY_TOOLS: readonly BambooToolName[] = [
+  'bamboo_find_employee',
+  'bamboo_team_info',
+  'bamboo_list_departments',
+  'bamboo_manager_chain',
+  'bamboo_reports',
+  'bamboo_org_chart',
+  'bamboo_list_companies',
+];
+
+/** Directory plus team absences, time off and profile photos */
+const MANAGER_TOOLS: readonly BambooToolName[] = [
+  ...DIRECTORY_TOOLS,
+  'bamboo_whos_out',
+  'bamboo_time_off_requests',
+  'bamboo_time_off_balance',
+  'bamboo_list_time_off_types',
+  'bamboo_list_time_off_policies',
+  'bamboo_get_employee_photo',
+];
+
+export const TOOL_PROFILES = {
+  'directory-only': DIRECTORY_TOOLS,
+  manager: MANAGER_TOOLS,
+  // Everything, including datasets, workforce analytics and custom reports
+  'hr-admin': BAMBOO_TOOLS.map((tool) => tool.name),
+} as const satisfies Record<string, readonly BambooToolName[]>;
+
+export type ToolProfileName = keyof typeof TOOL_PROFILES;
+
+export const TOOL_PROFILE_NAMES = Object.keys(
+  TOOL_PROFILES
+) as ToolProfileName[];
+
+/** Profile used when none is configured; keeps every tool available */
+export const DEFAULT_TOOL_PROFILE: ToolProfileName = 'hr-admin';
+
+/**
+ * Check whether a profile includes a tool
+ */
+export function profileIncludesTool(
+  profile: ToolProfileName,
+  toolName: string
+): boolean {
+  return (TOOL_PROFILES[profile] as readonly string[]).includes(toolName);
+}
@@ -5,7 +5,9 @@
 
 // Employee handlers
 import {
+  handleEmployeeChanges,
   handleFindEmployee,
+  handleGetEmployee,
   handleGetEmployeePhoto,
 } from '../handlers/employeeHandlers.js';
 
@@ -13,6 +15,9 @@ import {
 import {
   handleWhosOut,
   handleTimeOffRequests,
+  handleTimeOffBalance,
+  handleListTimeOffTypes,
+  handleListTimeOffPolicies,
 } from '../handlers/timeOffHandlers.js';
 
 // Dataset handlers
@@ -31,21 +36,60 @@ import { handleRunCustomReport } from '../handlers/reportHandlers.js';
 import {
   handleTeamInfo,
   handleListDepartments,
+  handleManagerChain,
+  handleReports,
+  handleOrgChart,
 } from '../handlers/organizationHandlers.js';
-import type { ToolHandlerFunction } from '../types.js';
+
+// Company handlers
+import { handleListCompanies } from '../handlers/companyHandlers.js';
+import { BAMBOO_TOOLS } from './toolDefinitions.js';
+import {
+  DEFAULT_TOOL_PROFILE,
+  profileIncludesTool,
+  type ToolProfileName,
+} from './toolProfiles.js';
+import { MCPError, MCP_ERROR_CODES } from '../utils/mcpErrorHandler.js';
+import {
+  validateAgainstSchema,
+  type ToolJsonSchema,
+} from '../utils/schemaValidator.js';
+import type { ToolArgs, ToolHandlerFunction } from '../types.js';
 
 // Tool handler registry
 const toolHandlers = new Map<string, ToolHandlerFunction>();
 
 /**
- * Initialize the tool router with all available handlers
+ * Which tools are offered: the profile's tools, narrowed by the `enabled`
+ * allow list when given, minus the `disabled` deny list
  */
-export function initializeToolRouter(): number {
+export interface ToolEnablement {
+  profile?: ToolProfileName;
+  enabled?: readonly string[];
+  disabled?: readonly string[];
+}
+
+let toolEnablement: ToolEnablement = {};
+
+/**
+ * Initialize the tool router with all available handlers.
+ * Every handler is registered; `enablement` decides which are offered.
+ */
+export function initializeToolRouter(
+  enablement: ToolEnablement = toolEnablement
+): number {
+  configureToolEnablement(enablement);
+
   // Core HR tools
   toolHandlers.set('bamboo_find_employee', handleFindEmployee);
+  toolHandlers.set('bamboo_get_employee', handleGetEmployee);
+  toolHandlers.set('bamboo_employee_changes', handleEmployeeChanges);
   toolHandlers.set('bamboo_whos_out', handleWhosOut);
   toolHandlers.set('bamboo_team_info', handleTeamInfo);
   toolHandlers.set('bamboo_time_off_requests', handleTimeOffRequests);
+  toolHandlers.set('bamboo_time_off_balance', handleTimeOffBalance);
+  toolHandlers.set('bamboo_list_time_off_types', handleListTimeOffTypes);
+  toolHandlers.set('bamboo_list_time_off_policies', handleListTimeOffPolicies);
 
   // Discovery tools
   toolHandlers.set('bamboo_discover_datasets', handleDiscoverDatasets);
@@ -57,6 +101,14 @@ export function initializeToolRouter(): number {
   toolHandlers.set('bamboo_get_employee_photo', handleGetEmployeePhoto);
   toolHandlers.set('bamboo_list_departments', handleListDepartments);
 
+  // Org chart tools
+  toolHandlers.set('bamboo_manager_chain', handleManagerChain);
+  toolHandlers.set('bamboo_reports', handleReports);
+  toolHandlers.set('bamboo_org_chart', handleOrgChart);
+
+  // Multi-company tools
+  toolHandlers.set('bamboo_list_companies', handleListCompanies);
+
   return toolHandlers.size;
 }
 
@@ -71,6 +123,94 @@ export function getToolHandler(toolName: string): ToolHandlerFunction {
   return handler;
 }
 
+/**
+ * Validate tool arguments against the tool's inputSchema in BAMBOO_TOOLS.
+ * Call before dispatching to the handler; throws MCPError(INVALID_PARAMS)
+ * listing every problem so clients can fix all arguments in one round trip.
+ */
+export function validateToolArguments(toolName: string, args: ToolArgs): void {
+  const tool = BAMBOO_TOOLS.find((t) => t.name === toolName);
+  if (!tool) {
+    throw new MCPError(
+      `Unknown tool: ${toolName}`,
+      MCP_ERROR_CODES.METHOD_NOT_FOUND,
+      { toolName }
+    );
+  }
+
+  const issues = validateAgainstSchema(
+    args,
+    tool.inputSchema as ToolJsonSchema
+  );
+  if (issues.length > 0) {
+    throw new MCPError(
+      `Invalid arguments for ${toolName}: ${issues
+        .map((issue) =>
+          issue.hint ? `${issue.message} (${issue.hint})` : issue.message
+        )
+        .join('; ')}`,
+      MCP_ERROR_CODES.INVALID_PARAMS,
+      { toolName, errors: issues }
+    );
+  }
+}
+
+/**
+ * Set which tools are listed and callable; replaces any earlier setting
+ */
+export function configureToolEnablement(enablement: ToolEnablement): void {
+  toolEnablement = { ...enablement };
+}
+
+/**
+ * Why configuration hides a tool, or undefined if it is offered
+ */
+export function getToolDenialReason(toolName: string): string | undefined {
+  const { profile = DEFAULT_TOOL_PROFILE, enabled, disabled } = toolEnablement;
+  if (!profileIncludesTool(profile, toolName)) {
+    return `not included in the "${profile}" tool profile`;
+  }
+  if (enabled && !enabled.includes(toolName)) {
+    return 'not in the enabled tools list';
+  }
+  if (disabled?.includes(toolName)) {
+    return 'disabled by server configuration';
+  }
+  return undefined;
+}
+
+/**
+ * Check whether a tool is enabled by configuration
+ */
+export function isToolEnabled(toolName: string): boolean {
+  return getToolDenialReason(toolName) === undefined;
+}
+
+/**
+ * Tool definitions to advertise in tools/list
+ */
+export function getEnabledTools(): (typeof BAMBOO_TOOLS)[number][] {
+  return BAMBOO_TOOLS.filter((tool) => isToolEnabled(tool.name));
+}
+
+/**
+ * Throw MCPError(METHOD_NOT_FOUND) for a tool hidden by configuration
+ */
+export function assertToolEnabled(toolName: string): void {
+  const reason = getToolDenialReason(toolName);
+  if (reason) {
+    throw new MCPError(
+      `Tool ${toolName} is not available on this server: ${reason}`,
+      MCP_ERROR_CODES.METHOD_NOT_FOUND,
+      {
+        toolName,
+        profile: toolEnablement.profile ?? DEFAULT_TOOL_PROFILE,
+        reason,
+      }
+    );
+  }
+}
+
 /**
  * Check if a tool handler exists
  */
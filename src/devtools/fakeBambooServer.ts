@@ -0,0 +1,1054 @@
+/**
+ * Local fake BambooHR API for offline development
+ * Serves seeded synthetic data for every endpoint the MCP tools call, with
+ * switches for the failure modes the client has to survive (401, 429, slow
+ * and malformed responses). Point BambooClientConfig.baseUrl at `baseUrl`.
+ */
+
+import {
+  createServer,
+  type IncomingMessage,
+  type Server as HttpServer,
+  type ServerResponse,
+} from 'node:http';
+import type { AddressInfo } from 'node:net';
+
+const API_PREFIX = /^\/api\/gateway\.php\/[^/]+\/v1(?=\/|$)/;
+const CONTROL_PATH = '/__fake/faults';
+const MAX_BODY_BYTES = 1024 * 1024;
+
+// 1x1 transparent PNG returned for every employee photo
+const PHOTO_PNG = Buffer.from(
+  'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mNkYAAAAAYAAjCB0C8AAAAASUVORK5CYII=',
+  'base64'
+);
+
+/**
+ * Failure switches; change them at runtime with setFaults or POST /__fake/faults
+ */
+export interface FakeBambooFaults {
+  /** Answer every API request with 401 */
+  unauthorized?: boolean;
+  /** Answer the next N API requests with 429 */
+  rateLimitCount?: number;
+  /** Retry-After header sent with 429s (seconds, default 1) */
+  retryAfterSeconds?: number;
+  /** Delay before every API response */
+  latencyMs?: number;
+  /** Send truncated JSON bodies */
+  malformed?: boolean;
+}
+
+export interface FakeBambooServerOptions {
+  /** Port to listen on; 0 picks a free port */
+  port?: number;
+  host?: string;
+  /** Subdomain used in the returned baseUrl */
+  subdomain?: string;
+  /** Same seed, employee count and reference date always produce the same data */
+  seed?: number;
+  employeeCount?: number;
+  /** Time-off is generated around this date (YYYY-MM-DD, default today) */
+  referenceDate?: string;
+  /** When set, requests must authenticate with this key; otherwise any key works */
+  apiKey?: string;
+  faults?: FakeBambooFaults;
+}
+
+export interface FakeEmployee {
+  id: string;
+  displayName: string;
+  firstName: string;
+  lastName: string;
+  jobTitle: string;
+  workEmail: string;
+  workPhone: string;
+  department: string;
+  division: string;
+  location: string;
+  supervisorId: string;
+  supervisor: string;
+  hireDate: string;
+  status: string;
+  [field: string]: string;
+}
+
+export interface FakeTimeOffRequest {
+  id: string;
+  employeeId: string;
+  name: string;
+  start: string;
+  end: string;
+  created: string;
+  type: { id: string; name: string };
+  amount: { unit: string; amount: string };
+  status: { status: string; lastChanged: string };
+  actions: Record<string, boolean>;
+  dates: Record<string, string>;
+}
+
+export interface FakeEmployeeChange {
+  id: string;
+  action: 'Inserted' | 'Updated' | 'Deleted';
+  lastChanged: string;
+}
+
+export interface FakeBambooData {
+  employees: FakeEmployee[];
+  timeOffRequests: FakeTimeOffRequest[];
+  /** Feed behind /employees/changed; push to it to simulate edits */
+  changes: FakeEmployeeChange[];
+}
+
+/**
+ * Running fake server handle
+ */
+export interface FakeBambooServerHandle {
+  httpServer: HttpServer;
+  port: number;
+  /** Use as BambooClientConfig.baseUrl */
+  baseUrl: string;
+  data: FakeBambooData;
+  setFaults: (faults: FakeBambooFaults) => void;
+  getFaults: () => FakeBambooFaults;
+  close: () => Promise<void>;
+}
+
+const FIRST_NAMES = [
+  'Avery',
+  'Blake',
+  'Casey',
+  'Devon',
+  'Emery',
+  'Finley',
+  'Harper',
+  'Jordan',
+  'Kendall',
+  'Logan',
+  'Morgan',
+  'Parker',
+  'Quinn',
+  'Riley',
+  'Sawyer',
+  'Taylor',
+];
+
+const LAST_NAMES = [
+  'Abbott',
+  'Brennan',
+  'Castillo',
+  'Dalton',
+  'Ellison',
+  'Fujita',
+  'Garrison',
+  'Haddad',
+  'Iverson',
+  'Jensen',
+  'Kowalski',
+  'Lindqvist',
+  'Moreau',
+  'Nakamura',
+  'Okafor',
+  'Petrov',
+];
+
+const DEPARTMENTS: Record<string, string[]> = {
+  Engineering: ['Software Engineer', 'Senior Software Engineer', 'QA Analyst'],
+  Sales: ['Account Executive', 'Sales Development Rep'],
+  Marketing: ['Content Strategist', 'Marketing Analyst'],
+  'Customer Success': ['Support Specialist', 'Customer Success Manager'],
+  Finance: ['Accountant', 'Financial Analyst'],
+  'Human Resources': ['HR Generalist', 'Recruiter'],
+};
+
+const DIVISIONS = ['North America', 'EMEA'];
+const LOCATIONS = ['Remote', 'Austin', 'Dublin', 'Toronto'];
+
+const TIME_OFF_TYPES = [
+  { id: '78', name: 'Vacation' },
+  { id: '79', name: 'Sick' },
+  { id: '80', name: 'Bereavement' },
+];
+
+// Every employee is on all three policies. Accruing policies earn their
+// hours evenly over the calendar year, from the hire date in the first year.
+const TIME_OFF_POLICIES = [
+  {
+    id: '1',
+    typeId: '78',
+    name: 'Vacation Accrual',
+    type: 'accruing',
+    hoursPerYear: 120,
+  },
+  {
+    id: '2',
+    typeId: '79',
+    name: 'Sick Leave',
+    type: 'accruing',
+    hoursPerYear: 40,
+  },
+  {
+    id: '3',
+    typeId: '80',
+    name: 'Bereavement Leave',
+    type: 'manual',
+    hoursPerYear: 24,
+  },
+];
+
+// Catalog details of TIME_OFF_TYPES for /meta/time_off/types
+const TIME_OFF_TYPE_DETAILS: Record<string, { color: string; icon: string }> = {
+  '78': { color: '#4c9f38', icon: 'palm-trees' },
+  '79': { color: '#d9534f', icon: 'thermometer' },
+  '80': { color: '#6c757d', icon: 'heart' },
+};
+
+const TIME_OFF_STATUSES = [
+  'approved',
+  'approved',
+  'approved',
+  'requested',
+  'denied',
+  'canceled',
+];
+
+interface FakeFieldDefinition {
+  id: string;
+  label: string;
+  type: string;
+}
+
+const EMPLOYEE_FIELDS: FakeFieldDefinition[] = [
+  { id: 'id', label: 'Employee #', type: 'text' },
+  { id: 'displayName', label: 'Display Name', type: 'text' },
+  { id: 'firstName', label: 'First Name', type: 'text' },
+  { id: 'lastName', label: 'Last Name', type: 'text' },
+  { id: 'jobTitle', label: 'Job Title', type: 'list' },
+  { id: 'workEmail', label: 'Work Email', type: 'email' },
+  { id: 'workPhone', label: 'Work Phone', type: 'phone' },
+  { id: 'department', label: 'Department', type: 'list' },
+  { id: 'division', label: 'Division', type: 'list' },
+  { id: 'location', label: 'Location', type: 'list' },
+  { id: 'supervisorId', label: 'Supervisor ID', type: 'text' },
+  { id: 'supervisor', label: 'Supervisor', type: 'text' },
+  { id: 'hireDate', label: 'Hire Date', type: 'date' },
+  { id: 'status', label: 'Status', type: 'status' },
+  { id: 'supervisorEId', label: 'Supervisor Employee ID', type: 'employee' },
+];
+
+// Returned by /meta/fields next to the standard fields; one has an alias,
+// the other is only addressable by its ID, as in real accounts
+const CUSTOM_FIELDS: Array<FakeFieldDefinition & { alias?: string }> = [
+  { id: '4001', label: 'Shirt Size', type: 'list', alias: 'customShirtSize' },
+  { id: '4002', label: 'Pronouns', type: 'text' },
+];
+
+const SHIRT_SIZES = ['S', 'M', 'L', 'XL'];
+const PRONOUNS = ['she/her', 'he/him', 'they/them'];
+
+const DATASETS = [
+  {
+    id: 'employee',
+    name: 'employee',
+    label: 'Employee',
+    description: 'Current job, contact and employment fields per employee',
+  },
+];
+
+const CUSTOM_REPORTS = [
+  {
+    id: '101',
+    name: 'Headcount by Department',
+    fields: ['id', 'displayName', 'department', 'jobTitle'],
+  },
+  {
+    id: '102',
+    name: 'Hire Dates',
+    fields: ['id', 'displayName', 'hireDate', 'location'],
+  },
+];
+
+/**
+ * Deterministic PRNG (mulberry32) so every seed produces the same company
+ */
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function pick<T>(random: () => number, items: readonly T[]): T {
+  return items[Math.floor(random() * items.length)];
+}
+
+function addDays(date: string, days: number): string {
+  const result = new Date(`${date}T00:00:00Z`);
+  result.setUTCDate(result.getUTCDate() + days);
+  return result.toISOString().slice(0, 10);
+}
+
+/**
+ * Generate a synthetic company: a reporting tree of employees plus time-off
+ * requests spread over the 60 days either side of `referenceDate`
+ */
+export function generateFakeData(
+  seed: number,
+  employeeCount: number,
+  referenceDate: string = new Date().toISOString().slice(0, 10)
+): FakeBambooData {
+  const random = createRandom(seed);
+  const departments = Object.keys(DEPARTMENTS);
+  const employees: FakeEmployee[] = [];
+
+  for (let i = 0; i < employeeCount; i++) {
+    const firstName = pick(random, FIRST_NAMES);
+    const lastName = pick(random, LAST_NAMES);
+    const department = i === 0 ? 'Executive' : pick(random, departments);
+    const jobTitle =
+      i === 0
+        ? 'Chief Executive Officer'
+        : pick(random, DEPARTMENTS[department]);
+    // Everyone reports to someone earlier in the list, so the tree is acyclic
+    const supervisor =
+      i === 0 ? undefined : employees[Math.floor(random() * i)];
+
+    employees.push({
+      id: String(100 + i),
+      displayName: `${firstName} ${lastName}`,
+      firstName,
+      lastName,
+      jobTitle,
+      workEmail: `${firstName}.${lastName}${i}@example.com`.toLowerCase(),
+      workPhone: `555-01${String(i % 100).padStart(2, '0')}`,
+      department,
+      division: pick(random, DIVISIONS),
+      location: pick(random, LOCATIONS),
+      supervisorId: supervisor?.id ?? '',
+      supervisor: supervisor?.displayName ?? '',
+      supervisorEId: supervisor?.id ?? '',
+      hireDate: addDays('2015-01-05', Math.floor(random() * 3500)),
+      status: 'Active',
+      // Derived from the index so the seeded data above stays unchanged
+      customShirtSize: SHIRT_SIZES[i % SHIRT_SIZES.length],
+      '4002': PRONOUNS[i % PRONOUNS.length],
+    });
+  }
+
+  const timeOffRequests: FakeTimeOffRequest[] = [];
+  const requestCount = employeeCount === 0 ? 0 : Math.ceil(employeeCount * 1.5);
+  for (let i = 0; i < requestCount; i++) {
+    const employee = pick(random, employees);
+    const start = addDays(referenceDate, Math.floor(random() * 121) - 60);
+    const days = 1 + Math.floor(random() * 5);
+    const end = addDays(start, days - 1);
+    const created = addDays(start, -(7 + Math.floor(random() * 30)));
+    const status = pick(random, TIME_OFF_STATUSES);
+    const dates: Record<string, string> = {};
+    for (let day = 0; day < days; day++) {
+      dates[addDays(start, day)] = '8';
+    }
+
+    timeOffRequests.push({
+      id: String(1000 + i),
+      employeeId: employee.id,
+      name: employee.displayName,
+      start,
+      end,
+      created,
+      type: pick(random, TIME_OFF_TYPES),
+      amount: { unit: 'hours', amount: String(days * 8) },
+      status: { status, lastChanged: created },
+      actions: {
+        view: true,
+        edit: status === 'requested',
+        cancel: status === 'requested' || status === 'approved',
+        approve: status === 'requested',
+        deny: status === 'requested',
+        bypass: false,
+      },
+      dates,
+    });
+  }
+
+  // One change per employee over the 30 days before `referenceDate`, plus
+  // one employee deleted since; derived from the index, like the fields above
+  const changes: FakeEmployeeChange[] = employees.map((employee, i) => ({
+    id: employee.id,
+    action: i % 4 === 1 ? 'Inserted' : 'Updated',
+    lastChanged: `${addDays(referenceDate, -((i * 7) % 30))}T12:00:00+00:00`,
+  }));
+  if (employeeCount > 0) {
+    changes.push({
+      id: String(100 + employeeCount),
+      action: 'Deleted',
+      lastChanged: `${addDays(referenceDate, -1)}T12:00:00+00:00`,
+    });
+  }
+
+  return { employees, timeOffRequests, changes };
+}
+
+function latestChange(changes: FakeEmployeeChange[]): string | undefined {
+  return changes
+    .map((change) => change.lastChanged)
+    .sort()
+    .at(-1);
+}
+
+class FakeHttpError extends Error {
+  constructor(
+    readonly status: number,
+    message: string
+  ) {
+    super(message);
+    this.name = 'FakeHttpError';
+  }
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        reject(new FakeHttpError(413, 'Request body too large'));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => {
+      const text = Buffer.concat(chunks).toString('utf8');
+      if (!text) {
+        resolve(undefined);
+        return;
+      }
+      try {
+        resolve(JSON.parse(text));
+      } catch {
+        reject(new FakeHttpError(400, 'Request body is not valid JSON'));
+      }
+    });
+    req.on('error', reject);
+  });
+}
+
+function selectFields(
+  employee: FakeEmployee,
+  fields: string[] | null
+): Record<string, string> {
+  if (!fields) {
+    return { ...employee };
+  }
+  const selected: Record<string, string> = { id: employee.id };
+  for (const field of fields) {
+    if (field in employee) {
+      selected[field] = employee[field];
+    }
+  }
+  return selected;
+}
+
+function parseFieldList(value: string | null): string[] | null {
+  if (!value) {
+    return null;
+  }
+  return value
+    .split(',')
+    .map((field) => field.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Rows of /employees/{id}/tables/{table}, derived from the employee record
+ */
+function employeeTableRows(
+  employee: FakeEmployee,
+  table: string
+): Array<Record<string, unknown>> {
+  const row = { id: '1', employeeId: employee.id };
+  switch (table) {
+    case 'jobInfo':
+      return [
+        {
+          ...row,
+          date: employee.hireDate,
+          location: employee.location,
+          department: employee.department,
+          division: employee.division,
+          jobTitle: employee.jobTitle,
+          reportsTo: employee.supervisor,
+        },
+      ];
+    case 'employmentStatus':
+      return [
+        {
+          ...row,
+          date: employee.hireDate,
+          employmentStatus: 'Full-Time',
+          comment: '',
+        },
+      ];
+    case 'compensation':
+      return [
+        {
+          ...row,
+          startDate: employee.hireDate,
+          rate: {
+            value: String(60000 + ((Number(employee.id) * 7919) % 60) * 1000),
+            currency: 'USD',
+          },
+          type: 'Salary',
+          exempt: 'Exempt',
+          reason: 'New Hire',
+          comment: '',
+          paidPer: 'Year',
+          paySchedule: 'Twice a month',
+        },
+      ];
+    default:
+      throw new FakeHttpError(404, `Table ${table} not found`);
+  }
+}
+
+function overlaps(
+  request: FakeTimeOffRequest,
+  start: string | null,
+  end: string | null
+): boolean {
+  return (!end || request.start <= end) && (!start || request.end >= start);
+}
+
+function requireDateRange(url: URL): { start: string; end: string } {
+  const start = url.searchParams.get('start');
+  const end = url.searchParams.get('end');
+  if (!start || !end) {
+    throw new FakeHttpError(400, 'start and end query parameters are required');
+  }
+  return { start, end };
+}
+
+/**
+ * Balances on `end` the way /time_off/calculator estimates them: hours
+ * earned this calendar year, less approved time off starting by `end`
+ */
+function timeOffBalances(
+  employee: FakeEmployee,
+  end: string,
+  requests: FakeTimeOffRequest[]
+) {
+  const yearStart = `${end.slice(0, 4)}-01-01`;
+  const accrualStart =
+    employee.hireDate > yearStart ? employee.hireDate : yearStart;
+  const accrualDays =
+    end < accrualStart
+      ? 0
+      : (Date.parse(end) - Date.parse(accrualStart)) / 86_400_000 + 1;
+
+  return TIME_OFF_POLICIES.map((policy) => {
+    const type = TIME_OFF_TYPES.find((t) => t.id === policy.typeId)!;
+    const used = requests
+      .filter(
+        (r) =>
+          r.employeeId === employee.id &&
+          r.type.id === policy.typeId &&
+          r.status.status === 'approved' &&
+          r.start >= yearStart &&
+          r.start <= end
+      )
+      .reduce((sum, r) => sum + Number(r.amount.amount), 0);
+    const earned =
+      policy.type === 'accruing'
+        ? (policy.hoursPerYear * Math.min(accrualDays, 365)) / 365
+        : policy.hoursPerYear;
+
+    return {
+      timeOffType: type.id,
+      name: type.name,
+      units: 'hours',
+      balance: (earned - used).toFixed(2),
+      end,
+      policyType: policy.type,
+      usedYearToDate: used.toFixed(2),
+    };
+  });
+}
+
+interface DatasetFilter {
+  field?: unknown;
+  operator?: unknown;
+  value?: unknown;
+}
+
+function matchesFilter(employee: FakeEmployee, filter: DatasetFilter): boolean {
+  const actual = String(employee[String(filter.field)] ?? '').toLowerCase();
+  const expected = String(filter.value ?? '').toLowerCase();
+  switch (filter.operator) {
+    case 'not_equal':
+      return actual !== expected;
+    case 'contains':
+      return actual.includes(expected);
+    case 'empty':
+      return actual === '';
+    case 'not_empty':
+      return actual !== '';
+    default:
+      return actual === expected;
+  }
+}
+
+function toCsv(rows: Array<Record<string, string>>, fields: string[]): string {
+  const escape = (value: string) =>
+    /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+  return [
+    fields.join(','),
+    ...rows.map((row) => fields.map((f) => escape(row[f] ?? '')).join(',')),
+  ].join('\n');
+}
+
+/**
+ * Start the fake API. Every route below mirrors the response shape the
+ * handlers in src/handlers read from the real BambooHR API.
+ */
+export async function startFakeBambooServer(
+  options: FakeBambooServerOptions = {}
+): Promise<FakeBambooServerHandle> {
+  const data = generateFakeData(
+    options.seed ?? 1,
+    options.employeeCount ?? 25,
+    options.referenceDate
+  );
+  const employeesById = new Map(data.employees.map((e) => [e.id, e]));
+  let faults: FakeBambooFaults = { ...options.faults };
+
+  const expectedAuth = options.apiKey
+    ? `Basic ${Buffer.from(`${options.apiKey}:x`).toString('base64')}`
+    : null;
+
+  const sendData = (res: ServerResponse, body: unknown): void => {
+    if (faults.malformed) {
+      const json = JSON.stringify(body);
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(json.slice(0, Math.max(1, Math.floor(json.length / 2))));
+      return;
+    }
+    sendJson(res, 200, body);
+  };
+
+  const getEmployee = (id: string): FakeEmployee => {
+    const employee = employeesById.get(id);
+    if (!employee) {
+      throw new FakeHttpError(404, `Employee ${id} not found`);
+    }
+    return employee;
+  };
+
+  // Latest change per employee at or after ?since=
+  const changesSince = (url: URL): FakeEmployeeChange[] => {
+    const since = Date.parse(url.searchParams.get('since') ?? '');
+    if (Number.isNaN(since)) {
+      throw new FakeHttpError(400, 'since must be an ISO 8601 timestamp');
+    }
+    const latest = new Map<string, FakeEmployeeChange>();
+    for (const change of data.changes) {
+      if (
+        Date.parse(change.lastChanged) >= since &&
+        (latest.get(change.id)?.lastChanged ?? '') <= change.lastChanged
+      ) {
+        latest.set(change.id, change);
+      }
+    }
+    return Array.from(latest.values());
+  };
+
+  const route = async (
+    method: string,
+    path: string,
+    url: URL,
+    req: IncomingMessage,
+    res: ServerResponse
+  ): Promise<void> => {
+    let match: RegExpMatchArray | null;
+
+    if (method === 'GET' && path === '/employees/directory') {
+      const fields = parseFieldList(url.searchParams.get('fields'));
+      sendData(res, {
+        fields: EMPLOYEE_FIELDS.filter(
+          (f) => !fields || f.id === 'id' || fields.includes(f.id)
+        ).map((f) => ({ id: f.id, type: f.type, name: f.label })),
+        employees: data.employees.map((e) => selectFields(e, fields)),
+      });
+      return;
+    }
+
+    if (
+      method === 'GET' &&
+      (match = path.match(/^\/employees\/(\d+)\/photo\/[a-z]+$/))
+    ) {
+      getEmployee(match[1]);
+      res.writeHead(200, { 'Content-Type': 'image/png' });
+      res.end(PHOTO_PNG);
+      return;
+    }
+
+    if (
+      method === 'GET' &&
+      (match = path.match(/^\/employees\/(\d+)\/tables\/(\w+)$/))
+    ) {
+      sendData(res, employeeTableRows(getEmployee(match[1]), match[2]));
+      return;
+    }
+
+    if (
+      method === 'GET' &&
+      (match = path.match(/^\/employees\/(\d+)\/time_off\/calculator$/))
+    ) {
+      const employee = getEmployee(match[1]);
+      const end = url.searchParams.get('end');
+      if (!end || !/^\d{4}-\d{2}-\d{2}$/.test(end)) {
+        throw new FakeHttpError(400, 'end must be a YYYY-MM-DD date');
+      }
+      sendData(res, timeOffBalances(employee, end, data.timeOffRequests));
+      return;
+    }
+
+    if (
+      method === 'GET' &&
+      (match = path.match(/^\/employees\/(\d+)\/time_off\/policies$/))
+    ) {
+      const employee = getEmployee(match[1]);
+      sendData(
+        res,
+        TIME_OFF_POLICIES.map((policy) => ({
+          timeOffPolicyId: policy.id,
+          timeOffTypeId: policy.typeId,
+          accrualStartDate:
+            policy.type === 'accruing' ? employee.hireDate : null,
+        }))
+      );
+      return;
+    }
+
+    if (method === 'GET' && path === '/employees/changed') {
+      const changed = changesSince(url).filter(
+        (change) =>
+          !url.searchParams.get('type') ||
+          change.action.toLowerCase() === url.searchParams.get('type')
+      );
+      sendData(res, {
+        latest: latestChange(changed),
+        employees: Object.fromEntries(
+          changed.map((change) => [change.id, change])
+        ),
+      });
+      return;
+    }
+
+    if (
+      method === 'GET' &&
+      (match = path.match(/^\/employees\/changed\/tables\/(\w+)$/))
+    ) {
+      const table = match[1];
+      const changed = changesSince(url).filter(
+        (change) => change.action !== 'Deleted'
+      );
+      sendData(res, {
+        latest: latestChange(changed),
+        employees: Object.fromEntries(
+          changed.map((change) => [
+            change.id,
+            {
+              lastChanged: change.lastChanged,
+              rows: employeeTableRows(getEmployee(change.id), table),
+            },
+          ])
+        ),
+      });
+      return;
+    }
+
+    if (method === 'GET' && path === '/meta/time_off/types') {
+      sendData(res, {
+        timeOffTypes: TIME_OFF_TYPES.map((type) => ({
+          id: type.id,
+          name: type.name,
+          units: 'hours',
+          ...TIME_OFF_TYPE_DETAILS[type.id],
+        })),
+        defaultHours: [
+          { name: 'Saturday', amount: '0' },
+          { name: 'Sunday', amount: '0' },
+          { name: 'default', amount: '8' },
+        ],
+      });
+      return;
+    }
+
+    if (method === 'GET' && path === '/meta/time_off/policies') {
+      sendData(
+        res,
+        TIME_OFF_POLICIES.map((policy) => ({
+          id: policy.id,
+          timeOffTypeId: policy.typeId,
+          name: policy.name,
+          effectiveDate: '2015-01-01',
+          type: policy.type,
+        }))
+      );
+      return;
+    }
+
+    if (method === 'GET' && path === '/meta/fields') {
+      sendData(res, [
+        ...EMPLOYEE_FIELDS.map((f, index) => ({
+          id: String(index + 1),
+          name: f.label,
+          type: f.type,
+          alias: f.id,
+        })),
+        ...CUSTOM_FIELDS.map((f) => ({
+          id: f.id,
+          name: f.label,
+          type: f.type,
+          ...(f.alias && { alias: f.alias }),
+        })),
+      ]);
+      return;
+    }
+
+    if (method === 'GET' && (match = path.match(/^\/employees\/(\d+)$/))) {
+      const employee = getEmployee(match[1]);
+      sendData(
+        res,
+        selectFields(employee, parseFieldList(url.searchParams.get('fields')))
+      );
+      return;
+    }
+
+    if (method === 'GET' && path === '/time_off/whos_out') {
+      const { start, end } = requireDateRange(url);
+      sendData(res, {
+        calendar: data.timeOffRequests
+          .filter(
+            (r) => r.status.status === 'approved' && overlaps(r, start, end)
+          )
+          .map((r) => ({
+            id: r.id,
+            type: 'timeOff',
+            employeeId: r.employeeId,
+            name: r.name,
+            start: r.start,
+            end: r.end,
+          })),
+      });
+      return;
+    }
+
+    if (method === 'GET' && path === '/time_off/requests') {
+      const { start, end } = requireDateRange(url);
+      const status = url.searchParams.get('status');
+      const employeeId = url.searchParams.get('employeeId');
+      const type = url.searchParams.get('type');
+      sendData(
+        res,
+        data.timeOffRequests.filter(
+          (r) =>
+            overlaps(r, start, end) &&
+            (!status || status.split(',').includes(r.status.status)) &&
+            (!employeeId || r.employeeId === employeeId) &&
+            (!type || type.split(',').includes(r.type.id))
+        )
+      );
+      return;
+    }
+
+    if (method === 'GET' && path === '/datasets') {
+      sendData(res, { datasets: DATASETS });
+      return;
+    }
+
+    if ((match = path.match(/^\/datasets\/([^/]+)(\/fields)?$/))) {
+      if (!DATASETS.some((d) => d.id === match![1])) {
+        throw new FakeHttpError(404, `Dataset ${match[1]} not found`);
+      }
+
+      if (method === 'GET' && match[2]) {
+        sendData(res, {
+          fields: EMPLOYEE_FIELDS.map((f) => ({
+            id: f.id,
+            name: f.id,
+            label: f.label,
+            type: f.type,
+          })),
+        });
+        return;
+      }
+
+      if (method === 'POST' && !match[2]) {
+        const body = (await readJsonBody(req)) as
+          | { fields?: unknown; filters?: unknown }
+          | undefined;
+        const fields = Array.isArray(body?.fields)
+          ? body.fields.map(String)
+          : [];
+        const unknownFields = fields.filter(
+          (f) => !EMPLOYEE_FIELDS.some((def) => def.id === f)
+        );
+        if (fields.length === 0 || unknownFields.length > 0) {
+          throw new FakeHttpError(
+            400,
+            fields.length === 0
+              ? 'fields is required'
+              : `Unknown fields: ${unknownFields.join(', ')}`
+          );
+        }
+        const filters = Array.isArray(body?.filters)
+          ? (body.filters as DatasetFilter[])
+          : [];
+        sendData(res, {
+          data: data.employees
+            .filter((e) => filters.every((f) => matchesFilter(e, f)))
+            .map((e) => Object.fromEntries(fields.map((f) => [f, e[f]]))),
+        });
+        return;
+      }
+    }
+
+    if (method === 'GET' && path === '/custom-reports') {
+      sendData(res, {
+        reports: CUSTOM_REPORTS.map(({ id, name }) => ({ id, name })),
+      });
+      return;
+    }
+
+    if (method === 'GET' && (match = path.match(/^\/custom-reports\/(\w+)$/))) {
+      const report = CUSTOM_REPORTS.find((r) => r.id === match![1]);
+      if (!report) {
+        throw new FakeHttpError(404, `Report ${match[1]} not found`);
+      }
+      const rows = data.employees.map((e) => selectFields(e, report.fields));
+      if (url.searchParams.get('format') === 'csv') {
+        res.writeHead(200, { 'Content-Type': 'text/csv' });
+        res.end(toCsv(rows, report.fields));
+        return;
+      }
+      sendData(res, {
+        title: report.name,
+        fields: EMPLOYEE_FIELDS.filter((f) => report.fields.includes(f.id)).map(
+          (f) => ({ id: f.id, type: f.type, name: f.label })
+        ),
+        employees: rows,
+      });
+      return;
+    }
+
+    throw new FakeHttpError(404, `No fake route for ${method} ${path}`);
+  };
+
+  const handleApiRequest = async (
+    req: IncomingMessage,
+    res: ServerResponse,
+    url: URL
+  ): Promise<void> => {
+    if (faults.latencyMs && faults.latencyMs > 0) {
+      await new Promise((resolve) => setTimeout(resolve, faults.latencyMs));
+    }
+
+    const authorization = req.headers.authorization;
+    if (
+      faults.unauthorized ||
+      !authorization?.startsWith('Basic ') ||
+      (expectedAuth && authorization !== expectedAuth)
+    ) {
+      res.writeHead(401, { 'Content-Type': 'text/plain' });
+      res.end('Unauthorized');
+      return;
+    }
+
+    if (faults.rateLimitCount && faults.rateLimitCount > 0) {
+      faults = { ...faults, rateLimitCount: faults.rateLimitCount - 1 };
+      res.writeHead(429, {
+        'Content-Type': 'text/plain',
+        'Retry-After': String(faults.retryAfterSeconds ?? 1),
+      });
+      res.end('Too Many Requests');
+      return;
+    }
+
+    const path = url.pathname.replace(API_PREFIX, '') || '/';
+    await route(req.method || 'GET', path, url, req, res);
+  };
+
+  const httpServer = createServer((req, res) => {
+    const url = new URL(req.url || '/', 'http://localhost');
+
+    const handled =
+      url.pathname === CONTROL_PATH
+        ? handleControlRequest(req, res)
+        : handleApiRequest(req, res, url);
+
+    handled.catch((error: unknown) => {
+      if (res.headersSent) {
+        res.end();
+        return;
+      }
+      const status = error instanceof FakeHttpError ? error.status : 500;
+      sendJson(res, status, {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    });
+  });
+
+  // GET returns the active faults; POST replaces them
+  const handleControlRequest = async (
+    req: IncomingMessage,
+    res: ServerResponse
+  ): Promise<void> => {
+    if (req.method === 'POST') {
+      const body = await readJsonBody(req);
+      if (!body || typeof body !== 'object' || Array.isArray(body)) {
+        throw new FakeHttpError(400, 'Expected a JSON object of faults');
+      }
+      faults = { ...(body as FakeBambooFaults) };
+    }
+    sendJson(res, 200, faults);
+  };
+
+  const host = options.host || '127.0.0.1';
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once('error', reject);
+    httpServer.listen(options.port ?? 0, host, () => {
+      httpServer.off('error', reject);
+      resolve();
+    });
+  });
+
+  const port = (httpServer.address() as AddressInfo).port;
+  const urlHost = host.includes(':') ? `[${host}]` : host;
+
+  return {
+    httpServer,
+    port,
+    baseUrl: `http://${urlHost}:${port}/api/gateway.php/${options.subdomain || 'fake'}/v1`,
+    data,
+    setFaults: (next) => {
+      faults = { ...next };
+    },
+    getFaults: () => ({ ...faults }),
+    close: async () => {
+      httpServer.closeAllConnections();
+      await new Promise<void>((resolve) => httpServer.close(() => resolve()));
+    },
+  };
+}
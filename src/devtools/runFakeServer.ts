@@ -0,0 +1,75 @@
+/**
+ * CLI entry point for the fake BambooHR API
+ * Usage: npm run fake-api -- [--port 8765] [--seed 1] [--employees 25]
+ * Fault switches can also be changed while running via POST /__fake/faults.
+ */
+
+import { startFakeBambooServer } from './fakeBambooServer.js';
+
+function readCliOption(name: string): string | undefined {
+  const args = process.argv.slice(2);
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === `--${name}`) {
+      return args[i + 1];
+    }
+    if (args[i].startsWith(`--${name}=`)) {
+      return args[i].slice(name.length + 3);
+    }
+  }
+  return undefined;
+}
+
+function readNumber(option: string, envName: string): number | undefined {
+  const raw = readCliOption(option) ?? process.env[envName];
+  if (raw === undefined || raw === '') {
+    return undefined;
+  }
+  const value = Number(raw);
+  if (!Number.isFinite(value) || value < 0) {
+    process.stderr.write(`Invalid ${envName}: ${raw}\n`);
+    process.exit(1);
+  }
+  return value;
+}
+
+function readFlag(option: string, envName: string): boolean {
+  return (
+    process.argv.includes(`--${option}`) || process.env[envName] === 'true'
+  );
+}
+
+async function main() {
+  const handle = await startFakeBambooServer({
+    port: readNumber('port', 'FAKE_BAMBOO_PORT') ?? 8765,
+    host: readCliOption('host') || process.env.FAKE_BAMBOO_HOST,
+    seed: readNumber('seed', 'FAKE_BAMBOO_SEED'),
+    employeeCount: readNumber('employees', 'FAKE_BAMBOO_EMPLOYEES'),
+    apiKey: process.env.FAKE_BAMBOO_API_KEY,
+    faults: {
+      unauthorized: readFlag('unauthorized', 'FAKE_BAMBOO_UNAUTHORIZED'),
+      rateLimitCount: readNumber('rate-limit', 'FAKE_BAMBOO_RATE_LIMIT_COUNT'),
+      retryAfterSeconds: readNumber('retry-after', 'FAKE_BAMBOO_RETRY_AFTER'),
+      latencyMs: readNumber('latency', 'FAKE_BAMBOO_LATENCY_MS'),
+      malformed: readFlag('malformed', 'FAKE_BAMBOO_MALFORMED'),
+    },
+  });
+
+  process.stderr.write(
+    `Fake BambooHR API listening with ${handle.data.employees.length} employees\n` +
+      `  BAMBOO_BASE_URL=${handle.baseUrl}\n` +
+      `  Faults: POST ${new URL(handle.baseUrl).origin}/__fake/faults\n`
+  );
+
+  const shutdown = () => {
+    handle.close().then(() => process.exit(0));
+  };
+  process.on('SIGINT', shutdown);
+  process.on('SIGTERM', shutdown);
+}
+
+main().catch((error) => {
+  process.stderr.write(
+    `Fake BambooHR API failed to start: ${error instanceof Error ? error.message : error}\n`
+  );
+  process.exit(1);
+});
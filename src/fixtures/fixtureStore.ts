@@ -0,0 +1,208 @@
+/**
+ * Record-and-replay fixtures for BambooClient
+ *
+ * In record mode every BambooHR response is saved, sanitized, as one JSON file
+ * per request. In replay mode those files are served instead of calling the
+ * API, so tests and demos run without a tenant or network access.
+ */
+
+import { createHash } from 'node:crypto';
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import {
+  FIXTURE_SANITIZATION_RULES,
+  redactText,
+  sanitizeData,
+} from '../utils/sanitize.js';
+
+export type FixtureMode = 'record' | 'replay';
+
+/**
+ * Identifies a recorded request; the body is part of the identity for POSTs
+ */
+export interface FixtureRequest {
+  method: string;
+  endpoint: string;
+  body?: unknown;
+}
+
+/**
+ * On-disk fixture format
+ */
+export interface FixtureFile {
+  version: 1;
+  recordedAt: string;
+  request: FixtureRequest;
+  response: {
+    status: number;
+    statusText: string;
+    headers: Record<string, string>;
+    /** 'text' bodies are stored as-is, 'base64' for binary content */
+    encoding: 'text' | 'base64';
+    body: string;
+  };
+}
+
+// Only headers the client reads are kept; the rest may carry session data
+const RECORDED_HEADERS = ['content-type', 'retry-after'];
+
+// Photos are PII too: binary bodies are replaced with a 1x1 transparent PNG
+const PLACEHOLDER_PNG_BASE64 =
+  'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mNkYAAAAAYAAjCB0C8AAAAASUVORK5CYII=';
+
+/**
+ * Raised in replay mode when no fixture was recorded for a request
+ */
+export class FixtureNotFoundError extends Error {
+  constructor(
+    request: FixtureRequest,
+    public readonly filePath: string
+  ) {
+    super(
+      `No recorded fixture for ${request.method} ${request.endpoint} (expected ${filePath})`
+    );
+    this.name = 'FixtureNotFoundError';
+  }
+}
+
+/**
+ * File name for a request: readable prefix plus a hash of the full request
+ */
+export function fixtureFileName(request: FixtureRequest): string {
+  const identity = JSON.stringify([
+    request.method,
+    request.endpoint,
+    request.body ?? null,
+  ]);
+  const hash = createHash('sha256').update(identity).digest('hex').slice(0, 12);
+  const slug = request.endpoint
+    .split('?')[0]
+    .replace(/[^a-zA-Z0-9]+/g, '_')
+    .replace(/^_+|_+$/g, '')
+    .slice(0, 60);
+  return `${request.method}_${slug || 'root'}_${hash}.json`;
+}
+
+function isJsonContentType(contentType: string): boolean {
+  return contentType.includes('json');
+}
+
+function isTextContentType(contentType: string): boolean {
+  return (
+    contentType === '' ||
+    contentType.startsWith('text/') ||
+    isJsonContentType(contentType) ||
+    contentType.includes('xml')
+  );
+}
+
+/**
+ * Reads and writes fixture files for one directory
+ */
+export class FixtureStore {
+  private readonly dir: string;
+
+  constructor(
+    readonly mode: FixtureMode,
+    dir: string
+  ) {
+    this.dir = path.resolve(dir);
+    if (mode === 'replay' && !fs.existsSync(this.dir)) {
+      throw new Error(`Fixture replay directory does not exist: ${this.dir}`);
+    }
+  }
+
+  /**
+   * Save a sanitized copy of a live response
+   */
+  async record(request: FixtureRequest, response: Response): Promise<void> {
+    const contentType = (
+      response.headers.get('content-type') || ''
+    ).toLowerCase();
+    const headers: Record<string, string> = {};
+    for (const name of RECORDED_HEADERS) {
+      const value = response.headers.get(name);
+      if (value) {
+        headers[name] = value;
+      }
+    }
+
+    let encoding: FixtureFile['response']['encoding'] = 'text';
+    let body: string;
+    if (isTextContentType(contentType)) {
+      body = this.sanitizeText(await response.text(), contentType);
+    } else {
+      encoding = 'base64';
+      body = PLACEHOLDER_PNG_BASE64;
+      headers['content-type'] = 'image/png';
+    }
+
+    const fixture: FixtureFile = {
+      version: 1,
+      recordedAt: new Date().toISOString(),
+      request: {
+        method: request.method,
+        endpoint: request.endpoint,
+        ...(request.body !== undefined && {
+          body: sanitizeData(request.body, FIXTURE_SANITIZATION_RULES),
+        }),
+      },
+      response: {
+        status: response.status,
+        statusText: response.statusText,
+        headers,
+        encoding,
+        body,
+      },
+    };
+
+    fs.mkdirSync(this.dir, { recursive: true });
+    fs.writeFileSync(
+      this.filePath(request),
+      `${JSON.stringify(fixture, null, 2)}\n`,
+      { mode: 0o600 }
+    );
+  }
+
+  /**
+   * Build a Response from the recorded fixture for a request
+   */
+  replay(request: FixtureRequest): Response {
+    const filePath = this.filePath(request);
+    let fixture: FixtureFile;
+    try {
+      fixture = JSON.parse(fs.readFileSync(filePath, 'utf8')) as FixtureFile;
+    } catch {
+      throw new FixtureNotFoundError(request, filePath);
+    }
+
+    const { status, statusText, headers, encoding, body } = fixture.response;
+    const payload =
+      encoding === 'base64' ? Buffer.from(body, 'base64') : body || null;
+    // Response forbids a body on 204/304
+    return new Response(status === 204 || status === 304 ? null : payload, {
+      status,
+      statusText,
+      headers,
+    });
+  }
+
+  private filePath(request: FixtureRequest): string {
+    return path.join(this.dir, fixtureFileName(request));
+  }
+
+  private sanitizeText(text: string, contentType: string): string {
+    if (text && isJsonContentType(contentType)) {
+      try {
+        return JSON.stringify(
+          sanitizeData(JSON.parse(text), FIXTURE_SANITIZATION_RULES),
+          null,
+          2
+        );
+      } catch {
+        // Malformed JSON is kept (scrubbed) so replays reproduce the failure
+      }
+    }
+    return redactText(text);
+  }
+}
@@ -13,8 +13,19 @@ import type {
   BambooDatasetField,
   BambooDatasetRecord,
   BambooEmployee,
+  BambooTableRow,
   BambooTimeOffRequest,
+  BambooTimeOffType,
   BambooWhosOutEntry,
+  EmployeeChangeSummary,
+  EmployeeFieldDiff,
+  EmployeeProfileSection,
+  EmployeeTableChange,
+  OrgChartEntry,
+  OrgChartIssues,
+  TimeOffBalanceSummary,
+  TimeOffPolicySummary,
+  TimeOffTypeSummary,
 } from './types';
 
 // =============================================================================
@@ -190,24 +201,277 @@ export function formatEmployeeDetails(employee: BambooEmployee): string {
   return details;
 }
 
+const EMPLOYEE_TABLE_TITLES: Record<string, string> = {
+  jobInfo: 'Job History',
+  employmentStatus: 'Employment Status History',
+  compensation: 'Compensation History',
+};
+
+/**
+ * "reportsTo" -> "Reports To"
+ */
+function humanizeKey(key: string): string {
+  const spaced = key.replace(/([a-z0-9])([A-Z])/g, '$1 $2');
+  return spaced.charAt(0).toUpperCase() + spaced.slice(1);
+}
+
+/**
+ * One table row as "date: Label: value, ..." (nested values such as
+ * `rate: { value, currency }` are joined)
+ */
+function formatTableRow(row: BambooTableRow): string {
+  const date = row.date ?? row.startDate;
+  const values = Object.entries(row)
+    .filter(
+      ([key, value]) =>
+        !['id', 'employeeId', 'date', 'startDate'].includes(key) &&
+        value !== null &&
+        value !== undefined &&
+        value !== ''
+    )
+    .map(([key, value]) => {
+      const text =
+        typeof value === 'object'
+          ? Object.values(value as Record<string, unknown>)
+              .filter((part) => part !== null && part !== '')
+              .join(' ')
+          : String(value);
+      return `${humanizeKey(key)}: ${text}`;
+    });
+  return `• ${date ? `${date}: ` : ''}${values.join(', ') || 'No details'}`;
+}
+
+/**
+ * Formats a full employee profile: grouped fields, then any requested
+ * tables. Tables the PII policy withheld are listed as such.
+ */
+export function formatEmployeeProfile(
+  employeeId: string,
+  name: string,
+  sections: EmployeeProfileSection[],
+  tables: Record<string, BambooTableRow[]> = {},
+  withheldTables: string[] = []
+): string {
+  const parts = [`**Employee: ${name}** (ID: ${employeeId})`];
+
+  for (const section of sections) {
+    const lines = section.fields.map(
+      (field) => `• ${field.label}: ${field.value}`
+    );
+    parts.push(`**${section.title}**\n${lines.join('\n')}`);
+  }
+  if (sections.length === 0) {
+    parts.push('No values are set for the requested fields.');
+  }
+
+  for (const [table, rows] of Object.entries(tables)) {
+    const title = EMPLOYEE_TABLE_TITLES[table] ?? humanizeKey(table);
+    const lines = rows.length > 0 ? rows.map(formatTableRow) : ['• No entries'];
+    parts.push(`**${title}**\n${lines.join('\n')}`);
+  }
+  for (const table of withheldTables) {
+    const title = EMPLOYEE_TABLE_TITLES[table] ?? humanizeKey(table);
+    parts.push(`**${title}**\n• Withheld by the PII policy`);
+  }
+
+  return parts.join('\n\n');
+}
+
+// Longest list of employees shown per change type; structuredContent has all
+const CHANGE_LIST_LIMIT = 25;
+
+function limitLines(lines: string[]): string[] {
+  return lines.length > CHANGE_LIST_LIMIT
+    ? [
+        ...lines.slice(0, CHANGE_LIST_LIMIT),
+        `• …and ${lines.length - CHANGE_LIST_LIMIT} more`,
+      ]
+    : lines;
+}
+
+/**
+ * Formats the employee change feed: changed employees by type, changed
+ * table rows, then field values that differ from the stored snapshot.
+ * `skippedDiffs` changed employees were over the per-call comparison limit.
+ */
+export function formatEmployeeChanges(
+  since: string,
+  changes: EmployeeChangeSummary[],
+  tables: Record<string, EmployeeTableChange[]> = {},
+  withheldTables: string[] = [],
+  diffs?: EmployeeFieldDiff[],
+  skippedDiffs = 0
+): string {
+  const count = (action: string) =>
+    changes.filter((change) => change.action === action).length;
+  const parts = [
+    `**Employee Changes since ${since}** (${count('inserted')} inserted, ${count('updated')} updated, ${count('deleted')} deleted)`,
+  ];
+  if (changes.length === 0) {
+    parts.push('No employee records changed in this period.');
+  }
+
+  for (const [action, title] of [
+    ['inserted', 'Inserted'],
+    ['updated', 'Updated'],
+    ['deleted', 'Deleted'],
+  ]) {
+    const lines = changes
+      .filter((change) => change.action === action)
+      .map(
+        (change) =>
+          `• ${change.name} (ID: ${change.employeeId}) - ${change.lastChanged}`
+      );
+    if (lines.length > 0) {
+      parts.push(`**${title}**\n${limitLines(lines).join('\n')}`);
+    }
+  }
+
+  for (const [table, entries] of Object.entries(tables)) {
+    const title = EMPLOYEE_TABLE_TITLES[table] ?? humanizeKey(table);
+    const lines = entries.map(
+      (entry) =>
+        `• ${entry.name} (ID: ${entry.employeeId}): ${entry.rows.length} row${entry.rows.length === 1 ? '' : 's'}`
+    );
+    parts.push(
+      `**${title} Changes**\n${lines.length > 0 ? limitLines(lines).join('\n') : '• No changes'}`
+    );
+  }
+  for (const table of withheldTables) {
+    const title = EMPLOYEE_TABLE_TITLES[table] ?? humanizeKey(table);
+    parts.push(`**${title} Changes**\n• Withheld by the PII policy`);
+  }
+
+  if (diffs) {
+    const lines: string[] = diffs.flatMap((diff) => {
+      const who = `• ${diff.name} (ID: ${diff.employeeId})`;
+      if (diff.baseline) {
+        return [`${who}: first snapshot recorded`];
+      }
+      return diff.changes.map(
+        (change) =>
+          `${who}: ${change.label}: ${change.before ?? '(empty)'} → ${change.after ?? '(empty)'}`
+      );
+    });
+    if (lines.length === 0) {
+      lines.push('• No differences from the stored snapshot');
+    }
+    if (skippedDiffs > 0) {
+      lines.push(
+        `• ${skippedDiffs} more changed employees were not compared; use a later \`since\` or a \`type\` filter to compare them`
+      );
+    }
+    parts.push(`**Field Changes**\n${lines.join('\n')}`);
+  }
+
+  return parts.join('\n\n');
+}
+
+/**
+ * Formats org chart entries as an indented tree. Managers show their span
+ * of control; reporting-line problems are listed after the tree.
+ */
+export function formatOrgChart(
+  title: string,
+  entries: OrgChartEntry[],
+  issues: OrgChartIssues,
+  note?: string
+): string {
+  const names = new Map(entries.map((entry) => [entry.id, entry.name]));
+  const lines = entries.map((entry) => {
+    const indent = '  '.repeat(entry.depth);
+    const jobTitle = entry.jobTitle ? ` - ${entry.jobTitle}` : '';
+    const span =
+      entry.directReports > 0
+        ? ` [${entry.directReports} direct, ${entry.totalReports} total]`
+        : '';
+    return `${indent}• **${entry.name}**${jobTitle} (ID: ${entry.id})${span}`;
+  });
+
+  const parts = [`**${title}**`, lines.join('\n') || 'No employees found.'];
+  if (note) {
+    parts.push(note);
+  }
+
+  const problems = [
+    ...issues.orphans.map(
+      (orphan) =>
+        `• ${orphan.name} (ID: ${orphan.id}) reports to ${orphan.managerId}, who is not in the directory`
+    ),
+    ...issues.cycles.map(
+      (cycle) =>
+        `• Reporting loop: ${[...cycle, cycle[0]].map((id) => names.get(id) ?? id).join(' → ')}`
+    ),
+  ];
+  if (problems.length > 0) {
+    parts.push(`**Reporting Issues**\n${problems.join('\n')}`);
+  }
+
+  return parts.join('\n\n');
+}
+
 // =============================================================================
 // Time-Off Formatting Functions
 // =============================================================================
 
+// BambooHR's built-in time-off type icons; other icons are left out
+const TIME_OFF_ICONS: Record<string, string> = {
+  'palm-trees': '🌴',
+  airplane: '✈️',
+  medical: '🩺',
+  'first-aid': '🩹',
+  thermometer: '🤒',
+  heart: '❤️',
+  'birthday-cake': '🎂',
+  'graduation-cap': '🎓',
+  stork: '👶',
+  child: '👶',
+  house: '🏠',
+  calendar: '📅',
+  clock: '🕒',
+  'award-ribbon': '🎗️',
+  snowflake: '❄️',
+};
+
+const TIME_OFF_STATUS_INDICATORS: Record<string, string> = {
+  approved: '[APPROVED]',
+  denied: '[DENIED]',
+  pending: '[PENDING]',
+  requested: '[PENDING]',
+  canceled: '[CANCELED]',
+  superceded: '[SUPERSEDED]',
+};
+
+/**
+ * Type name with its icon, if BambooHR's icon is one we know
+ */
+function timeOffTypeLabel(type: BambooTimeOffType): string {
+  const icon = type.icon ? TIME_OFF_ICONS[type.icon] : undefined;
+  return icon ? `${icon} ${type.name}` : type.name;
+}
+
 /**
  * Formats who's out calendar entries
+ * `entryTypes` maps time-off entry IDs to their type from the catalog
  */
 export function formatWhosOutList(
   entries: BambooWhosOutEntry[],
   startDate: string,
-  endDate: string
+  endDate: string,
+  entryTypes: Record<string, BambooTimeOffType> = {}
 ): string {
   if (entries.length === 0) {
     return `**Who's Out: ${startDate} to ${endDate}**\n\nNo one is scheduled to be out during this period.`;
   }
 
   const outList = entries
-    .map((item) => `• **${item.name}** (${item.start} to ${item.end})`)
+    .map((item) => {
+      const type =
+        item.type === 'holiday' ? undefined : entryTypes[String(item.id)];
+      return type
+        ? `• **${item.name}** - ${timeOffTypeLabel(type)} (${item.start} to ${item.end})`
+        : `• **${item.name}** (${item.start} to ${item.end})`;
+    })
     .join('\n');
 
   return `**Who's Out: ${startDate} to ${endDate}**\n\n${outList}`;
@@ -215,36 +479,138 @@ export function formatWhosOutList(
 
 /**
  * Formats time-off requests with status indicators
+ * `types` is the time-off type catalog by type ID, for names, units and icons
  */
 export function formatTimeOffRequests(
   requests: BambooTimeOffRequest[],
   startDate: string,
-  endDate: string
+  endDate: string,
+  types: Record<string, BambooTimeOffType> = {},
+  typeFilter?: string
 ): string {
+  const title = `**Time-Off Requests: ${startDate} to ${endDate}${typeFilter ? ` (${typeFilter})` : ''}**`;
   if (requests.length === 0) {
-    return `**Time-Off Requests: ${startDate} to ${endDate}**\n\nNo time-off requests found for this period.`;
+    return `${title}\n\nNo time-off requests found for this period.`;
   }
 
   const requestList = requests
     .map((req) => {
-      const typeName =
-        typeof req.type === 'string' ? req.type : req.type?.name || 'Time Off';
-
-      // Status indicators
+      const typeId =
+        req.type && typeof req.type === 'object'
+          ? (req.type as { id?: string }).id
+          : undefined;
+      const type = typeId !== undefined ? types[String(typeId)] : undefined;
+      const typeName = type
+        ? timeOffTypeLabel(type)
+        : typeof req.type === 'string'
+          ? req.type
+          : req.type?.name || 'Time Off';
+
+      // The requests endpoint returns status as { status, lastChanged }
+      const rawStatus = req.status as unknown;
+      const status =
+        rawStatus && typeof rawStatus === 'object'
+          ? (rawStatus as { status?: string }).status
+          : rawStatus;
       const statusIndicator =
-        req.status === 'approved'
-          ? '[APPROVED]'
-          : req.status === 'denied'
-            ? '[DENIED]'
-            : req.status === 'pending'
-              ? '[PENDING]'
-              : '[OTHER]';
-
-      return `${statusIndicator}: **${req.name}** - ${req.start} to ${req.end} (${typeName})`;
+        TIME_OFF_STATUS_INDICATORS[String(status)] ?? '[OTHER]';
+
+      const units = type?.units || req.amount?.unit;
+      const amount = req.amount?.amount
+        ? `, ${req.amount.amount}${units ? ` ${units}` : ''}`
+        : '';
+
+      return `${statusIndicator}: **${req.name}** - ${req.start} to ${req.end} (${typeName}${amount})`;
+    })
+    .join('\n');
+
+  return `${title}\n\n${requestList}`;
+}
+
+/**
+ * Formats the time-off type catalog
+ */
+export function formatTimeOffTypes(types: TimeOffTypeSummary[]): string {
+  if (types.length === 0) {
+    return '**Time-Off Types**\n\nNo time-off types are defined.';
+  }
+
+  const typeList = types
+    .map(
+      (type) =>
+        `• **${timeOffTypeLabel(type)}** (ID: ${type.id}) - ${type.units}, ${type.policyCount} ${type.policyCount === 1 ? 'policy' : 'policies'}`
+    )
+    .join('\n');
+
+  return `**Time-Off Types (${types.length})**\n\n${typeList}`;
+}
+
+/**
+ * Formats time-off policies, optionally those of one type
+ */
+export function formatTimeOffPolicies(
+  policies: TimeOffPolicySummary[],
+  typeName?: string
+): string {
+  const title = `**Time-Off Policies${typeName ? `: ${typeName}` : ''}`;
+  if (policies.length === 0) {
+    return `${title}**\n\nNo time-off policies found.`;
+  }
+
+  const policyList = policies
+    .map((policy) => {
+      const details = [
+        policy.typeName ?? `type ${policy.typeId}`,
+        policy.type,
+        policy.effectiveDate && `effective ${policy.effectiveDate}`,
+      ].filter(Boolean);
+      return `• **${policy.name}** (ID: ${policy.id}) - ${details.join(', ')}`;
+    })
+    .join('\n');
+
+  return `${title} (${policies.length})**\n\n${policyList}`;
+}
+
+/**
+ * Formats current and projected time-off balances of one employee
+ */
+export function formatTimeOffBalances(
+  name: string,
+  employeeId: string,
+  asOf: string,
+  date: string,
+  balances: TimeOffBalanceSummary[]
+): string {
+  const header = `**Time-Off Balances: ${name}** (ID: ${employeeId})`;
+  if (balances.length === 0) {
+    return `${header}\n\nNo time-off policies are assigned to this employee.`;
+  }
+
+  const amount = (value: number, units: string) =>
+    `${Number(value.toFixed(2))} ${units}`;
+  const projecting = date !== asOf;
+
+  const balanceList = balances
+    .map((balance) => {
+      let line = `• **${balance.name}**: ${amount(balance.current, balance.units)}`;
+      if (projecting) {
+        const sign = balance.change >= 0 ? '+' : '';
+        line += ` now, ${amount(balance.projected, balance.units)} on ${date} (${sign}${Number(balance.change.toFixed(2))})`;
+      }
+      const details = [
+        balance.policyType && `${balance.policyType} policy`,
+        balance.accrualStartDate && `accrual start ${balance.accrualStartDate}`,
+        balance.usedYearToDate !== undefined &&
+          `${amount(balance.usedYearToDate, balance.units)} used this year`,
+      ].filter(Boolean);
+      return details.length > 0 ? `${line} - ${details.join(', ')}` : line;
     })
     .join('\n');
 
-  return `**Time-Off Requests: ${startDate} to ${endDate}**\n\n${requestList}`;
+  const dates = projecting
+    ? `Current as of ${asOf}, projected to ${date}`
+    : `As of ${asOf}`;
+  return `${header}\n${dates}\n\n${balanceList}`;
 }
 
 // =============================================================================
@@ -0,0 +1,58 @@
+/**
+ * Company handlers for BambooHR MCP server
+ * Lists the BambooHR tenants callers can select with the `company` argument
+ */
+
+import { mcpLogger } from '../utils/mcpLogger.js';
+import type { TenantRegistry } from '../tenants/tenantRegistry.js';
+import type { ToolArgs, ToolContext, MCPToolResponse } from '../types.js';
+
+// Import dependencies (will be passed via DI)
+let tenants: TenantRegistry;
+
+export function initializeCompanyHandlers(registry: TenantRegistry): boolean {
+  tenants = registry;
+  mcpLogger.info('company-handler', 'Company handlers initialized', {
+    companyCount: registry.size,
+  });
+  return true;
+}
+
+export async function handleListCompanies(
+  _args: ToolArgs,
+  _context: ToolContext = {}
+): Promise<MCPToolResponse> {
+  const companies = tenants.list();
+
+  const lines = companies.map((company) => {
+    const label = company.displayName
+      ? `${company.displayName} (${company.name})`
+      : company.name;
+    return `• **${label}** - ${company.subdomain}.bamboohr.com${company.isDefault ? ' (default)' : ''}`;
+  });
+
+  const text = `**Configured Companies (${companies.length}):**
+
+${lines.join('\n')}
+
+Pass a company name as the \`company\` argument of any BambooHR tool. Without it, tools query ${tenants.defaultCompany}.`;
+
+  return {
+    content: [
+      {
+        type: 'text',
+        text,
+        _meta: {
+          companyCount: companies.length,
+          defaultCompany: tenants.defaultCompany,
+          timestamp: new Date().toISOString(),
+        },
+      },
+    ],
+    structuredContent: {
+      defaultCompany: tenants.defaultCompany,
+      count: companies.length,
+      companies,
+    },
+  };
+}
@@ -7,9 +7,11 @@ import type { BambooClient } from '../bamboo-client.js';
 import * as formatters from '../formatters.js';
 import { mcpLogger } from '../utils/mcpLogger.js';
 import { handleBambooError } from '../utils/errorHandler.js';
+import { getProgressReporter } from '../utils/progressTracker.js';
+import { getBambooClient, getRequestOptions } from '../utils/requestOptions.js';
+import { pickStrings } from '../utils/structuredOutput.js';
 import type {
   HandlerDependencies,
-  Logger,
   ToolArgs,
   ToolContext,
   MCPToolResponse,
@@ -19,13 +21,11 @@ import type {
 
 // Import dependencies (will be passed via DI)
 let bambooClient: BambooClient;
-let logger: Logger;
 
 export function initializeDatasetHandlers(
   dependencies: HandlerDependencies
 ): boolean {
   bambooClient = dependencies.bambooClient as BambooClient;
-  logger = dependencies.logger;
   mcpLogger.dataset('info', 'Dataset handlers initialized successfully');
   return true;
 }
@@ -35,27 +35,12 @@ export async function handleDiscoverDatasets(
   context: ToolContext = {}
 ): Promise<MCPToolResponse> {
   try {
-    // Support both direct progressToken and _meta.progressToken
-    const progressToken = context.progressToken || context._meta?.progressToken;
-
-    // Create progress tracker
-    const sendProgress = async (
-      progress: number,
-      total: number,
-      message: string
-    ) => {
-      if (progressToken) {
-        logger.debug(`Progress ${progress}/${total}: ${message}`);
-      }
-      // Also call the mock function if present and enabled (for testing)
-      if (context.sendProgress && context.isEnabled) {
-        await context.sendProgress(progress, total, message);
-      }
-    };
+    const client = getBambooClient(context, bambooClient);
+    const sendProgress = getProgressReporter(context);
 
     await sendProgress(25, 100, 'Fetching available datasets');
 
-    const datasets = await bambooClient.get('/datasets');
+    const datasets = await client.get('/datasets', getRequestOptions(context));
 
     await sendProgress(75, 100, 'Processing dataset information');
 
@@ -68,15 +53,23 @@ export async function handleDiscoverDatasets(
             text: 'No datasets available or API not accessible',
           },
         ],
+        structuredContent: { count: 0, datasets: [] },
       };
     }
 
     await sendProgress(100, 100, 'Datasets discovered successfully');
 
-    const text = formatters.formatDatasetsList(
-      (datasetsResponse.datasets as BambooDataset[]) || []
-    );
-    return { content: [{ type: 'text', text }] };
+    const datasetList = (datasetsResponse.datasets as BambooDataset[]) || [];
+    const text = formatters.formatDatasetsList(datasetList);
+    return {
+      content: [{ type: 'text', text }],
+      structuredContent: {
+        count: datasetList.length,
+        datasets: datasetList.map((dataset) =>
+          pickStrings(dataset, ['id', 'name', 'description'])
+        ),
+      },
+    };
   } catch (error) {
     return handleBambooError(
       error instanceof Error ? error : new Error(String(error)),
@@ -91,26 +84,16 @@ export async function handleDiscoverDatasets(
 
 export async function handleDiscoverFields(
   args: ToolArgs,
-  _context: ToolContext = {}
+  context: ToolContext = {}
 ): Promise<MCPToolResponse> {
   try {
+    const client = getBambooClient(context, bambooClient);
     const dataset_id = args.dataset_id as string;
-    if (
-      !dataset_id ||
-      typeof dataset_id !== 'string' ||
-      dataset_id.trim() === ''
-    ) {
-      return {
-        content: [
-          {
-            type: 'text',
-            text: 'Missing required parameter: dataset_id. Use bamboo_discover_datasets first to get available dataset IDs.',
-          },
-        ],
-      };
-    }
 
-    const fields = await bambooClient.get(`/datasets/${dataset_id}/fields`);
+    const fields = await client.get(
+      `/datasets/${dataset_id}/fields`,
+      getRequestOptions(context)
+    );
 
     const fieldsResponse = fields as { fields?: unknown[] };
     if (!fieldsResponse?.fields?.length) {
@@ -121,14 +104,22 @@ export async function handleDiscoverFields(
             text: `No fields found for dataset: ${dataset_id}`,
           },
         ],
+        structuredContent: { datasetId: dataset_id, count: 0, fields: [] },
       };
     }
 
-    const text = formatters.formatDatasetFields(
-      (fieldsResponse.fields as BambooDatasetField[]) || [],
-      dataset_id
-    );
-    return { content: [{ type: 'text', text }] };
+    const fieldList = (fieldsResponse.fields as BambooDatasetField[]) || [];
+    const text = formatters.formatDatasetFields(fieldList, dataset_id);
+    return {
+      content: [{ type: 'text', text }],
+      structuredContent: {
+        datasetId: dataset_id,
+        count: fieldList.length,
+        fields: fieldList.map((field) =>
+          pickStrings(field, ['id', 'name', 'label', 'type', 'description'])
+        ),
+      },
+    };
   } catch (error) {
     return handleBambooError(
       error instanceof Error ? error : new Error(String(error)),
@@ -1,11 +1,22 @@
 /**
  * Employee-related handlers for BambooHR MCP server
- * Handles employee search, directory operations, and photo access
+ * Handles employee search, full profiles, directory operations, and photo access
  */
 
-import type { BambooClient } from '../bamboo-client.js';
+import { NotFoundError, type BambooClient } from '../bamboo-client.js';
+import * as formatters from '../formatters.js';
 import { mcpLogger } from '../utils/mcpLogger.js';
-import { handleBambooError } from '../utils/errorHandler.js';
+import { resourceUri } from '../config/resourceDefinitions.js';
+import { redactPii } from '../privacy/piiPolicy.js';
+import { BambooErrorType, handleBambooError } from '../utils/errorHandler.js';
+import { getProgressReporter } from '../utils/progressTracker.js';
+import { getBambooClient, getRequestOptions } from '../utils/requestOptions.js';
+import { pickStrings, toEmployeeSummary } from '../utils/structuredOutput.js';
+import {
+  EMPLOYEE_SEARCH_ENDPOINT,
+  matchesEmployeeQuery,
+} from '../utils/employeeMatching.js';
+import { EmployeeSnapshotStore } from '../snapshots/employeeSnapshots.js';
 import type {
   HandlerDependencies,
   Logger,
@@ -14,11 +25,23 @@ import type {
   MCPToolResponse,
   BambooEmployeeDirectory,
   BambooEmployee,
+  BambooChangedEmployeesResponse,
+  BambooChangedTableResponse,
+  BambooFieldMetadata,
+  BambooTableRow,
+  EmployeeChangeAction,
+  EmployeeChangeSummary,
+  EmployeeFieldDiff,
+  EmployeeProfileField,
+  EmployeeProfileSection,
+  EmployeeTableChange,
 } from '../types.js';
 
 // Import dependencies (will be passed via DI)
 let bambooClient: BambooClient;
 let logger: Logger;
+// In memory until configureEmployeeSnapshots supplies a file-backed store
+let snapshotStore = new EmployeeSnapshotStore();
 
 export function initializeEmployeeHandlers(
   dependencies: HandlerDependencies
@@ -29,81 +52,39 @@ export function initializeEmployeeHandlers(
   return true;
 }
 
+/**
+ * Where bamboo_employee_changes keeps the field values it diffs against
+ */
+export function configureEmployeeSnapshots(store: EmployeeSnapshotStore): void {
+  snapshotStore = store;
+}
+
 export async function handleFindEmployee(
   args: ToolArgs,
   context: ToolContext = {}
 ): Promise<MCPToolResponse> {
   try {
-    const query = args.query;
-    // Support both direct progressToken and _meta.progressToken
-    const progressToken = context.progressToken || context._meta?.progressToken;
-
-    // Create progress tracker
-    const sendProgress = async (
-      progress: number,
-      total: number,
-      message: string
-    ) => {
-      if (progressToken) {
-        logger.debug(`Progress ${progress}/${total}: ${message}`);
-      }
-      // Also call the mock function if present and enabled (for testing)
-      if (context.sendProgress && context.isEnabled) {
-        await context.sendProgress(progress, total, message);
-      }
-    };
+    const client = getBambooClient(context, bambooClient);
+    const query = args.query as string;
+    const sendProgress = getProgressReporter(context);
 
     await sendProgress(10, 100, 'Validating search query');
 
-    logger.debug(
-      'Employee search initiated, query length:',
-      typeof query === 'string' ? query.length : 0
-    );
-
-    if (!query || typeof query !== 'string' || query.trim().length === 0) {
-      logger.warn('Employee search failed - missing query parameter');
-      return {
-        content: [
-          {
-            type: 'text' as const,
-            text: 'Missing required parameter: query. Provide employee name, email, or ID to search for.',
-          },
-        ],
-      };
-    }
+    logger.debug('Employee search initiated, query length:', query.length);
 
     await sendProgress(50, 100, 'Searching employee directory');
 
-    const queryLower = query.toLowerCase();
-    const employees = await bambooClient.get(
-      '/employees/directory?fields=id,firstName,lastName,workEmail,jobTitle,department'
+    const employees = redactPii(
+      await client.get(EMPLOYEE_SEARCH_ENDPOINT, getRequestOptions(context)),
+      context
     );
 
     await sendProgress(90, 100, 'Processing search results');
 
-    const found = (employees as BambooEmployeeDirectory).employees?.find(
-      (emp: BambooEmployee) => {
-        // Direct field matches
-        if (
-          emp.firstName?.toLowerCase().includes(queryLower) ||
-          emp.lastName?.toLowerCase().includes(queryLower) ||
-          emp.workEmail?.toLowerCase().includes(queryLower) ||
-          emp.id?.toString() === query
-        ) {
-          return true;
-        }
-
-        // Full name search - check if query matches "firstName lastName"
-        if (emp.firstName && emp.lastName) {
-          const fullName = `${emp.firstName} ${emp.lastName}`.toLowerCase();
-          if (fullName.includes(queryLower)) {
-            return true;
-          }
-        }
-
-        return false;
-      }
-    );
+    const matches = (
+      (employees as BambooEmployeeDirectory).employees || []
+    ).filter((emp: BambooEmployee) => matchesEmployeeQuery(emp, query));
+    const found = matches[0];
 
     if (!found) {
       logger.info(
@@ -114,6 +95,7 @@ export async function handleFindEmployee(
         content: [
           { type: 'text', text: `No employee found matching "${query}"` },
         ],
+        structuredContent: { query, count: 0, employees: [] },
       };
     }
 
@@ -143,6 +125,11 @@ Employee ID: ${found.id}`;
           },
         },
       ],
+      structuredContent: {
+        query,
+        count: matches.length,
+        employees: matches.map(toEmployeeSummary),
+      },
     };
 
     // Add resource links if employee photo is available
@@ -150,7 +137,7 @@ Employee ID: ${found.id}`;
       (response as MCPToolResponse)._links = {
         related: [
           {
-            href: `employee://${found.id}/photo`,
+            href: resourceUri(`employee://${found.id}/photo`, context.company),
             title: 'Employee Photo',
             rel: 'photo',
           },
@@ -174,35 +161,24 @@ Employee ID: ${found.id}`;
 
 export async function handleGetEmployeePhoto(
   args: ToolArgs,
-  _context: ToolContext = {}
+  context: ToolContext = {}
 ): Promise<MCPToolResponse> {
   try {
+    const client = getBambooClient(context, bambooClient);
     const employee_id = args.employee_id;
 
-    if (!employee_id) {
-      return {
-        content: [
-          {
-            type: 'text',
-            text: 'Missing required parameter: employee_id. Use bamboo_find_employee to get the ID first.',
-            _meta: {
-              error: true,
-              validationError: 'missing_employee_id',
-              timestamp: new Date().toISOString(),
-            },
-          },
-        ],
-      };
-    }
-
     // Validate employee exists first
     try {
-      const employee = await bambooClient.get(
-        `/employees/${employee_id}?fields=id,firstName,lastName`
+      const employee = redactPii(
+        await client.get(
+          `/employees/${employee_id}?fields=id,firstName,lastName`,
+          getRequestOptions(context)
+        ),
+        context
       );
 
       const emp = employee as BambooEmployee;
-      const photoUrl = `${bambooClient.getBaseUrl()}/employees/${employee_id}/photo`;
+      const photoUrl = `${client.getBaseUrl()}/employees/${employee_id}/photo`;
 
       // Enhanced response with employee metadata
       return {
@@ -223,6 +199,15 @@ Photo URL: ${photoUrl}
             },
           },
         ],
+        structuredContent: {
+          employeeId: String(employee_id),
+          employeeName: `${emp.firstName} ${emp.lastName}`,
+          photoUrl,
+          resourceUri: resourceUri(
+            `employee://${employee_id}/photo`,
+            context.company
+          ),
+        },
         _links: {
           photo: {
             href: photoUrl,
@@ -231,17 +216,14 @@ Photo URL: ${photoUrl}
             type: 'image/*',
           },
           employee: {
-            href: `employee://${employee_id}`,
+            href: resourceUri(`employee://${employee_id}`, context.company),
             title: `Employee Profile: ${emp.firstName} ${emp.lastName}`,
             rel: 'employee',
           },
         },
       };
     } catch (error) {
-      if (
-        (error as Error).message &&
-        (error as Error).message.includes('404')
-      ) {
+      if (error instanceof NotFoundError) {
         return {
           content: [
             {
@@ -262,6 +244,7 @@ Employee ID "${employee_id}" does not exist.
               },
             },
           ],
+          isError: true,
         };
       }
       throw error; // Re-throw other errors
@@ -278,3 +261,569 @@ Employee ID "${employee_id}" does not exist.
     );
   }
 }
+
+// Fields bamboo_get_employee returns when the caller names none
+const DEFAULT_PROFILE_FIELDS = [
+  'employeeNumber',
+  'firstName',
+  'lastName',
+  'preferredName',
+  'displayName',
+  'jobTitle',
+  'department',
+  'division',
+  'location',
+  'supervisor',
+  'hireDate',
+  'status',
+  'workEmail',
+  'workPhone',
+  'mobilePhone',
+];
+
+// Standard fields by section; anything else, including custom fields, is
+// listed under ADDITIONAL_FIELDS_SECTION
+const PROFILE_SECTIONS: ReadonlyArray<{
+  title: string;
+  fields: readonly string[];
+}> = [
+  {
+    title: 'Personal',
+    fields: [
+      'firstName',
+      'middleName',
+      'lastName',
+      'preferredName',
+      'displayName',
+      'gender',
+      'dateOfBirth',
+      'maritalStatus',
+    ],
+  },
+  {
+    title: 'Job',
+    fields: [
+      'employeeNumber',
+      'jobTitle',
+      'department',
+      'division',
+      'location',
+      'supervisor',
+      'supervisorId',
+      'supervisorEId',
+      'hireDate',
+      'originalHireDate',
+      'status',
+      'employmentHistoryStatus',
+      'terminationDate',
+    ],
+  },
+  {
+    title: 'Contact',
+    fields: [
+      'workEmail',
+      'homeEmail',
+      'workPhone',
+      'workPhoneExtension',
+      'mobilePhone',
+      'homePhone',
+      'linkedIn',
+      'address1',
+      'address2',
+      'city',
+      'state',
+      'zipcode',
+      'country',
+    ],
+  },
+];
+
+const ADDITIONAL_FIELDS_SECTION = 'Additional Fields';
+
+interface ProfileField {
+  /** Key to request and read: the alias, or the ID for custom fields */
+  key: string;
+  label: string;
+}
+
+/**
+ * Match requested names against /meta/fields by alias, ID or name
+ * (case-insensitive), so custom fields can be asked for by their label
+ */
+function resolveProfileFields(
+  requested: string[],
+  metadata: BambooFieldMetadata[]
+): { fields: ProfileField[]; unknown: string[] } {
+  const fields: ProfileField[] = [];
+  const unknown: string[] = [];
+
+  for (const name of requested) {
+    const wanted = name.trim().toLowerCase();
+    const match =
+      metadata.find((field) => field.alias?.toLowerCase() === wanted) ??
+      metadata.find((field) => String(field.id) === name.trim()) ??
+      metadata.find((field) => field.name?.toLowerCase() === wanted);
+    if (!match) {
+      unknown.push(name);
+      continue;
+    }
+    const key = match.alias ?? String(match.id);
+    if (!fields.some((field) => field.key === key)) {
+      fields.push({ key, label: match.name || key });
+    }
+  }
+  return { fields, unknown };
+}
+
+/**
+ * Group the fields that have a value into Personal, Job, Contact and
+ * Additional Fields, in request order within each section
+ */
+function groupProfileFields(
+  fields: ProfileField[],
+  values: Record<string, string>
+): EmployeeProfileSection[] {
+  const grouped = new Map<string, EmployeeProfileField[]>([
+    ...PROFILE_SECTIONS.map(({ title }): [string, EmployeeProfileField[]] => [
+      title,
+      [],
+    ]),
+    [ADDITIONAL_FIELDS_SECTION, []],
+  ]);
+
+  for (const field of fields) {
+    if (values[field.key] === undefined) {
+      continue;
+    }
+    const title =
+      PROFILE_SECTIONS.find((section) => section.fields.includes(field.key))
+        ?.title ?? ADDITIONAL_FIELDS_SECTION;
+    grouped.get(title)!.push({
+      field: field.key,
+      label: field.label,
+      value: values[field.key],
+    });
+  }
+  return Array.from(grouped, ([title, sectionFields]) => ({
+    title,
+    fields: sectionFields,
+  })).filter((section) => section.fields.length > 0);
+}
+
+export async function handleGetEmployee(
+  args: ToolArgs,
+  context: ToolContext = {}
+): Promise<MCPToolResponse> {
+  try {
+    const client = getBambooClient(context, bambooClient);
+    const requestOptions = getRequestOptions(context);
+    const sendProgress = getProgressReporter(context);
+    const employeeId = String(args.employee_id ?? '').trim();
+    const requestedFields = Array.isArray(args.fields)
+      ? (args.fields as string[])
+      : undefined;
+    const tables = Array.from(
+      new Set(Array.isArray(args.tables) ? (args.tables as string[]) : [])
+    );
+
+    await sendProgress(10, 100, 'Loading field definitions');
+
+    const metadata = (await client.get(
+      '/meta/fields',
+      requestOptions
+    )) as BambooFieldMetadata[];
+
+    let fields: ProfileField[];
+    if (requestedFields) {
+      const resolved = resolveProfileFields(requestedFields, metadata);
+      if (resolved.unknown.length > 0) {
+        logger.warn('Unknown employee fields requested:', resolved.unknown);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Unknown fields: ${resolved.unknown.join(', ')}. Use a field alias such as "jobTitle", a custom field ID, or the field name shown in BambooHR.`,
+              _meta: {
+                error: true,
+                errorType: BambooErrorType.VALIDATION,
+                unknownFields: resolved.unknown,
+                timestamp: new Date().toISOString(),
+              },
+            },
+          ],
+          isError: true,
+        };
+      }
+      fields = resolved.fields;
+    } else {
+      fields = DEFAULT_PROFILE_FIELDS.map((key) => ({
+        key,
+        label: metadata.find((field) => field.alias === key)?.name || key,
+      }));
+    }
+
+    await sendProgress(40, 100, 'Fetching employee profile');
+
+    // Names are always fetched for the heading; the field list tells the
+    // PII policy what custom field IDs are called
+    const requestKeys = Array.from(
+      new Set(['firstName', 'lastName', ...fields.map((field) => field.key)])
+    );
+    const encodedId = encodeURIComponent(employeeId);
+    const { employee } = redactPii(
+      {
+        fields: fields.map((field) => ({ id: field.key, name: field.label })),
+        employee: (await client.get(
+          `/employees/${encodedId}?fields=${requestKeys.map(encodeURIComponent).join(',')}`,
+          requestOptions
+        )) as BambooEmployee,
+      },
+      context
+    );
+
+    await sendProgress(70, 100, 'Fetching employee tables');
+
+    // Tables are redacted under their own name, so the default policy
+    // withholds the whole compensation table
+    const tableData: Record<string, BambooTableRow[]> = {};
+    const withheldTables: string[] = [];
+    for (const table of tables) {
+      const rows = await client.get(
+        `/employees/${encodedId}/tables/${table}`,
+        requestOptions
+      );
+      const redacted = redactPii(
+        { [table]: Array.isArray(rows) ? rows : [] },
+        context
+      ) as Record<string, BambooTableRow[] | undefined>;
+      if (redacted[table]) {
+        tableData[table] = redacted[table];
+      } else {
+        withheldTables.push(table);
+      }
+    }
+
+    const values = pickStrings(
+      employee,
+      fields.map((field) => field.key)
+    );
+    const sections = groupProfileFields(fields, values);
+    const name =
+      `${employee.firstName || ''} ${employee.lastName || ''}`.trim() ||
+      'Unknown Name';
+
+    await sendProgress(100, 100, 'Employee profile ready');
+
+    logger.info('Employee profile retrieved for:', employeeId);
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: formatters.formatEmployeeProfile(
+            employeeId,
+            name,
+            sections,
+            tableData,
+            withheldTables
+          ),
+          _meta: {
+            employeeId,
+            fieldCount: Object.keys(values).length,
+            tables: Object.keys(tableData),
+            ...(withheldTables.length > 0 && { withheldTables }),
+            timestamp: new Date().toISOString(),
+          },
+        },
+      ],
+      structuredContent: {
+        employeeId,
+        name,
+        fields: values,
+        sections,
+        tables: tableData,
+      },
+      _links: {
+        employee: {
+          href: resourceUri(`employee://${employeeId}`, context.company),
+          title: `Employee Profile: ${name}`,
+          rel: 'employee',
+        },
+      },
+    };
+  } catch (error) {
+    return handleBambooError(
+      error instanceof Error ? error : new Error(String(error)),
+      'employee profile retrieval',
+      'bamboo_get_employee',
+      {
+        parameters: {
+          employee_id: args.employee_id,
+          fields: args.fields,
+          tables: args.tables,
+        },
+        endpoint: `/employees/${args.employee_id}`,
+      }
+    );
+  }
+}
+
+// Changed employees whose fields are fetched and diffed per call; each one
+// is a separate API request
+const MAX_DIFFED_EMPLOYEES = 25;
+
+const CHANGE_ACTIONS: readonly EmployeeChangeAction[] = [
+  'inserted',
+  'updated',
+  'deleted',
+];
+
+export async function handleEmployeeChanges(
+  args: ToolArgs,
+  context: ToolContext = {}
+): Promise<MCPToolResponse> {
+  try {
+    const client = getBambooClient(context, bambooClient);
+    const requestOptions = getRequestOptions(context);
+    const sendProgress = getProgressReporter(context);
+    const since =
+      typeof args.since === 'string'
+        ? args.since
+        : new Date(Date.now() - 7 * 24 * 60 * 60 * 1000)
+            .toISOString()
+            .split('T')[0];
+    const type = (args.type as string | undefined) ?? 'all';
+    const tables = Array.from(
+      new Set(Array.isArray(args.tables) ? (args.tables as string[]) : [])
+    );
+    const requestedFields = Array.isArray(args.fields)
+      ? (args.fields as string[])
+      : undefined;
+    const sinceParam = encodeURIComponent(`${since}T00:00:00Z`);
+
+    let diffFields: ProfileField[] | undefined;
+    if (requestedFields) {
+      await sendProgress(5, 100, 'Loading field definitions');
+      const resolved = resolveProfileFields(
+        requestedFields,
+        (await client.get(
+          '/meta/fields',
+          requestOptions
+        )) as BambooFieldMetadata[]
+      );
+      if (resolved.unknown.length > 0) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Unknown fields: ${resolved.unknown.join(', ')}. Use a field alias such as "jobTitle", a custom field ID, or the field name shown in BambooHR.`,
+              _meta: {
+                error: true,
+                errorType: BambooErrorType.VALIDATION,
+                unknownFields: resolved.unknown,
+                timestamp: new Date().toISOString(),
+              },
+            },
+          ],
+          isError: true,
+        };
+      }
+      diffFields = resolved.fields;
+    }
+
+    await sendProgress(15, 100, 'Fetching changed employees');
+
+    // The feeds are always fetched fresh: a cached one misses recent changes
+    const feed = (await client.get(
+      `/employees/changed?since=${sinceParam}${type === 'all' ? '' : `&type=${type}`}`,
+      { ...requestOptions, skipCache: true }
+    )) as BambooChangedEmployeesResponse;
+
+    // Names come from the directory; deleted employees are only known to
+    // the snapshot store, if at all
+    const company = client.getBaseUrl();
+    const entries = Object.values(feed?.employees ?? {});
+    const names = new Map<string, string>();
+    if (entries.length > 0) {
+      const directory = redactPii(
+        await client.get(
+          '/employees/directory?fields=displayName,firstName,lastName',
+          requestOptions
+        ),
+        context
+      ) as BambooEmployeeDirectory;
+      for (const employee of directory.employees ?? []) {
+        names.set(
+          String(employee.id),
+          employee.displayName ||
+            `${employee.firstName || ''} ${employee.lastName || ''}`.trim()
+        );
+      }
+    }
+    const nameOf = (employeeId: string) =>
+      names.get(employeeId) ||
+      snapshotStore.get(company, employeeId)?.name ||
+      `Employee ${employeeId}`;
+
+    const changes: EmployeeChangeSummary[] = entries
+      .map((entry) => ({
+        employeeId: String(entry.id),
+        name: nameOf(String(entry.id)),
+        action: String(entry.action).toLowerCase() as EmployeeChangeAction,
+        lastChanged: entry.lastChanged,
+      }))
+      .filter((change) => CHANGE_ACTIONS.includes(change.action))
+      .sort((a, b) => b.lastChanged.localeCompare(a.lastChanged));
+
+    await sendProgress(40, 100, 'Fetching changed tables');
+
+    // Tables are redacted under their own name, as in bamboo_get_employee
+    const tableChanges: Record<string, EmployeeTableChange[]> = {};
+    const withheldTables: string[] = [];
+    for (const table of tables) {
+      const response = (await client.get(
+        `/employees/changed/tables/${table}?since=${sinceParam}`,
+        { ...requestOptions, skipCache: true }
+      )) as BambooChangedTableResponse;
+      const rows = Object.entries(response?.employees ?? {}).map(
+        ([employeeId, entry]): EmployeeTableChange => ({
+          employeeId,
+          name: nameOf(employeeId),
+          lastChanged: entry.lastChanged,
+          rows: Array.isArray(entry.rows) ? entry.rows : [],
+        })
+      );
+      const redacted = redactPii({ [table]: rows }, context) as Record<
+        string,
+        EmployeeTableChange[] | undefined
+      >;
+      if (redacted[table]) {
+        tableChanges[table] = redacted[table];
+      } else {
+        withheldTables.push(table);
+      }
+    }
+
+    let diffs: EmployeeFieldDiff[] | undefined;
+    let skippedDiffs = 0;
+    if (diffFields) {
+      await sendProgress(60, 100, 'Comparing fields with the stored snapshot');
+      diffs = [];
+      const current = changes.filter((change) => change.action !== 'deleted');
+      skippedDiffs = Math.max(0, current.length - MAX_DIFFED_EMPLOYEES);
+
+      for (const change of current.slice(0, MAX_DIFFED_EMPLOYEES)) {
+        // Fresh values: a cached record could predate the change
+        const { employee } = redactPii(
+          {
+            fields: diffFields.map((field) => ({
+              id: field.key,
+              name: field.label,
+            })),
+            employee: (await client.get(
+              `/employees/${encodeURIComponent(change.employeeId)}?fields=${diffFields.map((field) => encodeURIComponent(field.key)).join(',')}`,
+              { ...requestOptions, skipCache: true }
+            )) as BambooEmployee,
+          },
+          context
+        );
+        const values = pickStrings(
+          employee,
+          diffFields.map((field) => field.key)
+        );
+        const previous = snapshotStore.get(company, change.employeeId);
+
+        diffs.push({
+          employeeId: change.employeeId,
+          name: change.name,
+          baseline: !previous,
+          ...(previous && { previousCapture: previous.capturedAt }),
+          changes: previous
+            ? diffFields
+                .filter(
+                  (field) =>
+                    field.key in previous.fields &&
+                    previous.fields[field.key] !== values[field.key]
+                )
+                .map((field) => ({
+                  field: field.key,
+                  label: field.label,
+                  before: previous.fields[field.key] || undefined,
+                  after: values[field.key],
+                }))
+            : [],
+        });
+        // Fields that are now empty are stored as '' so the next diff sees them
+        snapshotStore.update(company, change.employeeId, change.name, {
+          ...Object.fromEntries(diffFields.map((field) => [field.key, ''])),
+          ...values,
+        });
+      }
+      for (const change of changes) {
+        if (change.action === 'deleted') {
+          snapshotStore.delete(company, change.employeeId);
+        }
+      }
+      snapshotStore.save();
+    }
+
+    await sendProgress(100, 100, 'Employee changes ready');
+
+    const counts = Object.fromEntries(
+      CHANGE_ACTIONS.map((action) => [
+        action,
+        changes.filter((change) => change.action === action).length,
+      ])
+    );
+    logger.info('Employee changes retrieved since:', since, counts);
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: formatters.formatEmployeeChanges(
+            since,
+            changes,
+            tableChanges,
+            withheldTables,
+            diffs,
+            skippedDiffs
+          ),
+          _meta: {
+            since,
+            ...(feed?.latest && { latest: feed.latest }),
+            counts,
+            tables: Object.keys(tableChanges),
+            ...(withheldTables.length > 0 && { withheldTables }),
+            ...(skippedDiffs > 0 && { skippedDiffs }),
+            timestamp: new Date().toISOString(),
+          },
+        },
+      ],
+      structuredContent: {
+        since,
+        ...(feed?.latest && { latest: feed.latest }),
+        type,
+        counts,
+        changes,
+        tables: tableChanges,
+        ...(diffs && { diffs }),
+      },
+    };
+  } catch (error) {
+    return handleBambooError(
+      error instanceof Error ? error : new Error(String(error)),
+      'employee change retrieval',
+      'bamboo_employee_changes',
+      {
+        parameters: {
+          since: args.since,
+          type: args.type,
+          tables: args.tables,
+          fields: args.fields,
+        },
+        endpoint: '/employees/changed',
+      }
+    );
+  }
+}
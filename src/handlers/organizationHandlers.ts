@@ -1,31 +1,36 @@
 /**
  * Organization and team management handlers for BambooHR MCP server
- * Handles department listings and team information operations
+ * Handles department listings, team information and org chart operations
  */
 
 import type { BambooClient } from '../bamboo-client.js';
 import * as formatters from '../formatters.js';
 import { mcpLogger } from '../utils/mcpLogger.js';
-import { handleBambooError } from '../utils/errorHandler.js';
+import { resourceUri } from '../config/resourceDefinitions.js';
+import { ORG_DIRECTORY_ENDPOINT, getOrgGraph } from '../org/orgGraph.js';
+import { redactPii } from '../privacy/piiPolicy.js';
+import { BambooErrorType, handleBambooError } from '../utils/errorHandler.js';
+import { getProgressReporter } from '../utils/progressTracker.js';
+import { getBambooClient, getRequestOptions } from '../utils/requestOptions.js';
+import { toEmployeeSummary } from '../utils/structuredOutput.js';
 import type {
   HandlerDependencies,
-  Logger,
   ToolArgs,
   ToolContext,
   MCPToolResponse,
   BambooEmployeeDirectory,
   BambooEmployee,
+  OrgChartEntry,
+  OrgChartIssues,
 } from '../types.js';
 
 // Import dependencies (will be passed via DI)
 let bambooClient: BambooClient;
-let logger: Logger;
 
 export function initializeOrganizationHandlers(
   dependencies: HandlerDependencies
 ): boolean {
   bambooClient = dependencies.bambooClient as BambooClient;
-  logger = dependencies.logger;
   mcpLogger.organization(
     'info',
     'Organization handlers initialized successfully'
@@ -35,27 +40,18 @@ export function initializeOrganizationHandlers(
 
 export async function handleTeamInfo(
   args: ToolArgs,
-  _context: ToolContext = {}
+  context: ToolContext = {}
 ): Promise<MCPToolResponse> {
   try {
-    const department = args.department;
-    if (
-      !department ||
-      typeof department !== 'string' ||
-      department.trim() === ''
-    ) {
-      return {
-        content: [
-          {
-            type: 'text',
-            text: 'Missing required parameter: department. Provide department name to get team roster for.',
-          },
-        ],
-      };
-    }
+    const client = getBambooClient(context, bambooClient);
+    const department = args.department as string;
 
-    const employees = await bambooClient.get(
-      '/employees/directory?fields=firstName,lastName,workEmail,jobTitle,department'
+    const employees = redactPii(
+      await client.get(
+        '/employees/directory?fields=firstName,lastName,workEmail,jobTitle,department',
+        getRequestOptions(context)
+      ),
+      context
     );
 
     const teamMembers =
@@ -72,6 +68,7 @@ export async function handleTeamInfo(
             text: `No employees found in department "${department}"`,
           },
         ],
+        structuredContent: { department, count: 0, employees: [] },
       };
     }
 
@@ -92,6 +89,11 @@ export async function handleTeamInfo(
           },
         },
       ],
+      structuredContent: {
+        department,
+        count: teamMembers.length,
+        employees: teamMembers.map(toEmployeeSummary),
+      },
     };
   } catch (error) {
     return handleBambooError(
@@ -111,29 +113,18 @@ export async function handleListDepartments(
   context: ToolContext = {}
 ): Promise<MCPToolResponse> {
   try {
-    // Support both direct progressToken and _meta.progressToken
-    const progressToken = context.progressToken || context._meta?.progressToken;
-
-    // Progress tracking
-    const sendProgress = async (
-      progress: number,
-      total: number,
-      message: string
-    ) => {
-      if (progressToken) {
-        logger.debug(`Progress ${progress}/${total}: ${message}`);
-      }
-      // Also call the mock function if present and enabled (for testing)
-      if (context.sendProgress && context.isEnabled) {
-        await context.sendProgress(progress, total, message);
-      }
-    };
+    const client = getBambooClient(context, bambooClient);
+    const sendProgress = getProgressReporter(context);
 
     await sendProgress(25, 100, 'Fetching employee directory');
 
     // Use employee directory endpoint to get department data
-    const employees = await bambooClient.get(
-      '/employees/directory?fields=department'
+    const employees = redactPii(
+      await client.get(
+        '/employees/directory?fields=department',
+        getRequestOptions(context)
+      ),
+      context
     );
 
     const employeeData = employees as BambooEmployeeDirectory;
@@ -150,6 +141,7 @@ export async function handleListDepartments(
             },
           },
         ],
+        isError: true,
       };
     }
 
@@ -182,6 +174,11 @@ export async function handleListDepartments(
             },
           },
         ],
+        structuredContent: {
+          departmentCount: 0,
+          employeeCount: employeeData.employees.length,
+          departments: [],
+        },
       };
     }
 
@@ -230,9 +227,23 @@ ${departmentAnalytics}
           },
         },
       ],
+      structuredContent: {
+        departmentCount: departments.length,
+        employeeCount: totalEmployees,
+        departments: departments.map((dept) => ({
+          name: dept,
+          employeeCount: departmentMap.get(dept)!,
+          percentage: Number(
+            ((departmentMap.get(dept)! / totalEmployees) * 100).toFixed(1)
+          ),
+        })),
+      },
       _links: {
         related: departments.map((dept) => ({
-          href: `department://${encodeURIComponent(dept)}`,
+          href: resourceUri(
+            `department://${encodeURIComponent(dept)}`,
+            context.company
+          ),
           title: `${dept} Department`,
           rel: 'department',
         })),
@@ -249,3 +260,279 @@ ${departmentAnalytics}
     );
   }
 }
+
+/**
+ * An employee ID that is not in the directory
+ */
+function employeeNotInDirectory(
+  employeeId: string,
+  graphSize: number
+): MCPToolResponse {
+  return {
+    content: [
+      {
+        type: 'text',
+        text: `Employee ID "${employeeId}" is not in the employee directory (${graphSize} employees). Use bamboo_find_employee to search for the correct employee.`,
+        _meta: {
+          error: true,
+          errorType: BambooErrorType.NOT_FOUND,
+          employeeId,
+          timestamp: new Date().toISOString(),
+        },
+      },
+    ],
+    isError: true,
+  };
+}
+
+export async function handleManagerChain(
+  args: ToolArgs,
+  context: ToolContext = {}
+): Promise<MCPToolResponse> {
+  try {
+    const client = getBambooClient(context, bambooClient);
+    const employeeId = String(args.employee_id ?? '').trim();
+    const graph = getOrgGraph(
+      (await client.get(
+        ORG_DIRECTORY_ENDPOINT,
+        getRequestOptions(context)
+      )) as BambooEmployeeDirectory
+    );
+
+    const { chain, brokenBy } = graph.managerChain(employeeId);
+    if (chain.length === 0) {
+      return employeeNotInDirectory(employeeId, graph.size);
+    }
+
+    // Top of the chain first, so the tree reads downwards to the employee
+    const ids = chain.map((person) => person.id).reverse();
+    const { entries, issues } = redactPii(
+      {
+        entries: ids.map((id, depth) => graph.entry(id, depth)!),
+        issues: graph.issuesAmong(ids),
+      },
+      context
+    ) as { entries: OrgChartEntry[]; issues: OrgChartIssues };
+    const name = entries[entries.length - 1].name;
+
+    const note =
+      brokenBy === 'orphan'
+        ? `The chain stops at ${entries[0].name}, whose manager is not in the directory.`
+        : brokenBy === 'cycle'
+          ? `The chain stops at ${entries[0].name}, where the reporting line loops back on itself.`
+          : undefined;
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: formatters.formatOrgChart(
+            `Manager Chain: ${name} (${entries.length - 1} levels)`,
+            entries,
+            issues,
+            note
+          ),
+          _meta: {
+            employeeId,
+            levels: entries.length - 1,
+            ...(brokenBy && { brokenBy }),
+            timestamp: new Date().toISOString(),
+          },
+        },
+      ],
+      structuredContent: {
+        employeeId,
+        name,
+        chain: entries,
+        complete: !brokenBy,
+        issues,
+      },
+      _links: {
+        employee: {
+          href: resourceUri(`employee://${employeeId}`, context.company),
+          title: `Employee Profile: ${name}`,
+          rel: 'employee',
+        },
+      },
+    };
+  } catch (error) {
+    return handleBambooError(
+      error instanceof Error ? error : new Error(String(error)),
+      'manager chain retrieval',
+      'bamboo_manager_chain',
+      {
+        parameters: { employee_id: args.employee_id },
+        endpoint: '/employees/directory',
+      }
+    );
+  }
+}
+
+export async function handleReports(
+  args: ToolArgs,
+  context: ToolContext = {}
+): Promise<MCPToolResponse> {
+  try {
+    const client = getBambooClient(context, bambooClient);
+    const employeeId = String(args.employee_id ?? '').trim();
+    const maxDepth = args.max_depth as number | undefined;
+    const graph = getOrgGraph(
+      (await client.get(
+        ORG_DIRECTORY_ENDPOINT,
+        getRequestOptions(context)
+      )) as BambooEmployeeDirectory
+    );
+
+    const tree = graph.reportsTree(employeeId, maxDepth);
+    if (tree.length === 0) {
+      return employeeNotInDirectory(employeeId, graph.size);
+    }
+
+    const { entries, issues } = redactPii(
+      {
+        entries: tree,
+        issues: graph.issuesAmong(tree.map((entry) => entry.id)),
+      },
+      context
+    ) as { entries: OrgChartEntry[]; issues: OrgChartIssues };
+    const [manager] = entries;
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: formatters.formatOrgChart(
+            `Reports: ${manager.name} (${manager.directReports} direct, ${manager.totalReports} total)`,
+            entries,
+            issues,
+            entries.length - 1 < manager.totalReports
+              ? `Showing ${entries.length - 1} of ${manager.totalReports} reports (max_depth ${maxDepth}).`
+              : undefined
+          ),
+          _meta: {
+            employeeId,
+            directReports: manager.directReports,
+            totalReports: manager.totalReports,
+            ...(maxDepth !== undefined && { maxDepth }),
+            timestamp: new Date().toISOString(),
+          },
+        },
+      ],
+      structuredContent: {
+        employeeId,
+        name: manager.name,
+        directReports: manager.directReports,
+        totalReports: manager.totalReports,
+        entries,
+        issues,
+      },
+      _links: {
+        employee: {
+          href: resourceUri(`employee://${employeeId}`, context.company),
+          title: `Employee Profile: ${manager.name}`,
+          rel: 'employee',
+        },
+      },
+    };
+  } catch (error) {
+    return handleBambooError(
+      error instanceof Error ? error : new Error(String(error)),
+      'reports retrieval',
+      'bamboo_reports',
+      {
+        parameters: {
+          employee_id: args.employee_id,
+          max_depth: args.max_depth,
+        },
+        endpoint: '/employees/directory',
+      }
+    );
+  }
+}
+
+export async function handleOrgChart(
+  args: ToolArgs,
+  context: ToolContext = {}
+): Promise<MCPToolResponse> {
+  try {
+    const client = getBambooClient(context, bambooClient);
+    const department =
+      typeof args.department === 'string' ? args.department.trim() : '';
+    const maxDepth = args.max_depth as number | undefined;
+    const graph = getOrgGraph(
+      (await client.get(
+        ORG_DIRECTORY_ENDPOINT,
+        getRequestOptions(context)
+      )) as BambooEmployeeDirectory
+    );
+
+    const members = department
+      ? graph.departmentMembers(department)
+      : undefined;
+    const chart = graph.chart(members, maxDepth);
+    const { entries, issues } = redactPii(
+      {
+        entries: chart,
+        issues: graph.issuesAmong(chart.map((entry) => entry.id)),
+      },
+      context
+    ) as { entries: OrgChartEntry[]; issues: OrgChartIssues };
+
+    const managers = entries.filter((entry) => entry.directReports > 0);
+    const averageSpanOfControl =
+      managers.length > 0
+        ? Number(
+            (
+              managers.reduce((sum, entry) => sum + entry.directReports, 0) /
+              managers.length
+            ).toFixed(1)
+          )
+        : 0;
+    const scope = department ? `${department} Department` : 'Company';
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: formatters.formatOrgChart(
+            `Org Chart: ${scope} (${entries.length} employees, ${managers.length} managers, average span of control ${averageSpanOfControl})`,
+            entries,
+            issues,
+            department && entries.length === 0
+              ? `No employees found in department "${department}". Use bamboo_list_departments to see department names.`
+              : undefined
+          ),
+          _meta: {
+            ...(department && { department }),
+            employeeCount: entries.length,
+            managerCount: managers.length,
+            orphanCount: issues.orphans.length,
+            cycleCount: issues.cycles.length,
+            timestamp: new Date().toISOString(),
+          },
+        },
+      ],
+      structuredContent: {
+        ...(department && { department }),
+        count: entries.length,
+        managerCount: managers.length,
+        averageSpanOfControl,
+        entries,
+        issues,
+      },
+    };
+  } catch (error) {
+    return handleBambooError(
+      error instanceof Error ? error : new Error(String(error)),
+      'org chart retrieval',
+      'bamboo_org_chart',
+      {
+        parameters: {
+          department: args.department,
+          max_depth: args.max_depth,
+        },
+        endpoint: '/employees/directory',
+      }
+    );
+  }
+}
@@ -6,10 +6,14 @@
 import type { BambooClient } from '../bamboo-client.js';
 import * as formatters from '../formatters.js';
 import { mcpLogger } from '../utils/mcpLogger.js';
+import { resourceUri } from '../config/resourceDefinitions.js';
+import { redactPii } from '../privacy/piiPolicy.js';
 import { handleBambooError } from '../utils/errorHandler.js';
+import { getProgressReporter } from '../utils/progressTracker.js';
+import { getBambooClient, getRequestOptions } from '../utils/requestOptions.js';
+import { pickStrings } from '../utils/structuredOutput.js';
 import type {
   HandlerDependencies,
-  Logger,
   ToolArgs,
   ToolContext,
   MCPToolResponse,
@@ -17,13 +21,11 @@ import type {
 
 // Import dependencies (will be passed via DI)
 let bambooClient: BambooClient;
-let logger: Logger;
 
 export function initializeReportHandlers(
   dependencies: HandlerDependencies
 ): boolean {
   bambooClient = dependencies.bambooClient as BambooClient;
-  logger = dependencies.logger;
   mcpLogger.report('info', 'Report handlers initialized successfully');
   return true;
 }
@@ -33,33 +35,21 @@ export async function handleRunCustomReport(
   context: ToolContext = {}
 ): Promise<MCPToolResponse> {
   try {
+    const client = getBambooClient(context, bambooClient);
     const report_id = args.report_id as string;
     const list_reports = args.list_reports as boolean;
     const format = args.format as string;
-    // Support both direct progressToken and _meta.progressToken
-    const progressToken = context.progressToken || context._meta?.progressToken;
-
-    // Progress tracking
-    const sendProgress = async (
-      progress: number,
-      total: number,
-      message: string
-    ) => {
-      if (progressToken) {
-        logger.debug(`Progress ${progress}/${total}: ${message}`);
-      }
-      // Also call the mock function if present and enabled (for testing)
-      if (context.sendProgress && context.isEnabled) {
-        await context.sendProgress(progress, total, message);
-      }
-    };
+    const sendProgress = getProgressReporter(context);
 
     if (list_reports) {
       await sendProgress(25, 100, 'Fetching available reports');
 
       try {
         // List available reports with enhanced error handling
-        const reports = await bambooClient.get('/custom-reports');
+        const reports = await client.get(
+          '/custom-reports',
+          getRequestOptions(context)
+        );
 
         // Enhanced response structure handling
         let reportList: unknown[] = [];
@@ -94,6 +84,7 @@ Available properties: ${
                 },
               },
             ],
+            isError: true,
           };
         }
 
@@ -116,6 +107,28 @@ Available properties: ${
               },
             },
           ],
+          structuredContent: {
+            operation: 'list_reports',
+            count: reportList.length,
+            reports: reportList.map((report) => {
+              const fields = pickStrings(report, [
+                'id',
+                'reportId',
+                'name',
+                'title',
+                'reportName',
+                'description',
+              ]);
+              return pickStrings(
+                {
+                  id: fields.id || fields.reportId,
+                  name: fields.name || fields.title || fields.reportName,
+                  description: fields.description,
+                },
+                ['id', 'name', 'description']
+              );
+            }),
+          },
         };
       } catch (error) {
         return handleBambooError(
@@ -152,6 +165,7 @@ TIP: **Workflow:**
             },
           },
         ],
+        isError: true,
       };
     }
 
@@ -164,7 +178,10 @@ TIP: **Workflow:**
         const endpoint = `/custom-reports/${report_id}${
           format ? `?format=${format}` : ''
         }`;
-        reportData = await bambooClient.get(endpoint);
+        reportData = redactPii(
+          await client.get(endpoint, getRequestOptions(context)),
+          context
+        );
       } catch (apiError) {
         return handleBambooError(
           apiError instanceof Error ? apiError : new Error(String(apiError)),
@@ -201,6 +218,7 @@ TIP: Try again in a few moments or use \`{"list_reports": true}\` to verify the
               },
             },
           ],
+          isError: true,
         };
       }
 
@@ -228,9 +246,15 @@ TIP: Try again in a few moments or use \`{"list_reports": true}\` to verify the
             },
           },
         ],
+        structuredContent: {
+          operation: 'run_report',
+          reportId: report_id,
+          format: format || 'json',
+          data: reportData,
+        },
         _links: {
           self: {
-            href: `report://${report_id}`,
+            href: resourceUri(`report://${report_id}`, context.company),
             title: `Custom Report ${report_id}`,
             rel: 'self',
           },
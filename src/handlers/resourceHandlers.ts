@@ -0,0 +1,343 @@
+/**
+ * Resource handlers for BambooHR MCP server
+ * Resolves employee://, department:// and report:// URIs so clients can attach HR records as context
+ */
+
+import { getErrorStatus, type BambooClient } from '../bamboo-client.js';
+import {
+  BAMBOO_RESOURCE_TEMPLATES,
+  RESOURCE_TOOLS,
+  parseResourceUri,
+  resourceUri,
+} from '../config/resourceDefinitions.js';
+import { getToolDenialReason, isToolEnabled } from '../config/toolRouter.js';
+import { mcpLogger } from '../utils/mcpLogger.js';
+import { redactPii } from '../privacy/piiPolicy.js';
+import { MCPError, MCP_ERROR_CODES } from '../utils/mcpErrorHandler.js';
+import { getRequestOptions } from '../utils/requestOptions.js';
+import type { TenantRegistry } from '../tenants/tenantRegistry.js';
+import type {
+  HandlerDependencies,
+  BambooEmployee,
+  BambooEmployeeDirectory,
+  RedactedFieldInfo,
+  ToolContext,
+} from '../types.js';
+
+// Import dependencies (will be passed via DI)
+let bambooClient: BambooClient;
+// Resolves the company a URI names; without it every read uses bambooClient
+let tenants: TenantRegistry | undefined;
+
+const RESOURCE_PAGE_SIZE = 100;
+
+const EMPLOYEE_RESOURCE_FIELDS = [
+  'id',
+  'firstName',
+  'lastName',
+  'displayName',
+  'workEmail',
+  'jobTitle',
+  'department',
+  'division',
+  'location',
+  'workPhone',
+  'mobilePhone',
+];
+
+/**
+ * Resource listing entry
+ */
+export interface BambooResource {
+  uri: string;
+  name: string;
+  title?: string;
+  description?: string;
+  mimeType?: string;
+}
+
+/**
+ * Resource read content item (text or base64 blob)
+ */
+export type BambooResourceContents =
+  | {
+      uri: string;
+      mimeType: string;
+      text: string;
+      _meta?: { redactedFields: RedactedFieldInfo[] };
+    }
+  | { uri: string; mimeType: string; blob: string };
+
+export function initializeResourceHandlers(
+  dependencies: HandlerDependencies,
+  registry?: TenantRegistry
+): boolean {
+  bambooClient = dependencies.bambooClient as BambooClient;
+  tenants = registry;
+  mcpLogger.resource('info', 'Resource handlers initialized successfully');
+  return true;
+}
+
+/**
+ * resources/list - departments and employees from the directory, paginated.
+ * With several companies configured, every company's are listed.
+ */
+export async function handleListResources(
+  cursor?: string,
+  context: ToolContext = {}
+): Promise<{ resources: BambooResource[]; nextCursor?: string }> {
+  const offset = cursor ? parseInt(cursor, 10) : 0;
+  if (isNaN(offset) || offset < 0) {
+    throw new MCPError(
+      `Invalid cursor: ${cursor}`,
+      MCP_ERROR_CODES.INVALID_PARAMS
+    );
+  }
+
+  const companies =
+    tenants && tenants.size > 1
+      ? tenants.list().map((company) => ({
+          company: company.name,
+          client: tenants!.resolve(company.name).client,
+        }))
+      : [{ company: undefined, client: bambooClient }];
+
+  const allResources: BambooResource[] = [];
+  for (const { company, client } of companies) {
+    allResources.push(
+      ...(await listCompanyResources(client, company, context))
+    );
+  }
+
+  const page = allResources.slice(offset, offset + RESOURCE_PAGE_SIZE);
+  const nextOffset = offset + RESOURCE_PAGE_SIZE;
+
+  return nextOffset < allResources.length
+    ? { resources: page, nextCursor: String(nextOffset) }
+    : { resources: page };
+}
+
+async function listCompanyResources(
+  client: BambooClient,
+  company: string | undefined,
+  context: ToolContext
+): Promise<BambooResource[]> {
+  const directory = redactPii(
+    await client.get(
+      '/employees/directory?fields=id,firstName,lastName,jobTitle,department',
+      getRequestOptions(context)
+    )
+  ) as BambooEmployeeDirectory;
+  const employees = directory?.employees || [];
+
+  const departments = Array.from(
+    new Set(
+      employees
+        .map((emp) => emp.department?.trim())
+        .filter((dept): dept is string => !!dept)
+    )
+  ).sort();
+
+  // Only list resources whose matching tool the tool profile allows
+  const listedDepartments = isToolEnabled(RESOURCE_TOOLS.department)
+    ? departments
+    : [];
+  const listedEmployees = isToolEnabled(RESOURCE_TOOLS.employee)
+    ? employees
+    : [];
+
+  return [
+    ...listedDepartments.map((dept) => ({
+      uri: resourceUri(`department://${encodeURIComponent(dept)}`, company),
+      name: dept,
+      title: `${dept} Department`,
+      ...(company && { description: company }),
+      mimeType: 'application/json',
+    })),
+    ...listedEmployees.map((emp) => ({
+      uri: resourceUri(`employee://${emp.id}`, company),
+      name: employeeName(emp),
+      title: employeeName(emp),
+      description: [emp.jobTitle, emp.department, company]
+        .filter(Boolean)
+        .join(', '),
+      mimeType: 'application/json',
+    })),
+  ];
+}
+
+/**
+ * resources/templates/list
+ */
+export async function handleListResourceTemplates(): Promise<{
+  resourceTemplates: (typeof BAMBOO_RESOURCE_TEMPLATES)[number][];
+}> {
+  return {
+    resourceTemplates: BAMBOO_RESOURCE_TEMPLATES.filter((template) =>
+      isToolEnabled(RESOURCE_TOOLS[template.name])
+    ),
+  };
+}
+
+/**
+ * resources/read - resolve a resource URI against the BambooHR API
+ */
+export async function handleReadResource(
+  uri: string,
+  requestContext: ToolContext = {}
+): Promise<{ contents: BambooResourceContents[] }> {
+  const ref = parseResourceUri(uri);
+  if (!ref) {
+    throw new MCPError(
+      `Unsupported resource URI: ${uri}. Supported templates: ${BAMBOO_RESOURCE_TEMPLATES.map((t) => t.uriTemplate).join(', ')}`,
+      MCP_ERROR_CODES.INVALID_PARAMS,
+      { uri }
+    );
+  }
+
+  const deniedBecause = getToolDenialReason(RESOURCE_TOOLS[ref.kind]);
+  if (deniedBecause) {
+    throw new MCPError(
+      `Resource not available on this server: ${uri} (${RESOURCE_TOOLS[ref.kind]} is ${deniedBecause})`,
+      MCP_ERROR_CODES.RESOURCE_NOT_FOUND,
+      { uri }
+    );
+  }
+
+  // The URI's company, or the default (INVALID_PARAMS if unknown)
+  let client = bambooClient;
+  if (tenants) {
+    const tenant = tenants.resolve(ref.company);
+    client = tenant.client;
+    if (tenants.size > 1) {
+      requestContext.company = tenant.config.name;
+    }
+  }
+
+  // Collects what the PII policy redacted, reported in the contents' _meta
+  const context: ToolContext = { ...requestContext, redactedFields: [] };
+  const requestOptions = getRequestOptions(context);
+
+  try {
+    switch (ref.kind) {
+      case 'employee': {
+        const employee = redactPii(
+          await client.get(
+            `/employees/${ref.id}?fields=${EMPLOYEE_RESOURCE_FIELDS.join(',')}`,
+            requestOptions
+          ),
+          context
+        );
+        return jsonContents(uri, employee, context.redactedFields);
+      }
+
+      case 'employee_photo': {
+        const photo = await client.getBinary(
+          `/employees/${ref.id}/photo/small`,
+          requestOptions
+        );
+        return {
+          contents: [
+            {
+              uri,
+              mimeType: photo.mimeType,
+              blob: photo.data.toString('base64'),
+            },
+          ],
+        };
+      }
+
+      case 'department': {
+        const directory = redactPii(
+          await client.get(
+            '/employees/directory?fields=id,firstName,lastName,workEmail,jobTitle,department',
+            requestOptions
+          ),
+          context
+        ) as BambooEmployeeDirectory;
+        const members = (directory?.employees || []).filter(
+          (emp) =>
+            emp.department?.trim().toLowerCase() === ref.name.toLowerCase()
+        );
+
+        if (members.length === 0) {
+          throw new MCPError(
+            `Department not found: ${ref.name}`,
+            MCP_ERROR_CODES.RESOURCE_NOT_FOUND,
+            { uri }
+          );
+        }
+
+        return jsonContents(
+          uri,
+          {
+            department: ref.name,
+            employeeCount: members.length,
+            employees: members,
+          },
+          context.redactedFields
+        );
+      }
+
+      case 'custom_report': {
+        const report = redactPii(
+          await client.get(
+            `/custom-reports/${ref.id}?format=json`,
+            requestOptions
+          ),
+          context
+        );
+        return jsonContents(uri, report, context.redactedFields);
+      }
+    }
+  } catch (error) {
+    if (error instanceof MCPError) {
+      throw error;
+    }
+
+    const status = getErrorStatus(error);
+    mcpLogger.resource('warn', 'Resource read failed', {
+      uri,
+      statusCode: status,
+      errorMessage: error instanceof Error ? error.message : String(error),
+    });
+
+    if (status === 404) {
+      throw new MCPError(
+        `Resource not found: ${uri}`,
+        MCP_ERROR_CODES.RESOURCE_NOT_FOUND,
+        { uri }
+      );
+    }
+    throw new MCPError(
+      `Failed to read resource ${uri}: ${error instanceof Error ? error.message : String(error)}`,
+      MCP_ERROR_CODES.INTERNAL_ERROR,
+      { uri, statusCode: status }
+    );
+  }
+}
+
+function jsonContents(
+  uri: string,
+  data: unknown,
+  redactedFields: RedactedFieldInfo[] = []
+): { contents: BambooResourceContents[] } {
+  return {
+    contents: [
+      {
+        uri,
+        mimeType: 'application/json',
+        text: JSON.stringify(data, null, 2),
+        ...(redactedFields.length > 0 && { _meta: { redactedFields } }),
+      },
+    ],
+  };
+}
+
+function employeeName(emp: BambooEmployee): string {
+  return (
+    `${emp.firstName || ''} ${emp.lastName || ''}`.trim() ||
+    emp.displayName ||
+    `Employee ${emp.id}`
+  );
+}
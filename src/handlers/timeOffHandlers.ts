@@ -1,19 +1,45 @@
 /**
  * Time-off and leave management handlers for BambooHR MCP server
- * Handles who's out calendar and time-off request operations
+ * Handles who's out calendar, time-off request, balance and catalog operations
  */
 
 import type { BambooClient } from '../bamboo-client.js';
 import * as formatters from '../formatters.js';
 import { mcpLogger } from '../utils/mcpLogger.js';
-import { handleBambooError } from '../utils/errorHandler.js';
+import { redactPii } from '../privacy/piiPolicy.js';
+import { BambooErrorType, handleBambooError } from '../utils/errorHandler.js';
+import {
+  EMPLOYEE_SEARCH_ENDPOINT,
+  findExactEmployeeMatches,
+  matchesEmployeeQuery,
+  resolveEmployeeQuery,
+} from '../utils/employeeMatching.js';
+import { getBambooClient, getRequestOptions } from '../utils/requestOptions.js';
+import {
+  toTimeOffRequestSummary,
+  toWhosOutEntrySummary,
+} from '../utils/structuredOutput.js';
+import {
+  TIME_OFF_POLICIES_ENDPOINT,
+  TIME_OFF_TYPES_ENDPOINT,
+  getTimeOffCatalog,
+  type TimeOffCatalog,
+} from '../timeoff/timeOffCatalog.js';
 import type {
   HandlerDependencies,
   ToolArgs,
   ToolContext,
   MCPToolResponse,
+  BambooEmployee,
+  BambooEmployeeDirectory,
+  BambooEmployeeTimeOffPolicy,
   BambooWhosOutEntry,
+  BambooTimeOffCalculation,
+  BambooTimeOffPolicy,
   BambooTimeOffRequest,
+  BambooTimeOffType,
+  BambooTimeOffTypesResponse,
+  TimeOffBalanceSummary,
 } from '../types.js';
 
 // Import dependencies (will be passed via DI)
@@ -27,11 +53,109 @@ export function initializeTimeOffHandlers(
   return true;
 }
 
+/**
+ * Time-off types and policies; both responses are cached as metadata
+ */
+async function fetchTimeOffCatalog(
+  client: BambooClient,
+  context: ToolContext
+): Promise<TimeOffCatalog> {
+  const requestOptions = getRequestOptions(context);
+  return getTimeOffCatalog(
+    (await client.get(
+      TIME_OFF_TYPES_ENDPOINT,
+      requestOptions
+    )) as BambooTimeOffTypesResponse,
+    (await client.get(
+      TIME_OFF_POLICIES_ENDPOINT,
+      requestOptions
+    )) as BambooTimeOffPolicy[]
+  );
+}
+
+/**
+ * The catalog for enriching output, or undefined if it cannot be read:
+ * type names are a nicety, not a reason to fail the tool
+ */
+async function tryFetchTimeOffCatalog(
+  client: BambooClient,
+  context: ToolContext
+): Promise<TimeOffCatalog | undefined> {
+  try {
+    return await fetchTimeOffCatalog(client, context);
+  } catch (error) {
+    mcpLogger.timeOff('warn', 'Time-off catalog unavailable', {
+      errorMessage: error instanceof Error ? error.message : String(error),
+    });
+    return undefined;
+  }
+}
+
+/**
+ * Time-off type of each who's out entry, keyed by entry ID. Calendar entries
+ * do not say which type of time off they are; their IDs are request IDs, so
+ * the approved requests in range do. Without them entries go untyped.
+ */
+async function tryFetchEntryTypes(
+  client: BambooClient,
+  context: ToolContext,
+  catalog: TimeOffCatalog,
+  start: string,
+  end: string
+): Promise<Record<string, BambooTimeOffType>> {
+  const entryTypes: Record<string, BambooTimeOffType> = {};
+  let requests: BambooTimeOffRequest[];
+  try {
+    requests = (await client.get(
+      `/time_off/requests?start=${start}&end=${end}&status=approved`,
+      getRequestOptions(context)
+    )) as BambooTimeOffRequest[];
+  } catch (error) {
+    mcpLogger.timeOff('warn', "Time-off types unavailable for who's out", {
+      errorMessage: error instanceof Error ? error.message : String(error),
+    });
+    return entryTypes;
+  }
+  for (const request of Array.isArray(requests) ? requests : []) {
+    const type =
+      request.type && typeof request.type === 'object'
+        ? catalog.type((request.type as { id?: string }).id)
+        : undefined;
+    if (type) {
+      entryTypes[String(request.id)] = type;
+    }
+  }
+  return entryTypes;
+}
+
+function unknownTimeOffType(
+  type: string,
+  catalog: TimeOffCatalog
+): MCPToolResponse {
+  const known = catalog.types.map((entry) => `${entry.name} (${entry.id})`);
+  return {
+    content: [
+      {
+        type: 'text',
+        text: `Unknown time-off type "${type}". ${known.length > 0 ? `Use one of: ${known.join(', ')}.` : 'No time-off types are defined.'} See bamboo_list_time_off_types.`,
+        _meta: {
+          error: true,
+          errorType: BambooErrorType.VALIDATION,
+          type,
+          timestamp: new Date().toISOString(),
+        },
+      },
+    ],
+    isError: true,
+  };
+}
+
 export async function handleWhosOut(
   args: ToolArgs,
-  _context: ToolContext = {}
+  context: ToolContext = {}
 ): Promise<MCPToolResponse> {
   try {
+    const client = getBambooClient(context, bambooClient);
     const today = new Date().toISOString().split('T')[0];
     const start = (args.start_date as string) || today;
     const end = (args.end_date as string) || start;
@@ -39,13 +163,30 @@ export async function handleWhosOut(
     const startDate = start;
     const endDate = end;
 
-    const calendar = await bambooClient.get(
-      `/time_off/whos_out?start=${startDate}&end=${endDate}`
+    const calendar = redactPii(
+      await client.get(
+        `/time_off/whos_out?start=${startDate}&end=${endDate}`,
+        getRequestOptions(context)
+      ),
+      context
     );
 
     const calendarResponse = calendar as { calendar?: BambooWhosOutEntry[] };
     const entries = calendarResponse.calendar || [];
-    const text = formatters.formatWhosOutList(entries, startDate, endDate);
+
+    const catalog = entries.some((entry) => entry.type !== 'holiday')
+      ? await tryFetchTimeOffCatalog(client, context)
+      : undefined;
+    const entryTypes = catalog
+      ? await tryFetchEntryTypes(client, context, catalog, startDate, endDate)
+      : {};
+
+    const text = formatters.formatWhosOutList(
+      entries,
+      startDate,
+      endDate,
+      entryTypes
+    );
 
     return {
       content: [
@@ -59,6 +200,14 @@ export async function handleWhosOut(
           },
         },
       ],
+      structuredContent: {
+        startDate,
+        endDate,
+        count: entries.length,
+        entries: entries.map((entry) =>
+          toWhosOutEntrySummary(entry, entryTypes[String(entry.id)]?.name)
+        ),
+      },
     };
   } catch (error) {
     return handleBambooError(
@@ -75,43 +224,57 @@ export async function handleWhosOut(
 
 export async function handleTimeOffRequests(
   args: ToolArgs,
-  _context: ToolContext = {}
+  context: ToolContext = {}
 ): Promise<MCPToolResponse> {
   try {
+    const client = getBambooClient(context, bambooClient);
     const start_date = args.start_date as string;
     const end_date = args.end_date as string;
     const status = args.status as string;
+    const typeQuery = typeof args.type === 'string' ? args.type : undefined;
 
-    if (
-      !start_date ||
-      !end_date ||
-      typeof start_date !== 'string' ||
-      typeof end_date !== 'string'
-    ) {
-      return {
-        content: [
-          {
-            type: 'text',
-            text: 'Missing required parameters: start_date and end_date (YYYY-MM-DD format). Optional status filter: approved, denied, pending, all.',
-          },
-        ],
-      };
+    // A type filter has to be checked against the catalog, so it is needed
+    // then; otherwise it only adds type details
+    const catalog = typeQuery
+      ? await fetchTimeOffCatalog(client, context)
+      : await tryFetchTimeOffCatalog(client, context);
+    const type = typeQuery ? catalog!.findType(typeQuery) : undefined;
+    if (typeQuery && !type) {
+      return unknownTimeOffType(typeQuery, catalog!);
     }
 
     let endpoint = `/time_off/requests?start=${start_date}&end=${end_date}`;
     if (status) {
       endpoint += `&status=${status}`;
     }
+    if (type) {
+      endpoint += `&type=${encodeURIComponent(type.id)}`;
+    }
 
-    const requests = await bambooClient.get(endpoint);
+    const requests = redactPii(
+      await client.get(endpoint, getRequestOptions(context)),
+      context
+    );
     const requestsArray = (requests as BambooTimeOffRequest[]) || [];
     const text = formatters.formatTimeOffRequests(
       requestsArray,
       start_date,
-      end_date
+      end_date,
+      catalog?.typeIndex(),
+      type?.name
     );
 
-    return { content: [{ type: 'text', text }] };
+    return {
+      content: [{ type: 'text', text }],
+      structuredContent: {
+        startDate: start_date,
+        endDate: end_date,
+        ...(status && { status }),
+        ...(type && { type: type.name, typeId: String(type.id) }),
+        count: requestsArray.length,
+        requests: requestsArray.map(toTimeOffRequestSummary),
+      },
+    };
   } catch (error) {
     return handleBambooError(
       error instanceof Error ? error : new Error(String(error)),
@@ -122,9 +285,282 @@ export async function handleTimeOffRequests(
           start_date: args.start_date,
           end_date: args.end_date,
           status: args.status,
+          type: args.type,
         },
         endpoint: `/time_off/requests?start=${args.start_date}&end=${args.end_date}${args.status ? `&status=${args.status}` : ''}`,
       }
     );
   }
 }
+
+// Ambiguous name lookups list at most this many candidates
+const MAX_LISTED_CANDIDATES = 10;
+
+function employeeNotResolved(
+  query: string,
+  matches: BambooEmployee[]
+): MCPToolResponse {
+  const ambiguous = matches.length > 1;
+  const candidates = matches
+    .slice(0, MAX_LISTED_CANDIDATES)
+    .map(
+      (employee) =>
+        `${employee.firstName || ''} ${employee.lastName || ''}`.trim() +
+        ` (ID: ${employee.id})`
+    );
+  return {
+    content: [
+      {
+        type: 'text',
+        text: ambiguous
+          ? `"${query}" matches ${matches.length} employees: ${candidates.join(', ')}${matches.length > candidates.length ? ', ...' : ''}. Use the employee ID or full name.`
+          : `No employee found matching "${query}". Use bamboo_find_employee to search for the correct employee.`,
+        _meta: {
+          error: true,
+          errorType: ambiguous
+            ? BambooErrorType.VALIDATION
+            : BambooErrorType.NOT_FOUND,
+          query,
+          ...(ambiguous && {
+            candidates: matches
+              .slice(0, MAX_LISTED_CANDIDATES)
+              .map((employee) => String(employee.id)),
+          }),
+          timestamp: new Date().toISOString(),
+        },
+      },
+    ],
+    isError: true,
+  };
+}
+
+// BambooHR returns amounts as decimal strings such as "20.0"
+function parseAmount(value: unknown): number {
+  const amount = Number.parseFloat(String(value ?? ''));
+  return Number.isFinite(amount) ? amount : 0;
+}
+
+export async function handleTimeOffBalance(
+  args: ToolArgs,
+  context: ToolContext = {}
+): Promise<MCPToolResponse> {
+  try {
+    const client = getBambooClient(context, bambooClient);
+    const requestOptions = getRequestOptions(context);
+    const query = (args.employee as string).trim();
+    const today = new Date().toISOString().split('T')[0];
+    const date = (args.date as string) || today;
+
+    if (date < today) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `date must be today (${today}) or later. Balances can only be projected forward.`,
+            _meta: {
+              error: true,
+              errorType: BambooErrorType.VALIDATION,
+              date,
+              timestamp: new Date().toISOString(),
+            },
+          },
+        ],
+        isError: true,
+      };
+    }
+
+    // Same matching as bamboo_find_employee, but only one employee will do
+    const directory = redactPii(
+      await client.get(EMPLOYEE_SEARCH_ENDPOINT, requestOptions),
+      context
+    ) as BambooEmployeeDirectory;
+    const matches = (directory.employees || []).filter((employee) =>
+      matchesEmployeeQuery(employee, query)
+    );
+    const employee = resolveEmployeeQuery(matches, query);
+    if (!employee) {
+      // Employees sharing the name asked for are the candidates that matter
+      const exact = findExactEmployeeMatches(matches, query);
+      return employeeNotResolved(query, exact.length > 1 ? exact : matches);
+    }
+
+    const employeeId = String(employee.id);
+    const name =
+      `${employee.firstName || ''} ${employee.lastName || ''}`.trim() ||
+      `Employee ${employeeId}`;
+    const endpoint = `/employees/${encodeURIComponent(employeeId)}/time_off`;
+
+    const current = (redactPii(
+      await client.get(`${endpoint}/calculator?end=${today}`, requestOptions),
+      context
+    ) || []) as BambooTimeOffCalculation[];
+    const projected =
+      date === today
+        ? current
+        : ((redactPii(
+            await client.get(
+              `${endpoint}/calculator?end=${date}`,
+              requestOptions
+            ),
+            context
+          ) || []) as BambooTimeOffCalculation[]);
+    const policies = (redactPii(
+      await client.get(`${endpoint}/policies`, requestOptions),
+      context
+    ) || []) as BambooEmployeeTimeOffPolicy[];
+
+    const projectedByType = new Map(
+      projected.map((calculation) => [
+        String(calculation.timeOffType),
+        calculation,
+      ])
+    );
+    const policyByType = new Map(
+      policies.map((policy) => [String(policy.timeOffTypeId), policy])
+    );
+
+    const balances: TimeOffBalanceSummary[] = current
+      .map((calculation) => {
+        const typeId = String(calculation.timeOffType);
+        const policy = policyByType.get(typeId);
+        const currentBalance = parseAmount(calculation.balance);
+        const projectedBalance = parseAmount(
+          projectedByType.get(typeId)?.balance ?? calculation.balance
+        );
+        return {
+          typeId,
+          name: calculation.name || `Type ${typeId}`,
+          units: calculation.units || 'hours',
+          ...(calculation.policyType && {
+            policyType: calculation.policyType,
+          }),
+          ...(policy && { policyId: String(policy.timeOffPolicyId) }),
+          ...(policy?.accrualStartDate && {
+            accrualStartDate: policy.accrualStartDate,
+          }),
+          current: currentBalance,
+          projected: projectedBalance,
+          change: Number((projectedBalance - currentBalance).toFixed(4)),
+          ...(calculation.usedYearToDate !== undefined && {
+            usedYearToDate: parseAmount(calculation.usedYearToDate),
+          }),
+        };
+      })
+      .sort((a, b) => a.name.localeCompare(b.name));
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: formatters.formatTimeOffBalances(
+            name,
+            employeeId,
+            today,
+            date,
+            balances
+          ),
+          _meta: {
+            employeeId,
+            asOf: today,
+            date,
+            balanceCount: balances.length,
+            timestamp: new Date().toISOString(),
+          },
+        },
+      ],
+      structuredContent: {
+        employeeId,
+        name,
+        asOf: today,
+        date,
+        balances,
+      },
+    };
+  } catch (error) {
+    return handleBambooError(
+      error instanceof Error ? error : new Error(String(error)),
+      'time-off balance estimation',
+      'bamboo_time_off_balance',
+      {
+        parameters: { employee: args.employee, date: args.date },
+        endpoint: '/employees/{id}/time_off/calculator',
+      }
+    );
+  }
+}
+
+export async function handleListTimeOffTypes(
+  _args: ToolArgs,
+  context: ToolContext = {}
+): Promise<MCPToolResponse> {
+  try {
+    const client = getBambooClient(context, bambooClient);
+    const types = (await fetchTimeOffCatalog(client, context)).typeSummaries();
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: formatters.formatTimeOffTypes(types),
+          _meta: {
+            typeCount: types.length,
+            timestamp: new Date().toISOString(),
+          },
+        },
+      ],
+      structuredContent: { count: types.length, types },
+    };
+  } catch (error) {
+    return handleBambooError(
+      error instanceof Error ? error : new Error(String(error)),
+      'time-off type listing',
+      'bamboo_list_time_off_types',
+      { endpoint: TIME_OFF_TYPES_ENDPOINT }
+    );
+  }
+}
+
+export async function handleListTimeOffPolicies(
+  args: ToolArgs,
+  context: ToolContext = {}
+): Promise<MCPToolResponse> {
+  try {
+    const client = getBambooClient(context, bambooClient);
+    const typeQuery = typeof args.type === 'string' ? args.type : undefined;
+    const catalog = await fetchTimeOffCatalog(client, context);
+    const type = typeQuery ? catalog.findType(typeQuery) : undefined;
+    if (typeQuery && !type) {
+      return unknownTimeOffType(typeQuery, catalog);
+    }
+
+    const policies = catalog.policySummaries(type && String(type.id));
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: formatters.formatTimeOffPolicies(policies, type?.name),
+          _meta: {
+            policyCount: policies.length,
+            timestamp: new Date().toISOString(),
+          },
+        },
+      ],
+      structuredContent: {
+        ...(type && { type: type.name, typeId: String(type.id) }),
+        count: policies.length,
+        policies,
+      },
+    };
+  } catch (error) {
+    return handleBambooError(
+      error instanceof Error ? error : new Error(String(error)),
+      'time-off policy listing',
+      'bamboo_list_time_off_policies',
+      {
+        parameters: { type: args.type },
+        endpoint: TIME_OFF_POLICIES_ENDPOINT,
+      }
+    );
+  }
+}
@@ -6,10 +6,12 @@
 import type { BambooClient } from '../bamboo-client.js';
 import * as formatters from '../formatters.js';
 import { mcpLogger } from '../utils/mcpLogger.js';
+import { redactPii } from '../privacy/piiPolicy.js';
 import { handleBambooError } from '../utils/errorHandler.js';
+import { getProgressReporter } from '../utils/progressTracker.js';
+import { getBambooClient, getRequestOptions } from '../utils/requestOptions.js';
 import type {
   HandlerDependencies,
-  Logger,
   ToolArgs,
   ToolContext,
   MCPToolResponse,
@@ -17,13 +19,11 @@ import type {
 
 // Import dependencies (will be passed via DI)
 let bambooClient: BambooClient;
-let logger: Logger;
 
 export function initializeWorkforceAnalyticsHandlers(
   dependencies: HandlerDependencies
 ): boolean {
   bambooClient = dependencies.bambooClient as BambooClient;
-  logger = dependencies.logger;
   mcpLogger.analytics(
     'info',
     'Workforce analytics handlers initialized successfully'
@@ -36,80 +36,12 @@ export async function handleWorkforceAnalytics(
   context: ToolContext = {}
 ): Promise<MCPToolResponse> {
   try {
+    const client = getBambooClient(context, bambooClient);
     const dataset_id = args.dataset_id as string;
-    const fields = args.fields;
-    const filters = args.filters;
+    const fields = args.fields as string[];
+    const filters = args.filters as Array<Record<string, unknown>> | undefined;
     const group_by = args.group_by as string;
-    // Support both direct progressToken and _meta.progressToken
-    const progressToken = context.progressToken || context._meta?.progressToken;
-
-    // Create progress tracker
-    const sendProgress = async (
-      progress: number,
-      total: number,
-      message: string
-    ) => {
-      if (progressToken) {
-        logger.debug(`Progress ${progress}/${total}: ${message}`);
-      }
-      // Also call the mock function if present and enabled (for testing)
-      if (context.sendProgress && context.isEnabled) {
-        await context.sendProgress(progress, total, message);
-      }
-    };
-
-    await sendProgress(10, 100, 'Validating request parameters');
-
-    // Enhanced input validation
-    const fieldsArray = Array.isArray(fields) ? fields : [];
-    if (!dataset_id || !fields || fieldsArray.length === 0) {
-      return {
-        content: [
-          {
-            type: 'text',
-            text: `Discovery required first. To use workforce analytics:
-
-1. Run \`bamboo_discover_datasets\` to see available datasets
-2. Run \`bamboo_discover_fields\` with dataset ID to see available fields
-3. Use this tool with dataset_id and fields from discovery
-
-Example: {"dataset_id": "employee", "fields": ["department", "status"]}`,
-            _meta: {
-              error: true,
-              validationFailed: true,
-              requiredSteps: [
-                'bamboo_discover_datasets',
-                'bamboo_discover_fields',
-              ],
-              timestamp: new Date().toISOString(),
-            },
-          },
-        ],
-      };
-    }
-
-    // Validate filters if provided
-    const filtersArray = Array.isArray(filters) ? filters : [];
-    if (filters && !Array.isArray(filters)) {
-      return {
-        content: [
-          {
-            type: 'text',
-            text: `ERROR: **Invalid Filters Format**
-
-Filters must be an array of objects with 'field', 'operator', and 'value' properties.
-
-**Example:**
-\`{"filters": [{"field": "status", "operator": "equal", "value": "Active"}]}\``,
-            _meta: {
-              error: true,
-              validationError: 'invalid_filters_format',
-              timestamp: new Date().toISOString(),
-            },
-          },
-        ],
-      };
-    }
+    const sendProgress = getProgressReporter(context);
 
     await sendProgress(25, 100, 'Building analytics request');
 
@@ -118,82 +50,14 @@ Filters must be an array of objects with 'field', 'operator', and 'value' proper
       fields: string[];
       groupBy?: string[];
       filters?: unknown[];
-    } = {
-      fields: fieldsArray.filter(
-        (f: unknown) => typeof f === 'string' && f.trim().length > 0
-      ),
-    };
+    } = { fields };
 
-    if (requestPayload.fields.length === 0) {
-      return {
-        content: [
-          {
-            type: 'text',
-            text: `ERROR: **Invalid Fields**
-
-At least one valid field name is required.
-
-TIP: Use \`bamboo_discover_fields\` to see available field names for the dataset.`,
-            _meta: {
-              error: true,
-              validationError: 'no_valid_fields',
-              timestamp: new Date().toISOString(),
-            },
-          },
-        ],
-      };
-    }
-
-    if (
-      group_by &&
-      typeof group_by === 'string' &&
-      group_by.trim().length > 0
-    ) {
+    if (group_by && group_by.trim().length > 0) {
       requestPayload.groupBy = [group_by.trim()];
     }
 
-    if (filters && filtersArray.length > 0) {
-      // Validate filter structure
-      const validFilters = filtersArray.filter(
-        (filter: unknown): filter is Record<string, unknown> => {
-          if (!filter || typeof filter !== 'object' || filter === null) {
-            return false;
-          }
-          const f = filter as Record<string, unknown>;
-          return (
-            typeof f.field === 'string' &&
-            typeof f.operator === 'string' &&
-            f.value !== undefined
-          );
-        }
-      );
-
-      if (validFilters.length !== filtersArray.length) {
-        return {
-          content: [
-            {
-              type: 'text',
-              text: `ERROR: **Invalid Filter Structure**
-
-Some filters are malformed. Each filter must have:
-- \`field\`: string (field name)
-- \`operator\`: string (e.g., "equal", "not_equal", "greater_than")
-- \`value\`: any (value to filter by)
-
-**Valid filters**: ${validFilters.length}/${filtersArray.length}`,
-              _meta: {
-                error: true,
-                validationError: 'malformed_filters',
-                validFilterCount: validFilters.length,
-                totalFilterCount: filtersArray.length,
-                timestamp: new Date().toISOString(),
-              },
-            },
-          ],
-        };
-      }
-
-      requestPayload.filters = validFilters;
+    if (filters && filters.length > 0) {
+      requestPayload.filters = filters;
     }
 
     await sendProgress(50, 100, 'Executing analytics query');
@@ -201,7 +65,14 @@ Some filters are malformed. Each filter must have:
     // Make the datasets API call
     let data;
     try {
-      data = await bambooClient.post(`/datasets/${dataset_id}`, requestPayload);
+      data = redactPii(
+        await client.post(
+          `/datasets/${dataset_id}`,
+          requestPayload,
+          getRequestOptions(context)
+        ),
+        context
+      );
     } catch (networkError) {
       return handleBambooError(
         networkError instanceof Error
@@ -234,6 +105,7 @@ Expected an object response but received: ${typeof data}`,
             },
           },
         ],
+        isError: true,
       };
     }
 
@@ -266,6 +138,7 @@ Could not find data array in response. Available properties: ${Object.keys(
               },
             },
           ],
+          isError: true,
         };
       }
     }
@@ -307,6 +180,14 @@ TIP: **Possible reasons:**
             },
           },
         ],
+        structuredContent: {
+          datasetId: dataset_id,
+          fields: requestPayload.fields,
+          ...(requestPayload.groupBy && { groupBy: requestPayload.groupBy }),
+          filterCount: requestPayload.filters?.length || 0,
+          recordCount: 0,
+          records: [],
+        },
       };
     }
 
@@ -340,6 +221,14 @@ TIP: **Possible reasons:**
           },
         },
       ],
+      structuredContent: {
+        datasetId: dataset_id,
+        fields: requestPayload.fields,
+        ...(requestPayload.groupBy && { groupBy: requestPayload.groupBy }),
+        filterCount: requestPayload.filters?.length || 0,
+        recordCount: records.length,
+        records,
+      },
       _links: {
         related: [
           {
@@ -0,0 +1,320 @@
+/**
+ * Org graph
+ *
+ * Reporting lines built from the employee directory's supervisor IDs. A graph
+ * is built once per directory response and cached against it, so it is only
+ * rebuilt when BambooClient fetches a fresh directory.
+ *
+ * Directory data is not guaranteed to be a tree: a supervisor may have left
+ * (an orphan) or two employees may report to each other (a cycle). Both are
+ * detected when the graph is built, and every walk stops at a repeat visit.
+ */
+
+import type {
+  BambooEmployee,
+  BambooEmployeeDirectory,
+  OrgChartEntry,
+  OrgChartIssues,
+} from '../types.js';
+
+/** Directory request with the fields the graph needs */
+export const ORG_DIRECTORY_ENDPOINT =
+  '/employees/directory?fields=displayName,firstName,lastName,jobTitle,department,supervisorEId,supervisorId';
+
+/**
+ * One employee in the graph
+ */
+export interface OrgPerson {
+  id: string;
+  name: string;
+  jobTitle?: string;
+  department?: string;
+  /** Supervisor's employee ID, which may be missing from the directory */
+  managerId?: string;
+}
+
+/**
+ * Where a manager chain stops short of the top of the company
+ */
+export type ManagerChainBreak = 'orphan' | 'cycle';
+
+function optionalString(value: unknown): string | undefined {
+  if (value === null || value === undefined || value === '') {
+    return undefined;
+  }
+  return String(value);
+}
+
+function toOrgPerson(employee: BambooEmployee): OrgPerson {
+  const id = String(employee.id);
+  const name =
+    optionalString(employee.displayName) ||
+    `${employee.firstName || ''} ${employee.lastName || ''}`.trim() ||
+    `Employee ${id}`;
+  return {
+    id,
+    name,
+    jobTitle: optionalString(employee.jobTitle),
+    department: optionalString(employee.department),
+    // supervisorEId is the supervisor's employee ID; older accounts only
+    // expose supervisorId
+    managerId:
+      optionalString(employee.supervisorEId) ??
+      optionalString(employee.supervisorId),
+  };
+}
+
+/**
+ * Reporting lines of one company
+ */
+export class OrgGraph {
+  private readonly people = new Map<string, OrgPerson>();
+  private readonly directReports = new Map<string, string[]>();
+  private readonly totalReports = new Map<string, number>();
+  /** Employees whose manager is not in the directory */
+  readonly orphans: string[] = [];
+  /** Reporting loops, each starting from the member first reached */
+  readonly cycles: string[][] = [];
+
+  constructor(employees: readonly BambooEmployee[]) {
+    for (const employee of employees) {
+      if (employee?.id !== undefined && employee.id !== null) {
+        const person = toOrgPerson(employee);
+        this.people.set(person.id, person);
+      }
+    }
+
+    for (const person of this.people.values()) {
+      if (!person.managerId) {
+        continue;
+      }
+      if (this.people.has(person.managerId)) {
+        const reports = this.directReports.get(person.managerId) ?? [];
+        reports.push(person.id);
+        this.directReports.set(person.managerId, reports);
+      } else {
+        this.orphans.push(person.id);
+      }
+    }
+    for (const reports of this.directReports.values()) {
+      reports.sort((a, b) => this.nameOf(a).localeCompare(this.nameOf(b)));
+    }
+
+    this.findCycles();
+    this.countTotalReports();
+  }
+
+  get size(): number {
+    return this.people.size;
+  }
+
+  get(id: string): OrgPerson | undefined {
+    return this.people.get(id);
+  }
+
+  /**
+   * Employees in a department (case-insensitive exact match)
+   */
+  departmentMembers(department: string): Set<string> {
+    const wanted = department.trim().toLowerCase();
+    const members = new Set<string>();
+    for (const person of this.people.values()) {
+      if (person.department?.trim().toLowerCase() === wanted) {
+        members.add(person.id);
+      }
+    }
+    return members;
+  }
+
+  /**
+   * The employee followed by each manager above them, up to the top of the
+   * company or the point where the chain breaks
+   */
+  managerChain(id: string): {
+    chain: OrgPerson[];
+    brokenBy?: ManagerChainBreak;
+  } {
+    const chain: OrgPerson[] = [];
+    const seen = new Set<string>();
+    let current = this.people.get(id);
+    while (current) {
+      chain.push(current);
+      seen.add(current.id);
+      const managerId = current.managerId;
+      if (!managerId) {
+        return { chain };
+      }
+      if (seen.has(managerId)) {
+        return { chain, brokenBy: 'cycle' };
+      }
+      current = this.people.get(managerId);
+    }
+    return { chain, brokenBy: chain.length > 0 ? 'orphan' : undefined };
+  }
+
+  /**
+   * The employee and everyone below them, depth first
+   * @param maxDepth Levels below the employee to include (1 = direct reports)
+   */
+  reportsTree(id: string, maxDepth?: number): OrgChartEntry[] {
+    return this.people.has(id) ? this.walk([id], undefined, maxDepth) : [];
+  }
+
+  /**
+   * Org chart of the whole company, or of `members` only. Each tree starts at
+   * someone whose manager is outside the chart (or who has none), plus one
+   * member of any reporting loop that lies entirely inside it.
+   */
+  chart(members?: ReadonlySet<string>, maxDepth?: number): OrgChartEntry[] {
+    const includes = (id: string) => !members || members.has(id);
+    const roots = Array.from(this.people.values())
+      .filter(
+        (person) =>
+          includes(person.id) &&
+          !(
+            person.managerId &&
+            includes(person.managerId) &&
+            this.people.has(person.managerId)
+          )
+      )
+      .map((person) => person.id);
+    for (const cycle of this.cycles) {
+      if (cycle.every(includes)) {
+        roots.push(cycle[0]);
+      }
+    }
+    return this.walk(roots, members, maxDepth);
+  }
+
+  /**
+   * Org chart entry for one employee, with their span of control
+   */
+  entry(id: string, depth = 0): OrgChartEntry | undefined {
+    const person = this.people.get(id);
+    return person && this.toEntry(person, depth);
+  }
+
+  /**
+   * Orphans and cycles involving any of `ids`
+   */
+  issuesAmong(ids: Iterable<string>): OrgChartIssues {
+    const included = new Set(ids);
+    return {
+      orphans: this.orphans
+        .filter((id) => included.has(id))
+        .map((id) => {
+          const person = this.people.get(id)!;
+          return { id, name: person.name, managerId: person.managerId! };
+        }),
+      cycles: this.cycles.filter((cycle) =>
+        cycle.some((id) => included.has(id))
+      ),
+    };
+  }
+
+  private nameOf(id: string): string {
+    return this.people.get(id)?.name ?? id;
+  }
+
+  private toEntry(person: OrgPerson, depth: number): OrgChartEntry {
+    return {
+      id: person.id,
+      name: person.name,
+      ...(person.jobTitle && { jobTitle: person.jobTitle }),
+      ...(person.department && { department: person.department }),
+      ...(person.managerId && { managerId: person.managerId }),
+      depth,
+      directReports: this.directReports.get(person.id)?.length ?? 0,
+      totalReports: this.totalReports.get(person.id) ?? 0,
+    };
+  }
+
+  // Iterative pre-order walk; a visited set keeps loops from repeating
+  private walk(
+    roots: readonly string[],
+    members: ReadonlySet<string> | undefined,
+    maxDepth: number | undefined
+  ): OrgChartEntry[] {
+    const entries: OrgChartEntry[] = [];
+    const visited = new Set<string>();
+    const stack: Array<[string, number]> = roots
+      .map((id): [string, number] => [id, 0])
+      .reverse();
+
+    while (stack.length > 0) {
+      const [id, depth] = stack.pop()!;
+      const person = this.people.get(id);
+      if (!person || visited.has(id)) {
+        continue;
+      }
+      visited.add(id);
+      entries.push(this.toEntry(person, depth));
+
+      if (maxDepth !== undefined && depth >= maxDepth) {
+        continue;
+      }
+      const reports = (this.directReports.get(id) ?? []).filter(
+        (reportId) => !members || members.has(reportId)
+      );
+      for (let i = reports.length - 1; i >= 0; i--) {
+        stack.push([reports[i], depth + 1]);
+      }
+    }
+    return entries;
+  }
+
+  // Follow each employee's chain upwards; meeting an employee already on
+  // the current walk closes a loop
+  private findCycles(): void {
+    const state = new Map<string, 'walking' | 'done'>();
+    for (const id of this.people.keys()) {
+      const path: string[] = [];
+      let current: string | undefined = id;
+      while (current && this.people.has(current) && !state.has(current)) {
+        state.set(current, 'walking');
+        path.push(current);
+        current = this.people.get(current)!.managerId;
+      }
+      if (current && state.get(current) === 'walking') {
+        this.cycles.push(path.slice(path.indexOf(current)));
+      }
+      for (const member of path) {
+        state.set(member, 'done');
+      }
+    }
+  }
+
+  // Everyone counts once towards each distinct manager above them
+  private countTotalReports(): void {
+    for (const person of this.people.values()) {
+      const seen = new Set([person.id]);
+      let managerId = person.managerId;
+      while (managerId && this.people.has(managerId) && !seen.has(managerId)) {
+        seen.add(managerId);
+        this.totalReports.set(
+          managerId,
+          (this.totalReports.get(managerId) ?? 0) + 1
+        );
+        managerId = this.people.get(managerId)!.managerId;
+      }
+    }
+  }
+}
+
+// Keyed by the directory response BambooClient returns; a cache hit hands
+// back the same object, so the graph lives as long as the cached directory
+const graphs = new WeakMap<object, OrgGraph>();
+
+/**
+ * Org graph for a directory response, built on first use
+ */
+export function getOrgGraph(directory: BambooEmployeeDirectory): OrgGraph {
+  let graph = graphs.get(directory);
+  if (!graph) {
+    graph = new OrgGraph(
+      Array.isArray(directory?.employees) ? directory.employees : []
+    );
+    graphs.set(directory, graph);
+  }
+  return graph;
+}
@@ -0,0 +1,260 @@
+/**
+ * Field-level PII policy
+ * Declarative rules that mask, hash or drop BambooHR fields as soon as a
+ * handler receives API data, so neither formatters nor structuredContent
+ * ever see the raw values. Each tool call records what was redacted.
+ */
+
+import { createHash, createHmac } from 'node:crypto';
+import type { RedactedFieldInfo, ToolContext } from '../types.js';
+
+/**
+ * mask: keep the last 4 characters; hash: stable pseudonym, so values can
+ * still be grouped or compared; drop: remove the field entirely
+ */
+export type PiiAction = 'mask' | 'hash' | 'drop';
+
+export const PII_ACTIONS: readonly PiiAction[] = ['mask', 'hash', 'drop'];
+
+/**
+ * Match a field by exact name or by a regular expression; both are
+ * case-insensitive and apply at any depth
+ */
+export interface PiiFieldRule {
+  field?: string;
+  pattern?: string;
+  action: PiiAction;
+}
+
+export interface PiiPolicy {
+  rules: PiiFieldRule[];
+  /** HMAC key for `hash`; without it hashes of short values are guessable */
+  hashSalt?: string;
+}
+
+/**
+ * Raised for rules that are not exactly one of `field` / `pattern` plus a
+ * known action
+ */
+export class PiiPolicyError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PiiPolicyError';
+  }
+}
+
+/**
+ * Default policy: identifiers and pay are dropped, contact details that
+ * are sometimes needed to tell people apart are masked or hashed.
+ * Work email, names, titles and departments pass through.
+ */
+export const DEFAULT_PII_RULES: PiiFieldRule[] = [
+  {
+    pattern:
+      '^(ssn|sin|nin)$|social.?security|national.?id|tax.?(id|file)|passport',
+    action: 'drop',
+  },
+  { pattern: 'salary|^pay.?rate$|compensation|bonus', action: 'drop' },
+  { pattern: 'birth|^dob$', action: 'drop' },
+  { pattern: 'phone|mobile', action: 'mask' },
+  { pattern: '^(home|personal).?email$', action: 'hash' },
+  { pattern: '^(home.?)?address\\d?$|^street', action: 'mask' },
+];
+
+interface CompiledRule {
+  matches: (key: string) => boolean;
+  action: PiiAction;
+}
+
+export interface CompiledPiiPolicy {
+  rules: CompiledRule[];
+  hashSalt?: string;
+}
+
+/**
+ * Validate a policy and compile its patterns
+ */
+export function compilePiiPolicy(policy: PiiPolicy): CompiledPiiPolicy {
+  const rules = policy.rules.map((rule, index): CompiledRule => {
+    if (!PII_ACTIONS.includes(rule.action)) {
+      throw new PiiPolicyError(
+        `rule ${index}: action must be one of ${PII_ACTIONS.join(', ')}`
+      );
+    }
+    if ((rule.field === undefined) === (rule.pattern === undefined)) {
+      throw new PiiPolicyError(
+        `rule ${index}: set exactly one of "field" and "pattern"`
+      );
+    }
+    if (rule.field !== undefined) {
+      const field = rule.field.toLowerCase();
+      return {
+        matches: (key) => key.toLowerCase() === field,
+        action: rule.action,
+      };
+    }
+    let pattern: RegExp;
+    try {
+      pattern = new RegExp(rule.pattern!, 'i');
+    } catch (error) {
+      throw new PiiPolicyError(
+        `rule ${index}: invalid pattern: ${error instanceof Error ? error.message : error}`
+      );
+    }
+    return { matches: (key) => pattern.test(key), action: rule.action };
+  });
+  return { rules, ...(policy.hashSalt && { hashSalt: policy.hashSalt }) };
+}
+
+function maskValue(value: string): string {
+  return value.length <= 4
+    ? '****'
+    : `${'*'.repeat(value.length - 4)}${value.slice(-4)}`;
+}
+
+function hashValue(value: string, salt?: string): string {
+  const digest = salt
+    ? createHmac('sha256', salt).update(value).digest('hex')
+    : createHash('sha256').update(value).digest('hex');
+  return `sha256:${digest.slice(0, 16)}`;
+}
+
+function transformLeaves(
+  value: unknown,
+  transform: (text: string) => string
+): unknown {
+  if (value === null || value === undefined || value === '') {
+    return value;
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => transformLeaves(item, transform));
+  }
+  if (typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [
+        key,
+        transformLeaves(item, transform),
+      ])
+    );
+  }
+  return transform(String(value));
+}
+
+/**
+ * BambooHR custom reports key rows by field ID and describe the fields in a
+ * sibling `fields: [{ id, name }]` list; rules must match the names too
+ */
+function readFieldAliases(
+  node: Record<string, unknown>
+): Map<string, string> | undefined {
+  if (!Array.isArray(node.fields)) {
+    return undefined;
+  }
+  const aliases = new Map<string, string>();
+  for (const field of node.fields) {
+    if (field && typeof field === 'object') {
+      const { id, name } = field as Record<string, unknown>;
+      if ((typeof id === 'string' || typeof id === 'number') && name) {
+        aliases.set(String(id), String(name));
+      }
+    }
+  }
+  return aliases.size > 0 ? aliases : undefined;
+}
+
+/**
+ * Apply a policy to a deep copy of `data`. Returns the redacted copy and,
+ * per field name and action, how many values were changed.
+ */
+export function applyPiiPolicy<T>(
+  data: T,
+  policy: CompiledPiiPolicy
+): { data: T; redacted: RedactedFieldInfo[] } {
+  if (policy.rules.length === 0 || data === null || typeof data !== 'object') {
+    return { data, redacted: [] };
+  }
+
+  const counts = new Map<string, RedactedFieldInfo>();
+  const record = (field: string, action: PiiAction) => {
+    const id = `${field}\u0000${action}`;
+    const entry = counts.get(id) ?? { field, action, count: 0 };
+    entry.count++;
+    counts.set(id, entry);
+  };
+
+  const visit = (node: unknown, aliases?: Map<string, string>): void => {
+    if (Array.isArray(node)) {
+      node.forEach((item) => visit(item, aliases));
+      return;
+    }
+    if (!node || typeof node !== 'object') {
+      return;
+    }
+    const object = node as Record<string, unknown>;
+    const childAliases = readFieldAliases(object) ?? aliases;
+
+    for (const [key, value] of Object.entries(object)) {
+      // Report the key itself unless only its alias (a report field name) matched
+      const alias = aliases?.get(key);
+      let field = key;
+      let rule = policy.rules.find((candidate) => candidate.matches(key));
+      if (!rule && alias) {
+        field = alias;
+        rule = policy.rules.find((candidate) => candidate.matches(alias));
+      }
+      if (!rule) {
+        visit(value, key === 'fields' ? undefined : childAliases);
+        continue;
+      }
+      if (value === null || value === undefined || value === '') {
+        continue;
+      }
+      if (rule.action === 'drop') {
+        delete object[key];
+      } else {
+        object[key] = transformLeaves(value, (text) =>
+          rule.action === 'mask'
+            ? maskValue(text)
+            : hashValue(text, policy.hashSalt)
+        );
+      }
+      record(field, rule.action);
+    }
+  };
+
+  const copy = JSON.parse(JSON.stringify(data)) as T;
+  visit(copy);
+  return { data: copy, redacted: Array.from(counts.values()) };
+}
+
+let activePolicy: CompiledPiiPolicy = compilePiiPolicy({
+  rules: DEFAULT_PII_RULES,
+});
+
+/**
+ * Replace the policy used by redactPii (startup and config reload)
+ */
+export function configurePiiPolicy(policy: PiiPolicy): void {
+  activePolicy = compilePiiPolicy(policy);
+}
+
+/**
+ * Apply the active policy to API data before handlers format it, adding
+ * what was redacted to `context.redactedFields` for the response `_meta`
+ */
+export function redactPii<T>(data: T, context: ToolContext = {}): T {
+  const result = applyPiiPolicy(data, activePolicy);
+  if (context.redactedFields) {
+    for (const entry of result.redacted) {
+      const existing = context.redactedFields.find(
+        (item) => item.field === entry.field && item.action === entry.action
+      );
+      if (existing) {
+        existing.count += entry.count;
+      } else {
+        context.redactedFields.push(entry);
+      }
+    }
+  }
+  return result.data;
+}
@@ -0,0 +1,110 @@
+/**
+ * Employee field snapshots
+ *
+ * bamboo_employee_changes can diff selected fields of changed employees
+ * against the values it saw last time. Those values live here: in memory
+ * for the life of the process, or also in a JSON file so the next run can
+ * still compare. Values are stored after the PII policy has been applied,
+ * so the file never holds more than a tool result would show.
+ */
+
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+
+/**
+ * Field values of one employee as last seen
+ */
+export interface EmployeeSnapshot {
+  name: string;
+  /** When the most recent values were captured (ISO 8601) */
+  capturedAt: string;
+  fields: Record<string, string>;
+}
+
+interface SnapshotFileContents {
+  version: 1;
+  /** Snapshots by company (the client's base URL), then employee ID */
+  companies: Record<string, Record<string, EmployeeSnapshot>>;
+}
+
+/**
+ * Snapshots of every configured company, optionally persisted to a file
+ */
+export class EmployeeSnapshotStore {
+  private companies: SnapshotFileContents['companies'] = {};
+
+  /**
+   * @param filePath Persist snapshots here; omit to keep them in memory only
+   */
+  constructor(private readonly filePath?: string) {
+    if (filePath) {
+      this.filePath = path.resolve(filePath);
+      this.load();
+    }
+  }
+
+  get(company: string, employeeId: string): EmployeeSnapshot | undefined {
+    return this.companies[company]?.[employeeId];
+  }
+
+  /**
+   * Record new values; fields not in `fields` keep their earlier values
+   */
+  update(
+    company: string,
+    employeeId: string,
+    name: string,
+    fields: Record<string, string>
+  ): void {
+    const snapshots = (this.companies[company] ??= {});
+    snapshots[employeeId] = {
+      name,
+      capturedAt: new Date().toISOString(),
+      fields: { ...snapshots[employeeId]?.fields, ...fields },
+    };
+  }
+
+  delete(company: string, employeeId: string): void {
+    delete this.companies[company]?.[employeeId];
+  }
+
+  /**
+   * Write to the file, if there is one, via write-to-temp + rename. The file
+   * holds HR data, so it is created with owner-only permissions.
+   */
+  save(): void {
+    if (!this.filePath) {
+      return;
+    }
+    const contents: SnapshotFileContents = {
+      version: 1,
+      companies: this.companies,
+    };
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    const tempPath = `${this.filePath}.${process.pid}.tmp`;
+    fs.writeFileSync(tempPath, JSON.stringify(contents), { mode: 0o600 });
+    fs.renameSync(tempPath, this.filePath);
+  }
+
+  private load(): void {
+    let raw: string;
+    try {
+      raw = fs.readFileSync(this.filePath!, 'utf8');
+    } catch {
+      return; // No snapshots yet
+    }
+
+    try {
+      const contents = JSON.parse(raw) as Partial<SnapshotFileContents>;
+      if (
+        contents.version === 1 &&
+        contents.companies &&
+        typeof contents.companies === 'object'
+      ) {
+        this.companies = contents.companies;
+      }
+    } catch {
+      // Corrupt file - start empty, it is overwritten on the next save
+    }
+  }
+}
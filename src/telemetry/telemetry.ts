@@ -0,0 +1,367 @@
+/**
+ * OpenTelemetry instrumentation
+ *
+ * Spans and metrics go through the OpenTelemetry API, so they cost next to
+ * nothing until an OpenTelemetry SDK is registered (for example with
+ * `node --import @opentelemetry/auto-instrumentations-node/register`).
+ * Tests pass their own providers to configureTelemetry instead.
+ *
+ * Each tool call is one span. BambooClient adds a child span per logical
+ * request, with cache and rate-limit events, and a CLIENT span per HTTP
+ * attempt, so retries show up as siblings under the request.
+ */
+
+import {
+  ProxyTracerProvider,
+  SpanKind,
+  SpanStatusCode,
+  context as otelContext,
+  createNoopMeter,
+  metrics,
+  trace,
+  type Attributes,
+  type Context,
+  type Counter,
+  type Histogram,
+  type Meter,
+  type MeterProvider,
+  type Span,
+  type Tracer,
+  type TracerProvider,
+} from '@opentelemetry/api';
+import type { ToolCallOutcome } from '../types.js';
+import { bambooErrorHandler } from '../utils/errorHandler.js';
+
+/** Instrumentation scope reported with every span and metric */
+export const TELEMETRY_SCOPE = '@zuharz/bamboo-mcp-server';
+
+export interface TelemetryOptions {
+  /** Off: spans and metrics are dropped even if an SDK is registered */
+  enabled?: boolean;
+  /** Defaults to the globally registered provider */
+  tracerProvider?: TracerProvider;
+  /** Defaults to the globally registered provider */
+  meterProvider?: MeterProvider;
+}
+
+interface TelemetryInstruments {
+  toolDuration: Histogram;
+  toolErrors: Counter;
+  requestDuration: Histogram;
+  requestErrors: Counter;
+  retries: Counter;
+  cacheLookups: Counter;
+  rateLimitWait: Histogram;
+}
+
+/** How a GET was answered; POSTs and photos bypass the cache */
+export type CacheResult = 'hit' | 'miss' | 'coalesced' | 'stale' | 'bypass';
+
+let tracer: Tracer | undefined;
+let instruments: TelemetryInstruments | undefined;
+
+function createInstruments(meter: Meter): TelemetryInstruments {
+  return {
+    toolDuration: meter.createHistogram('bamboo.tool.duration', {
+      description: 'Duration of MCP tool calls',
+      unit: 's',
+    }),
+    toolErrors: meter.createCounter('bamboo.tool.errors', {
+      description: 'Failed tool calls by BambooErrorType',
+    }),
+    requestDuration: meter.createHistogram('bamboo.client.request.duration', {
+      description:
+        'Duration of BambooHR API requests, including retries and cache lookups',
+      unit: 's',
+    }),
+    requestErrors: meter.createCounter('bamboo.client.request.errors', {
+      description: 'BambooHR API requests that failed after all retries',
+    }),
+    retries: meter.createCounter('bamboo.client.retries', {
+      description:
+        'BambooHR API attempts retried after a 429, 5xx or network error',
+    }),
+    cacheLookups: meter.createCounter('bamboo.client.cache.lookups', {
+      description: 'BambooHR API requests by cache result',
+    }),
+    rateLimitWait: meter.createHistogram('bamboo.client.rate_limit.wait', {
+      description:
+        'Time BambooHR API attempts waited for the client-side rate and concurrency limits',
+      unit: 's',
+    }),
+  };
+}
+
+/**
+ * Choose where spans and metrics go; call again to switch (e.g. in tests)
+ */
+export function configureTelemetry(options: TelemetryOptions = {}): void {
+  if (options.enabled === false) {
+    tracer = new ProxyTracerProvider().getTracer(TELEMETRY_SCOPE);
+    instruments = createInstruments(createNoopMeter());
+    return;
+  }
+  tracer = (options.tracerProvider ?? trace.getTracerProvider()).getTracer(
+    TELEMETRY_SCOPE
+  );
+  instruments = createInstruments(
+    (options.meterProvider ?? metrics.getMeterProvider()).getMeter(
+      TELEMETRY_SCOPE
+    )
+  );
+}
+
+// Resolved on first use, so an SDK registered after import is still picked up
+function getTracer(): Tracer {
+  if (!tracer) {
+    configureTelemetry();
+  }
+  return tracer!;
+}
+
+function getInstruments(): TelemetryInstruments {
+  if (!instruments) {
+    configureTelemetry();
+  }
+  return instruments!;
+}
+
+/**
+ * Low-cardinality endpoint for span names and metric attributes: no query
+ * string, numeric IDs replaced with `{id}`
+ */
+export function endpointRoute(endpoint: string): string {
+  return endpoint.split('?')[0].replace(/\/\d+(?=\/|$)/g, '/{id}');
+}
+
+// The BambooErrorType, as tool call errors are counted
+function errorTypeOf(error: unknown): string {
+  return bambooErrorHandler.categorizeError(
+    error instanceof Error ? error : new Error(String(error))
+  );
+}
+
+/**
+ * Span and metrics for one MCP tool call
+ */
+export class ToolCallTrace {
+  readonly span: Span;
+  /** Parent context for the call's BambooHR requests */
+  readonly traceContext: Context;
+  private readonly startedAt = performance.now();
+  private ended = false;
+
+  constructor(
+    private readonly toolName: string,
+    parent: Context = otelContext.active()
+  ) {
+    this.span = getTracer().startSpan(
+      `tools/call ${toolName}`,
+      {
+        kind: SpanKind.SERVER,
+        attributes: {
+          'mcp.method.name': 'tools/call',
+          'mcp.tool.name': toolName,
+        },
+      },
+      parent
+    );
+    this.traceContext = trace.setSpan(parent, this.span);
+  }
+
+  setAttributes(attributes: Attributes): void {
+    this.span.setAttributes(attributes);
+  }
+
+  /**
+   * End the span and record duration; `errorType` is the BambooErrorType of
+   * a failed call
+   */
+  end(outcome: ToolCallOutcome, errorType?: string, error?: unknown): void {
+    if (this.ended) {
+      return;
+    }
+    this.ended = true;
+    const metricAttributes = {
+      'mcp.tool.name': this.toolName,
+      'bamboo.outcome': outcome,
+    };
+
+    this.span.setAttribute('bamboo.outcome', outcome);
+    if (outcome === 'error' || outcome === 'rejected') {
+      if (error instanceof Error) {
+        this.span.recordException(error);
+      }
+      this.span.setStatus({
+        code: SpanStatusCode.ERROR,
+        message: error instanceof Error ? error.message : errorType,
+      });
+      if (errorType) {
+        this.span.setAttribute('error.type', errorType);
+        getInstruments().toolErrors.add(1, {
+          'mcp.tool.name': this.toolName,
+          'error.type': errorType,
+        });
+      }
+    }
+    getInstruments().toolDuration.record(
+      (performance.now() - this.startedAt) / 1000,
+      metricAttributes
+    );
+    this.span.end();
+  }
+}
+
+/**
+ * Span and metrics for one logical BambooClient request (all its attempts)
+ */
+export class ClientRequestTrace {
+  readonly span: Span;
+  private readonly traceContext: Context;
+  private readonly route: string;
+  private readonly startedAt = performance.now();
+  private cacheResult: CacheResult = 'bypass';
+
+  constructor(
+    private readonly method: string,
+    endpoint: string,
+    private readonly serverAddress: string,
+    parent: Context = otelContext.active()
+  ) {
+    this.route = endpointRoute(endpoint);
+    this.span = getTracer().startSpan(
+      `BambooHR ${method} ${this.route}`,
+      {
+        kind: SpanKind.INTERNAL,
+        attributes: {
+          'http.request.method': method,
+          'bamboo.route': this.route,
+        },
+      },
+      parent
+    );
+    this.traceContext = trace.setSpan(parent, this.span);
+  }
+
+  private get routeAttributes(): Attributes {
+    return { 'http.request.method': this.method, 'bamboo.route': this.route };
+  }
+
+  /**
+   * How a GET was answered from the response cache
+   */
+  recordCache(result: CacheResult): void {
+    this.cacheResult = result;
+    this.span.addEvent(`cache.${result}`);
+    getInstruments().cacheLookups.add(1, { 'bamboo.cache.result': result });
+  }
+
+  /**
+   * A coalesced GET was answered by a request another caller's span traces
+   */
+  linkSharedRequest(shared: ClientRequestTrace): void {
+    if (shared !== this) {
+      this.span.addLink({ context: shared.span.spanContext() });
+    }
+  }
+
+  /**
+   * Time one attempt waited for a client-side limit (0 if it did not wait)
+   */
+  recordRateLimitWait(waitedMs: number, limits: readonly string[]): void {
+    if (limits.length > 0) {
+      this.span.addEvent('rate_limit.wait', {
+        'bamboo.rate_limit.wait_ms': waitedMs,
+        'bamboo.rate_limit.limits': [...limits],
+      });
+    }
+    getInstruments().rateLimitWait.record(waitedMs / 1000, {
+      'bamboo.rate_limit.queued': limits.length > 0,
+    });
+  }
+
+  /**
+   * An attempt failed and will be retried after `delayMs`
+   */
+  recordRetry(
+    attempt: number,
+    reason: 'rate_limited' | 'server_error' | 'network_error',
+    delayMs: number
+  ): void {
+    this.span.addEvent('retry', {
+      'http.request.resend_count': attempt + 1,
+      'bamboo.retry.reason': reason,
+      'bamboo.retry.delay_ms': delayMs,
+    });
+    getInstruments().retries.add(1, {
+      ...this.routeAttributes,
+      'bamboo.retry.reason': reason,
+    });
+  }
+
+  /**
+   * CLIENT span for one HTTP attempt; pass the response status or error to
+   * the returned function when it completes
+   */
+  startAttempt(attempt: number): (result: number | Error) => void {
+    const span = getTracer().startSpan(
+      this.method,
+      {
+        kind: SpanKind.CLIENT,
+        attributes: {
+          'http.request.method': this.method,
+          'server.address': this.serverAddress,
+          'url.template': this.route,
+          ...(attempt > 0 && { 'http.request.resend_count': attempt }),
+        },
+      },
+      this.traceContext
+    );
+    return (result) => {
+      if (typeof result === 'number') {
+        span.setAttribute('http.response.status_code', result);
+        if (result >= 400) {
+          span.setAttribute('error.type', String(result));
+          span.setStatus({ code: SpanStatusCode.ERROR });
+        }
+      } else {
+        span.recordException(result);
+        span.setAttribute('error.type', errorTypeOf(result));
+        span.setStatus({ code: SpanStatusCode.ERROR, message: result.message });
+      }
+      span.end();
+    };
+  }
+
+  /**
+   * End the request span and record its duration
+   */
+  end(error?: unknown): void {
+    const outcome = error === undefined ? 'success' : 'error';
+    if (error !== undefined) {
+      const errorType = errorTypeOf(error);
+      if (error instanceof Error) {
+        this.span.recordException(error);
+      }
+      this.span.setAttribute('error.type', errorType);
+      this.span.setStatus({
+        code: SpanStatusCode.ERROR,
+        ...(error instanceof Error && { message: error.message }),
+      });
+      getInstruments().requestErrors.add(1, {
+        ...this.routeAttributes,
+        'error.type': errorType,
+      });
+    }
+    this.span.setAttribute('bamboo.cache.result', this.cacheResult);
+    getInstruments().requestDuration.record(
+      (performance.now() - this.startedAt) / 1000,
+      {
+        ...this.routeAttributes,
+        'bamboo.cache.result': this.cacheResult,
+        'bamboo.outcome': outcome,
+      }
+    );
+    this.span.end();
+  }
+}
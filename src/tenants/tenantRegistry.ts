@@ -0,0 +1,265 @@
+/**
+ * Multi-company support
+ * A companies file lists named BambooHR tenants; each one gets its own
+ * BambooClient (and with it its own cache, request limiter and circuit
+ * breaker), so a tool call only ever sees the data of the company it names.
+ */
+
+import * as fs from 'node:fs';
+import type { BambooClient } from '../bamboo-client.js';
+import { MCPError, MCP_ERROR_CODES } from '../utils/mcpErrorHandler.js';
+
+const COMPANY_NAME_PATTERN = /^[a-zA-Z0-9][a-zA-Z0-9_-]*$/;
+const SUBDOMAIN_PATTERN = /^[a-zA-Z0-9-]+$/;
+
+/**
+ * One BambooHR tenant
+ */
+export interface TenantConfig {
+  /** Name callers pass as the `company` tool argument */
+  name: string;
+  subdomain: string;
+  apiKey: string;
+  displayName?: string;
+  baseUrl?: string;
+}
+
+export interface TenantsConfig {
+  defaultCompany: string;
+  companies: TenantConfig[];
+}
+
+/**
+ * Raised when the companies file is missing, unreadable or invalid
+ */
+export class TenantConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TenantConfigError';
+  }
+}
+
+export interface ParseTenantsOptions {
+  /** Where `apiKeyEnv` references are looked up */
+  env?: NodeJS.ProcessEnv;
+  /** Fixture replay never calls BambooHR, so keys may be omitted there */
+  requireApiKey?: boolean;
+}
+
+function readOptionalString(
+  entry: Record<string, unknown>,
+  key: string,
+  company: string
+): string | undefined {
+  const value = entry[key];
+  if (value === undefined) {
+    return undefined;
+  }
+  if (typeof value !== 'string' || value.trim() === '') {
+    throw new TenantConfigError(
+      `Company "${company}": ${key} must be a non-empty string`
+    );
+  }
+  return value.trim();
+}
+
+/**
+ * Validate a parsed companies file:
+ *
+ *   {
+ *     "defaultCompany": "acme",
+ *     "companies": {
+ *       "acme": { "subdomain": "acme", "apiKeyEnv": "ACME_BAMBOO_API_KEY" },
+ *       "globex": { "subdomain": "globex-hr", "apiKey": "...", "displayName": "Globex" }
+ *     }
+ *   }
+ *
+ * `apiKeyEnv` keeps keys out of the file. Without `defaultCompany` the first
+ * company listed is the default.
+ */
+export function parseTenantsConfig(
+  raw: unknown,
+  options: ParseTenantsOptions = {}
+): TenantsConfig {
+  const env = options.env ?? process.env;
+  const requireApiKey = options.requireApiKey ?? true;
+
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    throw new TenantConfigError('Companies file must contain a JSON object');
+  }
+  const file = raw as Record<string, unknown>;
+  const entries = file.companies;
+  if (!entries || typeof entries !== 'object' || Array.isArray(entries)) {
+    throw new TenantConfigError(
+      '"companies" must be an object keyed by company name'
+    );
+  }
+
+  const companies: TenantConfig[] = [];
+  for (const [name, value] of Object.entries(entries)) {
+    if (!COMPANY_NAME_PATTERN.test(name)) {
+      throw new TenantConfigError(
+        `Invalid company name "${name}". Use letters, numbers, "-" and "_"`
+      );
+    }
+    if (!value || typeof value !== 'object' || Array.isArray(value)) {
+      throw new TenantConfigError(`Company "${name}" must be an object`);
+    }
+    const entry = value as Record<string, unknown>;
+
+    const subdomain = readOptionalString(entry, 'subdomain', name);
+    if (!subdomain || !SUBDOMAIN_PATTERN.test(subdomain)) {
+      throw new TenantConfigError(
+        `Company "${name}": subdomain is required and may only contain letters, numbers, and hyphens`
+      );
+    }
+
+    const apiKeyEnv = readOptionalString(entry, 'apiKeyEnv', name);
+    let apiKey = readOptionalString(entry, 'apiKey', name);
+    if (!apiKey && apiKeyEnv) {
+      apiKey = env[apiKeyEnv]?.trim() || undefined;
+      if (!apiKey && requireApiKey) {
+        throw new TenantConfigError(
+          `Company "${name}": environment variable ${apiKeyEnv} is not set`
+        );
+      }
+    }
+    if (!apiKey && requireApiKey) {
+      throw new TenantConfigError(`Company "${name}": set apiKey or apiKeyEnv`);
+    }
+
+    const baseUrl = readOptionalString(entry, 'baseUrl', name);
+    if (baseUrl && !/^https?:\/\/[^/]/.test(baseUrl)) {
+      throw new TenantConfigError(
+        `Company "${name}": baseUrl must be an http(s) URL`
+      );
+    }
+    const displayName = readOptionalString(entry, 'displayName', name);
+
+    companies.push({
+      name,
+      subdomain,
+      apiKey: apiKey ?? 'replay',
+      ...(displayName && { displayName }),
+      ...(baseUrl && { baseUrl: baseUrl.replace(/\/+$/, '') }),
+    });
+  }
+
+  if (companies.length === 0) {
+    throw new TenantConfigError('Companies file lists no companies');
+  }
+
+  const defaultCompany = file.defaultCompany ?? companies[0].name;
+  if (
+    typeof defaultCompany !== 'string' ||
+    !companies.some((c) => c.name === defaultCompany)
+  ) {
+    throw new TenantConfigError(
+      `defaultCompany "${String(defaultCompany)}" is not one of the configured companies`
+    );
+  }
+
+  return { defaultCompany, companies };
+}
+
+/**
+ * Read and validate a companies file from disk
+ */
+export function loadTenantsFile(
+  filePath: string,
+  options: ParseTenantsOptions = {}
+): TenantsConfig {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+  } catch (error) {
+    throw new TenantConfigError(
+      `Could not read companies file ${filePath}: ${error instanceof Error ? error.message : error}`
+    );
+  }
+  return parseTenantsConfig(raw, options);
+}
+
+/**
+ * A configured company and its dedicated client
+ */
+export interface Tenant {
+  config: TenantConfig;
+  client: BambooClient;
+}
+
+/**
+ * Public view of a company; never includes credentials
+ */
+export interface CompanySummary {
+  name: string;
+  displayName?: string;
+  subdomain: string;
+  isDefault: boolean;
+}
+
+/**
+ * Holds one BambooClient per company and resolves the `company` tool argument
+ */
+export class TenantRegistry {
+  private readonly tenants = new Map<string, Tenant>();
+  readonly defaultCompany: string;
+
+  constructor(
+    config: TenantsConfig,
+    createClient: (tenant: TenantConfig) => BambooClient
+  ) {
+    for (const tenant of config.companies) {
+      this.tenants.set(tenant.name, {
+        config: tenant,
+        client: createClient(tenant),
+      });
+    }
+    this.defaultCompany = config.defaultCompany;
+  }
+
+  get size(): number {
+    return this.tenants.size;
+  }
+
+  getDefault(): Tenant {
+    return this.tenants.get(this.defaultCompany)!;
+  }
+
+  /**
+   * Look up the tenant for a tool call; no company means the default.
+   * Throws MCPError(INVALID_PARAMS) naming the configured companies.
+   */
+  resolve(company?: unknown): Tenant {
+    if (company === undefined) {
+      return this.getDefault();
+    }
+    const tenant =
+      typeof company === 'string' ? this.tenants.get(company) : undefined;
+    if (!tenant) {
+      const available = Array.from(this.tenants.keys());
+      throw new MCPError(
+        `Unknown company: ${String(company)}. Configured companies: ${available.join(', ')}`,
+        MCP_ERROR_CODES.INVALID_PARAMS,
+        {
+          errors: [{ path: 'company', message: 'Unknown company' }],
+          companies: available,
+        }
+      );
+    }
+    return tenant;
+  }
+
+  list(): CompanySummary[] {
+    return Array.from(this.tenants.values()).map(({ config }) => ({
+      name: config.name,
+      ...(config.displayName && { displayName: config.displayName }),
+      subdomain: config.subdomain,
+      isDefault: config.name === this.defaultCompany,
+    }));
+  }
+
+  clients(): BambooClient[] {
+    return Array.from(this.tenants.values()).map((tenant) => tenant.client);
+  }
+}
@@ -0,0 +1,147 @@
+/**
+ * Time-off catalog
+ *
+ * The company's time-off types and policies from BambooHR's meta endpoints.
+ * Time-off requests and who's out entries only carry type IDs; the catalog
+ * turns them into names, units and icons, and resolves the types a user
+ * names. BambooClient caches both responses for the metadata TTL, and a
+ * catalog is built once per pair of cached responses.
+ */
+
+import type {
+  BambooTimeOffPolicy,
+  BambooTimeOffType,
+  BambooTimeOffTypesResponse,
+  TimeOffPolicySummary,
+  TimeOffTypeSummary,
+} from '../types.js';
+
+export const TIME_OFF_TYPES_ENDPOINT = '/meta/time_off/types';
+export const TIME_OFF_POLICIES_ENDPOINT = '/meta/time_off/policies';
+
+function optionalString(value: unknown): string | undefined {
+  if (value === null || value === undefined || value === '') {
+    return undefined;
+  }
+  return String(value);
+}
+
+/**
+ * Time-off types and policies, indexed by ID
+ */
+export class TimeOffCatalog {
+  private readonly typesById = new Map<string, BambooTimeOffType>();
+  private readonly policies: BambooTimeOffPolicy[];
+
+  constructor(
+    types: readonly BambooTimeOffType[],
+    policies: readonly BambooTimeOffPolicy[]
+  ) {
+    for (const type of types) {
+      this.typesById.set(String(type.id), type);
+    }
+    this.policies = [...policies];
+  }
+
+  /** Every type, sorted by name */
+  get types(): BambooTimeOffType[] {
+    return Array.from(this.typesById.values()).sort((a, b) =>
+      a.name.localeCompare(b.name)
+    );
+  }
+
+  type(id: string | undefined): BambooTimeOffType | undefined {
+    return id === undefined ? undefined : this.typesById.get(String(id));
+  }
+
+  /** Types keyed by ID, as the time-off formatters take them */
+  typeIndex(): Record<string, BambooTimeOffType> {
+    return Object.fromEntries(this.typesById);
+  }
+
+  /**
+   * Find a type by ID or by name (case-insensitive)
+   */
+  findType(idOrName: string): BambooTimeOffType | undefined {
+    const wanted = idOrName.trim().toLowerCase();
+    return (
+      this.type(idOrName.trim()) ??
+      Array.from(this.typesById.values()).find(
+        (type) => type.name.toLowerCase() === wanted
+      )
+    );
+  }
+
+  typeSummaries(): TimeOffTypeSummary[] {
+    return this.types.map((type) => {
+      const icon = optionalString(type.icon);
+      const color = optionalString(type.color);
+      return {
+        id: String(type.id),
+        name: type.name,
+        units: type.units || 'hours',
+        ...(icon && { icon }),
+        ...(color && { color }),
+        policyCount: this.policies.filter(
+          (policy) => String(policy.timeOffTypeId) === String(type.id)
+        ).length,
+      };
+    });
+  }
+
+  /**
+   * Policies sorted by type name, then policy name; optionally of one type
+   */
+  policySummaries(typeId?: string): TimeOffPolicySummary[] {
+    return this.policies
+      .filter(
+        (policy) =>
+          typeId === undefined || String(policy.timeOffTypeId) === typeId
+      )
+      .map((policy) => {
+        const typeName = this.type(String(policy.timeOffTypeId))?.name;
+        const effectiveDate = optionalString(policy.effectiveDate);
+        return {
+          id: String(policy.id),
+          name: policy.name,
+          typeId: String(policy.timeOffTypeId),
+          ...(typeName && { typeName }),
+          type: policy.type,
+          ...(effectiveDate && { effectiveDate }),
+        };
+      })
+      .sort(
+        (a, b) =>
+          (a.typeName ?? '').localeCompare(b.typeName ?? '') ||
+          a.name.localeCompare(b.name)
+      );
+  }
+}
+
+// Keyed by the types response BambooClient returns; a cache hit hands back
+// the same object, so the catalog lives as long as the cached response
+const catalogs = new WeakMap<
+  object,
+  { policies: unknown; catalog: TimeOffCatalog }
+>();
+
+/**
+ * Catalog for a types and a policies response, built on first use
+ */
+export function getTimeOffCatalog(
+  types: BambooTimeOffTypesResponse,
+  policies: BambooTimeOffPolicy[]
+): TimeOffCatalog {
+  const cached = types && catalogs.get(types);
+  if (cached && cached.policies === policies) {
+    return cached.catalog;
+  }
+  const catalog = new TimeOffCatalog(
+    Array.isArray(types?.timeOffTypes) ? types.timeOffTypes : [],
+    Array.isArray(policies) ? policies : []
+  );
+  if (types && typeof types === 'object') {
+    catalogs.set(types, { policies, catalog });
+  }
+  return catalog;
+}
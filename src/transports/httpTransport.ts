@@ -0,0 +1,367 @@
+/**
+ * Streamable HTTP transport for BambooHR MCP server
+ * Serves MCP over HTTP (with SSE streaming) so one deployment can be shared by a team.
+ * Host and Origin headers are checked against the allowed names so a web page
+ * cannot reach the endpoint through DNS rebinding, and idle sessions expire.
+ */
+
+import { randomUUID } from 'node:crypto';
+import {
+  createServer as createHttpServer,
+  type IncomingMessage,
+  type Server as HttpServer,
+  type ServerResponse,
+} from 'node:http';
+import type { AddressInfo } from 'node:net';
+import type { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+import { mcpLogger } from '../utils/mcpLogger.js';
+import { MCP_ERROR_CODES } from '../utils/mcpErrorHandler.js';
+
+const MAX_BODY_BYTES = 4 * 1024 * 1024; // 4MB, matches the SDK default
+
+export const DEFAULT_SESSION_IDLE_TIMEOUT_MS = 30 * 60 * 1000;
+
+// Host names accepted by default when listening on a loopback address
+const LOOPBACK_HOSTS = ['localhost', '127.0.0.1', '[::1]'];
+
+/**
+ * HTTP transport configuration
+ */
+export interface HttpTransportOptions {
+  port: number;
+  host: string;
+  path?: string;
+  /**
+   * Accepted Host header names (with or without port). Defaults to the
+   * loopback names when listening on loopback, otherwise any host.
+   */
+  allowedHosts?: string[];
+  /**
+   * Accepted Origin headers besides the allowed hosts' own origins; requests
+   * without an Origin (non-browser clients) are always accepted
+   */
+  allowedOrigins?: string[];
+  /** Close sessions with no open request for this long */
+  sessionIdleTimeoutMs?: number;
+}
+
+/**
+ * Running HTTP transport handle
+ */
+export interface HttpTransportHandle {
+  httpServer: HttpServer;
+  port: number;
+  getSessionCount: () => number;
+  close: () => Promise<void>;
+}
+
+interface McpSession {
+  server: Server;
+  transport: StreamableHTTPServerTransport;
+  /** Requests still open, including standing SSE streams */
+  activeRequests: number;
+  idleTimer?: NodeJS.Timeout;
+}
+
+/**
+ * Start an MCP Streamable HTTP endpoint.
+ *
+ * Each MCP session gets its own Server built by `createServer`, so the request
+ * handlers registered there are shared across stdio and HTTP modes.
+ */
+export async function startHttpTransport(
+  createServer: () => Server,
+  options: HttpTransportOptions
+): Promise<HttpTransportHandle> {
+  const endpointPath = options.path || '/mcp';
+  const idleTimeoutMs =
+    options.sessionIdleTimeoutMs ?? DEFAULT_SESSION_IDLE_TIMEOUT_MS;
+  const allowedHosts = resolveAllowedHosts(options);
+  const sessions = new Map<string, McpSession>();
+
+  // The idle clock only runs while the session has no open request
+  const trackActivity = (session: McpSession, res: ServerResponse) => {
+    clearTimeout(session.idleTimer);
+    session.activeRequests++;
+    res.once('close', () => {
+      session.activeRequests--;
+      if (session.activeRequests > 0) {
+        return;
+      }
+      session.idleTimer = setTimeout(() => {
+        mcpLogger.info('http-transport', 'MCP session expired', {
+          sessionId: session.transport.sessionId,
+          idleTimeoutMs,
+        });
+        session.transport.close().catch(() => undefined);
+      }, idleTimeoutMs);
+      session.idleTimer.unref();
+    });
+  };
+
+  const openSession = async (): Promise<McpSession> => {
+    const server = createServer();
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: (sessionId) => {
+        sessions.set(sessionId, session);
+        mcpLogger.addServer(server);
+        mcpLogger.info('http-transport', 'MCP session initialized', {
+          sessionId,
+          activeSessions: sessions.size,
+        });
+      },
+    });
+    const session: McpSession = { server, transport, activeRequests: 0 };
+
+    transport.onclose = () => {
+      clearTimeout(session.idleTimer);
+      if (transport.sessionId) {
+        sessions.delete(transport.sessionId);
+        mcpLogger.info('http-transport', 'MCP session closed', {
+          sessionId: transport.sessionId,
+          activeSessions: sessions.size,
+        });
+      }
+      mcpLogger.removeServer(server);
+    };
+
+    await server.connect(transport);
+    return session;
+  };
+
+  const handleRequest = async (req: IncomingMessage, res: ServerResponse) => {
+    const url = new URL(req.url || '/', 'http://localhost');
+    if (url.pathname !== endpointPath) {
+      sendJsonRpcError(res, 404, MCP_ERROR_CODES.METHOD_NOT_FOUND, 'Not found');
+      return;
+    }
+
+    const forbidden = checkRequestOrigin(req, allowedHosts, options);
+    if (forbidden) {
+      mcpLogger.warn('http-transport', 'Rejected cross-origin request', {
+        reason: forbidden,
+        host: req.headers.host,
+        origin: req.headers.origin,
+      });
+      sendJsonRpcError(
+        res,
+        403,
+        MCP_ERROR_CODES.INVALID_REQUEST,
+        `Forbidden: ${forbidden}`
+      );
+      return;
+    }
+
+    const sessionId = req.headers['mcp-session-id'];
+    const existing =
+      typeof sessionId === 'string' ? sessions.get(sessionId) : undefined;
+
+    if (req.method === 'POST') {
+      let body: unknown;
+      try {
+        body = await readJsonBody(req);
+      } catch (error) {
+        sendJsonRpcError(
+          res,
+          400,
+          MCP_ERROR_CODES.PARSE_ERROR,
+          error instanceof Error ? error.message : 'Invalid request body'
+        );
+        return;
+      }
+
+      if (existing) {
+        trackActivity(existing, res);
+        await mcpLogger.runInSession(existing.server, () =>
+          existing.transport.handleRequest(req, res, body)
+        );
+        return;
+      }
+
+      if (!sessionId && isInitializeRequest(body)) {
+        const session = await openSession();
+        trackActivity(session, res);
+        await mcpLogger.runInSession(session.server, () =>
+          session.transport.handleRequest(req, res, body)
+        );
+        return;
+      }
+
+      sendJsonRpcError(
+        res,
+        sessionId ? 404 : 400,
+        MCP_ERROR_CODES.INVALID_REQUEST,
+        sessionId
+          ? 'Session not found'
+          : 'Bad Request: No valid session ID provided'
+      );
+      return;
+    }
+
+    if (req.method === 'GET' || req.method === 'DELETE') {
+      if (!existing) {
+        sendJsonRpcError(
+          res,
+          sessionId ? 404 : 400,
+          MCP_ERROR_CODES.INVALID_REQUEST,
+          sessionId ? 'Session not found' : 'Missing mcp-session-id header'
+        );
+        return;
+      }
+      trackActivity(existing, res);
+      await mcpLogger.runInSession(existing.server, () =>
+        existing.transport.handleRequest(req, res)
+      );
+      return;
+    }
+
+    res.setHeader('Allow', 'GET, POST, DELETE');
+    sendJsonRpcError(
+      res,
+      405,
+      MCP_ERROR_CODES.METHOD_NOT_FOUND,
+      'Method not allowed'
+    );
+  };
+
+  const httpServer = createHttpServer((req, res) => {
+    handleRequest(req, res).catch((error) => {
+      mcpLogger.error('http-transport', 'Failed to handle HTTP request', {
+        method: req.method,
+        url: req.url,
+        errorMessage: error instanceof Error ? error.message : String(error),
+      });
+      if (!res.headersSent) {
+        sendJsonRpcError(
+          res,
+          500,
+          MCP_ERROR_CODES.INTERNAL_ERROR,
+          'Internal server error'
+        );
+      }
+    });
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once('error', reject);
+    httpServer.listen(options.port, options.host, () => {
+      httpServer.off('error', reject);
+      resolve();
+    });
+  });
+
+  const port = (httpServer.address() as AddressInfo).port;
+
+  return {
+    httpServer,
+    port,
+    getSessionCount: () => sessions.size,
+    close: async () => {
+      for (const session of Array.from(sessions.values())) {
+        await session.transport.close();
+      }
+      sessions.clear();
+      await new Promise<void>((resolve) => httpServer.close(() => resolve()));
+    },
+  };
+}
+
+/**
+ * Host names (lowercase) the Host header may carry; undefined accepts any
+ */
+function resolveAllowedHosts(
+  options: HttpTransportOptions
+): Set<string> | undefined {
+  if (options.allowedHosts && options.allowedHosts.length > 0) {
+    return new Set(options.allowedHosts.map((host) => host.toLowerCase()));
+  }
+  const host = options.host.toLowerCase();
+  const isLoopback =
+    host === 'localhost' || host === '::1' || host.startsWith('127.');
+  return isLoopback ? new Set([...LOOPBACK_HOSTS, host]) : undefined;
+}
+
+// "name:port" -> "name", keeping IPv6 brackets
+function stripPort(host: string): string {
+  return host.replace(/:\d+$/, '');
+}
+
+/**
+ * Why a request must be refused for its Host or Origin header, if it must.
+ * A rebound page is same-origin with whatever host name it was loaded from,
+ * so an Origin is only accepted when listed or when its host is allowed.
+ */
+function checkRequestOrigin(
+  req: IncomingMessage,
+  allowedHosts: Set<string> | undefined,
+  options: HttpTransportOptions
+): string | undefined {
+  const isAllowedHost = (host: string) =>
+    allowedHosts !== undefined &&
+    (allowedHosts.has(host) || allowedHosts.has(stripPort(host)));
+
+  const host = req.headers.host?.toLowerCase();
+  if (allowedHosts !== undefined && (!host || !isAllowedHost(host))) {
+    return `Host ${host ?? '(none)'} is not allowed`;
+  }
+
+  const origin = req.headers.origin;
+  if (origin === undefined || options.allowedOrigins?.includes(origin)) {
+    return undefined;
+  }
+  let originHost: string | undefined;
+  try {
+    originHost = new URL(origin).host.toLowerCase();
+  } catch {
+    // Reported below
+  }
+  return originHost !== undefined && isAllowedHost(originHost)
+    ? undefined
+    : `Origin ${origin} is not allowed`;
+}
+
+/**
+ * Read and parse a JSON request body with a size cap
+ */
+function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        reject(new Error('Request body too large'));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => {
+      try {
+        resolve(JSON.parse(Buffer.concat(chunks).toString('utf-8')));
+      } catch {
+        reject(new Error('Parse error: request body is not valid JSON'));
+      }
+    });
+    req.on('error', reject);
+  });
+}
+
+/**
+ * Write a JSON-RPC error response outside of an MCP session
+ */
+function sendJsonRpcError(
+  res: ServerResponse,
+  status: number,
+  code: number,
+  message: string
+): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(
+    JSON.stringify({ jsonrpc: '2.0', error: { code, message }, id: null })
+  );
+}
@@ -9,6 +9,9 @@
  * These types are extracted for reusability and maintainability.
  */
 
+import type { Context } from '@opentelemetry/api';
+import type { BambooClient } from './bamboo-client.js';
+
 // =============================================================================
 // BambooHR API Response Types
 // =============================================================================
@@ -39,6 +42,55 @@ export interface BambooEmployee {
   [key: string]: unknown; // Support for custom fields
 }
 
+/**
+ * Field definition from GET /meta/fields
+ * Standard fields have an `alias` such as `firstName`; custom fields may
+ * only have a numeric ID
+ */
+export interface BambooFieldMetadata {
+  id: string | number;
+  name: string;
+  type?: string;
+  alias?: string;
+}
+
+/**
+ * Row of an employee table such as jobInfo, employmentStatus or compensation
+ */
+export interface BambooTableRow {
+  id?: string;
+  employeeId?: string;
+  [key: string]: unknown;
+}
+
+/**
+ * Entry of GET /employees/changed, keyed by employee ID in the response
+ */
+export interface BambooEmployeeChange {
+  id: string;
+  /** "Inserted", "Updated" or "Deleted" */
+  action: string;
+  /** ISO 8601 timestamp */
+  lastChanged: string;
+}
+
+/**
+ * GET /employees/changed response
+ */
+export interface BambooChangedEmployeesResponse {
+  /** Timestamp of the most recent change; pass as `since` next time */
+  latest?: string;
+  employees: Record<string, BambooEmployeeChange>;
+}
+
+/**
+ * GET /employees/changed/tables/{table} response
+ */
+export interface BambooChangedTableResponse {
+  latest?: string;
+  employees: Record<string, { lastChanged: string; rows: BambooTableRow[] }>;
+}
+
 /**
  * Employee directory response structure
  */
@@ -83,12 +135,68 @@ export interface BambooTimeOffRequest {
 export interface BambooWhosOutEntry {
   id: string;
   type: string;
-  employeeId: string;
+  /** Absent on company holiday entries */
+  employeeId?: string;
   name: string;
   start: string;
   end: string;
 }
 
+/**
+ * Time-off type from /meta/time_off/types
+ * `icon` is the name of one of BambooHR's built-in icons
+ */
+export interface BambooTimeOffType {
+  id: string;
+  name: string;
+  units: string;
+  color?: string | null;
+  icon?: string | null;
+}
+
+/**
+ * /meta/time_off/types response structure
+ */
+export interface BambooTimeOffTypesResponse {
+  timeOffTypes: BambooTimeOffType[];
+  defaultHours?: Array<{ name: string; amount: string }>;
+}
+
+/**
+ * Time-off policy from /meta/time_off/policies
+ */
+export interface BambooTimeOffPolicy {
+  id: string;
+  timeOffTypeId: string;
+  name: string;
+  effectiveDate?: string | null;
+  type: string;
+}
+
+/**
+ * Estimated balance of one time-off type on a date
+ * From /employees/{id}/time_off/calculator; amounts are decimal strings
+ */
+export interface BambooTimeOffCalculation {
+  timeOffType: string;
+  name: string;
+  units: string;
+  balance: string;
+  end: string;
+  policyType?: string;
+  usedYearToDate?: string;
+}
+
+/**
+ * Time-off policy assigned to an employee
+ * From /employees/{id}/time_off/policies
+ */
+export interface BambooEmployeeTimeOffPolicy {
+  timeOffPolicyId: string;
+  timeOffTypeId: string;
+  accrualStartDate?: string | null;
+}
+
 /**
  * BambooHR dataset definition
  * Used for workforce analytics and reporting
@@ -224,19 +332,53 @@ export interface ToolArgs {
  */
 export interface ToolContext {
   _meta?: {
-    progressToken?: string;
+    progressToken?: string | number;
     [key: string]: unknown;
   };
-  progressToken?: string;
+  progressToken?: string | number | null;
   sendProgress?: (
     progress: number,
     total: number,
     message: string
   ) => Promise<void>;
   isEnabled?: boolean;
+  signal?: AbortSignal;
+  queueStats?: RequestQueueStats;
+  staleResponses?: StaleResponseInfo[];
+  /** Client for the company named by the call's `company` argument */
+  bambooClient?: BambooClient;
+  /** Resolved company name when several companies are configured */
+  company?: string;
+  /** Filled in by redactPii with the fields the PII policy changed */
+  redactedFields?: RedactedFieldInfo[];
+  /** Filled in by BambooClient with every endpoint the call read */
+  dataAccess?: DataAccessInfo[];
+  /** OpenTelemetry context holding the call's span */
+  traceContext?: Context;
   [key: string]: unknown;
 }
 
+/**
+ * How a tool call ended: `rejected` calls failed validation or company
+ * resolution before the handler ran
+ */
+export type ToolCallOutcome = 'success' | 'error' | 'cancelled' | 'rejected';
+
+/**
+ * Client-side queueing recorded for the BambooHR requests of one tool call
+ * Filled in by BambooClient's rate/concurrency limiter, reported in `_meta`
+ */
+export interface RequestQueueStats {
+  /** Network attempts made */
+  requests: number;
+  /** Attempts that had to wait for the rate or concurrency limit */
+  queued: number;
+  /** Total time spent queued (ms) */
+  waitMs: number;
+  /** Longest single wait (ms) */
+  maxWaitMs: number;
+}
+
 /**
  * Tool handler function signature
  * All MCP tool handlers must implement this interface
@@ -266,9 +408,187 @@ export interface MCPToolResponse {
   _links?: {
     [key: string]: unknown;
   };
+  structuredContent?: StructuredToolOutput;
   [key: string]: unknown; // Allow additional properties for MCP compatibility
 }
 
+/**
+ * Typed structuredContent payload matching a tool's outputSchema
+ */
+export interface StructuredToolOutput {
+  [key: string]: unknown;
+}
+
+/**
+ * Employee summary as returned in structuredContent
+ * Only string-valued fields are included; missing values are omitted
+ */
+export interface EmployeeSummary {
+  id?: string;
+  firstName?: string;
+  lastName?: string;
+  workEmail?: string;
+  jobTitle?: string;
+  department?: string;
+}
+
+/**
+ * One field of an employee profile, labelled from /meta/fields
+ */
+export interface EmployeeProfileField {
+  /** Key in the API response: the field alias, or its ID for custom fields */
+  field: string;
+  label: string;
+  value: string;
+}
+
+/**
+ * Group of related profile fields, e.g. Job or Contact
+ */
+export interface EmployeeProfileSection {
+  title: string;
+  fields: EmployeeProfileField[];
+}
+
+/**
+ * Employee in an org chart, as returned in structuredContent. Entries are
+ * listed depth first, so each follows its manager.
+ */
+export interface OrgChartEntry {
+  id: string;
+  name: string;
+  jobTitle?: string;
+  department?: string;
+  managerId?: string;
+  /** Levels below the first entry of its tree */
+  depth: number;
+  /** Span of control: employees reporting directly to this one */
+  directReports: number;
+  /** Direct and indirect reports */
+  totalReports: number;
+}
+
+/**
+ * Reporting lines that do not lead to the top of the company
+ */
+export interface OrgChartIssues {
+  /** Employees whose manager is not in the directory */
+  orphans: Array<{ id: string; name: string; managerId: string }>;
+  /** Employee IDs of each reporting loop */
+  cycles: string[][];
+}
+
+export type EmployeeChangeAction = 'inserted' | 'updated' | 'deleted';
+
+/**
+ * One changed employee, as returned in structuredContent
+ */
+export interface EmployeeChangeSummary {
+  employeeId: string;
+  name: string;
+  action: EmployeeChangeAction;
+  lastChanged: string;
+}
+
+/**
+ * Rows of one employee table that changed, as returned in structuredContent
+ */
+export interface EmployeeTableChange {
+  employeeId: string;
+  name: string;
+  lastChanged: string;
+  rows: BambooTableRow[];
+}
+
+/**
+ * Field values that differ from the stored snapshot of one employee
+ */
+export interface EmployeeFieldDiff {
+  employeeId: string;
+  name: string;
+  /** No earlier snapshot: the current values were stored as the baseline */
+  baseline: boolean;
+  /** When the values compared against were captured */
+  previousCapture?: string;
+  changes: Array<{
+    field: string;
+    label: string;
+    before?: string;
+    after?: string;
+  }>;
+}
+
+/**
+ * Who's out entry as returned in structuredContent
+ */
+export interface WhosOutEntrySummary {
+  id?: string;
+  type?: string;
+  employeeId?: string;
+  name?: string;
+  start?: string;
+  end?: string;
+  /** Time-off type name, when the catalog has it */
+  timeOffType?: string;
+}
+
+/**
+ * Time-off request as returned in structuredContent
+ * `type` is flattened to its display name
+ */
+export interface TimeOffRequestSummary {
+  id?: string;
+  employeeId?: string;
+  name?: string;
+  start?: string;
+  end?: string;
+  type?: string;
+  status?: string;
+  amount?: { unit?: string; amount?: string };
+}
+
+/**
+ * Time-off type as returned in structuredContent
+ */
+export interface TimeOffTypeSummary {
+  id: string;
+  name: string;
+  units: string;
+  icon?: string;
+  color?: string;
+  policyCount: number;
+}
+
+/**
+ * Time-off policy as returned in structuredContent
+ */
+export interface TimeOffPolicySummary {
+  id: string;
+  name: string;
+  typeId: string;
+  typeName?: string;
+  type: string;
+  effectiveDate?: string;
+}
+
+/**
+ * Current and projected balance of one time-off type
+ * as returned in structuredContent
+ */
+export interface TimeOffBalanceSummary {
+  typeId: string;
+  name: string;
+  units: string;
+  policyType?: string;
+  policyId?: string;
+  accrualStartDate?: string;
+  current: number;
+  projected: number;
+  /** Projected minus current: accrual, less time off already booked */
+  change: number;
+  usedYearToDate?: number;
+}
+
 /**
  * Logger interface for structured logging
  * Compatible with console-style logging but type-safe
@@ -282,14 +602,61 @@ export interface Logger {
   child: () => Logger;
 }
 
+/**
+ * A GET answered from expired cache because BambooHR was unavailable
+ */
+export interface StaleResponseInfo {
+  endpoint: string;
+  /** When the cached entry expired (ISO 8601) */
+  expiredAt: string;
+}
+
+/**
+ * A field the PII policy masked, hashed or dropped in one tool call
+ */
+export interface RedactedFieldInfo {
+  field: string;
+  action: 'mask' | 'hash' | 'drop';
+  /** Values changed */
+  count: number;
+}
+
+/**
+ * One BambooHR request made for a tool call, as recorded in the audit log
+ */
+export interface DataAccessInfo {
+  method: 'GET' | 'POST';
+  endpoint: string;
+  /** Records returned (array items, or 1 for a single object) */
+  records: number;
+  /** The request failed; no data was returned */
+  failed?: boolean;
+}
+
+/**
+ * Per-call options handlers pass to BambooClient (see getRequestOptions)
+ */
+export interface ToolRequestOptions {
+  signal?: AbortSignal;
+  queueStats?: RequestQueueStats;
+  staleResponses?: StaleResponseInfo[];
+  dataAccess?: DataAccessInfo[];
+  /** Parent for the request's spans */
+  traceContext?: Context;
+}
+
 /**
  * Dependency injection interface for tool handlers
  * Provides all necessary dependencies to handlers via DI
  */
 export interface HandlerDependencies {
   bambooClient: {
-    get: (endpoint: string) => Promise<unknown>;
-    post: (endpoint: string, data: unknown) => Promise<unknown>;
+    get: (endpoint: string, options?: ToolRequestOptions) => Promise<unknown>;
+    post: (
+      endpoint: string,
+      data: unknown,
+      options?: ToolRequestOptions
+    ) => Promise<unknown>;
     getBaseUrl: () => string;
     clearCache: () => void;
   };
@@ -0,0 +1,110 @@
+/**
+ * Circuit breaker for the BambooHR API
+ * After repeated upstream failures requests fail fast instead of spending the
+ * full retry budget; a single trial request probes for recovery.
+ */
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+/**
+ * Breaker tuning; a failureThreshold of 0 disables the breaker
+ */
+export interface CircuitBreakerOptions {
+  /** Consecutive failures that open the circuit */
+  failureThreshold: number;
+  /** How long the circuit stays open before a trial request is allowed */
+  resetTimeoutMs: number;
+}
+
+/**
+ * Consecutive-failure circuit breaker.
+ * closed → open after `failureThreshold` failures in a row;
+ * open → half-open once `resetTimeoutMs` has passed, letting one trial through;
+ * half-open → closed on success, back to open on failure.
+ */
+export class CircuitBreaker {
+  private state: CircuitState = 'closed';
+  private consecutiveFailures = 0;
+  private openedAt = 0;
+  private trialInFlight = false;
+
+  constructor(private options: CircuitBreakerOptions) {}
+
+  /**
+   * Change the tuning without losing the current state or failure count
+   */
+  configure(options: CircuitBreakerOptions): void {
+    this.options = { ...options };
+  }
+
+  /**
+   * Ask to send a request. In half-open state only the first caller is
+   * allowed through; it must report back via recordSuccess, recordFailure
+   * or abandonTrial.
+   */
+  tryAcquire(): boolean {
+    if (this.options.failureThreshold <= 0 || this.state === 'closed') {
+      return true;
+    }
+
+    if (this.state === 'open') {
+      if (Date.now() - this.openedAt < this.options.resetTimeoutMs) {
+        return false;
+      }
+      this.state = 'half-open';
+    }
+
+    if (this.trialInFlight) {
+      return false;
+    }
+    this.trialInFlight = true;
+    return true;
+  }
+
+  /** The upstream answered (any non-5xx response) */
+  recordSuccess(): void {
+    this.consecutiveFailures = 0;
+    this.trialInFlight = false;
+    this.state = 'closed';
+  }
+
+  /** The upstream failed (5xx, timeout or network error) */
+  recordFailure(): void {
+    if (this.options.failureThreshold <= 0) {
+      return;
+    }
+    this.consecutiveFailures++;
+    this.trialInFlight = false;
+
+    if (
+      this.state === 'half-open' ||
+      this.consecutiveFailures >= this.options.failureThreshold
+    ) {
+      this.state = 'open';
+      this.openedAt = Date.now();
+    }
+  }
+
+  /** The request ended without telling us anything (e.g. cancelled) */
+  abandonTrial(): void {
+    this.trialInFlight = false;
+  }
+
+  getState(): CircuitState {
+    return this.state;
+  }
+
+  /**
+   * Milliseconds until the open circuit allows a trial request; 0 once it
+   * has, including while that trial is still in progress
+   */
+  get retryAfterMs(): number {
+    if (this.state !== 'open') {
+      return 0;
+    }
+    return Math.max(
+      0,
+      this.openedAt + this.options.resetTimeoutMs - Date.now()
+    );
+  }
+}
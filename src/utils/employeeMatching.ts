@@ -0,0 +1,77 @@
+/**
+ * Employee search matching
+ * The directory search behind bamboo_find_employee, shared with tools that
+ * accept an employee name or email in place of an ID
+ */
+
+import type { BambooEmployee } from '../types.js';
+
+/** Directory request the search runs against; shared so the cache is too */
+export const EMPLOYEE_SEARCH_ENDPOINT =
+  '/employees/directory?fields=id,firstName,lastName,workEmail,jobTitle,department';
+
+/**
+ * Check whether an employee matches a search query: part of the first, last
+ * or full name or work email (case-insensitive), or the exact ID
+ */
+export function matchesEmployeeQuery(
+  employee: BambooEmployee,
+  query: string
+): boolean {
+  const queryLower = query.toLowerCase();
+
+  // Direct field matches
+  if (
+    employee.firstName?.toLowerCase().includes(queryLower) ||
+    employee.lastName?.toLowerCase().includes(queryLower) ||
+    employee.workEmail?.toLowerCase().includes(queryLower) ||
+    employee.id?.toString() === query
+  ) {
+    return true;
+  }
+
+  // Full name search - check if query matches "firstName lastName"
+  if (employee.firstName && employee.lastName) {
+    const fullName = `${employee.firstName} ${employee.lastName}`.toLowerCase();
+    if (fullName.includes(queryLower)) {
+      return true;
+    }
+  }
+
+  return false;
+}
+
+/**
+ * Employees a query names exactly: by ID, work email or full name
+ * (case-insensitive). Several when employees share a name.
+ */
+export function findExactEmployeeMatches(
+  matches: BambooEmployee[],
+  query: string
+): BambooEmployee[] {
+  const queryLower = query.trim().toLowerCase();
+  return matches.filter(
+    (employee) =>
+      employee.id?.toString() === query.trim() ||
+      employee.workEmail?.toLowerCase() === queryLower ||
+      `${employee.firstName || ''} ${employee.lastName || ''}`
+        .trim()
+        .toLowerCase() === queryLower
+  );
+}
+
+/**
+ * Pick the one employee a query means: the only exact ID, full name or work
+ * email match, or else the only partial match. Undefined when nothing
+ * matches, or several employees match exactly or partially.
+ */
+export function resolveEmployeeQuery(
+  matches: BambooEmployee[],
+  query: string
+): BambooEmployee | undefined {
+  const exact = findExactEmployeeMatches(matches, query);
+  if (exact.length > 0) {
+    return exact.length === 1 ? exact[0] : undefined;
+  }
+  return matches.length === 1 ? matches[0] : undefined;
+}
@@ -3,6 +3,18 @@
  * Provides categorized error handling with user-friendly messages and troubleshooting steps
  */
 
+import {
+  AuthenticationError,
+  BambooApiError,
+  CircuitOpenError,
+  MalformedResponseError,
+  NetworkError,
+  NotFoundError,
+  RateLimitError,
+  RequestCancelledError,
+  TimeoutError,
+  getErrorStatus,
+} from '../bamboo-client.js';
 import { mcpLogger } from './mcpLogger.js';
 import type { MCPToolResponse } from '../types.js';
 
@@ -19,6 +31,11 @@ export enum BambooErrorType {
   // Infrastructure errors
   NETWORK_ERROR = 'NETWORK_ERROR',
   TIMEOUT_ERROR = 'TIMEOUT_ERROR',
+  CIRCUIT_OPEN = 'CIRCUIT_OPEN',
+  MALFORMED_RESPONSE = 'MALFORMED_RESPONSE',
+
+  // Client-initiated
+  CANCELLED = 'CANCELLED',
 
   // Unknown errors
   UNKNOWN_ERROR = 'UNKNOWN_ERROR',
@@ -40,6 +57,20 @@ interface BambooErrorResult {
   technicalDetails?: string;
 }
 
+/**
+ * Delay the server or circuit breaker asked for, if the error carries one
+ */
+function getRetryAfterMs(error: Error): number | undefined {
+  if (error instanceof RateLimitError) {
+    return error.retryAfterMs;
+  }
+  // 0 while the breaker's trial request is in progress: no known delay
+  if (error instanceof CircuitOpenError) {
+    return error.retryAfterMs || undefined;
+  }
+  return undefined;
+}
+
 class BambooErrorHandler {
   private readonly httpStatusMessages: Record<number, BambooErrorType> = {
     400: BambooErrorType.VALIDATION,
@@ -54,18 +85,51 @@ class BambooErrorHandler {
   };
 
   /**
-   * Categorize error based on error message and patterns
+   * Categorize an error: typed client errors by class, HTTP errors by status,
+   * and only errors from elsewhere by message keywords
    */
   categorizeError(error: Error): BambooErrorType {
-    const message = error.message.toLowerCase();
+    if (error instanceof RequestCancelledError) {
+      return BambooErrorType.CANCELLED;
+    }
+    if (error instanceof CircuitOpenError) {
+      return BambooErrorType.CIRCUIT_OPEN;
+    }
+    if (error instanceof AuthenticationError) {
+      return BambooErrorType.AUTHENTICATION;
+    }
+    if (error instanceof NotFoundError) {
+      return BambooErrorType.NOT_FOUND;
+    }
+    if (error instanceof RateLimitError) {
+      return BambooErrorType.RATE_LIMIT;
+    }
+    if (error instanceof TimeoutError) {
+      return BambooErrorType.TIMEOUT_ERROR;
+    }
+    if (error instanceof NetworkError) {
+      return BambooErrorType.NETWORK_ERROR;
+    }
+    if (error instanceof MalformedResponseError) {
+      return BambooErrorType.MALFORMED_RESPONSE;
+    }
 
-    // HTTP status code patterns
-    for (const [status, errorType] of Object.entries(this.httpStatusMessages)) {
-      if (message.includes(status) || message.includes(`${status}`)) {
-        return errorType;
-      }
+    const status = getErrorStatus(error);
+    if (status !== undefined) {
+      return (
+        this.httpStatusMessages[status] ??
+        (status >= 400 && status < 500
+          ? BambooErrorType.VALIDATION
+          : BambooErrorType.API_ERROR)
+      );
     }
 
+    if (error instanceof BambooApiError) {
+      return BambooErrorType.API_ERROR;
+    }
+
+    const message = error.message.toLowerCase();
+
     // HTTP status name patterns
     if (
       message.includes('unauthorized') ||
@@ -137,6 +201,9 @@ class BambooErrorHandler {
       [BambooErrorType.NETWORK_ERROR]: `Network error during ${operation}. Please check your internet connection.`,
       [BambooErrorType.TIMEOUT_ERROR]: `Request timeout during ${operation}. The operation took too long to complete.`,
       [BambooErrorType.API_ERROR]: `BambooHR API error during ${operation}. Please try again later.`,
+      [BambooErrorType.MALFORMED_RESPONSE]: `BambooHR returned an unreadable response for ${operation}. Please try again later.`,
+      [BambooErrorType.CIRCUIT_OPEN]: `BambooHR is currently unavailable, so ${operation} was not attempted. Requests are paused briefly after repeated failures.`,
+      [BambooErrorType.CANCELLED]: `Request cancelled during ${operation}. No further BambooHR calls were made.`,
       [BambooErrorType.UNKNOWN_ERROR]: `Unexpected error during ${operation}. Please contact support if this persists.`,
     };
 
@@ -191,6 +258,20 @@ class BambooErrorHandler {
         'Verify your request format is correct',
         'Contact BambooHR support if issue persists',
       ],
+      [BambooErrorType.MALFORMED_RESPONSE]: [
+        'Try again in a few minutes',
+        'Check BambooHR service status',
+        'Verify BAMBOO_SUBDOMAIN points at your BambooHR instance',
+      ],
+      [BambooErrorType.CIRCUIT_OPEN]: [
+        'Wait about 30 seconds and try again',
+        'Check BambooHR service status',
+        'Check the server logs for the failures that opened the circuit',
+      ],
+      [BambooErrorType.CANCELLED]: [
+        'The client cancelled this request',
+        'Run the tool again if you still need the result',
+      ],
       [BambooErrorType.UNKNOWN_ERROR]: [
         'Check the server logs for more details',
         'Try again in a few minutes',
@@ -211,6 +292,8 @@ class BambooErrorHandler {
       BambooErrorType.NETWORK_ERROR,
       BambooErrorType.TIMEOUT_ERROR,
       BambooErrorType.API_ERROR,
+      BambooErrorType.CIRCUIT_OPEN,
+      BambooErrorType.MALFORMED_RESPONSE,
     ].includes(errorType);
   }
 
@@ -223,9 +306,12 @@ class BambooErrorHandler {
       [BambooErrorType.NETWORK_ERROR]: 1000, // 1 second base
       [BambooErrorType.TIMEOUT_ERROR]: 2000, // 2 seconds base
       [BambooErrorType.API_ERROR]: 3000, // 3 seconds base
+      [BambooErrorType.CIRCUIT_OPEN]: 30000, // Default circuit reset timeout
+      [BambooErrorType.MALFORMED_RESPONSE]: 3000,
       [BambooErrorType.AUTHENTICATION]: 0,
       [BambooErrorType.NOT_FOUND]: 0,
       [BambooErrorType.VALIDATION]: 0,
+      [BambooErrorType.CANCELLED]: 0,
       [BambooErrorType.UNKNOWN_ERROR]: 1000,
     };
 
@@ -243,6 +329,33 @@ class BambooErrorHandler {
     const troubleshooting = this.getTroubleshootingSteps(errorType);
     const isRetryable = this.isRetryable(errorType);
 
+    // Cancellation is client-initiated, not a failure worth an error log
+    if (errorType === BambooErrorType.CANCELLED) {
+      mcpLogger.info(context.toolName, `${context.operation} cancelled`, {
+        operation: context.operation,
+        endpoint: context.endpoint,
+      });
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `**${userMessage}**`,
+            _meta: {
+              error: true,
+              errorType,
+              cancelled: true,
+              isRetryable: false,
+              operation: context.operation,
+              toolName: context.toolName,
+              timestamp: new Date().toISOString(),
+            },
+          },
+        ],
+        isError: true,
+      };
+    }
+
     // Log structured error data
     mcpLogger.error(context.toolName, `${context.operation} failed`, {
       errorType,
@@ -278,10 +391,14 @@ ${troubleshootingText}${retryNote}`,
             operation: context.operation,
             toolName: context.toolName,
             timestamp: new Date().toISOString(),
-            retryDelay: isRetryable ? this.getRetryDelay(errorType) : undefined,
+            statusCode: getErrorStatus(error),
+            retryDelay: isRetryable
+              ? (getRetryAfterMs(error) ?? this.getRetryDelay(errorType))
+              : undefined,
           },
         },
       ],
+      isError: true,
     };
   }
 
@@ -3,6 +3,17 @@
  * Provides error formatting and request validation for MCP protocol compliance
  */
 
+import {
+  AuthenticationError,
+  CircuitOpenError,
+  MalformedResponseError,
+  NetworkError,
+  NotFoundError,
+  RateLimitError,
+  TimeoutError,
+  getErrorStatus,
+} from '../bamboo-client.js';
+
 // Request ID tracking for duplicate detection
 const processedRequestIds = new Set<string>();
 
@@ -53,6 +64,55 @@ export class MCPError extends Error {
   }
 }
 
+/**
+ * Map a typed BambooClient error, or any error carrying an HTTP status,
+ * to an MCP error code. Returns undefined for untyped errors.
+ */
+export function getMCPErrorCode(error: Error): number | undefined {
+  if (error instanceof AuthenticationError) {
+    return error.status === 403
+      ? MCP_ERROR_CODES.UNAUTHORIZED
+      : MCP_ERROR_CODES.AUTHENTICATION_REQUIRED;
+  }
+  if (error instanceof NotFoundError) {
+    return MCP_ERROR_CODES.RESOURCE_NOT_FOUND;
+  }
+  if (error instanceof RateLimitError) {
+    return MCP_ERROR_CODES.RATE_LIMIT_EXCEEDED;
+  }
+  if (
+    error instanceof TimeoutError ||
+    error instanceof NetworkError ||
+    error instanceof CircuitOpenError
+  ) {
+    return MCP_ERROR_CODES.NETWORK_ERROR;
+  }
+  if (error instanceof MalformedResponseError) {
+    return MCP_ERROR_CODES.TOOL_EXECUTION_FAILED;
+  }
+
+  const status = getErrorStatus(error);
+  if (status === undefined) {
+    return undefined;
+  }
+  switch (status) {
+    case 400:
+      return MCP_ERROR_CODES.INVALID_PARAMS;
+    case 401:
+      return MCP_ERROR_CODES.AUTHENTICATION_REQUIRED;
+    case 403:
+      return MCP_ERROR_CODES.UNAUTHORIZED;
+    case 404:
+      return MCP_ERROR_CODES.RESOURCE_NOT_FOUND;
+    case 429:
+      return MCP_ERROR_CODES.RATE_LIMIT_EXCEEDED;
+    default:
+      return status >= 500
+        ? MCP_ERROR_CODES.NETWORK_ERROR
+        : MCP_ERROR_CODES.TOOL_EXECUTION_FAILED;
+  }
+}
+
 /**
  * Formats errors into MCP-compliant response structure with enhanced categorization
  */
@@ -68,19 +128,25 @@ export function formatMCPErrorResponse(error: unknown, context = 'unknown') {
   } else if (error instanceof Error) {
     message = error.message;
 
-    // Categorize error types based on message content
+    // Typed errors and HTTP statuses first; message content only for untyped errors
+    const typedCode = getMCPErrorCode(error);
     const errorMsg = error.message.toLowerCase();
 
-    if (errorMsg.includes('api key') || errorMsg.includes('authentication')) {
+    if (typedCode !== undefined) {
+      code = typedCode;
+    } else if (
+      errorMsg.includes('api key') ||
+      errorMsg.includes('authentication')
+    ) {
       code = MCP_ERROR_CODES.AUTHENTICATION_REQUIRED;
     } else if (
       errorMsg.includes('permission') ||
       errorMsg.includes('unauthorized')
     ) {
       code = MCP_ERROR_CODES.UNAUTHORIZED;
-    } else if (errorMsg.includes('not found') || errorMsg.includes('404')) {
+    } else if (errorMsg.includes('not found')) {
       code = MCP_ERROR_CODES.RESOURCE_NOT_FOUND;
-    } else if (errorMsg.includes('rate limit') || errorMsg.includes('429')) {
+    } else if (errorMsg.includes('rate limit')) {
       code = MCP_ERROR_CODES.RATE_LIMIT_EXCEEDED;
     } else if (errorMsg.includes('network') || errorMsg.includes('timeout')) {
       code = MCP_ERROR_CODES.NETWORK_ERROR;
@@ -88,9 +154,11 @@ export function formatMCPErrorResponse(error: unknown, context = 'unknown') {
       code = MCP_ERROR_CODES.TOOL_EXECUTION_FAILED;
     }
 
+    const statusCode = getErrorStatus(error);
     data = {
       originalError: error.name,
       context: context,
+      ...(statusCode !== undefined && { statusCode }),
     };
   } else if (typeof error === 'string') {
     message = error;
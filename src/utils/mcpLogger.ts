@@ -3,58 +3,124 @@
  * Provides structured logging with MCP notification support and fallback to console
  */
 
+import { AsyncLocalStorage } from 'node:async_hooks';
 import type { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import type { LoggingLevel } from '@modelcontextprotocol/sdk/types.js';
+import {
+  DEFAULT_SANITIZATION_RULES,
+  sanitizeData,
+  type SanitizationRule,
+} from './sanitize.js';
 
 interface LogData {
   [key: string]: any;
 }
 
-type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+/**
+ * RFC 5424 severities used by MCP `notifications/message`, least severe first
+ */
+const MCP_LOG_LEVELS: readonly LoggingLevel[] = [
+  'debug',
+  'info',
+  'notice',
+  'warning',
+  'error',
+  'critical',
+  'alert',
+  'emergency',
+];
+
+/** Any MCP level; `warn` is accepted as shorthand for `warning` */
+type LogLevel = LoggingLevel | 'warn';
+
+const LOG_LEVELS: readonly LogLevel[] = [...MCP_LOG_LEVELS, 'warn'];
+
+/** Logs kept for a server that is not attached yet; older ones are dropped */
+const MAX_QUEUED_LOGS = 1000;
+
+/**
+ * Logger names the server emits (the `logger` field of each message),
+ * keyed by the short category names that can also be used in settings
+ */
+const LOG_CATEGORIES = {
+  server: 'server',
+  startup: 'startup',
+  toolExecution: 'tool-execution',
+  bambooClient: 'bamboo-client',
+  employee: 'employee-handler',
+  analytics: 'analytics-handler',
+  timeOff: 'time-off-handler',
+  organization: 'organization-handler',
+  dataset: 'dataset-handler',
+  report: 'report-handler',
+  resource: 'resource-handler',
+  company: 'company-handler',
+  httpTransport: 'http-transport',
+  progress: 'progress',
+} as const;
+
+type LogCategory = keyof typeof LOG_CATEGORIES;
+
+/**
+ * Logger name for a category given either way (`timeOff` or
+ * `time-off-handler`); undefined if unknown
+ */
+function resolveLogCategory(name: string): string | undefined {
+  if (name in LOG_CATEGORIES) {
+    return LOG_CATEGORIES[name as LogCategory];
+  }
+  return (Object.values(LOG_CATEGORIES) as string[]).includes(name)
+    ? name
+    : undefined;
+}
 
-interface SanitizationRule {
-  pattern: RegExp;
-  replacement: string;
+function normalizeLogLevel(level: LogLevel): LoggingLevel {
+  return level === 'warn' ? 'warning' : level;
 }
 
 interface MCPLoggerConfig {
   minLevel: LogLevel;
+  /** Per-category minimum levels, overriding minLevel for that category */
+  categoryLevels: Record<string, LogLevel>;
   enableConsoleOutput: boolean;
   sanitizationRules: SanitizationRule[];
 }
 
 interface LogEntry {
-  level: LogLevel;
+  level: LoggingLevel;
   logger: string;
   message: string;
   data?: LogData;
   timestamp: string;
 }
 
+/**
+ * Console-style logger bound to one category, e.g. for BambooClient
+ */
+interface CategoryLogger {
+  debug: (msg: string, ...args: unknown[]) => void;
+  info: (msg: string, ...args: unknown[]) => void;
+  warn: (msg: string, ...args: unknown[]) => void;
+  error: (msg: string, ...args: unknown[]) => void;
+}
+
 class MCPLogger {
-  private server: Server | null = null;
+  /** Receives logs written outside any session (the stdio server) */
+  private server?: Server;
+  /** One per open HTTP session; each only receives its own session's logs */
+  private sessionServers = new Set<Server>();
+  private readonly sessionServer = new AsyncLocalStorage<Server>();
+  /** Levels clients chose with `logging/setLevel`, for their server only */
+  private serverLevels = new WeakMap<Server, LogLevel>();
   private config: MCPLoggerConfig;
   private logQueue: LogEntry[] = [];
-  private levelPriority: Record<LogLevel, number> = {
-    debug: 0,
-    info: 1,
-    warn: 2,
-    error: 3,
-  };
 
   constructor(config: Partial<MCPLoggerConfig> = {}) {
     this.config = {
       minLevel: 'info',
+      categoryLevels: {},
       enableConsoleOutput: true,
-      sanitizationRules: [
-        { pattern: /api[_-]?key/i, replacement: '[REDACTED]' },
-        { pattern: /password/i, replacement: '[REDACTED]' },
-        { pattern: /token/i, replacement: '[REDACTED]' },
-        { pattern: /authorization/i, replacement: '[REDACTED]' },
-        {
-          pattern: /bearer\s+[a-zA-Z0-9_-]+/i,
-          replacement: 'Bearer [REDACTED]',
-        },
-      ],
+      sanitizationRules: DEFAULT_SANITIZATION_RULES,
       ...config,
     };
   }
@@ -69,18 +135,87 @@ class MCPLogger {
   }
 
   /**
-   * Set the minimum log level
+   * Attach the MCP server instance of an HTTP session. It only receives
+   * what is logged inside `runInSession` for it.
+   */
+  addServer(server: Server): void {
+    this.sessionServers.add(server);
+  }
+
+  /**
+   * Detach an MCP server instance, e.g. when its session closes
+   */
+  removeServer(server: Server): void {
+    this.sessionServers.delete(server);
+    if (this.server === server) {
+      this.server = undefined;
+    }
+  }
+
+  /**
+   * Run work for a session's server; everything it logs, including from
+   * async continuations, is sent to that server alone
+   */
+  runInSession<T>(server: Server, work: () => T): T {
+    return this.sessionServer.run(server, work);
+  }
+
+  /**
+   * Set the minimum log level. Categories with their own level keep it.
    */
   setMinLevel(level: LogLevel): void {
     this.config.minLevel = level;
   }
 
   /**
-   * Check if a log level should be processed
+   * Set the minimum level of the logs one server receives, which is what a
+   * client's `logging/setLevel` does. Categories with their own level keep it.
+   */
+  setServerLevel(server: Server, level: LogLevel): void {
+    this.serverLevels.set(server, level);
+  }
+
+  /**
+   * Set or clear (`undefined`) the minimum level for one category
+   */
+  setCategoryLevel(category: string, level: LogLevel | undefined): void {
+    const logger = resolveLogCategory(category) ?? category;
+    const { [logger]: _previous, ...categoryLevels } =
+      this.config.categoryLevels;
+    this.config.categoryLevels = level
+      ? { ...categoryLevels, [logger]: level }
+      : categoryLevels;
+  }
+
+  /**
+   * Change any part of the configuration, e.g. after a config reload
    */
-  private shouldLog(level: LogLevel): boolean {
+  configure(config: Partial<MCPLoggerConfig>): void {
+    this.config = { ...this.config, ...config };
+  }
+
+  /**
+   * Minimum level in effect for a logger name, optionally on one server
+   */
+  getEffectiveLevel(logger: string, server?: Server): LoggingLevel {
+    return normalizeLogLevel(
+      this.config.categoryLevels[logger] ??
+        (server && this.serverLevels.get(server)) ??
+        this.config.minLevel
+    );
+  }
+
+  /**
+   * Check if a log level should be processed for a logger
+   */
+  private shouldLog(
+    level: LoggingLevel,
+    logger: string,
+    server?: Server
+  ): boolean {
     return (
-      this.levelPriority[level] >= this.levelPriority[this.config.minLevel]
+      MCP_LOG_LEVELS.indexOf(level) >=
+      MCP_LOG_LEVELS.indexOf(this.getEffectiveLevel(logger, server))
     );
   }
 
@@ -93,23 +228,35 @@ class MCPLogger {
     message: string,
     data?: LogData
   ): Promise<void> {
-    if (!this.shouldLog(level)) {
+    const mcpLevel = normalizeLogLevel(level);
+    const session = this.sessionServer.getStore();
+    if (!this.shouldLog(mcpLevel, logger, session ?? this.server)) {
       return;
     }
 
     const entry: LogEntry = {
-      level,
+      level: mcpLevel,
       logger,
       message,
       data: data ? this.sanitizeData(data) : undefined,
       timestamp: new Date().toISOString(),
     };
 
-    if (this.server) {
-      await this.sendLogEntry(entry);
+    if (session) {
+      // Never another session's client, nor any once the session closed
+      if (this.sessionServers.has(session)) {
+        await this.sendLogEntry(session, entry);
+      } else if (this.config.enableConsoleOutput) {
+        this.consoleLog(entry);
+      }
+    } else if (this.server) {
+      await this.sendLogEntry(this.server, entry);
     } else {
       // Queue for later or use console fallback
       this.logQueue.push(entry);
+      if (this.logQueue.length > MAX_QUEUED_LOGS) {
+        this.logQueue.shift();
+      }
       if (this.config.enableConsoleOutput) {
         this.consoleLog(entry);
       }
@@ -120,29 +267,31 @@ class MCPLogger {
    * Flush queued logs when server becomes available
    */
   private async flushQueuedLogs(): Promise<void> {
-    while (this.logQueue.length > 0) {
+    while (this.logQueue.length > 0 && this.server) {
       const entry = this.logQueue.shift()!;
-      await this.sendLogEntry(entry);
+      await this.sendLogEntry(this.server, entry);
     }
   }
 
   /**
    * Send log entry via MCP notification with console fallback
    */
-  private async sendLogEntry(entry: LogEntry): Promise<void> {
+  private async sendLogEntry(server: Server, entry: LogEntry): Promise<void> {
     try {
-      if (this.server) {
-        await this.server.notification({
-          method: 'notifications/message',
-          params: {
-            level: entry.level,
-            logger: entry.logger,
-            message: entry.message,
-            data: entry.data,
-          },
-        });
-      }
+      await server.notification({
+        method: 'notifications/message',
+        params: {
+          level: entry.level,
+          logger: entry.logger,
+          message: entry.message,
+          data: entry.data,
+        },
+      });
     } catch (_error) {
+      // A server whose connection closed is dropped
+      if (!server.transport) {
+        this.removeServer(server);
+      }
       // Fallback to console if MCP notification fails
       if (this.config.enableConsoleOutput) {
         this.consoleLog(entry);
@@ -172,36 +321,13 @@ class MCPLogger {
     if (!data) return data;
 
     try {
-      const sanitized = JSON.parse(JSON.stringify(data));
-      this.applySanitizationRules(sanitized);
-      return sanitized;
+      return sanitizeData(data, this.config.sanitizationRules);
     } catch (_error) {
       // If serialization fails, return safe representation
       return { error: 'Failed to sanitize log data' };
     }
   }
 
-  /**
-   * Apply sanitization rules recursively
-   */
-  private applySanitizationRules(obj: any): void {
-    if (!obj || typeof obj !== 'object') return;
-
-    for (const [key, value] of Object.entries(obj)) {
-      if (typeof value === 'string') {
-        // Check if key matches sensitive patterns
-        for (const rule of this.config.sanitizationRules) {
-          if (rule.pattern.test(key)) {
-            obj[key] = rule.replacement;
-            break;
-          }
-        }
-      } else if (typeof value === 'object' && value !== null) {
-        this.applySanitizationRules(value);
-      }
-    }
-  }
-
   // Domain-specific logging methods for easy adoption
 
   /**
@@ -253,6 +379,13 @@ class MCPLogger {
     this.log(level, 'report-handler', message, data);
   }
 
+  /**
+   * Resource handler logging
+   */
+  resource(level: LogLevel, message: string, data?: LogData): void {
+    this.log(level, 'resource-handler', message, data);
+  }
+
   /**
    * Startup/initialization logging
    */
@@ -260,6 +393,28 @@ class MCPLogger {
     this.log(level, 'startup', message, data);
   }
 
+  /**
+   * Console-style logger that writes to one category; extra arguments
+   * become `additionalData`
+   */
+  forCategory(logger: string): CategoryLogger {
+    const write =
+      (level: LogLevel) =>
+      (msg: string, ...args: unknown[]) =>
+        this.log(
+          level,
+          logger,
+          msg,
+          args.length > 0 ? { additionalData: args } : undefined
+        );
+    return {
+      debug: write('debug'),
+      info: write('info'),
+      warn: write('warning'),
+      error: write('error'),
+    };
+  }
+
   // Convenience methods for common log levels
 
   debug(logger: string, message: string, data?: LogData): void {
@@ -270,19 +425,30 @@ class MCPLogger {
     this.log('info', logger, message, data);
   }
 
+  notice(logger: string, message: string, data?: LogData): void {
+    this.log('notice', logger, message, data);
+  }
+
   warn(logger: string, message: string, data?: LogData): void {
-    this.log('warn', logger, message, data);
+    this.log('warning', logger, message, data);
   }
 
   error(logger: string, message: string, data?: LogData): void {
     this.log('error', logger, message, data);
   }
 
+  critical(logger: string, message: string, data?: LogData): void {
+    this.log('critical', logger, message, data);
+  }
+
   /**
    * Get current configuration
    */
   getConfig(): MCPLoggerConfig {
-    return { ...this.config };
+    return {
+      ...this.config,
+      categoryLevels: { ...this.config.categoryLevels },
+    };
   }
 
   /**
@@ -291,7 +457,7 @@ class MCPLogger {
   getQueueStatus(): { queueLength: number; hasServer: boolean } {
     return {
       queueLength: this.logQueue.length,
-      hasServer: this.server !== null,
+      hasServer: this.server !== undefined || this.sessionServers.size > 0,
     };
   }
 }
@@ -299,5 +465,13 @@ class MCPLogger {
 // Global logger instance
 export const mcpLogger = new MCPLogger();
 
+export {
+  LOG_CATEGORIES,
+  LOG_LEVELS,
+  MCP_LOG_LEVELS,
+  normalizeLogLevel,
+  resolveLogCategory,
+};
+
 // Export types for external use
-export type { LogLevel, LogData, MCPLoggerConfig };
+export type { CategoryLogger, LogCategory, LogLevel, LogData, MCPLoggerConfig };
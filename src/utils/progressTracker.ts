@@ -1,11 +1,37 @@
 /**
  * Progress tracking utilities for MCP 2025-06-18 compliance
+ * Sends notifications/progress for the token supplied in the request _meta
  */
 
-import type { MCPRequest } from '../types.js';
+import type { MCPRequest, ToolContext } from '../types.js';
+import { mcpLogger } from './mcpLogger.js';
+
+export type ProgressToken = string | number;
+
+/**
+ * Progress notification as defined by the MCP spec
+ */
+export interface ProgressNotification {
+  method: 'notifications/progress';
+  params: {
+    progressToken: ProgressToken;
+    progress: number;
+    total?: number;
+    message?: string;
+  };
+}
+
+/**
+ * Sends a notification to the client. In request handlers this should be the
+ * SDK's `extra.sendNotification`, which ties the message to the originating
+ * request (required for the HTTP transport's per-request SSE streams).
+ */
+export type ProgressNotifier = (
+  notification: ProgressNotification
+) => Promise<void>;
 
 export interface ProgressContext {
-  token: string | null;
+  token: ProgressToken | null;
   sendProgress: (
     progress: number,
     total?: number,
@@ -14,7 +40,8 @@ export interface ProgressContext {
 }
 
 export function createProgressContext(
-  progressToken: string | null
+  progressToken: ProgressToken | null,
+  notify?: ProgressNotifier
 ): ProgressContext {
   return {
     token: progressToken,
@@ -23,23 +50,50 @@ export function createProgressContext(
       total?: number,
       message?: string
     ) => {
+      if (progressToken === null || !notify) {
+        return;
+      }
+
       try {
-        // Mock progress notification for now
-        if (progress && total && message) {
-          console.log(`Progress: ${progress}/${total} - ${message}`);
-        }
+        await notify({
+          method: 'notifications/progress',
+          params: {
+            progressToken,
+            progress,
+            ...(total !== undefined && { total }),
+            ...(message !== undefined && { message }),
+          },
+        });
       } catch (error) {
         // Don't fail operation if progress notification fails
-        console.error(
-          '[Progress] Notification failed:',
-          (error as Error).message
-        );
+        mcpLogger.debug('progress', 'Progress notification failed', {
+          progress,
+          total,
+          errorMessage: (error as Error).message,
+        });
       }
     },
   };
 }
 
-export function extractProgressToken(request: MCPRequest): string | null {
+/**
+ * Get the progress reporter for a tool call.
+ * Handlers call this instead of building their own sendProgress closures;
+ * it is a no-op unless the call carries a progress token.
+ */
+export function getProgressReporter(
+  context: ToolContext = {}
+): (progress: number, total: number, message: string) => Promise<void> {
+  return async (progress: number, total: number, message: string) => {
+    if (context.sendProgress && context.isEnabled) {
+      await context.sendProgress(progress, total, message);
+    }
+  };
+}
+
+export function extractProgressToken(
+  request: MCPRequest
+): ProgressToken | null {
   const token = request?.params?._meta?.progressToken;
-  return typeof token === 'string' ? token : null;
+  return typeof token === 'string' || typeof token === 'number' ? token : null;
 }
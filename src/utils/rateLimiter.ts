@@ -0,0 +1,243 @@
+/**
+ * Client-side request throttling for the BambooHR API
+ * Token bucket for request rate plus a semaphore for concurrent requests,
+ * so agent fan-out queues locally instead of tripping BambooHR's 429s
+ */
+
+/**
+ * Raised when a caller's AbortSignal fires while it is queued
+ */
+export class QueueAbortedError extends Error {
+  constructor() {
+    super('Request was cancelled while queued');
+    this.name = 'AbortError';
+  }
+}
+
+function abortableDelay(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new QueueAbortedError());
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timeoutId);
+      reject(new QueueAbortedError());
+    };
+    const timeoutId = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Token bucket. Tokens may go negative: each reservation takes a token
+ * immediately and is told how long to wait, which keeps callers in FIFO order.
+ */
+export class TokenBucket {
+  private tokens: number;
+  private lastRefill = Date.now();
+  private pausedUntil = 0;
+
+  constructor(
+    private readonly ratePerSecond: number,
+    private readonly capacity: number
+  ) {
+    this.tokens = capacity;
+  }
+
+  /**
+   * Reserve a token; returns the milliseconds to wait before using it
+   */
+  reserve(): number {
+    this.refill();
+    this.tokens -= 1;
+    const tokenWait =
+      this.tokens >= 0 ? 0 : (-this.tokens / this.ratePerSecond) * 1000;
+    const pauseWait = Math.max(0, this.pausedUntil - Date.now());
+    return Math.ceil(Math.max(tokenWait, pauseWait));
+  }
+
+  /**
+   * Return a reserved token that was never used (caller cancelled)
+   */
+  refund(): void {
+    this.tokens = Math.min(this.capacity, this.tokens + 1);
+  }
+
+  /**
+   * Hold all reservations until `ms` from now (e.g. after a 429 Retry-After)
+   */
+  pause(ms: number): void {
+    this.pausedUntil = Math.max(this.pausedUntil, Date.now() + ms);
+  }
+
+  private refill(): void {
+    const now = Date.now();
+    const elapsedSeconds = (now - this.lastRefill) / 1000;
+    this.tokens = Math.min(
+      this.capacity,
+      this.tokens + elapsedSeconds * this.ratePerSecond
+    );
+    this.lastRefill = now;
+  }
+}
+
+/**
+ * Counting semaphore with FIFO waiters
+ */
+export class Semaphore {
+  private active = 0;
+  private readonly waiters: Array<() => void> = [];
+
+  constructor(private readonly max: number) {}
+
+  get activeCount(): number {
+    return this.active;
+  }
+
+  get queuedCount(): number {
+    return this.waiters.length;
+  }
+
+  /** True when a new acquire() would have to wait */
+  get isSaturated(): boolean {
+    return this.active >= this.max;
+  }
+
+  async acquire(signal?: AbortSignal): Promise<void> {
+    if (signal?.aborted) {
+      throw new QueueAbortedError();
+    }
+    if (this.active < this.max) {
+      this.active++;
+      return;
+    }
+
+    await new Promise<void>((resolve, reject) => {
+      const grant = () => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+      };
+      const onAbort = () => {
+        const index = this.waiters.indexOf(grant);
+        if (index !== -1) {
+          this.waiters.splice(index, 1);
+        }
+        reject(new QueueAbortedError());
+      };
+      this.waiters.push(grant);
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
+  }
+
+  release(): void {
+    const next = this.waiters.shift();
+    if (next) {
+      // Hand the slot straight to the next waiter; active count is unchanged
+      next();
+    } else {
+      this.active = Math.max(0, this.active - 1);
+    }
+  }
+}
+
+/**
+ * Limits for outgoing requests; 0 disables the corresponding limit
+ */
+export interface RequestLimiterOptions {
+  ratePerSecond: number;
+  burst: number;
+  maxConcurrent: number;
+}
+
+/**
+ * Result of waiting for permission to send a request
+ */
+export interface RequestPermit {
+  /** Milliseconds spent queued before the request could be sent */
+  waitedMs: number;
+  /** Which limits the request waited on */
+  queuedFor: Array<'rate' | 'concurrency'>;
+  release: () => void;
+}
+
+/**
+ * Combined rate and concurrency limiter applied to every network attempt
+ */
+export class RequestLimiter {
+  private readonly bucket: TokenBucket | null;
+  private readonly semaphore: Semaphore | null;
+
+  constructor(options: RequestLimiterOptions) {
+    this.bucket =
+      options.ratePerSecond > 0
+        ? new TokenBucket(
+            options.ratePerSecond,
+            Math.max(1, options.burst || options.ratePerSecond)
+          )
+        : null;
+    this.semaphore =
+      options.maxConcurrent > 0 ? new Semaphore(options.maxConcurrent) : null;
+  }
+
+  /**
+   * Wait for a rate token and a concurrency slot.
+   * Rejects with QueueAbortedError if `signal` fires while queued.
+   */
+  async acquire(signal?: AbortSignal): Promise<RequestPermit> {
+    const startedAt = Date.now();
+    const queuedFor: RequestPermit['queuedFor'] = [];
+
+    if (this.bucket) {
+      const wait = this.bucket.reserve();
+      if (wait > 0) {
+        queuedFor.push('rate');
+        try {
+          await abortableDelay(wait, signal);
+        } catch (error) {
+          this.bucket.refund();
+          throw error;
+        }
+      }
+    }
+
+    if (this.semaphore) {
+      if (this.semaphore.isSaturated) {
+        queuedFor.push('concurrency');
+      }
+      await this.semaphore.acquire(signal);
+    }
+
+    let released = false;
+    return {
+      waitedMs: Date.now() - startedAt,
+      queuedFor,
+      release: () => {
+        if (!released) {
+          released = true;
+          this.semaphore?.release();
+        }
+      },
+    };
+  }
+
+  /**
+   * Hold new requests for `ms` (server asked us to back off)
+   */
+  pause(ms: number): void {
+    this.bucket?.pause(ms);
+  }
+
+  /**
+   * Current limiter state for monitoring
+   */
+  getStats(): { active: number; queued: number } {
+    return {
+      active: this.semaphore?.activeCount ?? 0,
+      queued: this.semaphore?.queuedCount ?? 0,
+    };
+  }
+}
@@ -0,0 +1,50 @@
+/**
+ * Per-tool-call options for BambooClient requests
+ * Carries the call's cancellation signal, queue statistics, stale-cache log,
+ * data access log and trace context into the client, and picks the client
+ * for the call's company
+ */
+
+import type { BambooClient } from '../bamboo-client.js';
+import type {
+  RequestQueueStats,
+  ToolContext,
+  ToolRequestOptions,
+} from '../types.js';
+
+/**
+ * Create an empty queue statistics accumulator for a tool call
+ */
+export function createQueueStats(): RequestQueueStats {
+  return { requests: 0, queued: 0, waitMs: 0, maxWaitMs: 0 };
+}
+
+/**
+ * Get the BambooClient request options for a tool call.
+ * Handlers pass this to every bambooClient.get/post so cancellation, queueing,
+ * stale responses and audited data access are attributed to the call that
+ * made the request.
+ */
+export function getRequestOptions(
+  context: ToolContext = {}
+): ToolRequestOptions {
+  return {
+    signal: context.signal,
+    queueStats: context.queueStats,
+    staleResponses: context.staleResponses,
+    dataAccess: context.dataAccess,
+    traceContext: context.traceContext,
+  };
+}
+
+/**
+ * Get the BambooClient for a tool call's company.
+ * Falls back to the client the handler module was initialized with, which
+ * serves the default company.
+ */
+export function getBambooClient(
+  context: ToolContext,
+  fallback: BambooClient
+): BambooClient {
+  return context.bambooClient ?? fallback;
+}
@@ -0,0 +1,112 @@
+/**
+ * Redaction rules for secrets and PII
+ * mcpLogger strips credentials from log data. What is written to disk (the
+ * fixture recorder's saved API traffic, audit log arguments) also loses the
+ * personal data BambooHR returns.
+ */
+
+/**
+ * Replace the value of any property whose key matches `pattern`
+ */
+export interface SanitizationRule {
+  pattern: RegExp;
+  replacement: string;
+  /** Only apply within objects this accepts */
+  when?: (record: Record<string, unknown>) => boolean;
+}
+
+export const REDACTED = '[REDACTED]';
+
+/**
+ * Default rules, used for log data: credentials
+ */
+export const DEFAULT_SANITIZATION_RULES: SanitizationRule[] = [
+  { pattern: /api[_-]?key/i, replacement: REDACTED },
+  { pattern: /password/i, replacement: REDACTED },
+  { pattern: /token/i, replacement: REDACTED },
+  { pattern: /authorization/i, replacement: REDACTED },
+  {
+    pattern: /bearer\s+[a-zA-Z0-9_-]+/i,
+    replacement: 'Bearer [REDACTED]',
+  },
+];
+
+/**
+ * Rules for recorded fixtures and audit log arguments: credentials, then
+ * personal data BambooHR returns
+ */
+export const FIXTURE_SANITIZATION_RULES: SanitizationRule[] = [
+  ...DEFAULT_SANITIZATION_RULES,
+  { pattern: /e-?mail/i, replacement: REDACTED },
+  { pattern: /phone|mobile/i, replacement: REDACTED },
+  { pattern: /^(ssn|sin|nin)$|social.?security/i, replacement: REDACTED },
+  { pattern: /birth|^dob$/i, replacement: REDACTED },
+  {
+    pattern: /address|^(city|zip(code)?|postal.?code)$/i,
+    replacement: REDACTED,
+  },
+  { pattern: /salary|^pay[_ ]?rate$|compensation/i, replacement: REDACTED },
+  {
+    pattern: /^(first|last|middle|preferred|display|full)[_ ]?name$/i,
+    replacement: REDACTED,
+  },
+  // Employee records name the manager, the org data the person reported to
+  { pattern: /^(supervisor|reports[_ ]?to)$/i, replacement: REDACTED },
+  // Time-off requests and who's out entries name the employee; elsewhere
+  // `name` is a type, policy, holiday or dataset
+  {
+    pattern: /^name$/i,
+    replacement: REDACTED,
+    when: (record) => record.employeeId !== undefined,
+  },
+];
+
+// Free-text values (CSV reports, error messages) can only be scrubbed by shape
+const EMAIL_PATTERN = /[\w.+-]+@[\w-]+(\.[\w-]+)+/g;
+const BEARER_PATTERN = /bearer\s+[a-zA-Z0-9._~+/=-]+/gi;
+
+/**
+ * Apply rules in place to every string or number property, recursively
+ */
+export function applySanitizationRules(
+  obj: unknown,
+  rules: readonly SanitizationRule[] = DEFAULT_SANITIZATION_RULES
+): void {
+  if (!obj || typeof obj !== 'object') return;
+
+  const record = obj as Record<string, unknown>;
+  for (const [key, value] of Object.entries(record)) {
+    if (typeof value === 'string' || typeof value === 'number') {
+      // Check if key matches sensitive patterns
+      for (const rule of rules) {
+        if (rule.pattern.test(key) && (!rule.when || rule.when(record))) {
+          record[key] = rule.replacement;
+          break;
+        }
+      }
+    } else if (typeof value === 'object' && value !== null) {
+      applySanitizationRules(value, rules);
+    }
+  }
+}
+
+/**
+ * Return a sanitized deep copy of JSON-compatible data
+ */
+export function sanitizeData<T>(
+  data: T,
+  rules: readonly SanitizationRule[] = DEFAULT_SANITIZATION_RULES
+): T {
+  const sanitized = JSON.parse(JSON.stringify(data)) as T;
+  applySanitizationRules(sanitized, rules);
+  return sanitized;
+}
+
+/**
+ * Scrub email addresses and bearer tokens from unstructured text
+ */
+export function redactText(text: string): string {
+  return text
+    .replace(BEARER_PATTERN, 'Bearer [REDACTED]')
+    .replace(EMAIL_PATTERN, REDACTED);
+}
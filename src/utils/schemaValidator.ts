@@ -0,0 +1,197 @@
+/**
+ * Minimal JSON Schema validator for tool arguments
+ * Supports the subset of JSON Schema used by BAMBOO_TOOLS input schemas
+ */
+
+/**
+ * JSON Schema subset understood by the validator
+ */
+export interface ToolJsonSchema {
+  type?: 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean';
+  properties?: Readonly<Record<string, ToolJsonSchema>>;
+  required?: readonly string[];
+  additionalProperties?: boolean;
+  items?: ToolJsonSchema;
+  enum?: readonly unknown[];
+  format?: 'date';
+  minLength?: number;
+  minItems?: number;
+  minimum?: number;
+  description?: string;
+}
+
+/**
+ * Single validation failure, `path` uses dot/bracket notation (e.g. `filters[0].field`)
+ */
+export interface SchemaValidationIssue {
+  path: string;
+  message: string;
+  /** Description of the top-level parameter, e.g. which tool lists its values */
+  hint?: string;
+}
+
+const DATE_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/;
+
+/**
+ * Check a YYYY-MM-DD string is a real calendar date (rejects 2024-02-30)
+ */
+export function isValidDateString(value: string): boolean {
+  const match = DATE_PATTERN.exec(value);
+  if (!match) {
+    return false;
+  }
+  const [, year, month, day] = match.map(Number);
+  const date = new Date(Date.UTC(year, month - 1, day));
+  return (
+    date.getUTCFullYear() === year &&
+    date.getUTCMonth() === month - 1 &&
+    date.getUTCDate() === day
+  );
+}
+
+function describeType(value: unknown): string {
+  if (value === null) {
+    return 'null';
+  }
+  if (Array.isArray(value)) {
+    return 'array';
+  }
+  return typeof value;
+}
+
+function matchesType(
+  value: unknown,
+  type: NonNullable<ToolJsonSchema['type']>
+): boolean {
+  switch (type) {
+    case 'object':
+      return (
+        typeof value === 'object' && value !== null && !Array.isArray(value)
+      );
+    case 'array':
+      return Array.isArray(value);
+    case 'integer':
+      return typeof value === 'number' && Number.isInteger(value);
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value);
+    default:
+      return typeof value === type;
+  }
+}
+
+/**
+ * Validate a value against a schema, returning every issue found
+ */
+export function validateAgainstSchema(
+  value: unknown,
+  schema: ToolJsonSchema,
+  path = ''
+): SchemaValidationIssue[] {
+  const label = path || 'arguments';
+
+  if (schema.type && !matchesType(value, schema.type)) {
+    return [
+      {
+        path,
+        message: `${label} must be ${schema.type === 'array' || schema.type === 'object' ? 'an' : 'a'} ${schema.type} (received ${describeType(value)})`,
+      },
+    ];
+  }
+
+  const issues: SchemaValidationIssue[] = [];
+
+  if (schema.enum && !schema.enum.includes(value)) {
+    issues.push({
+      path,
+      message: `${label} must be one of: ${schema.enum.join(', ')}`,
+    });
+  }
+
+  if (typeof value === 'string') {
+    if (
+      schema.minLength !== undefined &&
+      value.trim().length < schema.minLength
+    ) {
+      issues.push({ path, message: `${label} must not be empty` });
+    }
+    if (schema.format === 'date' && !isValidDateString(value)) {
+      issues.push({
+        path,
+        message: `${label} must be a valid date in YYYY-MM-DD format (received "${value}")`,
+      });
+    }
+  }
+
+  if (
+    typeof value === 'number' &&
+    schema.minimum !== undefined &&
+    value < schema.minimum
+  ) {
+    issues.push({
+      path,
+      message: `${label} must be at least ${schema.minimum}`,
+    });
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      issues.push({
+        path,
+        message: `${label} must contain at least ${schema.minItems} item${schema.minItems === 1 ? '' : 's'}`,
+      });
+    }
+    if (schema.items) {
+      value.forEach((item, index) => {
+        issues.push(
+          ...validateAgainstSchema(item, schema.items!, `${path}[${index}]`)
+        );
+      });
+    }
+  }
+
+  if (matchesType(value, 'object')) {
+    const record = value as Record<string, unknown>;
+    const properties = schema.properties || {};
+    const prefix = path ? `${path}.` : '';
+
+    for (const key of schema.required || []) {
+      if (record[key] === undefined) {
+        issues.push({
+          path: `${prefix}${key}`,
+          message: `Missing required parameter: ${prefix}${key}`,
+          ...(properties[key]?.description && {
+            hint: properties[key].description,
+          }),
+        });
+      }
+    }
+
+    for (const [key, propertyValue] of Object.entries(record)) {
+      const propertySchema = properties[key];
+      if (!propertySchema) {
+        if (schema.additionalProperties === false) {
+          issues.push({
+            path: `${prefix}${key}`,
+            message: `Unknown parameter: ${prefix}${key}. Allowed parameters: ${Object.keys(properties).join(', ') || 'none'}`,
+          });
+        }
+        continue;
+      }
+      if (propertyValue !== undefined) {
+        issues.push(
+          ...validateAgainstSchema(
+            propertyValue,
+            propertySchema,
+            `${prefix}${key}`
+          ).map((issue) =>
+            issue.hint || !propertySchema.description
+              ? issue
+              : { ...issue, hint: propertySchema.description }
+          )
+        );
+      }
+    }
+  }
+
+  return issues;
+}
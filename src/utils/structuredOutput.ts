@@ -0,0 +1,111 @@
+/**
+ * Structured output helpers for MCP 2025-06-18 compliance
+ * Normalize BambooHR records into the shapes declared by each tool's outputSchema
+ */
+
+import type {
+  BambooEmployee,
+  BambooTimeOffRequest,
+  BambooWhosOutEntry,
+  EmployeeSummary,
+  TimeOffRequestSummary,
+  WhosOutEntrySummary,
+} from '../types.js';
+
+const EMPLOYEE_SUMMARY_FIELDS = [
+  'id',
+  'firstName',
+  'lastName',
+  'workEmail',
+  'jobTitle',
+  'department',
+] as const;
+
+/**
+ * Convert a value to a string, or undefined for null/empty values.
+ * BambooHR returns numeric IDs and nulls for unset fields.
+ */
+function optionalString(value: unknown): string | undefined {
+  if (value === null || value === undefined || value === '') {
+    return undefined;
+  }
+  return typeof value === 'string' ? value : String(value);
+}
+
+/**
+ * Drop undefined properties so the payload only carries known values
+ */
+function compact<T extends object>(record: T): T {
+  return Object.fromEntries(
+    Object.entries(record).filter(([, value]) => value !== undefined)
+  ) as T;
+}
+
+export function toEmployeeSummary(employee: BambooEmployee): EmployeeSummary {
+  const summary: EmployeeSummary = {};
+  for (const field of EMPLOYEE_SUMMARY_FIELDS) {
+    summary[field] = optionalString(employee[field]);
+  }
+  return compact(summary);
+}
+
+export function toTimeOffRequestSummary(
+  request: BambooTimeOffRequest
+): TimeOffRequestSummary {
+  // BambooHR returns status as { status, lastChanged } on the requests endpoint
+  const rawStatus = request.status as unknown;
+  const status =
+    rawStatus && typeof rawStatus === 'object'
+      ? (rawStatus as { status?: unknown }).status
+      : rawStatus;
+
+  return compact({
+    id: optionalString(request.id),
+    employeeId: optionalString(request.employeeId),
+    name: optionalString(request.name),
+    start: optionalString(request.start),
+    end: optionalString(request.end),
+    type: optionalString(
+      typeof request.type === 'string' ? request.type : request.type?.name
+    ),
+    status: optionalString(status),
+    amount: request.amount
+      ? compact({
+          unit: optionalString(request.amount.unit),
+          amount: optionalString(request.amount.amount),
+        })
+      : undefined,
+  });
+}
+
+export function toWhosOutEntrySummary(
+  entry: BambooWhosOutEntry,
+  timeOffType?: string
+): WhosOutEntrySummary {
+  // Holiday entries have no employee
+  return compact({
+    id: optionalString(entry.id),
+    type: optionalString(entry.type),
+    employeeId: optionalString(entry.employeeId),
+    name: optionalString(entry.name),
+    start: optionalString(entry.start),
+    end: optionalString(entry.end),
+    timeOffType: optionalString(timeOffType),
+  });
+}
+
+/**
+ * Pick string-valued properties from a loosely typed API object
+ */
+export function pickStrings(
+  record: unknown,
+  keys: readonly string[]
+): Record<string, string> {
+  if (!record || typeof record !== 'object') {
+    return {};
+  }
+  const source = record as Record<string, unknown>;
+  return compact(
+    Object.fromEntries(keys.map((key) => [key, optionalString(source[key])]))
+  ) as Record<string, string>;
+}
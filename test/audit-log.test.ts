@@ -0,0 +1,361 @@
+/**
+ * Audit log tests
+ * JSON Lines records, argument sanitization, hash chain verification,
+ * rotation, and the data access BambooClient reports for each call
+ */
+
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import {
+  AUDIT_GENESIS_HASH,
+  AuditLog,
+  AuditLogError,
+  auditAnchorPath,
+  listAuditFiles,
+  verifyAuditLog,
+  type AuditEvent,
+  type AuditRecord,
+} from '../src/audit/auditLog.js';
+import { BambooClient } from '../src/bamboo-client.js';
+import { loadServerConfig } from '../src/config/serverConfig.js';
+import {
+  startFakeBambooServer,
+  type FakeBambooServerHandle,
+} from '../src/devtools/fakeBambooServer.js';
+import * as formatters from '../src/formatters.js';
+import {
+  handleListResources,
+  handleReadResource,
+  initializeResourceHandlers,
+} from '../src/handlers/resourceHandlers.js';
+import type { DataAccessInfo } from '../src/types.js';
+
+const silentLogger = {
+  debug: jest.fn(),
+  info: jest.fn(),
+  warn: jest.fn(),
+  error: jest.fn(),
+  fatal: jest.fn(),
+  child: jest.fn(),
+};
+
+const event = (overrides: Partial<AuditEvent> = {}): AuditEvent => ({
+  method: 'tools/call',
+  target: 'bamboo_find_employee',
+  arguments: { query: 'ada' },
+  client: { name: 'test-client', version: '1.0.0', transport: 'stdio' },
+  dataAccess: [
+    { method: 'GET', endpoint: '/employees/directory', records: 12 },
+  ],
+  durationMs: 42,
+  outcome: 'success',
+  ...overrides,
+});
+
+const readRecords = (filePath: string): AuditRecord[] =>
+  fs
+    .readFileSync(filePath, 'utf8')
+    .trim()
+    .split('\n')
+    .map((line) => JSON.parse(line) as AuditRecord);
+
+describe('Audit log', () => {
+  let dir: string;
+  let filePath: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'bamboo-audit-'));
+    filePath = path.join(dir, 'logs', 'audit.jsonl');
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  test('appends one chained JSON line per call', () => {
+    const log = new AuditLog({ filePath });
+    log.write(
+      event({
+        company: 'acme',
+        dataAccess: [
+          { method: 'GET', endpoint: '/employees/directory', records: 12 },
+          { method: 'GET', endpoint: '/time_off/whos_out', records: 3 },
+        ],
+      }),
+      new Date('2025-01-15T09:00:00.000Z')
+    );
+    log.write(
+      event({
+        target: 'bamboo_whos_out',
+        outcome: 'error',
+        error: 'boom',
+        dataAccess: [],
+      })
+    );
+
+    const [first, second] = readRecords(filePath);
+    expect(first).toMatchObject({
+      seq: 1,
+      timestamp: '2025-01-15T09:00:00.000Z',
+      method: 'tools/call',
+      target: 'bamboo_find_employee',
+      company: 'acme',
+      client: { name: 'test-client', version: '1.0.0', transport: 'stdio' },
+      arguments: { query: 'ada' },
+      recordCount: 15,
+      durationMs: 42,
+      outcome: 'success',
+      prevHash: AUDIT_GENESIS_HASH,
+    });
+    expect(first.hash).toMatch(/^[0-9a-f]{64}$/);
+    expect(second).toMatchObject({
+      seq: 2,
+      outcome: 'error',
+      error: 'boom',
+      recordCount: 0,
+      prevHash: first.hash,
+    });
+    expect(verifyAuditLog(filePath)).toEqual({
+      valid: true,
+      records: 2,
+      files: [filePath],
+      last: { seq: 2, hash: second.hash },
+    });
+  });
+
+  test('arguments are sanitized before they are written', () => {
+    const log = new AuditLog({ filePath });
+    log.write(
+      event({
+        arguments: { query: 'ada', workEmail: 'ada@example.com', apiKey: 'k' },
+      })
+    );
+
+    expect(readRecords(filePath)[0].arguments).toEqual({
+      query: 'ada',
+      workEmail: '[REDACTED]',
+      apiKey: '[REDACTED]',
+    });
+  });
+
+  test('verification finds edited, removed and reordered records', () => {
+    const log = new AuditLog({ filePath });
+    for (let index = 0; index < 4; index++) {
+      log.write(event({ durationMs: index }));
+    }
+    const lines = fs.readFileSync(filePath, 'utf8').trim().split('\n');
+    const check = (tampered: string[]) => {
+      fs.writeFileSync(filePath, `${tampered.join('\n')}\n`);
+      return verifyAuditLog(filePath);
+    };
+
+    const edited = [...lines];
+    edited[1] = edited[1].replace('"outcome":"success"', '"outcome":"error"');
+    expect(check(edited)).toMatchObject({
+      valid: false,
+      records: 1,
+      error: { file: filePath, line: 2, message: 'hash mismatch for record 2' },
+    });
+
+    expect(check([lines[0], lines[2], lines[3]]).error).toEqual({
+      file: filePath,
+      line: 2,
+      message: 'record 3 does not follow record 1',
+    });
+
+    expect(check([lines[0], lines[2], lines[1], lines[3]]).valid).toBe(false);
+    expect(check([...lines, '{"seq":']).error?.message).toBe('not valid JSON');
+
+    // The first record must follow the genesis hash
+    expect(check(lines.slice(1)).error).toEqual({
+      file: filePath,
+      line: 1,
+      message: 'record 2 does not follow record 0',
+    });
+  });
+
+  test('keyed hashes only verify with the same key', () => {
+    const log = new AuditLog({ filePath, key: 'audit-secret' });
+    log.write(event());
+    log.write(event());
+
+    expect(verifyAuditLog(filePath, 'audit-secret').valid).toBe(true);
+    expect(verifyAuditLog(filePath, 'other-secret').error?.message).toBe(
+      'hash mismatch for record 1'
+    );
+    expect(verifyAuditLog(filePath).valid).toBe(false);
+  });
+
+  test('rotates by size, keeps the newest files, and chains across them', () => {
+    const log = new AuditLog({ filePath, maxBytes: 1024, maxFiles: 2 });
+    for (let index = 0; index < 12; index++) {
+      log.write(event({ durationMs: index }));
+    }
+
+    const files = listAuditFiles(filePath);
+    expect(files).toEqual([`${filePath}.2`, `${filePath}.1`, filePath]);
+    files.forEach((file) =>
+      expect(fs.statSync(file).size).toBeLessThanOrEqual(1024)
+    );
+
+    // The oldest file no longer starts at the genesis record, but at the
+    // anchor rotation left
+    const oldest = readRecords(files[0])[0];
+    expect(oldest.seq).toBeGreaterThan(1);
+    const anchor = JSON.parse(
+      fs.readFileSync(auditAnchorPath(filePath), 'utf8')
+    ) as { seq: number; hash: string };
+    expect(anchor).toMatchObject({
+      seq: oldest.seq - 1,
+      hash: oldest.prevHash,
+    });
+    const result = verifyAuditLog(filePath);
+    expect(result.valid).toBe(true);
+    expect(result.records).toBe(13 - oldest.seq);
+  });
+
+  test('records removed after rotation or a moved anchor are found', () => {
+    const key = 'audit-secret';
+    const log = new AuditLog({ filePath, maxBytes: 1024, maxFiles: 2, key });
+    for (let index = 0; index < 12; index++) {
+      log.write(event({ durationMs: index }));
+    }
+    const [oldestFile] = listAuditFiles(filePath);
+    const lines = fs.readFileSync(oldestFile, 'utf8').trim().split('\n');
+    const [first, second] = lines.map(
+      (line) => JSON.parse(line) as AuditRecord
+    );
+
+    fs.writeFileSync(oldestFile, `${lines.slice(1).join('\n')}\n`);
+    expect(verifyAuditLog(filePath, key).error).toEqual({
+      file: oldestFile,
+      line: 1,
+      message: `record ${second.seq} does not follow record ${first.seq - 1}`,
+    });
+
+    // Moving the anchor up to hide the removal needs the key
+    const anchorPath = auditAnchorPath(filePath);
+    const anchor = JSON.parse(fs.readFileSync(anchorPath, 'utf8'));
+    fs.writeFileSync(
+      anchorPath,
+      JSON.stringify({ ...anchor, seq: first.seq, hash: first.hash })
+    );
+    expect(verifyAuditLog(filePath, key).error).toEqual({
+      file: anchorPath,
+      line: 1,
+      message: 'anchor hash mismatch',
+    });
+  });
+
+  test('a restarted server continues the existing chain', () => {
+    new AuditLog({ filePath }).write(event());
+    const reopened = new AuditLog({ filePath });
+    const record = reopened.write(event());
+
+    expect(record.seq).toBe(2);
+    expect(record.prevHash).toBe(readRecords(filePath)[0].hash);
+    expect(verifyAuditLog(filePath).valid).toBe(true);
+  });
+
+  test('write failures raise AuditLogError', () => {
+    const log = new AuditLog({ filePath });
+    fs.rmSync(path.dirname(filePath), { recursive: true });
+
+    expect(() => log.write(event())).toThrow(AuditLogError);
+  });
+
+  test('audit settings are read from configuration', () => {
+    const { config } = loadServerConfig({
+      argv: [],
+      env: {
+        BAMBOO_AUDIT_LOG: filePath,
+        BAMBOO_AUDIT_KEY: 'audit-secret',
+        BAMBOO_AUDIT_MAX_FILES: '3',
+      },
+    });
+    expect(config.audit).toEqual({
+      file: filePath,
+      key: 'audit-secret',
+      maxBytes: 10 * 1024 * 1024,
+      maxFiles: 3,
+    });
+    expect(() =>
+      loadServerConfig({ argv: [], env: { BAMBOO_AUDIT_MAX_BYTES: '10' } })
+    ).toThrow('audit.maxBytes');
+  });
+
+  describe('Data access', () => {
+    let server: FakeBambooServerHandle;
+    let client: BambooClient;
+
+    beforeAll(async () => {
+      server = await startFakeBambooServer({ seed: 3, employeeCount: 6 });
+      client = new BambooClient(
+        {
+          apiKey: 'fake-key',
+          subdomain: 'fake',
+          baseUrl: server.baseUrl,
+          maxRetryAttempts: 0,
+        },
+        silentLogger
+      );
+      initializeResourceHandlers({
+        bambooClient: client,
+        formatters,
+        logger: silentLogger,
+      });
+    });
+
+    afterAll(async () => {
+      await server.close();
+    });
+
+    test('the client records endpoints and record counts, cached or not', async () => {
+      const dataAccess: DataAccessInfo[] = [];
+      await client.get('/employees/directory', { dataAccess });
+      await client.get('/employees/directory', { dataAccess });
+      await expect(
+        client.get('/not-an-endpoint', { dataAccess })
+      ).rejects.toThrow();
+
+      expect(dataAccess).toEqual([
+        { method: 'GET', endpoint: '/employees/directory', records: 6 },
+        { method: 'GET', endpoint: '/employees/directory', records: 6 },
+        {
+          method: 'GET',
+          endpoint: '/not-an-endpoint',
+          records: 0,
+          failed: true,
+        },
+      ]);
+    });
+
+    test('resource listings record their data access', async () => {
+      const dataAccess: DataAccessInfo[] = [];
+      await handleListResources(undefined, { dataAccess });
+
+      expect(dataAccess).toEqual([
+        {
+          method: 'GET',
+          endpoint: expect.stringMatching('^/employees/directory\\?'),
+          records: 6,
+        },
+      ]);
+    });
+
+    test('resource reads record their data access', async () => {
+      const dataAccess: DataAccessInfo[] = [];
+      const employeeId = server.data.employees[0].id;
+      await handleReadResource(`employee://${employeeId}`, { dataAccess });
+
+      expect(dataAccess).toEqual([
+        {
+          method: 'GET',
+          endpoint: expect.stringMatching(`^/employees/${employeeId}\\?`),
+          records: 1,
+        },
+      ]);
+    });
+  });
+});
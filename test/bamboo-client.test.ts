@@ -0,0 +1,512 @@
+/**
+ * BambooClient behaviour tests
+ * Exercises request handling against a mocked global fetch (no BambooHR calls)
+ */
+
+import {
+  BambooClient,
+  CircuitOpenError,
+  RequestCancelledError,
+} from '../src/bamboo-client.js';
+import { MemoryCacheStore } from '../src/cache/cacheStore.js';
+import {
+  BambooErrorType,
+  bambooErrorHandler,
+} from '../src/utils/errorHandler.js';
+import type { DataAccessInfo } from '../src/types.js';
+
+const silentLogger = {
+  debug: jest.fn(),
+  info: jest.fn(),
+  warn: jest.fn(),
+  error: jest.fn(),
+};
+
+const jsonResponse = (body: unknown, status = 200): Response =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+
+describe('BambooClient', () => {
+  const originalFetch = global.fetch;
+  let fetchMock: jest.Mock;
+
+  const createClient = () =>
+    new BambooClient(
+      {
+        apiKey: 'test-key',
+        subdomain: 'test-company',
+        retryBaseDelayMs: 10000,
+        retryMaxDelayMs: 10000,
+      },
+      silentLogger
+    );
+
+  beforeEach(() => {
+    fetchMock = jest.fn();
+    global.fetch = fetchMock as unknown as typeof fetch;
+  });
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+  });
+
+  describe('Caching', () => {
+    test('GET responses are served from the configured cache store', async () => {
+      const cacheStore = new MemoryCacheStore();
+      const client = new BambooClient(
+        { apiKey: 'test-key', subdomain: 'test-company', cacheStore },
+        silentLogger
+      );
+      fetchMock.mockImplementation(async () => jsonResponse({ datasets: [] }));
+
+      await client.get('/datasets');
+      await client.get('/datasets');
+
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+      expect(cacheStore.size).toBe(1);
+      expect(client.getCacheStats().entries).toEqual(['GET:/datasets:']);
+    });
+
+    test('TTL follows the per-endpoint rules', async () => {
+      const cacheStore = new MemoryCacheStore();
+      const client = new BambooClient(
+        {
+          apiKey: 'test-key',
+          subdomain: 'test-company',
+          cacheStore,
+          cacheTtlRules: [{ prefix: '/time_off/', ttlMs: 1000 }],
+          cacheTimeoutMs: 60000,
+        },
+        silentLogger
+      );
+      fetchMock.mockImplementation(async () => jsonResponse({}));
+      const before = Date.now();
+
+      await client.get('/time_off/whos_out');
+      await client.get('/employees/directory');
+
+      const expiry = Object.fromEntries(
+        cacheStore.entries().map(([key, entry]) => [key, entry.expires])
+      );
+      expect(expiry['GET:/time_off/whos_out:'] - before).toBeLessThan(2000);
+      expect(
+        expiry['GET:/employees/directory:'] - before
+      ).toBeGreaterThanOrEqual(60000);
+    });
+  });
+
+  describe('Request Coalescing', () => {
+    // fetch that stays pending until release() is called
+    const deferredFetch = (body: unknown) => {
+      let release!: () => void;
+      const gate = new Promise<void>((resolve) => (release = resolve));
+      fetchMock.mockImplementation(async () => {
+        await gate;
+        return jsonResponse(body);
+      });
+      return () => release();
+    };
+
+    test('concurrent identical GETs share one network request', async () => {
+      const client = createClient();
+      const release = deferredFetch({ employees: [{ id: '1' }] });
+
+      const pending = [
+        client.get('/employees/directory'),
+        client.get('/employees/directory'),
+        client.get('/employees/directory'),
+      ];
+      expect(client.getCacheStats().inFlight).toBe(1);
+      release();
+      const results = await Promise.all(pending);
+
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+      results.forEach((result) =>
+        expect(result).toEqual({ employees: [{ id: '1' }] })
+      );
+
+      await client.get('/employees/directory');
+      expect(client.getCacheStats()).toMatchObject({
+        hits: 1,
+        misses: 1,
+        coalesced: 2,
+        inFlight: 0,
+      });
+    });
+
+    test('every coalesced caller records its own queue stats and data access', async () => {
+      const client = createClient();
+      const release = deferredFetch({ employees: [{ id: '1' }, { id: '2' }] });
+      const callers = [0, 1, 2].map(() => ({
+        queueStats: { requests: 0, queued: 0, waitMs: 0, maxWaitMs: 0 },
+        dataAccess: [] as DataAccessInfo[],
+      }));
+
+      const pending = callers.map((options) =>
+        client.get('/employees/directory', options)
+      );
+      release();
+      await Promise.all(pending);
+
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+      for (const { queueStats, dataAccess } of callers) {
+        expect(queueStats).toEqual({
+          requests: 1,
+          queued: 0,
+          waitMs: 0,
+          maxWaitMs: 0,
+        });
+        expect(dataAccess).toEqual([
+          { method: 'GET', endpoint: '/employees/directory', records: 2 },
+        ]);
+      }
+    });
+
+    test('POSTs are never coalesced', async () => {
+      const client = createClient();
+      fetchMock.mockImplementation(async () => jsonResponse({ data: [] }));
+
+      await Promise.all([
+        client.post('/datasets/employee', { fields: ['id'] }),
+        client.post('/datasets/employee', { fields: ['id'] }),
+      ]);
+
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+      expect(client.getCacheStats().coalesced).toBe(0);
+    });
+
+    test('one caller cancelling does not abort the request for others', async () => {
+      const client = createClient();
+      const release = deferredFetch({ datasets: [] });
+      const controller = new AbortController();
+
+      const cancelled = client.get('/datasets', { signal: controller.signal });
+      const kept = client.get('/datasets');
+      controller.abort();
+      release();
+
+      await expect(cancelled).rejects.toBeInstanceOf(RequestCancelledError);
+      await expect(kept).resolves.toEqual({ datasets: [] });
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+    });
+
+    test('a request aborted by its last caller is not joined later', async () => {
+      const client = createClient();
+      fetchMock
+        .mockImplementationOnce(
+          (_url: string, init: RequestInit) =>
+            new Promise((_resolve, reject) => {
+              init.signal!.addEventListener('abort', () =>
+                reject(new DOMException('Aborted', 'AbortError'))
+              );
+            })
+        )
+        .mockImplementationOnce(async () => jsonResponse({ datasets: [] }));
+      const controller = new AbortController();
+
+      const cancelled = client.get('/datasets', { signal: controller.signal });
+      controller.abort();
+      const next = client.get('/datasets');
+
+      await expect(cancelled).rejects.toBeInstanceOf(RequestCancelledError);
+      await expect(next).resolves.toEqual({ datasets: [] });
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+      expect(client.getCacheStats().inFlight).toBe(0);
+    });
+
+    test('errors are shared and not cached', async () => {
+      const client = createClient();
+      fetchMock.mockImplementation(async () =>
+        jsonResponse({ error: 'missing' }, 404)
+      );
+
+      const results = await Promise.allSettled([
+        client.get('/employees/999'),
+        client.get('/employees/999'),
+      ]);
+
+      expect(results.map((r) => r.status)).toEqual(['rejected', 'rejected']);
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+      expect(client.getCacheStats()).toMatchObject({ size: 0, inFlight: 0 });
+    });
+  });
+
+  describe('Request Limiting', () => {
+    const createLimitedClient = (limits: {
+      rateLimitPerSecond?: number;
+      rateLimitBurst?: number;
+      maxConcurrentRequests?: number;
+    }) =>
+      new BambooClient(
+        {
+          apiKey: 'test-key',
+          subdomain: 'test-company',
+          rateLimitPerSecond: 0,
+          maxConcurrentRequests: 0,
+          ...limits,
+        },
+        silentLogger
+      );
+
+    // Let pending limiter/fetch promise chains settle
+    const flush = () => new Promise((resolve) => setImmediate(resolve));
+
+    test('requests beyond the concurrency cap wait for a free slot', async () => {
+      const client = createLimitedClient({ maxConcurrentRequests: 2 });
+      const releases: Array<() => void> = [];
+      fetchMock.mockImplementation(
+        () =>
+          new Promise((resolve) =>
+            releases.push(() => resolve(jsonResponse({ ok: true })))
+          )
+      );
+      const queueStats = { requests: 0, queued: 0, waitMs: 0, maxWaitMs: 0 };
+
+      const pending = ['/meta/a', '/meta/b', '/meta/c'].map((endpoint) =>
+        client.get(endpoint, { queueStats })
+      );
+      await flush();
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+
+      await new Promise((resolve) => setTimeout(resolve, 20));
+      releases[0]();
+      await flush();
+      expect(fetchMock).toHaveBeenCalledTimes(3);
+
+      releases.slice(1).forEach((release) => release());
+      await Promise.all(pending);
+
+      expect(queueStats.requests).toBe(3);
+      expect(queueStats.queued).toBe(1);
+      expect(queueStats.maxWaitMs).toBeGreaterThan(0);
+      expect(silentLogger.info).toHaveBeenCalledWith(
+        expect.stringContaining('by concurrency limit'),
+        '/meta/c',
+        expect.anything()
+      );
+    });
+
+    test('requests beyond the burst are spaced out by the rate limit', async () => {
+      const client = createLimitedClient({
+        rateLimitPerSecond: 20,
+        rateLimitBurst: 1,
+      });
+      fetchMock.mockImplementation(async () => jsonResponse({ ok: true }));
+      const queueStats = { requests: 0, queued: 0, waitMs: 0, maxWaitMs: 0 };
+
+      const startedAt = Date.now();
+      await Promise.all(
+        ['/meta/a', '/meta/b', '/meta/c'].map((endpoint) =>
+          client.get(endpoint, { queueStats })
+        )
+      );
+
+      // Two requests wait ~50ms and ~100ms for tokens
+      expect(Date.now() - startedAt).toBeGreaterThanOrEqual(90);
+      expect(queueStats.queued).toBe(2);
+    });
+
+    test('cancelling a queued request never sends it', async () => {
+      const client = createLimitedClient({ maxConcurrentRequests: 1 });
+      let release!: () => void;
+      fetchMock.mockImplementationOnce(
+        () =>
+          new Promise((resolve) => {
+            release = () => resolve(jsonResponse({ ok: true }));
+          })
+      );
+      const controller = new AbortController();
+
+      const first = client.get('/meta/a');
+      const queued = client.get('/meta/b', { signal: controller.signal });
+      await flush();
+      controller.abort();
+
+      await expect(queued).rejects.toBeInstanceOf(RequestCancelledError);
+      release();
+      await first;
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('Circuit Breaker', () => {
+    const createBreakerClient = (
+      overrides: Partial<ConstructorParameters<typeof BambooClient>[0]> = {}
+    ) =>
+      new BambooClient(
+        {
+          apiKey: 'test-key',
+          subdomain: 'test-company',
+          maxRetryAttempts: 0,
+          circuitBreakerThreshold: 2,
+          circuitBreakerResetMs: 20,
+          ...overrides,
+        },
+        silentLogger
+      );
+
+    test('opens after repeated failures and then fails fast', async () => {
+      const client = createBreakerClient();
+      fetchMock.mockImplementation(async () =>
+        jsonResponse({ error: 'down' }, 503)
+      );
+
+      await expect(client.get('/meta/a')).rejects.toThrow('503');
+      await expect(client.get('/meta/b')).rejects.toThrow('503');
+      const error = await client.get('/meta/c').catch((e: Error) => e);
+
+      expect(error).toBeInstanceOf(CircuitOpenError);
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+      expect(client.getCircuitState()).toBe('open');
+      expect(bambooErrorHandler.categorizeError(error as Error)).toBe(
+        BambooErrorType.CIRCUIT_OPEN
+      );
+    });
+
+    test('callers rejected during the trial request are told it is in progress', async () => {
+      const client = createBreakerClient();
+      fetchMock.mockImplementation(async () =>
+        jsonResponse({ error: 'down' }, 503)
+      );
+      await expect(client.get('/meta/a')).rejects.toThrow('503');
+      await expect(client.get('/meta/b')).rejects.toThrow('503');
+      await new Promise((resolve) => setTimeout(resolve, 25));
+
+      let release!: () => void;
+      const gate = new Promise<void>((resolve) => (release = resolve));
+      fetchMock.mockImplementation(async () => {
+        await gate;
+        return jsonResponse({ data: [] });
+      });
+      const trial = client.get('/meta/trial');
+      const error = await client.get('/meta/c').catch((e: Error) => e);
+      release();
+      await trial;
+
+      expect(error).toBeInstanceOf(CircuitOpenError);
+      expect((error as CircuitOpenError).message).toBe(
+        'BambooHR API is unavailable after repeated failures; not calling /meta/c while a trial request is in progress'
+      );
+      expect(client.getCircuitState()).toBe('closed');
+    });
+
+    test('stops retrying as soon as the circuit opens', async () => {
+      const client = createBreakerClient({
+        maxRetryAttempts: 5,
+        retryBaseDelayMs: 1,
+        retryMaxDelayMs: 1,
+      });
+      fetchMock.mockImplementation(async () =>
+        jsonResponse({ error: 'down' }, 500)
+      );
+
+      await expect(
+        client.post('/datasets/employee', { fields: ['id'] })
+      ).rejects.toBeInstanceOf(CircuitOpenError);
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+    });
+
+    test('serves expired cache entries while open and records them', async () => {
+      const client = createBreakerClient({
+        circuitBreakerThreshold: 1,
+        cacheTimeoutMs: 1,
+      });
+      fetchMock.mockImplementationOnce(async () =>
+        jsonResponse({ employees: [{ id: '1' }] })
+      );
+      await client.get('/employees/directory');
+      await new Promise((resolve) => setTimeout(resolve, 5));
+
+      fetchMock.mockImplementation(async () =>
+        jsonResponse({ error: 'down' }, 503)
+      );
+      await expect(client.get('/meta/fields')).rejects.toThrow('503');
+
+      const staleResponses: { endpoint: string; expiredAt: string }[] = [];
+      const data = await client.get('/employees/directory', {
+        staleResponses,
+      });
+
+      expect(data).toEqual({ employees: [{ id: '1' }] });
+      expect(staleResponses).toEqual([
+        { endpoint: '/employees/directory', expiredAt: expect.any(String) },
+      ]);
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+    });
+
+    test('a successful trial request after the reset timeout closes it', async () => {
+      const client = createBreakerClient({ circuitBreakerThreshold: 1 });
+      fetchMock.mockImplementationOnce(async () =>
+        jsonResponse({ error: 'down' }, 503)
+      );
+      await expect(client.get('/meta/a')).rejects.toThrow('503');
+      expect(client.getCircuitState()).toBe('open');
+
+      await new Promise((resolve) => setTimeout(resolve, 25));
+      fetchMock.mockImplementation(async () => jsonResponse({ ok: true }));
+
+      await expect(client.get('/meta/a')).resolves.toEqual({ ok: true });
+      expect(client.getCircuitState()).toBe('closed');
+    });
+  });
+
+  describe('Cancellation', () => {
+    test('an already-aborted signal rejects without calling fetch', async () => {
+      const controller = new AbortController();
+      controller.abort();
+
+      await expect(
+        createClient().get('/employees/directory', {
+          signal: controller.signal,
+        })
+      ).rejects.toBeInstanceOf(RequestCancelledError);
+      expect(fetchMock).not.toHaveBeenCalled();
+    });
+
+    test('aborting mid-flight aborts the underlying fetch', async () => {
+      fetchMock.mockImplementation(
+        (_url: string, init: RequestInit) =>
+          new Promise((_resolve, reject) => {
+            init.signal!.addEventListener('abort', () =>
+              reject(new DOMException('Aborted', 'AbortError'))
+            );
+          })
+      );
+      const controller = new AbortController();
+
+      const pending = createClient().get('/custom-reports/1', {
+        signal: controller.signal,
+      });
+      controller.abort();
+
+      await expect(pending).rejects.toBeInstanceOf(RequestCancelledError);
+    });
+
+    test('aborting during a retry sleep stops further attempts', async () => {
+      fetchMock.mockResolvedValue(jsonResponse({ error: 'unavailable' }, 503));
+      const controller = new AbortController();
+
+      const pending = createClient().post(
+        '/datasets/employee',
+        { fields: ['id'] },
+        { signal: controller.signal }
+      );
+      // Let the first attempt complete and enter its 10s backoff
+      await new Promise((resolve) => setImmediate(resolve));
+      controller.abort();
+
+      await expect(pending).rejects.toBeInstanceOf(RequestCancelledError);
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+    });
+
+    test('cancelled requests are categorised as CANCELLED', () => {
+      expect(
+        bambooErrorHandler.categorizeError(
+          new RequestCancelledError('/datasets')
+        )
+      ).toBe(BambooErrorType.CANCELLED);
+    });
+  });
+});
@@ -0,0 +1,114 @@
+/**
+ * Cache store tests
+ * Covers LRU eviction, file persistence and per-endpoint TTL resolution
+ */
+
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import {
+  FileCacheStore,
+  MemoryCacheStore,
+  buildCacheTtlRules,
+  resolveCacheTtl,
+} from '../src/cache/cacheStore.js';
+
+const entry = (data: unknown, ttlMs = 60000) => ({
+  data,
+  expires: Date.now() + ttlMs,
+});
+
+describe('Cache Stores', () => {
+  describe('MemoryCacheStore', () => {
+    test('evicts the least recently used entry beyond the size cap', () => {
+      const store = new MemoryCacheStore(2);
+      store.set('a', entry(1));
+      store.set('b', entry(2));
+      store.get('a'); // 'b' is now least recently used
+      store.set('c', entry(3));
+
+      expect(store.size).toBe(2);
+      expect(store.get('b')).toBeUndefined();
+      expect(store.entries().map(([key]) => key)).toEqual(['a', 'c']);
+    });
+
+    test('rejects an invalid size cap', () => {
+      expect(() => new MemoryCacheStore(0)).toThrow('positive integer');
+    });
+  });
+
+  describe('FileCacheStore', () => {
+    let dir: string;
+    let filePath: string;
+
+    beforeEach(() => {
+      dir = fs.mkdtempSync(path.join(os.tmpdir(), 'bamboo-cache-'));
+      filePath = path.join(dir, 'cache.json');
+    });
+
+    afterEach(() => {
+      fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    test('persists live entries across instances', () => {
+      const first = new FileCacheStore({ filePath, namespace: 'acme' });
+      first.set('GET:/datasets:', entry({ datasets: [] }));
+      first.set('GET:/expired:', entry('old', -1));
+      first.flush();
+
+      const second = new FileCacheStore({ filePath, namespace: 'acme' });
+      expect(second.get('GET:/datasets:')?.data).toEqual({ datasets: [] });
+      expect(second.get('GET:/expired:')).toBeUndefined();
+    });
+
+    test('writes the file with owner-only permissions', () => {
+      const store = new FileCacheStore({ filePath });
+      store.set('key', entry('value'));
+      store.flush();
+
+      expect(fs.statSync(filePath).mode & 0o777).toBe(0o600);
+    });
+
+    test('ignores files written for another namespace or corrupt files', () => {
+      const other = new FileCacheStore({ filePath, namespace: 'other' });
+      other.set('key', entry('secret'));
+      other.flush();
+
+      expect(new FileCacheStore({ filePath, namespace: 'acme' }).size).toBe(0);
+
+      fs.writeFileSync(filePath, '{not json');
+      expect(new FileCacheStore({ filePath, namespace: 'acme' }).size).toBe(0);
+    });
+  });
+
+  describe('Per-endpoint TTLs', () => {
+    test('metadata outlives directory data, which outlives time-off data', () => {
+      const rules = buildCacheTtlRules();
+      const ttl = (endpoint: string) => resolveCacheTtl(endpoint, rules, 1);
+
+      expect(ttl('/datasets/employee/fields')).toBeGreaterThan(
+        ttl('/employees/directory?fields=id')
+      );
+      expect(ttl('/employees/directory?fields=id')).toBeGreaterThan(
+        ttl('/time_off/whos_out?start=2024-01-01&end=2024-01-01')
+      );
+      expect(ttl('/custom-reports/42?format=json')).toBe(1);
+    });
+
+    test('time off and changes under /employees/ get the time-off TTL', () => {
+      const rules = buildCacheTtlRules({ timeOffMs: 1234 });
+      const ttl = (endpoint: string) => resolveCacheTtl(endpoint, rules, 1);
+
+      expect(ttl('/employees/7/time_off/calculator?end=2024-12-31')).toBe(1234);
+      expect(ttl('/employees/changed?since=2024-01-01T00:00:00Z')).toBe(1234);
+      expect(ttl('/employees/changed/tables/jobInfo?since=x')).toBe(1234);
+      expect(ttl('/employees/7?fields=time_off')).not.toBe(1234);
+      expect(ttl('/employees/7/tables/time_off/')).not.toBe(1234);
+    });
+
+    test('overrides replace individual defaults', () => {
+      const rules = buildCacheTtlRules({ timeOffMs: 1234 });
+      expect(resolveCacheTtl('/time_off/requests', rules, 1)).toBe(1234);
+    });
+  });
+});
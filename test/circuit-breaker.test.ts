@@ -0,0 +1,74 @@
+/**
+ * Circuit breaker tests
+ * Covers the closed → open → half-open → closed state machine
+ */
+
+import { CircuitBreaker } from '../src/utils/circuitBreaker.js';
+
+describe('CircuitBreaker', () => {
+  const wait = (ms: number) =>
+    new Promise((resolve) => setTimeout(resolve, ms));
+
+  test('opens after consecutive failures; a success resets the count', () => {
+    const breaker = new CircuitBreaker({
+      failureThreshold: 2,
+      resetTimeoutMs: 1000,
+    });
+
+    breaker.recordFailure();
+    breaker.recordSuccess();
+    breaker.recordFailure();
+    expect(breaker.getState()).toBe('closed');
+
+    breaker.recordFailure();
+    expect(breaker.getState()).toBe('open');
+    expect(breaker.tryAcquire()).toBe(false);
+    expect(breaker.retryAfterMs).toBeGreaterThan(900);
+  });
+
+  test('half-open lets a single trial through and reopens if it fails', async () => {
+    const breaker = new CircuitBreaker({
+      failureThreshold: 1,
+      resetTimeoutMs: 10,
+    });
+    breaker.recordFailure();
+    await wait(15);
+
+    expect(breaker.tryAcquire()).toBe(true);
+    expect(breaker.getState()).toBe('half-open');
+    expect(breaker.tryAcquire()).toBe(false);
+    expect(breaker.retryAfterMs).toBe(0);
+
+    breaker.recordFailure();
+    expect(breaker.getState()).toBe('open');
+    expect(breaker.tryAcquire()).toBe(false);
+  });
+
+  test('an abandoned trial frees the slot for the next caller', async () => {
+    const breaker = new CircuitBreaker({
+      failureThreshold: 1,
+      resetTimeoutMs: 10,
+    });
+    breaker.recordFailure();
+    await wait(15);
+
+    expect(breaker.tryAcquire()).toBe(true);
+    breaker.abandonTrial();
+    expect(breaker.tryAcquire()).toBe(true);
+    breaker.recordSuccess();
+    expect(breaker.getState()).toBe('closed');
+  });
+
+  test('a threshold of 0 disables the breaker', () => {
+    const breaker = new CircuitBreaker({
+      failureThreshold: 0,
+      resetTimeoutMs: 1000,
+    });
+    for (let i = 0; i < 10; i++) {
+      breaker.recordFailure();
+    }
+
+    expect(breaker.getState()).toBe('closed');
+    expect(breaker.tryAcquire()).toBe(true);
+  });
+});
@@ -9,6 +9,7 @@ import {
   getToolHandler,
   hasToolHandler,
   initializeToolRouter,
+  validateToolArguments,
 } from '../src/config/toolRouter.js';
 // Initialize domain-specific handlers
 import { initializeEmployeeHandlers } from '../src/handlers/employeeHandlers.js';
@@ -29,6 +30,16 @@ describe('Tool Contracts', () => {
     expect(typeof response.content[0].text).toBe('string');
   };
 
+  // structuredContent must carry every property the outputSchema requires
+  const validateStructuredContent = (toolName: string, response: any) => {
+    const tool = BAMBOO_TOOLS.find((t) => t.name === toolName);
+    expect(response.isError).toBeFalsy();
+    expect(response).toHaveProperty('structuredContent');
+    tool!.outputSchema.required.forEach((prop: string) => {
+      expect(response.structuredContent).toHaveProperty(prop);
+    });
+  };
+
   // Simple validation for LLM-friendly text
   const validateLLMFriendly = (text: string) => {
     // Basic checks - no undefined/null strings
@@ -47,20 +58,29 @@ describe('Tool Contracts', () => {
   test('All tools should return valid MCP response format', () => {
     const tools = [
       'bamboo_find_employee',
+      'bamboo_get_employee',
+      'bamboo_employee_changes',
       'bamboo_whos_out',
       'bamboo_team_info',
       'bamboo_time_off_requests',
+      'bamboo_time_off_balance',
+      'bamboo_list_time_off_types',
+      'bamboo_list_time_off_policies',
       'bamboo_discover_datasets',
       'bamboo_discover_fields',
       'bamboo_workforce_analytics',
       'bamboo_run_custom_report',
       'bamboo_get_employee_photo',
       'bamboo_list_departments',
+      'bamboo_manager_chain',
+      'bamboo_reports',
+      'bamboo_org_chart',
+      'bamboo_list_companies',
     ];
 
     // Just validate that we have these tools defined somewhere
     // (Integration tests will test actual functionality)
-    expect(tools.length).toBe(10);
+    expect(tools.length).toBe(19);
     tools.forEach((tool) => {
       expect(typeof tool).toBe('string');
       expect(tool).toMatch(/^bamboo_[a-z_]+$/);
@@ -185,6 +205,21 @@ describe('Tool Contracts', () => {
       });
     });
 
+    test('Tool output schemas should describe structuredContent', () => {
+      BAMBOO_TOOLS.forEach((tool) => {
+        const schema = tool.outputSchema;
+
+        expect(schema).toHaveProperty('type', 'object');
+        expect(typeof schema.properties).toBe('object');
+        expect(Array.isArray(schema.required)).toBe(true);
+
+        // Every required property must be declared
+        schema.required.forEach((prop: string) => {
+          expect(schema.properties).toHaveProperty(prop);
+        });
+      });
+    });
+
     test('Required parameters should be properly defined', () => {
       const toolsWithRequiredParams = [
         'bamboo_find_employee', // requires 'query'
@@ -348,6 +383,11 @@ describe('Tool Contracts', () => {
       validateMcpResponse(response);
       expect(response.content[0].text).toContain('Employee Data');
       expect(response.content[0].text).toContain('employee');
+      validateStructuredContent(toolName, response);
+      expect(response.structuredContent!.datasets).toEqual([
+        { id: 'employee', name: 'Employee Data' },
+        { id: 'timeoff', name: 'Time Off Data' },
+      ]);
     });
 
     test('tools/call request should handle required parameters', async () => {
@@ -382,6 +422,67 @@ describe('Tool Contracts', () => {
       validateLLMFriendly(response.content[0].text);
       expect(response.content[0].text).toContain('John Smith');
       expect(response.content[0].text).toContain('Engineer');
+      validateStructuredContent(toolName, response);
+      expect(response.structuredContent).toEqual({
+        query: 'John Smith',
+        count: 1,
+        employees: [
+          {
+            id: '123',
+            firstName: 'John',
+            lastName: 'Smith',
+            workEmail: 'john.smith@company.com',
+            jobTitle: 'Engineer',
+            department: 'Engineering',
+          },
+        ],
+      });
+    });
+
+    test('tools/call returns typed entries for bamboo_whos_out', async () => {
+      const toolName = 'bamboo_whos_out';
+      const handler = getToolHandler(toolName);
+
+      jest.spyOn(mockBambooClient, 'get').mockResolvedValue({
+        calendar: [
+          {
+            id: 7,
+            type: 'timeOff',
+            employeeId: 123,
+            name: 'John Smith',
+            start: '2024-01-02',
+            end: '2024-01-04',
+          },
+        ],
+      });
+
+      const response = await handler!(
+        { start_date: '2024-01-01', end_date: '2024-01-07' },
+        { progressToken: null, isEnabled: false, sendProgress: jest.fn() }
+      );
+
+      validateStructuredContent(toolName, response);
+      expect(response.structuredContent).toEqual({
+        startDate: '2024-01-01',
+        endDate: '2024-01-07',
+        count: 1,
+        entries: [
+          {
+            id: '7',
+            type: 'timeOff',
+            employeeId: '123',
+            name: 'John Smith',
+            start: '2024-01-02',
+            end: '2024-01-04',
+          },
+        ],
+      });
+    });
+
+    test('tools/call validation failures are rejected before dispatch', () => {
+      expect(() => validateToolArguments('bamboo_team_info', {})).toThrow(
+        'Missing required parameter: department'
+      );
     });
 
     test('tools/call request should handle invalid tool names', async () => {
@@ -500,16 +601,17 @@ describe('Tool Contracts', () => {
       expect(typeof serverInfo.description).toBe('string');
     });
 
-    test('server capabilities should declare tool support only', async () => {
+    test('server capabilities should declare tool and resource support', async () => {
       // Simulate capabilities negotiation that Claude performs
       const capabilities = {
         tools: {},
+        resources: {},
         elicitation: false,
       };
 
       expect(capabilities).toHaveProperty('tools');
+      expect(capabilities).toHaveProperty('resources');
       expect(capabilities.elicitation).toBe(false);
-      expect(capabilities).not.toHaveProperty('resources');
       expect(capabilities).not.toHaveProperty('prompts');
       expect(capabilities).not.toHaveProperty('sampling');
     });
@@ -0,0 +1,224 @@
+/**
+ * Employee change feed tests
+ * bamboo_employee_changes against the fake API: the change summary, changed
+ * table rows, and field diffs against the snapshot store
+ */
+
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { BambooClient } from '../src/bamboo-client.js';
+import {
+  startFakeBambooServer,
+  type FakeBambooServerHandle,
+} from '../src/devtools/fakeBambooServer.js';
+import * as formatters from '../src/formatters.js';
+import {
+  configureEmployeeSnapshots,
+  handleEmployeeChanges,
+  initializeEmployeeHandlers,
+} from '../src/handlers/employeeHandlers.js';
+import { EmployeeSnapshotStore } from '../src/snapshots/employeeSnapshots.js';
+import type { EmployeeFieldDiff } from '../src/types.js';
+
+const silentLogger = {
+  debug: jest.fn(),
+  info: jest.fn(),
+  warn: jest.fn(),
+  error: jest.fn(),
+  fatal: jest.fn(),
+  child: jest.fn(),
+};
+
+describe('bamboo_employee_changes', () => {
+  let server: FakeBambooServerHandle;
+  let dir: string;
+
+  beforeAll(async () => {
+    server = await startFakeBambooServer({
+      seed: 3,
+      employeeCount: 8,
+      referenceDate: '2024-06-15',
+    });
+    initializeEmployeeHandlers({
+      bambooClient: new BambooClient(
+        {
+          apiKey: 'fake-key',
+          subdomain: 'fake',
+          baseUrl: server.baseUrl,
+          maxRetryAttempts: 0,
+        },
+        silentLogger
+      ),
+      formatters,
+      logger: silentLogger,
+    });
+  });
+
+  afterAll(async () => {
+    configureEmployeeSnapshots(new EmployeeSnapshotStore());
+    await server.close();
+  });
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'bamboo-snapshots-'));
+    configureEmployeeSnapshots(new EmployeeSnapshotStore());
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  test('changes are summarized by type with employee names', async () => {
+    const result = await handleEmployeeChanges({ since: '2024-06-01' });
+    const employees = server.data.employees;
+
+    expect(result.structuredContent).toMatchObject({
+      since: '2024-06-01',
+      latest: '2024-06-15T12:00:00+00:00',
+      type: 'all',
+      counts: { inserted: 2, updated: 3, deleted: 1 },
+      tables: {},
+    });
+    const { changes } = result.structuredContent as {
+      changes: Array<{ employeeId: string; name: string; action: string }>;
+    };
+    expect(changes[0]).toEqual({
+      employeeId: employees[0].id,
+      name: employees[0].displayName,
+      action: 'updated',
+      lastChanged: '2024-06-15T12:00:00+00:00',
+    });
+    // Deleted employees are no longer in the directory
+    expect(changes.find((change) => change.action === 'deleted')).toEqual({
+      employeeId: '108',
+      name: 'Employee 108',
+      action: 'deleted',
+      lastChanged: '2024-06-14T12:00:00+00:00',
+    });
+    expect(result.content[0].text).toContain(
+      '**Employee Changes since 2024-06-01** (2 inserted, 3 updated, 1 deleted)'
+    );
+    expect(result.content[0].text).toContain(
+      `**Inserted**\n• ${employees[5].displayName} (ID: ${employees[5].id})`
+    );
+
+    const inserted = await handleEmployeeChanges({
+      since: '2024-06-01',
+      type: 'inserted',
+    });
+    expect((inserted.structuredContent as { counts: unknown }).counts).toEqual({
+      inserted: 2,
+      updated: 0,
+      deleted: 0,
+    });
+  });
+
+  test('a repeated query sees changes made since the last one', async () => {
+    const args = { since: '2024-06-14', type: 'deleted' };
+    const counts = async () =>
+      (
+        (await handleEmployeeChanges(args)).structuredContent as {
+          counts: { deleted: number };
+        }
+      ).counts.deleted;
+    const changes = server.data.changes;
+
+    expect(await counts()).toBe(1);
+    server.data.changes = [
+      ...changes,
+      {
+        id: '999',
+        action: 'Deleted',
+        lastChanged: '2024-06-15T13:00:00+00:00',
+      },
+    ];
+    try {
+      expect(await counts()).toBe(2);
+    } finally {
+      server.data.changes = changes;
+    }
+  });
+
+  test('changed table rows are included, compensation only if allowed', async () => {
+    const result = await handleEmployeeChanges({
+      since: '2024-06-10',
+      tables: ['jobInfo', 'compensation'],
+    });
+
+    const { tables } = result.structuredContent as {
+      tables: Record<string, Array<{ employeeId: string; rows: unknown[] }>>;
+    };
+    expect(Object.keys(tables)).toEqual(['jobInfo']);
+    expect(tables.jobInfo.map((entry) => entry.employeeId).sort()).toEqual(
+      [server.data.employees[0].id, server.data.employees[5].id].sort()
+    );
+    expect(result.content[0].text).toContain(
+      '**Compensation History Changes**\n• Withheld by the PII policy'
+    );
+  });
+
+  test('field values are diffed against the stored snapshot', async () => {
+    const filePath = path.join(dir, 'snapshots.json');
+    configureEmployeeSnapshots(new EmployeeSnapshotStore(filePath));
+    const employee = server.data.employees[0];
+    const args = { since: '2024-06-15', fields: ['Job Title', 'workPhone'] };
+
+    const first = await handleEmployeeChanges(args);
+    expect((first.structuredContent as { diffs: unknown }).diffs).toEqual([
+      {
+        employeeId: employee.id,
+        name: employee.displayName,
+        baseline: true,
+        changes: [],
+      },
+    ]);
+    expect(first.content[0].text).toContain(
+      `• ${employee.displayName} (ID: ${employee.id}): first snapshot recorded`
+    );
+
+    // A later run, with a fresh store reading the saved file
+    const oldTitle = employee.jobTitle;
+    employee.jobTitle = 'Chief Operating Officer';
+    configureEmployeeSnapshots(new EmployeeSnapshotStore(filePath));
+    try {
+      const second = await handleEmployeeChanges(args);
+      const [diff] = (
+        second.structuredContent as { diffs: EmployeeFieldDiff[] }
+      ).diffs;
+
+      expect(diff).toMatchObject({
+        baseline: false,
+        previousCapture: expect.any(String),
+        changes: [
+          {
+            field: 'jobTitle',
+            label: 'Job Title',
+            before: oldTitle,
+            after: 'Chief Operating Officer',
+          },
+        ],
+      });
+      expect(second.content[0].text).toContain(
+        `Job Title: ${oldTitle} → Chief Operating Officer`
+      );
+    } finally {
+      employee.jobTitle = oldTitle;
+    }
+
+    // Stored values have been through the PII policy
+    const saved = fs.readFileSync(filePath, 'utf8');
+    expect(saved).not.toContain(employee.workPhone);
+    expect(fs.statSync(filePath).mode & 0o777).toBe(0o600);
+  });
+
+  test('unknown diff fields are rejected before any change is fetched', async () => {
+    const result = await handleEmployeeChanges({ fields: ['favouriteColour'] });
+
+    expect(result.isError).toBe(true);
+    expect(result.content[0]._meta).toMatchObject({
+      errorType: 'VALIDATION',
+      unknownFields: ['favouriteColour'],
+    });
+  });
+});
@@ -0,0 +1,213 @@
+/**
+ * Employee profile tests
+ * bamboo_get_employee against the fake API: field resolution through
+ * /meta/fields, grouped sections, history tables and the PII policy
+ */
+
+import { BambooClient } from '../src/bamboo-client.js';
+import {
+  startFakeBambooServer,
+  type FakeBambooServerHandle,
+} from '../src/devtools/fakeBambooServer.js';
+import * as formatters from '../src/formatters.js';
+import {
+  handleGetEmployee,
+  initializeEmployeeHandlers,
+} from '../src/handlers/employeeHandlers.js';
+import {
+  DEFAULT_PII_RULES,
+  configurePiiPolicy,
+} from '../src/privacy/piiPolicy.js';
+import type { RedactedFieldInfo } from '../src/types.js';
+
+const silentLogger = {
+  debug: jest.fn(),
+  info: jest.fn(),
+  warn: jest.fn(),
+  error: jest.fn(),
+  fatal: jest.fn(),
+  child: jest.fn(),
+};
+
+describe('bamboo_get_employee', () => {
+  let server: FakeBambooServerHandle;
+
+  beforeAll(async () => {
+    server = await startFakeBambooServer({ seed: 7, employeeCount: 5 });
+    initializeEmployeeHandlers({
+      bambooClient: new BambooClient(
+        {
+          apiKey: 'fake-key',
+          subdomain: 'fake',
+          baseUrl: server.baseUrl,
+          maxRetryAttempts: 0,
+        },
+        silentLogger
+      ),
+      formatters,
+      logger: silentLogger,
+    });
+  });
+
+  afterAll(async () => {
+    await server.close();
+  });
+
+  afterEach(() => {
+    configurePiiPolicy({ rules: DEFAULT_PII_RULES });
+  });
+
+  test('fields resolve by alias, custom field ID or name and are grouped', async () => {
+    const employee = server.data.employees[2];
+    const context = { redactedFields: [] as RedactedFieldInfo[] };
+    const result = await handleGetEmployee(
+      {
+        employee_id: employee.id,
+        fields: ['jobTitle', 'workPhone', 'shirt size', '4002', 'firstName'],
+      },
+      context
+    );
+
+    expect(result.isError).toBeUndefined();
+    expect(result.structuredContent).toEqual({
+      employeeId: employee.id,
+      name: `${employee.firstName} ${employee.lastName}`,
+      fields: {
+        jobTitle: employee.jobTitle,
+        workPhone: expect.stringMatching(/^\*+\d{4}$/),
+        customShirtSize: employee.customShirtSize,
+        '4002': employee['4002'],
+        firstName: employee.firstName,
+      },
+      sections: [
+        {
+          title: 'Personal',
+          fields: [
+            {
+              field: 'firstName',
+              label: 'First Name',
+              value: employee.firstName,
+            },
+          ],
+        },
+        {
+          title: 'Job',
+          fields: [
+            { field: 'jobTitle', label: 'Job Title', value: employee.jobTitle },
+          ],
+        },
+        {
+          title: 'Contact',
+          fields: [
+            {
+              field: 'workPhone',
+              label: 'Work Phone',
+              value: expect.stringMatching(/^\*+\d{4}$/),
+            },
+          ],
+        },
+        {
+          title: 'Additional Fields',
+          fields: [
+            {
+              field: 'customShirtSize',
+              label: 'Shirt Size',
+              value: employee.customShirtSize,
+            },
+            { field: '4002', label: 'Pronouns', value: employee['4002'] },
+          ],
+        },
+      ],
+      tables: {},
+    });
+    expect(result.content[0].text).toContain('**Additional Fields**');
+    expect(result.content[0].text).toContain(`• Pronouns: ${employee['4002']}`);
+    expect(context.redactedFields).toEqual([
+      { field: 'workPhone', action: 'mask', count: 1 },
+    ]);
+  });
+
+  test('default fields are used when none are named', async () => {
+    const employee = server.data.employees[0];
+    const result = await handleGetEmployee({ employee_id: employee.id });
+
+    const structured = result.structuredContent as {
+      fields: Record<string, string>;
+    };
+    expect(structured.fields).toMatchObject({
+      jobTitle: employee.jobTitle,
+      department: employee.department,
+      hireDate: employee.hireDate,
+      workEmail: employee.workEmail,
+    });
+    expect(structured.fields).not.toHaveProperty('customShirtSize');
+  });
+
+  test('tables are included, and compensation only if the policy allows it', async () => {
+    const employee = server.data.employees[1];
+    const context = { redactedFields: [] as RedactedFieldInfo[] };
+    const withheld = await handleGetEmployee(
+      {
+        employee_id: employee.id,
+        fields: ['firstName'],
+        tables: ['jobInfo', 'compensation'],
+      },
+      context
+    );
+
+    expect(
+      (withheld.structuredContent as { tables: Record<string, unknown[]> })
+        .tables
+    ).toEqual({
+      jobInfo: [
+        expect.objectContaining({
+          date: employee.hireDate,
+          jobTitle: employee.jobTitle,
+          reportsTo: employee.supervisor,
+        }),
+      ],
+    });
+    expect(withheld.content[0].text).toContain(
+      `**Job History**\n• ${employee.hireDate}: Location: ${employee.location}`
+    );
+    expect(withheld.content[0].text).toContain(
+      '**Compensation History**\n• Withheld by the PII policy'
+    );
+    expect(context.redactedFields).toEqual([
+      { field: 'compensation', action: 'drop', count: 1 },
+    ]);
+
+    configurePiiPolicy({ rules: [] });
+    const allowed = await handleGetEmployee({
+      employee_id: employee.id,
+      tables: ['compensation'],
+    });
+    expect(allowed.content[0].text).toMatch(
+      /\*\*Compensation History\*\*\n• \d{4}-\d{2}-\d{2}: Rate: \d+ USD, Type: Salary/
+    );
+  });
+
+  test('unknown fields are reported without calling the employee endpoint', async () => {
+    const result = await handleGetEmployee({
+      employee_id: server.data.employees[0].id,
+      fields: ['jobTitle', 'favouriteColour'],
+    });
+
+    expect(result.isError).toBe(true);
+    expect(result.content[0].text).toContain('Unknown fields: favouriteColour');
+    expect(result.content[0]._meta).toMatchObject({
+      errorType: 'VALIDATION',
+      unknownFields: ['favouriteColour'],
+    });
+  });
+
+  test('a missing employee is reported as not found', async () => {
+    const result = await handleGetEmployee({ employee_id: '999999' });
+
+    expect(result.structuredContent).toBeUndefined();
+    expect(result.content[0]._meta).toMatchObject({
+      error: true,
+      errorType: 'NOT_FOUND',
+    });
+  });
+});
@@ -0,0 +1,314 @@
+/**
+ * Typed error tests
+ * Covers the BambooClient error hierarchy and how both error handlers
+ * classify it by type and status rather than message text
+ */
+
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import {
+  CallToolRequestSchema,
+  ListToolsRequestSchema,
+} from '@modelcontextprotocol/sdk/types.js';
+import {
+  AuthenticationError,
+  BambooApiError,
+  BambooClient,
+  HTTPError,
+  MalformedResponseError,
+  NetworkError,
+  NotFoundError,
+  RateLimitError,
+  TimeoutError,
+} from '../src/bamboo-client.js';
+import { BAMBOO_TOOLS } from '../src/config/toolDefinitions.js';
+import {
+  handleGetEmployee,
+  handleGetEmployeePhoto,
+  initializeEmployeeHandlers,
+} from '../src/handlers/employeeHandlers.js';
+import {
+  BambooErrorType,
+  bambooErrorHandler,
+  handleBambooError,
+} from '../src/utils/errorHandler.js';
+import {
+  MCP_ERROR_CODES,
+  formatMCPErrorResponse,
+} from '../src/utils/mcpErrorHandler.js';
+
+const silentLogger = {
+  debug: jest.fn(),
+  info: jest.fn(),
+  warn: jest.fn(),
+  error: jest.fn(),
+};
+
+describe('Typed Errors', () => {
+  const originalFetch = global.fetch;
+  let fetchMock: jest.Mock;
+
+  const createClient = (requestTimeoutMs = 30000) =>
+    new BambooClient(
+      {
+        apiKey: 'test-key',
+        subdomain: 'test-company',
+        maxRetryAttempts: 0,
+        requestTimeoutMs,
+      },
+      silentLogger
+    );
+
+  // Resolve the client call and return whatever it rejected with
+  const failure = (promise: Promise<unknown>) =>
+    promise.then(
+      () => {
+        throw new Error('Expected the request to fail');
+      },
+      (error: Error) => error
+    );
+
+  beforeEach(() => {
+    fetchMock = jest.fn();
+    global.fetch = fetchMock as unknown as typeof fetch;
+  });
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+  });
+
+  describe('BambooClient', () => {
+    test.each([
+      [401, AuthenticationError],
+      [403, AuthenticationError],
+      [404, NotFoundError],
+      [500, HTTPError],
+    ])('status %i raises %p', async (status, ErrorClass) => {
+      fetchMock.mockResolvedValue(
+        new Response(JSON.stringify({ message: 'nope' }), { status })
+      );
+
+      const error = await failure(createClient().get('/employees/7'));
+
+      expect(error).toBeInstanceOf(ErrorClass);
+      expect(error).toBeInstanceOf(BambooApiError);
+      expect((error as HTTPError).status).toBe(status);
+      expect((error as HTTPError).endpoint).toBe('/employees/7');
+    });
+
+    test('a persistent 429 carries the Retry-After delay', async () => {
+      fetchMock.mockResolvedValue(
+        new Response('slow down', {
+          status: 429,
+          headers: { 'Retry-After': '120' },
+        })
+      );
+
+      const error = await failure(createClient().get('/employees/directory'));
+
+      expect(error).toBeInstanceOf(RateLimitError);
+      expect((error as RateLimitError).retryAfterMs).toBe(120000);
+    });
+
+    test('an unparseable 200 body raises MalformedResponseError', async () => {
+      fetchMock.mockResolvedValue(new Response('<html>login</html>'));
+
+      const error = await failure(createClient().get('/datasets'));
+
+      expect(error).toBeInstanceOf(MalformedResponseError);
+    });
+
+    test('fetch failures raise NetworkError, stalls raise TimeoutError', async () => {
+      fetchMock.mockRejectedValueOnce(new TypeError('fetch failed'));
+      expect(await failure(createClient().get('/meta/users'))).toBeInstanceOf(
+        NetworkError
+      );
+
+      fetchMock.mockImplementation(
+        (_url: string, init: RequestInit) =>
+          new Promise((_resolve, reject) => {
+            init.signal!.addEventListener('abort', () =>
+              reject(new DOMException('Aborted', 'AbortError'))
+            );
+          })
+      );
+      const error = await failure(createClient(10).get('/meta/users'));
+      expect(error).toBeInstanceOf(TimeoutError);
+      expect((error as TimeoutError).timeoutMs).toBe(10);
+    });
+  });
+
+  describe('Classification', () => {
+    test('typed errors map to their BambooErrorType', () => {
+      expect(
+        bambooErrorHandler.categorizeError(
+          new NotFoundError('missing', 404, 'Not Found')
+        )
+      ).toBe(BambooErrorType.NOT_FOUND);
+      expect(
+        bambooErrorHandler.categorizeError(
+          new MalformedResponseError('bad json')
+        )
+      ).toBe(BambooErrorType.MALFORMED_RESPONSE);
+      expect(
+        bambooErrorHandler.categorizeError(new TimeoutError('/datasets', 5000))
+      ).toBe(BambooErrorType.TIMEOUT_ERROR);
+    });
+
+    test('status codes in message text no longer drive classification', () => {
+      // A 500 whose body happens to mention an employee numbered 404
+      const serverError = new HTTPError(
+        'BambooHR API error: 500 Internal Server Error - employee 404 locked',
+        500,
+        'Internal Server Error'
+      );
+      expect(bambooErrorHandler.categorizeError(serverError)).toBe(
+        BambooErrorType.API_ERROR
+      );
+      expect(
+        bambooErrorHandler.categorizeError(new Error('Processed 429 employees'))
+      ).not.toBe(BambooErrorType.RATE_LIMIT);
+    });
+
+    test('axios-style errors are classified by response status', () => {
+      const error = Object.assign(new Error('Request failed'), {
+        response: { status: 403 },
+      });
+      expect(bambooErrorHandler.categorizeError(error)).toBe(
+        BambooErrorType.AUTHENTICATION
+      );
+    });
+
+    test('the photo handler reports a missing employee only for a 404', async () => {
+      const client = createClient();
+      initializeEmployeeHandlers({
+        bambooClient: client,
+        formatters: {},
+        logger: silentLogger,
+      });
+      const getSpy = jest
+        .spyOn(client, 'get')
+        .mockRejectedValueOnce(new NotFoundError('missing', 404, 'Not Found'))
+        .mockRejectedValueOnce(
+          new HTTPError(
+            'BambooHR API error: 500 Internal Server Error - employee 404 locked',
+            500,
+            'Internal Server Error'
+          )
+        );
+
+      const missing = await handleGetEmployeePhoto({ employee_id: '404' });
+      expect(missing.content[0]._meta).toMatchObject({
+        errorType: 'employee_not_found',
+      });
+      const failed = await handleGetEmployeePhoto({ employee_id: '404' });
+      expect(failed.isError).toBe(true);
+      expect(failed.content[0]._meta?.errorType).toBe(
+        BambooErrorType.API_ERROR
+      );
+      getSpy.mockRestore();
+    });
+
+    test('rate limit results report the server-requested retry delay', () => {
+      const result = handleBambooError(
+        new RateLimitError(
+          'Too Many Requests',
+          429,
+          'Too Many Requests',
+          undefined,
+          '/employees/directory',
+          90000
+        ),
+        'employee search',
+        'bamboo_find_employee'
+      );
+
+      expect(result.content[0]._meta).toMatchObject({
+        errorType: BambooErrorType.RATE_LIMIT,
+        statusCode: 429,
+        retryDelay: 90000,
+      });
+    });
+
+    test('MCP error codes follow the error type and status', () => {
+      const forbidden = formatMCPErrorResponse(
+        new AuthenticationError('no access', 403, 'Forbidden'),
+        'test'
+      );
+      expect(forbidden._mcpError.code).toBe(MCP_ERROR_CODES.UNAUTHORIZED);
+      expect(forbidden._mcpError.data).toMatchObject({ statusCode: 403 });
+
+      const network = formatMCPErrorResponse(
+        new NetworkError('ECONNREFUSED'),
+        'test'
+      );
+      expect(network._mcpError.code).toBe(MCP_ERROR_CODES.NETWORK_ERROR);
+
+      const plain = formatMCPErrorResponse(
+        new Error('Report 404 generated'),
+        'test'
+      );
+      expect(plain._mcpError.code).not.toBe(MCP_ERROR_CODES.RESOURCE_NOT_FOUND);
+    });
+  });
+
+  describe('Through the MCP client', () => {
+    // The SDK client checks results against each tool's outputSchema unless
+    // they are flagged as errors
+    const connectClient = async (): Promise<Client> => {
+      initializeEmployeeHandlers({
+        bambooClient: createClient(),
+        formatters: {},
+        logger: silentLogger,
+      });
+      const server = new Server(
+        { name: 'bamboo-mcp-test', version: '1.0.0' },
+        { capabilities: { tools: {} } }
+      );
+      server.setRequestHandler(ListToolsRequestSchema, async () => ({
+        tools: BAMBOO_TOOLS as any,
+      }));
+      server.setRequestHandler(
+        CallToolRequestSchema,
+        async (request) =>
+          (await handleGetEmployee(request.params.arguments ?? {})) as any
+      );
+      const client = new Client({ name: 'error-test', version: '1.0.0' });
+      const [clientTransport, serverTransport] =
+        InMemoryTransport.createLinkedPair();
+      await server.connect(serverTransport);
+      await client.connect(clientTransport);
+      await client.listTools();
+      return client;
+    };
+
+    test.each([
+      [404, 'No data found for employee profile retrieval'],
+      [401, 'Authentication failed for employee profile retrieval'],
+      [500, 'BambooHR API error during employee profile retrieval'],
+    ])(
+      'a %i is returned as an error result with guidance',
+      async (status, guidance) => {
+        fetchMock.mockResolvedValue(
+          new Response(JSON.stringify({ message: 'nope' }), { status })
+        );
+        const client = await connectClient();
+
+        try {
+          const result = await client.callTool({
+            name: 'bamboo_get_employee',
+            arguments: { employee_id: '99999' },
+          });
+
+          expect(result.isError).toBe(true);
+          expect((result.content as Array<{ text: string }>)[0].text).toContain(
+            guidance
+          );
+        } finally {
+          await client.close();
+        }
+      }
+    );
+  });
+});
@@ -0,0 +1,278 @@
+/**
+ * Fake BambooHR API tests
+ * Runs every MCP tool against the local fake server and checks each fault
+ * switch surfaces as the matching client error
+ */
+
+import { BambooClient, type BambooClientConfig } from '../src/bamboo-client.js';
+import { BAMBOO_TOOLS } from '../src/config/toolDefinitions.js';
+import {
+  getToolHandler,
+  initializeToolRouter,
+} from '../src/config/toolRouter.js';
+import {
+  generateFakeData,
+  startFakeBambooServer,
+  type FakeBambooServerHandle,
+} from '../src/devtools/fakeBambooServer.js';
+import { initializeEmployeeHandlers } from '../src/handlers/employeeHandlers.js';
+import { initializeTimeOffHandlers } from '../src/handlers/timeOffHandlers.js';
+import { initializeDatasetHandlers } from '../src/handlers/datasetHandlers.js';
+import { initializeWorkforceAnalyticsHandlers } from '../src/handlers/workforceAnalyticsHandlers.js';
+import { initializeReportHandlers } from '../src/handlers/reportHandlers.js';
+import { initializeOrganizationHandlers } from '../src/handlers/organizationHandlers.js';
+import { initializeCompanyHandlers } from '../src/handlers/companyHandlers.js';
+import { TenantRegistry } from '../src/tenants/tenantRegistry.js';
+import * as formatters from '../src/formatters.js';
+import { validateAgainstSchema } from '../src/utils/schemaValidator.js';
+
+const silentLogger = {
+  debug: jest.fn(),
+  info: jest.fn(),
+  warn: jest.fn(),
+  error: jest.fn(),
+};
+
+const REFERENCE_DATE = '2024-03-15';
+
+describe('Fake BambooHR server', () => {
+  let server: FakeBambooServerHandle;
+
+  const createClient = (config: Partial<BambooClientConfig> = {}) =>
+    new BambooClient(
+      {
+        apiKey: 'fake-key',
+        subdomain: 'fake',
+        baseUrl: server.baseUrl,
+        maxRetryAttempts: 0,
+        rateLimitPerSecond: 0,
+        ...config,
+      },
+      silentLogger
+    );
+
+  beforeAll(async () => {
+    server = await startFakeBambooServer({
+      seed: 42,
+      employeeCount: 30,
+      referenceDate: REFERENCE_DATE,
+    });
+  });
+
+  afterAll(async () => {
+    await server.close();
+  });
+
+  afterEach(() => {
+    server.setFaults({});
+  });
+
+  test('same seed generates the same company', () => {
+    const first = generateFakeData(7, 10, REFERENCE_DATE);
+    const second = generateFakeData(7, 10, REFERENCE_DATE);
+    const other = generateFakeData(8, 10, REFERENCE_DATE);
+
+    expect(first).toEqual(second);
+    expect(first).not.toEqual(other);
+    expect(first.employees).toHaveLength(10);
+    // Every supervisor exists and precedes its report, so the org is a tree
+    first.employees.slice(1).forEach((employee) => {
+      expect(Number(employee.supervisorId)).toBeLessThan(Number(employee.id));
+    });
+  });
+
+  test('every tool works end-to-end against the fake API', async () => {
+    const bambooClient = createClient();
+    const handlerDependencies = {
+      bambooClient,
+      formatters,
+      logger: silentLogger,
+    };
+    initializeEmployeeHandlers(handlerDependencies);
+    initializeTimeOffHandlers(handlerDependencies);
+    initializeDatasetHandlers(handlerDependencies);
+    initializeWorkforceAnalyticsHandlers(handlerDependencies);
+    initializeReportHandlers(handlerDependencies);
+    initializeOrganizationHandlers(handlerDependencies);
+    initializeCompanyHandlers(
+      new TenantRegistry(
+        {
+          defaultCompany: 'fake',
+          companies: [{ name: 'fake', subdomain: 'fake', apiKey: 'fake-key' }],
+        },
+        () => bambooClient
+      )
+    );
+    initializeToolRouter();
+
+    const employee = server.data.employees[3];
+    const toolArgs: Record<string, Record<string, unknown>> = {
+      bamboo_find_employee: { query: employee.lastName },
+      bamboo_get_employee: {
+        employee_id: employee.id,
+        tables: ['jobInfo', 'compensation'],
+      },
+      bamboo_employee_changes: {
+        since: '2000-01-01',
+        type: 'inserted',
+        tables: ['jobInfo', 'compensation'],
+        fields: ['jobTitle'],
+      },
+      bamboo_whos_out: { start_date: '2024-03-01', end_date: '2024-03-31' },
+      bamboo_team_info: { department: employee.department },
+      bamboo_time_off_requests: {
+        start_date: '2024-02-01',
+        end_date: '2024-04-30',
+        type: 'vacation',
+      },
+      bamboo_time_off_balance: {
+        employee: `${employee.firstName} ${employee.lastName}`,
+        date: '2099-12-31',
+      },
+      bamboo_list_time_off_types: {},
+      bamboo_list_time_off_policies: { type: '78' },
+      bamboo_discover_datasets: {},
+      bamboo_discover_fields: { dataset_id: 'employee' },
+      bamboo_workforce_analytics: {
+        dataset_id: 'employee',
+        fields: ['department', 'jobTitle'],
+        filters: [{ field: 'status', operator: 'equal', value: 'Active' }],
+      },
+      bamboo_run_custom_report: { report_id: '101', format: 'json' },
+      bamboo_get_employee_photo: { employee_id: employee.id },
+      bamboo_list_departments: {},
+      bamboo_manager_chain: { employee_id: employee.id },
+      bamboo_reports: { employee_id: server.data.employees[0].id },
+      bamboo_org_chart: { department: employee.department, max_depth: 2 },
+      bamboo_list_companies: {},
+    };
+
+    for (const tool of BAMBOO_TOOLS) {
+      const result = await getToolHandler(tool.name)(toolArgs[tool.name]);
+
+      expect({ tool: tool.name, isError: result.isError }).toEqual({
+        tool: tool.name,
+        isError: undefined,
+      });
+      expect(
+        validateAgainstSchema(result.structuredContent, tool.outputSchema)
+      ).toEqual([]);
+    }
+  });
+
+  test('directory honours the fields parameter', async () => {
+    const directory = (await createClient().get(
+      '/employees/directory?fields=firstName,department'
+    )) as { employees: Array<Record<string, string>> };
+
+    expect(directory.employees).toHaveLength(30);
+    expect(Object.keys(directory.employees[0]).sort()).toEqual([
+      'department',
+      'firstName',
+      'id',
+    ]);
+  });
+
+  test('time-off requests filter by date range and status', async () => {
+    const requests = (await createClient().get(
+      '/time_off/requests?start=2024-03-01&end=2024-03-20&status=approved'
+    )) as Array<{ start: string; end: string; status: { status: string } }>;
+
+    expect(requests.length).toBeGreaterThan(0);
+    requests.forEach((request) => {
+      expect(request.status.status).toBe('approved');
+      expect(request.start <= '2024-03-20').toBe(true);
+      expect(request.end >= '2024-03-01').toBe(true);
+    });
+  });
+
+  test('photos are served as binary images', async () => {
+    const photo = await createClient().getBinary(
+      `/employees/${server.data.employees[0].id}/photo/small`
+    );
+
+    expect(photo.mimeType).toBe('image/png');
+    expect(photo.data.length).toBeGreaterThan(0);
+  });
+
+  test('unknown employees return 404', async () => {
+    await expect(createClient().get('/employees/99999')).rejects.toMatchObject({
+      name: 'NotFoundError',
+      status: 404,
+    });
+  });
+
+  describe('Faults', () => {
+    test('unauthorized switch returns 401', async () => {
+      server.setFaults({ unauthorized: true });
+
+      await expect(
+        createClient().get('/employees/directory')
+      ).rejects.toMatchObject({ name: 'AuthenticationError', status: 401 });
+    });
+
+    test('a configured apiKey rejects other keys', async () => {
+      const strict = await startFakeBambooServer({ apiKey: 'right-key' });
+      try {
+        const wrong = createClient({
+          apiKey: 'wrong-key',
+          baseUrl: strict.baseUrl,
+        });
+        const right = createClient({
+          apiKey: 'right-key',
+          baseUrl: strict.baseUrl,
+        });
+
+        await expect(wrong.get('/datasets')).rejects.toMatchObject({
+          status: 401,
+        });
+        await expect(right.get('/datasets')).resolves.toHaveProperty(
+          'datasets'
+        );
+      } finally {
+        await strict.close();
+      }
+    });
+
+    test('rate limit switch returns 429 with Retry-After, then recovers', async () => {
+      server.setFaults({ rateLimitCount: 1, retryAfterSeconds: 7 });
+
+      await expect(createClient().get('/datasets')).rejects.toMatchObject({
+        name: 'RateLimitError',
+        status: 429,
+        retryAfterMs: 7000,
+      });
+      expect(server.getFaults().rateLimitCount).toBe(0);
+      await expect(createClient().get('/datasets')).resolves.toHaveProperty(
+        'datasets'
+      );
+    });
+
+    test('latency switch makes the client time out', async () => {
+      server.setFaults({ latencyMs: 300 });
+
+      await expect(
+        createClient({ requestTimeoutMs: 50 }).get('/datasets')
+      ).rejects.toMatchObject({ name: 'TimeoutError' });
+    });
+
+    test('malformed switch truncates JSON bodies', async () => {
+      server.setFaults({ malformed: true });
+
+      await expect(createClient().get('/datasets')).rejects.toMatchObject({
+        name: 'MalformedResponseError',
+      });
+    });
+
+    test('faults can be changed over HTTP', async () => {
+      const origin = new URL(server.baseUrl).origin;
+      const response = await fetch(`${origin}/__fake/faults`, {
+        method: 'POST',
+        body: JSON.stringify({ unauthorized: true }),
+      });
+
+      expect(await response.json()).toEqual({ unauthorized: true });
+      expect(server.getFaults()).toEqual({ unauthorized: true });
+    });
+  });
+});
@@ -0,0 +1,232 @@
+/**
+ * Record-and-replay fixture tests
+ * Records mocked BambooHR traffic to a temp directory, checks it is
+ * sanitized, then replays it with the network disabled
+ */
+
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { BambooClient } from '../src/bamboo-client.js';
+import {
+  FixtureNotFoundError,
+  FixtureStore,
+  fixtureFileName,
+} from '../src/fixtures/fixtureStore.js';
+import {
+  FakeBambooServerHandle,
+  startFakeBambooServer,
+} from '../src/devtools/fakeBambooServer.js';
+import {
+  FIXTURE_SANITIZATION_RULES,
+  redactText,
+  sanitizeData,
+} from '../src/utils/sanitize.js';
+
+const silentLogger = {
+  debug: jest.fn(),
+  info: jest.fn(),
+  warn: jest.fn(),
+  error: jest.fn(),
+};
+
+const directory = {
+  employees: [
+    {
+      id: '7',
+      displayName: 'Ada Lovelace',
+      jobTitle: 'Engineer',
+      workEmail: 'ada@example.com',
+      mobilePhone: '555-0100',
+    },
+  ],
+};
+
+describe('Fixtures', () => {
+  const originalFetch = global.fetch;
+  let fetchMock: jest.Mock;
+  let dir: string;
+
+  const createClient = (mode: 'record' | 'replay') =>
+    new BambooClient(
+      {
+        apiKey: 'secret-api-key',
+        subdomain: 'test-company',
+        fixtureStore: new FixtureStore(mode, dir),
+      },
+      silentLogger
+    );
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'bamboo-fixtures-'));
+    fetchMock = jest.fn();
+    global.fetch = fetchMock as unknown as typeof fetch;
+  });
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  test('recorded fixtures are redacted and contain no credentials', async () => {
+    fetchMock.mockResolvedValue(
+      new Response(JSON.stringify(directory), {
+        headers: { 'Content-Type': 'application/json', 'Set-Cookie': 'sid=1' },
+      })
+    );
+
+    await createClient('record').get('/employees/directory');
+
+    const [file] = fs.readdirSync(dir);
+    expect(file).toBe(
+      fixtureFileName({ method: 'GET', endpoint: '/employees/directory' })
+    );
+    const raw = fs.readFileSync(path.join(dir, file), 'utf8');
+    expect(raw).not.toContain('ada@example.com');
+    expect(raw).not.toContain('555-0100');
+    expect(raw).not.toContain('Ada Lovelace');
+    expect(raw).not.toContain('secret-api-key');
+    expect(raw).not.toContain('sid=1');
+    expect(raw).toContain('Engineer');
+  });
+
+  test('replay serves recorded responses without calling fetch', async () => {
+    fetchMock.mockImplementation(
+      async () =>
+        new Response(JSON.stringify(directory), {
+          headers: { 'Content-Type': 'application/json' },
+        })
+    );
+    const recorder = createClient('record');
+    await recorder.get('/employees/directory');
+    await recorder.post('/datasets/employee', { fields: ['id'] });
+    fetchMock.mockReset();
+    fetchMock.mockRejectedValue(new Error('network disabled'));
+
+    const replayer = createClient('replay');
+    const data = (await replayer.get(
+      '/employees/directory'
+    )) as typeof directory;
+
+    expect(data.employees[0]).toMatchObject({
+      id: '7',
+      jobTitle: 'Engineer',
+      workEmail: '[REDACTED]',
+    });
+    await expect(
+      replayer.post('/datasets/employee', { fields: ['id'] })
+    ).resolves.toBeDefined();
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  test('replaying an unrecorded request fails with the expected file path', async () => {
+    const error = await createClient('replay')
+      .get('/meta/users')
+      .catch((e: Error) => e);
+
+    expect(error).toBeInstanceOf(FixtureNotFoundError);
+    expect((error as FixtureNotFoundError).filePath).toContain(dir);
+  });
+
+  test('replay requires an existing directory', () => {
+    expect(() => new FixtureStore('replay', path.join(dir, 'missing'))).toThrow(
+      'does not exist'
+    );
+  });
+
+  test('fixture sanitization rules cover secrets and PII', () => {
+    const data = {
+      apiKey: 'k',
+      nested: { dateOfBirth: '1990-01-01', department: 'R&D' },
+      rows: [{ firstName: 'Ada', homeAddress: '1 Main St' }],
+    };
+    expect(sanitizeData(data, FIXTURE_SANITIZATION_RULES)).toEqual({
+      apiKey: '[REDACTED]',
+      nested: { dateOfBirth: '[REDACTED]', department: 'R&D' },
+      rows: [{ firstName: '[REDACTED]', homeAddress: '[REDACTED]' }],
+    });
+    expect(
+      sanitizeData(
+        {
+          calendar: [{ employeeId: '7', name: 'Ada Lovelace' }],
+          types: [{ id: '1', name: 'Vacation' }],
+          jobInfo: [{ reportsTo: 'Grace Hopper', supervisor: 'Grace Hopper' }],
+        },
+        FIXTURE_SANITIZATION_RULES
+      )
+    ).toEqual({
+      calendar: [{ employeeId: '7', name: '[REDACTED]' }],
+      types: [{ id: '1', name: 'Vacation' }],
+      jobInfo: [{ reportsTo: '[REDACTED]', supervisor: '[REDACTED]' }],
+    });
+    // The logger's default rules only strip credentials
+    expect(sanitizeData(data)).toEqual({ ...data, apiKey: '[REDACTED]' });
+    expect(redactText('Contact ada@example.com, Bearer abc.def')).toBe(
+      'Contact [REDACTED], Bearer [REDACTED]'
+    );
+  });
+});
+
+describe('Fixtures recorded from the fake server', () => {
+  let server: FakeBambooServerHandle;
+  let dir: string;
+
+  beforeAll(async () => {
+    server = await startFakeBambooServer({ seed: 5, employeeCount: 8 });
+  });
+
+  afterAll(async () => {
+    await server.close();
+  });
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'bamboo-fixtures-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  test('time off, supervisors and reporting lines are recorded without employee names', async () => {
+    const client = new BambooClient(
+      {
+        apiKey: 'fake-key',
+        subdomain: 'fake',
+        baseUrl: server.baseUrl,
+        maxRetryAttempts: 0,
+        fixtureStore: new FixtureStore('record', dir),
+      },
+      silentLogger
+    );
+    const { employees, timeOffRequests } = server.data;
+    const start = timeOffRequests.map((r) => r.start).sort()[0];
+    const end = timeOffRequests.map((r) => r.end).sort()[
+      timeOffRequests.length - 1
+    ];
+    const employeeId = employees.find((e) => e.supervisor)!.id;
+
+    const whosOut = (await client.get(
+      `/time_off/whos_out?start=${start}&end=${end}`
+    )) as { calendar: unknown[] };
+    const requests = (await client.get(
+      `/time_off/requests?start=${start}&end=${end}`
+    )) as unknown[];
+    await client.get(`/employees/${employeeId}?fields=supervisor,jobTitle`);
+    await client.get(`/employees/${employeeId}/tables/jobInfo`);
+    expect(whosOut.calendar.length).toBeGreaterThan(0);
+    expect(requests.length).toBeGreaterThan(0);
+
+    const recorded = fs
+      .readdirSync(dir)
+      .map((file) => fs.readFileSync(path.join(dir, file), 'utf8'));
+    expect(recorded).toHaveLength(4);
+    for (const employee of employees) {
+      for (const text of recorded) {
+        expect(text).not.toContain(employee.displayName);
+        expect(text).not.toContain(employee.lastName);
+      }
+    }
+    // Type names are not personal and stay readable
+    expect(recorded.join('\n')).toContain(timeOffRequests[0].type.name);
+  });
+});
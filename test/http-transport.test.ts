@@ -0,0 +1,208 @@
+/**
+ * Streamable HTTP transport tests
+ * Exercises session handling, Host/Origin checks and idle expiry over a real
+ * local HTTP listener (no BambooHR calls)
+ */
+
+import * as http from 'node:http';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { ListToolsRequestSchema } from '@modelcontextprotocol/sdk/types.js';
+import { BAMBOO_TOOLS } from '../src/config/toolDefinitions.js';
+import {
+  startHttpTransport,
+  type HttpTransportHandle,
+} from '../src/transports/httpTransport.js';
+
+const MCP_HEADERS = {
+  'Content-Type': 'application/json',
+  Accept: 'application/json, text/event-stream',
+};
+
+const initializeRequest = {
+  jsonrpc: '2.0',
+  id: 1,
+  method: 'initialize',
+  params: {
+    protocolVersion: '2025-06-18',
+    capabilities: {},
+    clientInfo: { name: 'http-transport-test', version: '1.0.0' },
+  },
+};
+
+// Parse the first JSON-RPC message out of an SSE response body
+const readSseMessage = async (response: Response): Promise<any> => {
+  const body = await response.text();
+  const dataLine = body.split('\n').find((line) => line.startsWith('data: '));
+  expect(dataLine).toBeDefined();
+  return JSON.parse(dataLine!.slice('data: '.length));
+};
+
+describe('Streamable HTTP Transport', () => {
+  let handle: HttpTransportHandle;
+  let endpoint: string;
+
+  const createServer = () => {
+    const server = new Server(
+      { name: 'bamboo-mcp-test', version: '1.1.1' },
+      { capabilities: { tools: {} } }
+    );
+    server.setRequestHandler(ListToolsRequestSchema, async () => ({
+      tools: BAMBOO_TOOLS as any,
+    }));
+    return server;
+  };
+
+  const initializeSession = async (): Promise<string> => {
+    const response = await fetch(endpoint, {
+      method: 'POST',
+      headers: MCP_HEADERS,
+      body: JSON.stringify(initializeRequest),
+    });
+    expect(response.status).toBe(200);
+    const sessionId = response.headers.get('mcp-session-id');
+    expect(sessionId).toBeTruthy();
+    await readSseMessage(response);
+    return sessionId!;
+  };
+
+  beforeAll(async () => {
+    handle = await startHttpTransport(createServer, {
+      port: 0,
+      host: '127.0.0.1',
+    });
+    endpoint = `http://127.0.0.1:${handle.port}/mcp`;
+  });
+
+  afterAll(async () => {
+    await handle.close();
+  });
+
+  test('initialize creates a session and returns server info', async () => {
+    const response = await fetch(endpoint, {
+      method: 'POST',
+      headers: MCP_HEADERS,
+      body: JSON.stringify(initializeRequest),
+    });
+
+    expect(response.headers.get('mcp-session-id')).toBeTruthy();
+    const message = await readSseMessage(response);
+    expect(message.id).toBe(1);
+    expect(message.result.serverInfo.name).toBe('bamboo-mcp-test');
+  });
+
+  test('tools/list is served through the shared request handlers', async () => {
+    const sessionId = await initializeSession();
+
+    const response = await fetch(endpoint, {
+      method: 'POST',
+      headers: { ...MCP_HEADERS, 'mcp-session-id': sessionId },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 2, method: 'tools/list' }),
+    });
+
+    const message = await readSseMessage(response);
+    expect(message.result.tools).toHaveLength(BAMBOO_TOOLS.length);
+  });
+
+  test('requests without a session are rejected', async () => {
+    const response = await fetch(endpoint, {
+      method: 'POST',
+      headers: MCP_HEADERS,
+      body: JSON.stringify({ jsonrpc: '2.0', id: 3, method: 'tools/list' }),
+    });
+
+    expect(response.status).toBe(400);
+  });
+
+  test('unknown session IDs return 404', async () => {
+    const response = await fetch(endpoint, {
+      method: 'POST',
+      headers: { ...MCP_HEADERS, 'mcp-session-id': 'does-not-exist' },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 4, method: 'tools/list' }),
+    });
+
+    expect(response.status).toBe(404);
+  });
+
+  test('DELETE terminates the session', async () => {
+    const sessionId = await initializeSession();
+    const before = handle.getSessionCount();
+
+    const response = await fetch(endpoint, {
+      method: 'DELETE',
+      headers: { 'mcp-session-id': sessionId },
+    });
+
+    expect(response.status).toBe(200);
+    expect(handle.getSessionCount()).toBe(before - 1);
+  });
+
+  test('requests from a foreign Origin are rejected', async () => {
+    const post = (origin: string) =>
+      fetch(endpoint, {
+        method: 'POST',
+        headers: { ...MCP_HEADERS, Origin: origin },
+        body: JSON.stringify(initializeRequest),
+      });
+
+    const foreign = await post('http://evil.example');
+    expect(foreign.status).toBe(403);
+    expect((await foreign.json()).error.message).toBe(
+      'Forbidden: Origin http://evil.example is not allowed'
+    );
+
+    const local = await post(`http://localhost:${handle.port}`);
+    expect(local.status).toBe(200);
+    await readSseMessage(local);
+  });
+
+  test('a rebound Host name is rejected', async () => {
+    // fetch cannot set Host, so send the request by hand
+    const status = await new Promise<number>((resolve, reject) => {
+      const request = http.request(
+        {
+          host: '127.0.0.1',
+          port: handle.port,
+          path: '/mcp',
+          method: 'POST',
+          headers: { ...MCP_HEADERS, Host: `evil.example:${handle.port}` },
+        },
+        (response) => {
+          response.resume();
+          resolve(response.statusCode!);
+        }
+      );
+      request.on('error', reject);
+      request.end(JSON.stringify(initializeRequest));
+    });
+
+    expect(status).toBe(403);
+  });
+});
+
+describe('Streamable HTTP session expiry', () => {
+  test('sessions without requests expire after the idle timeout', async () => {
+    const handle = await startHttpTransport(
+      () =>
+        new Server(
+          { name: 'bamboo-mcp-test', version: '1.1.1' },
+          { capabilities: { tools: {} } }
+        ),
+      { port: 0, host: '127.0.0.1', sessionIdleTimeoutMs: 50 }
+    );
+
+    try {
+      const response = await fetch(`http://127.0.0.1:${handle.port}/mcp`, {
+        method: 'POST',
+        headers: MCP_HEADERS,
+        body: JSON.stringify(initializeRequest),
+      });
+      await readSseMessage(response);
+      expect(handle.getSessionCount()).toBe(1);
+
+      await new Promise((resolve) => setTimeout(resolve, 200));
+      expect(handle.getSessionCount()).toBe(0);
+    } finally {
+      await handle.close();
+    }
+  });
+});
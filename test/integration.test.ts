@@ -74,15 +74,23 @@ describe('BambooHR MCP Tools Integration Tests - Modernized', () => {
 
       const expectedTools = [
         'bamboo_find_employee',
+        'bamboo_get_employee',
+        'bamboo_employee_changes',
         'bamboo_whos_out',
         'bamboo_team_info',
         'bamboo_time_off_requests',
+        'bamboo_time_off_balance',
+        'bamboo_list_time_off_types',
+        'bamboo_list_time_off_policies',
         'bamboo_discover_datasets',
         'bamboo_discover_fields',
         'bamboo_workforce_analytics',
         'bamboo_run_custom_report',
         'bamboo_get_employee_photo',
         'bamboo_list_departments',
+        'bamboo_manager_chain',
+        'bamboo_reports',
+        'bamboo_org_chart',
       ];
 
       expectedTools.forEach((toolName) => {
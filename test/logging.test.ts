@@ -0,0 +1,178 @@
+/**
+ * MCP logging tests
+ * RFC 5424 levels, per-category levels and the notifications sent to
+ * attached servers and sessions
+ */
+
+import type { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import {
+  loadServerConfig,
+  toLoggerConfig,
+} from '../src/config/serverConfig.js';
+import {
+  LOG_CATEGORIES,
+  MCP_LOG_LEVELS,
+  mcpLogger,
+} from '../src/utils/mcpLogger.js';
+
+describe('MCP logging', () => {
+  const initialConfig = mcpLogger.getConfig();
+  let notification: jest.Mock;
+  let server: Server;
+
+  const sentMessages = () =>
+    notification.mock.calls.map(([message]) => ({
+      level: message.params.level,
+      logger: message.params.logger,
+      message: message.params.message,
+    }));
+
+  beforeEach(() => {
+    notification = jest.fn().mockResolvedValue(undefined);
+    server = { notification } as unknown as Server;
+    mcpLogger.configure({ ...initialConfig, enableConsoleOutput: false });
+    mcpLogger.setServer(server);
+  });
+
+  afterEach(() => {
+    mcpLogger.removeServer(server);
+    mcpLogger.configure(initialConfig);
+  });
+
+  test('every RFC 5424 level at or above the minimum is sent', async () => {
+    mcpLogger.setMinLevel('warning');
+    for (const level of MCP_LOG_LEVELS) {
+      await mcpLogger.log(level, 'server', `at ${level}`);
+    }
+
+    expect(sentMessages().map((message) => message.level)).toEqual([
+      'warning',
+      'error',
+      'critical',
+      'alert',
+      'emergency',
+    ]);
+  });
+
+  test('warn is sent as the MCP level warning', async () => {
+    await mcpLogger.log('warn', 'server', 'careful');
+    mcpLogger.setMinLevel('warn');
+    await mcpLogger.log('notice', 'server', 'dropped');
+
+    expect(sentMessages()).toEqual([
+      { level: 'warning', logger: 'server', message: 'careful' },
+    ]);
+  });
+
+  test('category levels override the minimum level', async () => {
+    mcpLogger.setMinLevel('error');
+    mcpLogger.setCategoryLevel('bambooClient', 'debug');
+    mcpLogger.setCategoryLevel('analytics-handler', 'critical');
+
+    const client = mcpLogger.forCategory(LOG_CATEGORIES.bambooClient);
+    client.debug('cache hit', '/employees/directory');
+    await mcpLogger.log('error', 'analytics-handler', 'dropped');
+    await mcpLogger.log('error', 'server', 'kept');
+    await mcpLogger.log('info', 'server', 'dropped');
+
+    expect(sentMessages()).toEqual([
+      { level: 'debug', logger: 'bamboo-client', message: 'cache hit' },
+      { level: 'error', logger: 'server', message: 'kept' },
+    ]);
+    expect(notification.mock.calls[0][0].params.data).toEqual({
+      additionalData: ['/employees/directory'],
+    });
+
+    mcpLogger.setCategoryLevel('bamboo-client', undefined);
+    expect(mcpLogger.getEffectiveLevel('bamboo-client')).toBe('error');
+  });
+
+  test("a session's logs only reach that session's server", async () => {
+    const sessionServer = () =>
+      ({
+        notification: jest.fn().mockResolvedValue(undefined),
+      }) as unknown as Server & { notification: jest.Mock };
+    const first = sessionServer();
+    const second = sessionServer();
+    mcpLogger.addServer(first);
+    mcpLogger.addServer(second);
+
+    try {
+      await mcpLogger.runInSession(first, async () => {
+        await Promise.resolve();
+        await mcpLogger.log('info', 'server', 'for the first session');
+      });
+      await mcpLogger.log('info', 'server', 'outside any session');
+
+      expect(first.notification).toHaveBeenCalledTimes(1);
+      expect(first.notification.mock.calls[0][0].params.message).toBe(
+        'for the first session'
+      );
+      expect(second.notification).not.toHaveBeenCalled();
+      expect(sentMessages().map((message) => message.message)).toEqual([
+        'outside any session',
+      ]);
+
+      // Once its session closed, a server gets nothing more
+      mcpLogger.removeServer(first);
+      await mcpLogger.runInSession(first, () =>
+        mcpLogger.log('info', 'server', 'after close')
+      );
+      expect(first.notification).toHaveBeenCalledTimes(1);
+    } finally {
+      mcpLogger.removeServer(first);
+      mcpLogger.removeServer(second);
+    }
+  });
+
+  test("a client's level only applies to its own server", async () => {
+    const session = {
+      notification: jest.fn().mockResolvedValue(undefined),
+    } as unknown as Server & { notification: jest.Mock };
+    mcpLogger.addServer(session);
+    mcpLogger.setServerLevel(session, 'error');
+
+    try {
+      await mcpLogger.runInSession(session, () =>
+        mcpLogger.log('warning', 'server', 'below the session level')
+      );
+      await mcpLogger.log('warning', 'server', 'at the server level');
+
+      expect(session.notification).not.toHaveBeenCalled();
+      expect(sentMessages().map((message) => message.message)).toEqual([
+        'at the server level',
+      ]);
+      expect(mcpLogger.getEffectiveLevel('server', session)).toBe('error');
+      expect(mcpLogger.getEffectiveLevel('server')).toBe('info');
+    } finally {
+      mcpLogger.removeServer(session);
+    }
+  });
+
+  test('levels are read from configuration', () => {
+    const { config } = loadServerConfig({
+      argv: ['--set', 'logging.categories=timeOff=debug, bamboo-client=alert'],
+      env: { LOG_LEVEL: 'notice' },
+    });
+
+    expect(toLoggerConfig(config)).toMatchObject({
+      minLevel: 'notice',
+      categoryLevels: {
+        'time-off-handler': 'debug',
+        'bamboo-client': 'alert',
+      },
+    });
+    expect(() =>
+      loadServerConfig({
+        argv: [],
+        env: { LOG_CATEGORY_LEVELS: 'payroll=debug' },
+      })
+    ).toThrow('unknown logger category "payroll"');
+    expect(() =>
+      loadServerConfig({
+        argv: [],
+        env: { LOG_CATEGORY_LEVELS: 'timeOff=loud' },
+      })
+    ).toThrow('timeOff: level must be one of debug, info, notice, warning');
+  });
+});
@@ -0,0 +1,225 @@
+/**
+ * Org chart tests
+ * OrgGraph cycle and orphan detection and span-of-control counts, and the
+ * manager chain, reports and org chart tools against the fake API
+ */
+
+import { BambooClient } from '../src/bamboo-client.js';
+import {
+  startFakeBambooServer,
+  type FakeBambooServerHandle,
+} from '../src/devtools/fakeBambooServer.js';
+import {
+  handleManagerChain,
+  handleOrgChart,
+  handleReports,
+  initializeOrganizationHandlers,
+} from '../src/handlers/organizationHandlers.js';
+import { OrgGraph, getOrgGraph } from '../src/org/orgGraph.js';
+import type { BambooEmployee, OrgChartEntry } from '../src/types.js';
+
+const silentLogger = {
+  debug: jest.fn(),
+  info: jest.fn(),
+  warn: jest.fn(),
+  error: jest.fn(),
+  fatal: jest.fn(),
+  child: jest.fn(),
+};
+
+const person = (
+  id: string,
+  supervisorEId: string,
+  department = 'Engineering'
+): BambooEmployee => ({
+  id,
+  displayName: `Person ${id}`,
+  jobTitle: 'Engineer',
+  department,
+  supervisorEId,
+});
+
+// 1 runs the company; 2 and 3 report to 1, 4 and 5 to 2. 6 reports to
+// someone who left, and 7 and 8 report to each other, with 9 under 8.
+const employees = [
+  person('1', '', 'Executive'),
+  person('2', '1'),
+  person('3', '1', 'Sales'),
+  person('4', '2'),
+  person('5', '2'),
+  person('6', '99', 'Sales'),
+  person('7', '8', 'Support'),
+  person('8', '7', 'Support'),
+  person('9', '8', 'Support'),
+];
+
+const outline = (entries: OrgChartEntry[]) =>
+  entries.map((entry) => `${'-'.repeat(entry.depth)}${entry.id}`);
+
+describe('OrgGraph', () => {
+  const graph = new OrgGraph(employees);
+
+  test('orphans and cycles are detected once', () => {
+    expect(graph.orphans).toEqual(['6']);
+    expect(graph.cycles).toEqual([['7', '8']]);
+  });
+
+  test('span of control counts direct and indirect reports', () => {
+    expect(graph.entry('1')).toMatchObject({
+      directReports: 2,
+      totalReports: 4,
+    });
+    expect(graph.entry('2')).toMatchObject({
+      directReports: 2,
+      totalReports: 2,
+    });
+    // Loop members count each other once, and not themselves
+    expect(graph.entry('8')).toMatchObject({
+      directReports: 2,
+      totalReports: 2,
+    });
+  });
+
+  test('manager chains stop at the top, an orphan or a loop', () => {
+    const ids = (id: string) => {
+      const { chain, brokenBy } = graph.managerChain(id);
+      return { ids: chain.map((entry) => entry.id), brokenBy };
+    };
+
+    expect(ids('4')).toEqual({ ids: ['4', '2', '1'], brokenBy: undefined });
+    expect(ids('6')).toEqual({ ids: ['6'], brokenBy: 'orphan' });
+    expect(ids('9')).toEqual({ ids: ['9', '8', '7'], brokenBy: 'cycle' });
+    expect(ids('404')).toEqual({ ids: [], brokenBy: undefined });
+  });
+
+  test('the company chart reaches everyone, including loops', () => {
+    expect(outline(graph.chart())).toEqual([
+      '1',
+      '-2',
+      '--4',
+      '--5',
+      '-3',
+      '6',
+      '7',
+      '-8',
+      '--9',
+    ]);
+    expect(outline(graph.chart(undefined, 1))).toEqual([
+      '1',
+      '-2',
+      '-3',
+      '6',
+      '7',
+      '-8',
+    ]);
+  });
+
+  test('department charts start below managers outside the department', () => {
+    expect(
+      outline(graph.chart(graph.departmentMembers('engineering')))
+    ).toEqual(['2', '-4', '-5']);
+    expect(outline(graph.chart(graph.departmentMembers('Support')))).toEqual([
+      '7',
+      '-8',
+      '--9',
+    ]);
+  });
+
+  test('graphs are cached per directory response', () => {
+    const directory = { employees };
+    expect(getOrgGraph(directory)).toBe(getOrgGraph(directory));
+    expect(getOrgGraph({ employees })).not.toBe(getOrgGraph(directory));
+  });
+});
+
+describe('org chart tools', () => {
+  let server: FakeBambooServerHandle;
+
+  beforeAll(async () => {
+    server = await startFakeBambooServer({ seed: 11, employeeCount: 12 });
+    initializeOrganizationHandlers({
+      bambooClient: new BambooClient(
+        {
+          apiKey: 'fake-key',
+          subdomain: 'fake',
+          baseUrl: server.baseUrl,
+          maxRetryAttempts: 0,
+        },
+        silentLogger
+      ),
+      formatters: {},
+      logger: silentLogger,
+    });
+  });
+
+  afterAll(async () => {
+    await server.close();
+  });
+
+  test('bamboo_manager_chain lists managers from the CEO down', async () => {
+    const [ceo] = server.data.employees;
+    const employee = server.data.employees[11];
+    const result = await handleManagerChain({ employee_id: employee.id });
+
+    const structured = result.structuredContent as {
+      chain: OrgChartEntry[];
+      complete: boolean;
+    };
+    expect(structured.complete).toBe(true);
+    expect(structured.chain[0].id).toBe(ceo.id);
+    expect(structured.chain.at(-1)!.id).toBe(employee.id);
+    structured.chain.slice(1).forEach((entry, index) => {
+      expect(entry.managerId).toBe(structured.chain[index].id);
+      expect(entry.depth).toBe(index + 1);
+    });
+    expect(result.content[0].text).toContain(
+      `• **${ceo.displayName}** - Chief Executive Officer (ID: ${ceo.id})`
+    );
+  });
+
+  test('bamboo_reports renders an indented tree with span of control', async () => {
+    const [ceo] = server.data.employees;
+    const direct = server.data.employees.filter(
+      (employee) => employee.supervisorId === ceo.id
+    );
+    const result = await handleReports({ employee_id: ceo.id, max_depth: 1 });
+
+    expect(result.structuredContent).toMatchObject({
+      employeeId: ceo.id,
+      directReports: direct.length,
+      totalReports: server.data.employees.length - 1,
+      issues: { orphans: [], cycles: [] },
+    });
+    const lines = result.content[0].text.split('\n');
+    expect(lines).toContain(
+      `• **${ceo.displayName}** - Chief Executive Officer (ID: ${ceo.id}) [${direct.length} direct, ${server.data.employees.length - 1} total]`
+    );
+    expect(lines.filter((line) => line.startsWith('  • '))).toHaveLength(
+      direct.length
+    );
+  });
+
+  test('bamboo_org_chart summarises a department', async () => {
+    const department = server.data.employees[5].department;
+    const members = server.data.employees.filter(
+      (employee) => employee.department === department
+    );
+    const result = await handleOrgChart({ department });
+
+    const structured = result.structuredContent as {
+      count: number;
+      entries: OrgChartEntry[];
+    };
+    expect(structured.count).toBe(members.length);
+    expect(structured.entries.map((entry) => entry.id).sort()).toEqual(
+      members.map((employee) => employee.id).sort()
+    );
+  });
+
+  test('an unknown employee is reported as not found', async () => {
+    const result = await handleReports({ employee_id: '999999' });
+
+    expect(result.isError).toBe(true);
+    expect(result.content[0]._meta).toMatchObject({ errorType: 'NOT_FOUND' });
+  });
+});
@@ -0,0 +1,241 @@
+/**
+ * PII policy tests
+ * Mask/hash/drop rules, custom-report field aliases, and redaction of real
+ * tool output fetched from the fake BambooHR API
+ */
+
+import { BambooClient } from '../src/bamboo-client.js';
+import { loadServerConfig, toPiiPolicy } from '../src/config/serverConfig.js';
+import {
+  startFakeBambooServer,
+  type FakeBambooServerHandle,
+} from '../src/devtools/fakeBambooServer.js';
+import * as formatters from '../src/formatters.js';
+import {
+  handleRunCustomReport,
+  initializeReportHandlers,
+} from '../src/handlers/reportHandlers.js';
+import {
+  handleWorkforceAnalytics,
+  initializeWorkforceAnalyticsHandlers,
+} from '../src/handlers/workforceAnalyticsHandlers.js';
+import {
+  DEFAULT_PII_RULES,
+  PiiPolicyError,
+  applyPiiPolicy,
+  compilePiiPolicy,
+  configurePiiPolicy,
+  redactPii,
+} from '../src/privacy/piiPolicy.js';
+import type { RedactedFieldInfo } from '../src/types.js';
+
+const silentLogger = {
+  debug: jest.fn(),
+  info: jest.fn(),
+  warn: jest.fn(),
+  error: jest.fn(),
+  fatal: jest.fn(),
+  child: jest.fn(),
+};
+
+describe('PII policy', () => {
+  const defaults = compilePiiPolicy({ rules: DEFAULT_PII_RULES });
+
+  afterEach(() => {
+    configurePiiPolicy({ rules: DEFAULT_PII_RULES });
+  });
+
+  test('default rules drop identifiers and pay, mask phones, hash personal email', () => {
+    const employee = {
+      id: '7',
+      firstName: 'Ada',
+      workEmail: 'ada@example.com',
+      homeEmail: 'ada@home.example',
+      mobilePhone: '555-123-4567',
+      ssn: '123-45-6789',
+      salary: '90000 USD',
+      dateOfBirth: '1990-01-01',
+    };
+
+    const { data, redacted } = applyPiiPolicy(employee, defaults);
+
+    expect(data).toEqual({
+      id: '7',
+      firstName: 'Ada',
+      workEmail: 'ada@example.com',
+      homeEmail: expect.stringMatching(/^sha256:[0-9a-f]{16}$/),
+      mobilePhone: '********4567',
+    });
+    expect(redacted).toEqual([
+      { field: 'homeEmail', action: 'hash', count: 1 },
+      { field: 'mobilePhone', action: 'mask', count: 1 },
+      { field: 'ssn', action: 'drop', count: 1 },
+      { field: 'salary', action: 'drop', count: 1 },
+      { field: 'dateOfBirth', action: 'drop', count: 1 },
+    ]);
+    // The input (possibly a cached response) is never modified
+    expect(employee.ssn).toBe('123-45-6789');
+  });
+
+  test('rules apply at any depth and count every value', () => {
+    const policy = compilePiiPolicy({
+      rules: [{ field: 'badgeNumber', action: 'mask' }],
+    });
+    const { data, redacted } = applyPiiPolicy(
+      { data: [{ badgeNumber: '100234' }, { badgeNumber: 'B9' }, {}] },
+      policy
+    );
+
+    expect(data).toEqual({
+      data: [{ badgeNumber: '**0234' }, { badgeNumber: '****' }, {}],
+    });
+    expect(redacted).toEqual([
+      { field: 'badgeNumber', action: 'mask', count: 2 },
+    ]);
+  });
+
+  test('hashes are stable per salt', () => {
+    const rules = [{ field: 'email', action: 'hash' as const }];
+    const hash = (hashSalt?: string) =>
+      applyPiiPolicy(
+        { email: 'a@example.com' },
+        compilePiiPolicy({ rules, hashSalt })
+      ).data.email;
+
+    expect(hash('one')).toBe(hash('one'));
+    expect(hash('one')).not.toBe(hash('two'));
+    expect(hash()).not.toBe(hash('one'));
+  });
+
+  test('custom report columns keyed by field ID match by field name', () => {
+    const policy = compilePiiPolicy({
+      rules: [{ pattern: 'social security', action: 'drop' }],
+    });
+    const report = {
+      title: 'Payroll',
+      fields: [
+        { id: '4', name: 'Social Security Number' },
+        { id: 'department', name: 'Department' },
+      ],
+      employees: [{ '4': '123-45-6789', department: 'Sales' }],
+    };
+
+    const { data, redacted } = applyPiiPolicy(report, policy);
+
+    expect(data.employees).toEqual([{ department: 'Sales' }]);
+    expect(data.fields).toEqual(report.fields);
+    expect(redacted).toEqual([
+      { field: 'Social Security Number', action: 'drop', count: 1 },
+    ]);
+  });
+
+  test('invalid rules are rejected', () => {
+    expect(() => compilePiiPolicy({ rules: [{ action: 'drop' }] })).toThrow(
+      PiiPolicyError
+    );
+    expect(() =>
+      compilePiiPolicy({
+        rules: [{ field: 'a', pattern: 'b', action: 'drop' }],
+      })
+    ).toThrow('set exactly one of "field" and "pattern"');
+    expect(() =>
+      compilePiiPolicy({
+        rules: [{ field: 'a', action: 'shred' as 'drop' }],
+      })
+    ).toThrow('action must be one of mask, hash, drop');
+    expect(() =>
+      loadServerConfig({
+        argv: ['--set', 'privacy.rules=[{"pattern":"(","action":"drop"}]'],
+        env: {},
+      })
+    ).toThrow('privacy.rules: rule 0: invalid pattern');
+  });
+
+  test('configured rules replace the defaults', () => {
+    const { config } = loadServerConfig({
+      argv: ['--set', 'privacy.rules=[{"field":"jobTitle","action":"drop"}]'],
+      env: { BAMBOO_PII_HASH_SALT: 'pepper' },
+    });
+    configurePiiPolicy(toPiiPolicy(config));
+
+    const context = { redactedFields: [] as RedactedFieldInfo[] };
+    expect(
+      redactPii({ jobTitle: 'CEO', mobilePhone: '5551234567' }, context)
+    ).toEqual({ mobilePhone: '5551234567' });
+    expect(context.redactedFields).toEqual([
+      { field: 'jobTitle', action: 'drop', count: 1 },
+    ]);
+  });
+
+  describe('Tool output', () => {
+    let server: FakeBambooServerHandle;
+
+    beforeAll(async () => {
+      server = await startFakeBambooServer({ seed: 5, employeeCount: 4 });
+      const handlerDependencies = {
+        bambooClient: new BambooClient(
+          {
+            apiKey: 'fake-key',
+            subdomain: 'fake',
+            baseUrl: server.baseUrl,
+            maxRetryAttempts: 0,
+          },
+          silentLogger
+        ),
+        formatters,
+        logger: silentLogger,
+      };
+      initializeWorkforceAnalyticsHandlers(handlerDependencies);
+      initializeReportHandlers(handlerDependencies);
+    });
+
+    afterAll(async () => {
+      await server.close();
+    });
+
+    test('dataset results are redacted before formatting', async () => {
+      const context = { redactedFields: [] as RedactedFieldInfo[] };
+      const result = await handleWorkforceAnalytics(
+        { dataset_id: 'employee', fields: ['displayName', 'workPhone'] },
+        context
+      );
+
+      const records = (
+        result.structuredContent as { records: Array<Record<string, string>> }
+      ).records;
+      expect(records).toHaveLength(4);
+      records.forEach((record) =>
+        expect(record.workPhone).toMatch(/^\*+\d{4}$/)
+      );
+      expect(result.content[0].text).not.toContain(
+        server.data.employees[0].workPhone
+      );
+      expect(context.redactedFields).toEqual([
+        { field: 'workPhone', action: 'mask', count: 4 },
+      ]);
+    });
+
+    test('custom report results are redacted', async () => {
+      configurePiiPolicy({
+        rules: [{ pattern: '^hire date$', action: 'drop' }],
+      });
+      const context = { redactedFields: [] as RedactedFieldInfo[] };
+      const result = await handleRunCustomReport(
+        { report_id: '102', format: 'json' },
+        context
+      );
+
+      const data = (
+        result.structuredContent as {
+          data: { employees: Array<Record<string, string>> };
+        }
+      ).data;
+      data.employees.forEach((row) =>
+        expect(row).not.toHaveProperty('hireDate')
+      );
+      expect(context.redactedFields).toEqual([
+        { field: 'Hire Date', action: 'drop', count: 4 },
+      ]);
+    });
+  });
+});
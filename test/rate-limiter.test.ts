@@ -0,0 +1,100 @@
+/**
+ * Request limiter tests
+ * Covers the token bucket, the concurrency semaphore and their combination
+ */
+
+import {
+  QueueAbortedError,
+  RequestLimiter,
+  Semaphore,
+  TokenBucket,
+} from '../src/utils/rateLimiter.js';
+
+describe('Request Limiter', () => {
+  describe('TokenBucket', () => {
+    test('serves the burst immediately, then spaces reservations by the rate', () => {
+      const bucket = new TokenBucket(10, 2);
+
+      expect(bucket.reserve()).toBe(0);
+      expect(bucket.reserve()).toBe(0);
+      // Third and fourth reservations wait one and two token intervals
+      expect(bucket.reserve()).toBeGreaterThan(90);
+      expect(bucket.reserve()).toBeGreaterThan(190);
+    });
+
+    test('pause holds reservations even when tokens are available', () => {
+      const bucket = new TokenBucket(10, 5);
+      bucket.pause(1000);
+
+      expect(bucket.reserve()).toBeGreaterThan(900);
+    });
+  });
+
+  describe('Semaphore', () => {
+    test('queues acquirers in FIFO order beyond the limit', async () => {
+      const semaphore = new Semaphore(1);
+      const order: string[] = [];
+
+      await semaphore.acquire();
+      const second = semaphore.acquire().then(() => order.push('second'));
+      const third = semaphore.acquire().then(() => order.push('third'));
+      expect(semaphore.queuedCount).toBe(2);
+
+      semaphore.release();
+      await second;
+      semaphore.release();
+      await third;
+
+      expect(order).toEqual(['second', 'third']);
+      expect(semaphore.activeCount).toBe(1);
+    });
+
+    test('an aborted waiter leaves the queue', async () => {
+      const semaphore = new Semaphore(1);
+      const controller = new AbortController();
+
+      await semaphore.acquire();
+      const waiting = semaphore.acquire(controller.signal);
+      controller.abort();
+
+      await expect(waiting).rejects.toBeInstanceOf(QueueAbortedError);
+      expect(semaphore.queuedCount).toBe(0);
+    });
+  });
+
+  describe('RequestLimiter', () => {
+    test('reports which limits a request waited on', async () => {
+      const limiter = new RequestLimiter({
+        ratePerSecond: 50,
+        burst: 1,
+        maxConcurrent: 1,
+      });
+
+      const first = await limiter.acquire();
+      expect(first.queuedFor).toEqual([]);
+
+      const second = limiter.acquire();
+      first.release();
+      const permit = await second;
+
+      expect(permit.queuedFor).toEqual(['rate']);
+      expect(permit.waitedMs).toBeGreaterThan(0);
+      permit.release();
+      expect(limiter.getStats()).toEqual({ active: 0, queued: 0 });
+    });
+
+    test('zero limits disable throttling', async () => {
+      const limiter = new RequestLimiter({
+        ratePerSecond: 0,
+        burst: 0,
+        maxConcurrent: 0,
+      });
+
+      const permits = await Promise.all(
+        Array.from({ length: 20 }, () => limiter.acquire())
+      );
+
+      expect(permits.every((p) => p.queuedFor.length === 0)).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,307 @@
+/**
+ * MCP resource tests
+ * Validates URI parsing and resource handlers against a mocked BambooClient
+ */
+
+import { BambooClient, NotFoundError } from '../src/bamboo-client.js';
+import * as formatters from '../src/formatters.js';
+import {
+  BAMBOO_RESOURCE_TEMPLATES,
+  parseResourceUri,
+} from '../src/config/resourceDefinitions.js';
+import {
+  initializeResourceHandlers,
+  handleListResources,
+  handleListResourceTemplates,
+  handleReadResource,
+} from '../src/handlers/resourceHandlers.js';
+import { TenantRegistry } from '../src/tenants/tenantRegistry.js';
+import { MCPError, MCP_ERROR_CODES } from '../src/utils/mcpErrorHandler.js';
+
+const directory = {
+  employees: [
+    {
+      id: '1',
+      firstName: 'Ada',
+      lastName: 'Lovelace',
+      jobTitle: 'Engineer',
+      department: 'Engineering',
+    },
+    {
+      id: '2',
+      firstName: 'Grace',
+      lastName: 'Hopper',
+      jobTitle: 'Manager',
+      department: 'Engineering',
+    },
+    {
+      id: '3',
+      firstName: 'Alan',
+      lastName: 'Turing',
+      jobTitle: 'Analyst',
+      department: 'Research & Development',
+    },
+  ],
+};
+
+describe('MCP Resources', () => {
+  let mockBambooClient: BambooClient;
+
+  beforeAll(() => {
+    mockBambooClient = new BambooClient({
+      apiKey: 'test-key',
+      subdomain: 'test-company',
+    });
+
+    const mockLogger = {
+      debug: jest.fn(),
+      info: jest.fn(),
+      warn: jest.fn(),
+      error: jest.fn(),
+      fatal: jest.fn(),
+      child: () => mockLogger,
+    };
+
+    initializeResourceHandlers({
+      bambooClient: mockBambooClient,
+      formatters,
+      logger: mockLogger,
+    });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('URI Parsing', () => {
+    test('parses every supported template', () => {
+      expect(parseResourceUri('employee://123')).toEqual({
+        kind: 'employee',
+        id: '123',
+      });
+      expect(parseResourceUri('employee://123/photo')).toEqual({
+        kind: 'employee_photo',
+        id: '123',
+      });
+      expect(
+        parseResourceUri('department://Research%20%26%20Development')
+      ).toEqual({
+        kind: 'department',
+        name: 'Research & Development',
+      });
+      expect(parseResourceUri('report://42')).toEqual({
+        kind: 'custom_report',
+        id: '42',
+      });
+    });
+
+    test('parses the company a URI names', () => {
+      expect(parseResourceUri('employee://123/photo?company=acme')).toEqual({
+        kind: 'employee_photo',
+        id: '123',
+        company: 'acme',
+      });
+      expect(parseResourceUri('department://Sales?company=acme')).toEqual({
+        kind: 'department',
+        name: 'Sales',
+        company: 'acme',
+      });
+      expect(parseResourceUri('report://42?format=csv')).toBeNull();
+    });
+
+    test('rejects unknown schemes and malformed IDs', () => {
+      expect(parseResourceUri('dataset://employee')).toBeNull();
+      expect(parseResourceUri('employee://../etc/passwd')).toBeNull();
+      expect(parseResourceUri('employee://abc')).toBeNull();
+      expect(parseResourceUri('department://Sales/photo')).toBeNull();
+      expect(parseResourceUri('report://%E0%A4%A')).toBeNull();
+    });
+  });
+
+  test('resources/templates/list returns all templates', async () => {
+    const result = await handleListResourceTemplates();
+    expect(result.resourceTemplates).toEqual(BAMBOO_RESOURCE_TEMPLATES);
+    expect(result.resourceTemplates.map((t) => t.uriTemplate)).toEqual(
+      expect.arrayContaining([
+        'employee://{id}{?company}',
+        'department://{name}{?company}',
+        'report://{id}{?company}',
+      ])
+    );
+  });
+
+  test('resources/list includes departments and employees', async () => {
+    jest.spyOn(mockBambooClient, 'get').mockResolvedValue(directory);
+
+    const result = await handleListResources();
+    const uris = result.resources.map((r) => r.uri);
+
+    expect(uris).toEqual([
+      'department://Engineering',
+      'department://Research%20%26%20Development',
+      'employee://1',
+      'employee://2',
+      'employee://3',
+    ]);
+    expect(result.nextCursor).toBeUndefined();
+  });
+
+  test('resources/read resolves an employee record', async () => {
+    const getSpy = jest
+      .spyOn(mockBambooClient, 'get')
+      .mockResolvedValue(directory.employees[0]);
+
+    const result = await handleReadResource('employee://1');
+
+    expect(getSpy.mock.calls[0][0]).toMatch(/^\/employees\/1\?fields=/);
+    expect(result.contents[0]).toMatchObject({
+      uri: 'employee://1',
+      mimeType: 'application/json',
+    });
+    expect(JSON.parse((result.contents[0] as any).text).firstName).toBe('Ada');
+  });
+
+  test('resources/read resolves a department roster', async () => {
+    jest.spyOn(mockBambooClient, 'get').mockResolvedValue(directory);
+
+    const result = await handleReadResource('department://engineering');
+    const payload = JSON.parse((result.contents[0] as any).text);
+
+    expect(payload.employeeCount).toBe(2);
+    expect(payload.employees.map((e: any) => e.id)).toEqual(['1', '2']);
+  });
+
+  test('resources/read returns photos as base64 blobs', async () => {
+    jest.spyOn(mockBambooClient, 'getBinary').mockResolvedValue({
+      data: Buffer.from('fake-image'),
+      mimeType: 'image/jpeg',
+    });
+
+    const result = await handleReadResource('employee://1/photo');
+
+    expect(result.contents[0]).toEqual({
+      uri: 'employee://1/photo',
+      mimeType: 'image/jpeg',
+      blob: Buffer.from('fake-image').toString('base64'),
+    });
+  });
+
+  test('resources/read maps BambooHR 404 to RESOURCE_NOT_FOUND', async () => {
+    jest
+      .spyOn(mockBambooClient, 'get')
+      .mockRejectedValue(
+        new NotFoundError('BambooHR API error: 404 Not Found', 404, 'Not Found')
+      );
+
+    await expect(handleReadResource('report://999')).rejects.toMatchObject({
+      code: MCP_ERROR_CODES.RESOURCE_NOT_FOUND,
+    });
+  });
+
+  test('resources/read rejects unsupported URIs', async () => {
+    await expect(
+      handleReadResource('dataset://employee')
+    ).rejects.toBeInstanceOf(MCPError);
+    await expect(
+      handleReadResource('dataset://employee')
+    ).rejects.toMatchObject({ code: MCP_ERROR_CODES.INVALID_PARAMS });
+  });
+
+  describe('with several companies', () => {
+    const clients = new Map<string, BambooClient>();
+
+    beforeAll(() => {
+      const tenants = new TenantRegistry(
+        {
+          defaultCompany: 'acme',
+          companies: [
+            { name: 'acme', subdomain: 'acme', apiKey: 'acme-key' },
+            { name: 'globex', subdomain: 'globex', apiKey: 'globex-key' },
+          ],
+        },
+        (tenant) => {
+          const client = new BambooClient({
+            apiKey: tenant.apiKey,
+            subdomain: tenant.subdomain,
+          });
+          clients.set(tenant.name, client);
+          return client;
+        }
+      );
+      initializeResourceHandlers(
+        {
+          bambooClient: tenants.getDefault().client,
+          formatters,
+          logger: {
+            debug: jest.fn(),
+            info: jest.fn(),
+            warn: jest.fn(),
+            error: jest.fn(),
+            fatal: jest.fn(),
+            child: jest.fn(),
+          },
+        },
+        tenants
+      );
+    });
+
+    afterAll(() => {
+      initializeResourceHandlers({
+        bambooClient: mockBambooClient,
+        formatters,
+        logger: {
+          debug: jest.fn(),
+          info: jest.fn(),
+          warn: jest.fn(),
+          error: jest.fn(),
+          fatal: jest.fn(),
+          child: jest.fn(),
+        },
+      });
+    });
+
+    test("resources/list names each company's resources", async () => {
+      jest
+        .spyOn(clients.get('acme')!, 'get')
+        .mockResolvedValue({ employees: [directory.employees[0]] });
+      jest
+        .spyOn(clients.get('globex')!, 'get')
+        .mockResolvedValue({ employees: [directory.employees[2]] });
+
+      const result = await handleListResources();
+
+      expect(result.resources.map((r) => r.uri)).toEqual([
+        'department://Engineering?company=acme',
+        'employee://1?company=acme',
+        'department://Research%20%26%20Development?company=globex',
+        'employee://3?company=globex',
+      ]);
+    });
+
+    test("resources/read uses the URI's company", async () => {
+      const acmeGet = jest.spyOn(clients.get('acme')!, 'get');
+      const globexGet = jest
+        .spyOn(clients.get('globex')!, 'get')
+        .mockResolvedValue(directory.employees[2]);
+      const context = {};
+
+      const result = await handleReadResource(
+        'employee://3?company=globex',
+        context
+      );
+
+      expect(globexGet.mock.calls[0][0]).toMatch(/^\/employees\/3\?fields=/);
+      expect(acmeGet).not.toHaveBeenCalled();
+      expect(context).toEqual({ company: 'globex' });
+      expect(JSON.parse((result.contents[0] as any).text).lastName).toBe(
+        'Turing'
+      );
+    });
+
+    test('resources/read rejects an unknown company', async () => {
+      await expect(
+        handleReadResource('employee://3?company=initech')
+      ).rejects.toMatchObject({ code: MCP_ERROR_CODES.INVALID_PARAMS });
+    });
+  });
+});
@@ -0,0 +1,347 @@
+/**
+ * Server configuration tests
+ * File/env/CLI precedence, validation messages, SIGHUP reload diffs and
+ * applying reloaded settings to a running client, logger and tool list
+ */
+
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { BambooClient } from '../src/bamboo-client.js';
+import {
+  ConfigValidationError,
+  diffServerConfig,
+  loadServerConfig,
+  toClientSettings,
+  toLoggerConfig,
+} from '../src/config/serverConfig.js';
+import {
+  assertToolEnabled,
+  configureToolEnablement,
+  getEnabledTools,
+} from '../src/config/toolRouter.js';
+import { BAMBOO_TOOLS } from '../src/config/toolDefinitions.js';
+import { MCPError, MCP_ERROR_CODES } from '../src/utils/mcpErrorHandler.js';
+
+describe('Server configuration', () => {
+  let dir: string;
+
+  const writeConfig = (name: string, content: string) => {
+    const filePath = path.join(dir, name);
+    fs.writeFileSync(filePath, content);
+    return filePath;
+  };
+
+  const loadError = (options: Parameters<typeof loadServerConfig>[0]) => {
+    try {
+      loadServerConfig(options);
+    } catch (error) {
+      return error as ConfigValidationError;
+    }
+    throw new Error('Expected configuration to be rejected');
+  };
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'bamboo-config-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+    configureToolEnablement({});
+  });
+
+  test('defaults apply when nothing is configured', () => {
+    const { config, filePath } = loadServerConfig({ argv: [], env: {} });
+
+    expect(filePath).toBeUndefined();
+    expect(config.transport).toEqual({
+      mode: 'stdio',
+      port: 3000,
+      host: '127.0.0.1',
+      allowedHosts: [],
+      allowedOrigins: [],
+      sessionIdleTimeoutMs: 30 * 60 * 1000,
+    });
+    expect(config.logging).toEqual({
+      level: 'info',
+      categories: {},
+      console: true,
+      redact: [],
+    });
+    expect(config.cache.maxEntries).toBe(500);
+    expect(config.client.cacheTtl).toEqual({});
+    expect(config.tools).toEqual({ profile: 'hr-admin', disabled: [] });
+  });
+
+  test('reads YAML and JSON files', () => {
+    const yamlFile = writeConfig(
+      'server.yaml',
+      `client:
+  requestTimeoutMs: 10000
+  maxRetryAttempts: 1
+  cacheTtl:
+    employeesMs: 60000
+logging:
+  level: debug
+  redact:
+    - employeeNumber
+tools:
+  disabled: [bamboo_run_custom_report]
+`
+    );
+    const jsonFile = writeConfig(
+      'server.json',
+      JSON.stringify({ transport: { mode: 'http', port: 8080 } })
+    );
+
+    const fromYaml = loadServerConfig({
+      argv: ['--config', yamlFile],
+      env: {},
+    }).config;
+    expect(fromYaml.client).toMatchObject({
+      requestTimeoutMs: 10000,
+      maxRetryAttempts: 1,
+      cacheTtl: { employeesMs: 60000 },
+    });
+    expect(fromYaml.logging).toEqual({
+      level: 'debug',
+      categories: {},
+      console: true,
+      redact: [{ pattern: 'employeeNumber', replacement: '[REDACTED]' }],
+    });
+    expect(fromYaml.tools.disabled).toEqual(['bamboo_run_custom_report']);
+
+    const fromJson = loadServerConfig({
+      argv: [],
+      env: { BAMBOO_CONFIG_FILE: jsonFile },
+    }).config;
+    expect(fromJson.transport).toMatchObject({ mode: 'http', port: 8080 });
+  });
+
+  test('environment overrides the file and CLI flags override both', () => {
+    const file = writeConfig(
+      'server.yaml',
+      'client:\n  requestTimeoutMs: 10000\n  maxRetryAttempts: 1\ntransport:\n  port: 4000\n'
+    );
+
+    const { config, sources } = loadServerConfig({
+      argv: [
+        `--config=${file}`,
+        '--port',
+        '5000',
+        '--set',
+        'client.maxRetryAttempts=4',
+      ],
+      env: {
+        REQUEST_TIMEOUT_SECONDS: '2.5',
+        MAX_RETRY_ATTEMPTS: '2',
+        MCP_HTTP_PORT: '4500',
+        CACHE_TTL_TIME_OFF: '60',
+      },
+    });
+
+    expect(config.client.requestTimeoutMs).toBe(2500);
+    expect(config.client.maxRetryAttempts).toBe(4);
+    expect(config.client.cacheTtl.timeOffMs).toBe(60000);
+    expect(config.transport.port).toBe(5000);
+    expect(sources).toMatchObject({
+      'client.requestTimeoutMs': 'env REQUEST_TIMEOUT_SECONDS',
+      'client.maxRetryAttempts': '--set client.maxRetryAttempts',
+      'transport.port': '--port',
+    });
+  });
+
+  test('reports every invalid setting with its source', () => {
+    const file = writeConfig(
+      'server.yaml',
+      `client:
+  requestTimeout: 5000
+  maxRetryAttempts: -1
+logging:
+  level: verbose
+tools:
+  enabled: [bamboo_not_a_tool]
+`
+    );
+
+    const error = loadError({
+      argv: ['--config', file, '--set', 'client.retryBaseDelayMs=fast'],
+      env: { CACHE_TTL_EMPLOYEES: 'an hour', BAMBOO_API_KEY: ' ' },
+    });
+
+    expect(error).toBeInstanceOf(ConfigValidationError);
+    expect(error.issues).toEqual(
+      expect.arrayContaining([
+        {
+          path: 'client.requestTimeout',
+          source: file,
+          message: 'unknown setting',
+        },
+        {
+          path: 'client.maxRetryAttempts',
+          source: file,
+          message: 'must be an integer (0 or more), got -1',
+        },
+        {
+          path: 'logging.level',
+          source: file,
+          message:
+            'must be one of debug, info, notice, warning, error, critical, alert, emergency, warn, got "verbose"',
+        },
+        expect.objectContaining({
+          path: 'tools.enabled',
+          message: expect.stringContaining('unknown tool "bamboo_not_a_tool"'),
+        }),
+        {
+          path: 'client.cacheTtl.employeesMs',
+          source: 'env CACHE_TTL_EMPLOYEES',
+          message: 'must be a number of seconds (0 or more), got "an hour"',
+        },
+        {
+          path: 'client.retryBaseDelayMs',
+          source: '--set client.retryBaseDelayMs',
+          message: 'must be a number of seconds (0 or more), got "fast"',
+        },
+        {
+          path: 'bamboo.apiKey',
+          source: 'env BAMBOO_API_KEY',
+          message: 'must be a non-empty string',
+        },
+      ])
+    );
+    expect(error.issues).toHaveLength(7);
+    expect(error.message).toContain(
+      `client.requestTimeout: unknown setting (${file})`
+    );
+  });
+
+  test('rejects unreadable files and conflicting settings', () => {
+    const broken = writeConfig('broken.json', '{ "client": ');
+    expect(
+      loadError({ argv: ['--config', broken], env: {} }).issues[0]
+    ).toMatchObject({
+      path: '(file)',
+      source: broken,
+    });
+
+    const conflicting = loadError({
+      argv: ['--set', 'client.retryBaseDelayMs=5000'],
+      env: {
+        BAMBOO_RECORD_DIR: '/tmp/rec',
+        BAMBOO_REPLAY_DIR: '/tmp/rep',
+        RETRY_MAX_DELAY_SECONDS: '1',
+      },
+    });
+    expect(conflicting.issues.map((issue) => issue.path)).toEqual([
+      'fixtures',
+      'client.retryBaseDelayMs',
+    ]);
+  });
+
+  test('secret values are never echoed in errors', () => {
+    const file = writeConfig('server.yaml', 'bamboo:\n  apiKey: 12345\n');
+    const error = loadError({ argv: ['--config', file], env: {} });
+
+    expect(error.issues).toEqual([
+      {
+        path: 'bamboo.apiKey',
+        source: file,
+        message: 'must be a non-empty string',
+      },
+    ]);
+    expect(error.message).not.toContain('12345');
+  });
+
+  test('builds client and logger settings', () => {
+    const { config } = loadServerConfig({
+      argv: ['--set', 'logging.redact=[{"pattern":"^badge"}]'],
+      env: { CACHE_TTL_EMPLOYEES: '60', LOG_LEVEL: 'warn', LOG_CONSOLE: 'no' },
+    });
+
+    expect(toClientSettings(config).cacheTtlRules).toContainEqual({
+      prefix: '/employees/',
+      ttlMs: 60000,
+    });
+    const loggerConfig = toLoggerConfig(config);
+    expect(loggerConfig).toMatchObject({
+      minLevel: 'warn',
+      enableConsoleOutput: false,
+    });
+    expect(loggerConfig.sanitizationRules.at(-1)).toEqual({
+      pattern: /^badge/i,
+      replacement: '[REDACTED]',
+    });
+  });
+
+  describe('Reload', () => {
+    test('applies reloadable settings and keeps the rest until restart', () => {
+      const current = loadServerConfig({
+        argv: [],
+        env: { BAMBOO_API_KEY: 'old-key', MAX_RETRY_ATTEMPTS: '3' },
+      }).config;
+      const next = loadServerConfig({
+        argv: ['--port', '9000'],
+        env: {
+          BAMBOO_API_KEY: 'new-key',
+          MAX_RETRY_ATTEMPTS: '1',
+          LOG_LEVEL: 'debug',
+        },
+      }).config;
+
+      const reload = diffServerConfig(current, next);
+
+      expect(reload.applied).toEqual([
+        'client.maxRetryAttempts',
+        'logging.level',
+      ]);
+      expect(reload.restartRequired).toEqual([
+        'bamboo.apiKey',
+        'transport.port',
+      ]);
+      expect(reload.config.bamboo.apiKey).toBe('old-key');
+      expect(reload.config.transport.port).toBe(3000);
+      expect(reload.config.client.maxRetryAttempts).toBe(1);
+      expect(reload.config.logging.level).toBe('debug');
+    });
+
+    test('updateSettings retunes a running client and resets omitted settings', () => {
+      const client = new BambooClient({
+        apiKey: 'key',
+        subdomain: 'acme',
+        requestTimeoutMs: 1000,
+        circuitBreakerThreshold: 2,
+      });
+
+      client.updateSettings({ maxRetryAttempts: 0, rateLimitPerSecond: 2 });
+
+      expect(client.getSettings()).toMatchObject({
+        requestTimeoutMs: 30000,
+        maxRetryAttempts: 0,
+        rateLimitPerSecond: 2,
+        circuitBreakerThreshold: 5,
+      });
+    });
+
+    test('disabled tools are hidden and rejected', () => {
+      configureToolEnablement({
+        enabled: ['bamboo_find_employee', 'bamboo_whos_out'],
+        disabled: ['bamboo_whos_out'],
+      });
+
+      expect(getEnabledTools().map((tool) => tool.name)).toEqual([
+        'bamboo_find_employee',
+      ]);
+      expect(() => assertToolEnabled('bamboo_find_employee')).not.toThrow();
+      try {
+        assertToolEnabled('bamboo_whos_out');
+        throw new Error('Expected bamboo_whos_out to be rejected');
+      } catch (error) {
+        expect(error).toBeInstanceOf(MCPError);
+        expect((error as MCPError).code).toBe(MCP_ERROR_CODES.METHOD_NOT_FOUND);
+      }
+
+      configureToolEnablement({});
+      expect(getEnabledTools()).toHaveLength(BAMBOO_TOOLS.length);
+    });
+  });
+});
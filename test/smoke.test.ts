@@ -12,7 +12,11 @@ import {
   initializeToolRouter,
   getAvailableTools,
 } from '../src/config/toolRouter.js';
-import { createProgressContext } from '../src/utils/progressTracker.js';
+import {
+  createProgressContext,
+  extractProgressToken,
+  getProgressReporter,
+} from '../src/utils/progressTracker.js';
 import {
   formatMCPErrorResponse,
   validateRequestId,
@@ -102,7 +106,7 @@ describe('BambooHR MCP Server - Smoke Tests (Modernized)', () => {
     test('Tool definitions are properly loaded', () => {
       expect(BAMBOO_TOOLS).toBeDefined();
       expect(Array.isArray(BAMBOO_TOOLS)).toBe(true);
-      expect(BAMBOO_TOOLS.length).toBe(10);
+      expect(BAMBOO_TOOLS.length).toBe(19);
     });
 
     test('All tools have required MCP schema properties', () => {
@@ -140,7 +144,7 @@ describe('BambooHR MCP Server - Smoke Tests (Modernized)', () => {
 
     test('getAvailableTools returns correct tool list', () => {
       const availableTools = getAvailableTools();
-      expect(availableTools).toHaveLength(10);
+      expect(availableTools).toHaveLength(19);
 
       const expectedTools = BAMBOO_TOOLS.map((tool) => tool.name);
       availableTools.forEach((toolName) => {
@@ -180,6 +184,73 @@ describe('BambooHR MCP Server - Smoke Tests (Modernized)', () => {
       await expect(
         progressContext.sendProgress(50, 100, 'Test')
       ).resolves.not.toThrow();
+
+      const failingNotifier = jest
+        .fn()
+        .mockRejectedValue(new Error('Not connected'));
+      const failingContext = createProgressContext(
+        'test-token',
+        failingNotifier
+      );
+      await expect(
+        failingContext.sendProgress(50, 100, 'Test')
+      ).resolves.toBeUndefined();
+      expect(failingNotifier).toHaveBeenCalled();
+    });
+
+    test('sendProgress emits notifications/progress for the token', async () => {
+      const notifier = jest.fn().mockResolvedValue(undefined);
+      const progressContext = createProgressContext(7, notifier);
+
+      await progressContext.sendProgress(25, 100, 'Fetching data');
+
+      expect(notifier).toHaveBeenCalledWith({
+        method: 'notifications/progress',
+        params: {
+          progressToken: 7,
+          progress: 25,
+          total: 100,
+          message: 'Fetching data',
+        },
+      });
+    });
+
+    test('sendProgress is a no-op without a token', async () => {
+      const notifier = jest.fn().mockResolvedValue(undefined);
+      const progressContext = createProgressContext(null, notifier);
+
+      await progressContext.sendProgress(25, 100, 'Fetching data');
+
+      expect(notifier).not.toHaveBeenCalled();
+    });
+
+    test('extractProgressToken keeps string and numeric tokens', () => {
+      expect(
+        extractProgressToken({ params: { _meta: { progressToken: 'abc' } } })
+      ).toBe('abc');
+      expect(
+        extractProgressToken({ params: { _meta: { progressToken: 0 } } })
+      ).toBe(0);
+      expect(extractProgressToken({ params: {} })).toBeNull();
+    });
+
+    test('getProgressReporter only reports for progress-enabled calls', async () => {
+      const sendProgress = jest.fn().mockResolvedValue(undefined);
+
+      await getProgressReporter({ isEnabled: false, sendProgress })(
+        10,
+        100,
+        'Disabled'
+      );
+      await getProgressReporter({ isEnabled: true, sendProgress })(
+        20,
+        100,
+        'Enabled'
+      );
+      await getProgressReporter()(30, 100, 'No context');
+
+      expect(sendProgress).toHaveBeenCalledTimes(1);
+      expect(sendProgress).toHaveBeenCalledWith(20, 100, 'Enabled');
     });
   });
 
@@ -297,12 +368,13 @@ describe('BambooHR MCP Server - Smoke Tests (Modernized)', () => {
       // Should only declare implemented capabilities
       const expectedCapabilities = {
         tools: {},
+        resources: {},
       };
 
       // Note: We can't directly access server capabilities in this way,
       // but we can verify the pattern is followed in our server construction
       expect(typeof expectedCapabilities.tools).toBe('object');
-      expect(expectedCapabilities).not.toHaveProperty('resources');
+      expect(typeof expectedCapabilities.resources).toBe('object');
       expect(expectedCapabilities).not.toHaveProperty('prompts');
       expect(expectedCapabilities).not.toHaveProperty('sampling');
     });
@@ -0,0 +1,272 @@
+/**
+ * OpenTelemetry tests
+ * Tool call spans, BambooClient request and attempt spans, cache and retry
+ * events, and the metrics they record, captured with in-memory exporters
+ */
+
+import { SpanKind, SpanStatusCode } from '@opentelemetry/api';
+import {
+  AggregationTemporality,
+  InMemoryMetricExporter,
+  MeterProvider,
+  PeriodicExportingMetricReader,
+} from '@opentelemetry/sdk-metrics';
+import {
+  BasicTracerProvider,
+  InMemorySpanExporter,
+  SimpleSpanProcessor,
+  type ReadableSpan,
+} from '@opentelemetry/sdk-trace-base';
+import { BambooClient } from '../src/bamboo-client.js';
+import {
+  startFakeBambooServer,
+  type FakeBambooServerHandle,
+} from '../src/devtools/fakeBambooServer.js';
+import {
+  ToolCallTrace,
+  configureTelemetry,
+  endpointRoute,
+} from '../src/telemetry/telemetry.js';
+
+const silentLogger = {
+  debug: jest.fn(),
+  info: jest.fn(),
+  warn: jest.fn(),
+  error: jest.fn(),
+};
+
+describe('OpenTelemetry instrumentation', () => {
+  let server: FakeBambooServerHandle;
+  let client: BambooClient;
+  let spanExporter: InMemorySpanExporter;
+  let metricExporter: InMemoryMetricExporter;
+  let metricReader: PeriodicExportingMetricReader;
+
+  const spansNamed = (name: string): ReadableSpan[] =>
+    spanExporter.getFinishedSpans().filter((span) => span.name === name);
+
+  const childrenOf = (parent: ReadableSpan): ReadableSpan[] =>
+    spanExporter
+      .getFinishedSpans()
+      .filter(
+        (span) => span.parentSpanContext?.spanId === parent.spanContext().spanId
+      );
+
+  const dataPoints = async (name: string) => {
+    await metricReader.forceFlush();
+    const latest = metricExporter.getMetrics().at(-1);
+    const metric = latest?.scopeMetrics
+      .flatMap((scope) => scope.metrics)
+      .find((candidate) => candidate.descriptor.name === name);
+    return (metric?.dataPoints ?? []).map(({ attributes, value }) => ({
+      attributes,
+      value,
+    }));
+  };
+
+  beforeAll(async () => {
+    server = await startFakeBambooServer({ seed: 5, employeeCount: 4 });
+  });
+
+  afterAll(async () => {
+    configureTelemetry({ enabled: false });
+    await server.close();
+  });
+
+  beforeEach(() => {
+    spanExporter = new InMemorySpanExporter();
+    metricExporter = new InMemoryMetricExporter(
+      AggregationTemporality.CUMULATIVE
+    );
+    metricReader = new PeriodicExportingMetricReader({
+      exporter: metricExporter,
+      exportIntervalMillis: 60_000,
+    });
+    configureTelemetry({
+      tracerProvider: new BasicTracerProvider({
+        spanProcessors: [new SimpleSpanProcessor(spanExporter)],
+      }),
+      meterProvider: new MeterProvider({ readers: [metricReader] }),
+    });
+    server.setFaults({});
+    client = new BambooClient(
+      {
+        apiKey: 'fake-key',
+        subdomain: 'fake',
+        baseUrl: server.baseUrl,
+        maxRetryAttempts: 1,
+        retryMaxDelayMs: 10,
+      },
+      silentLogger
+    );
+  });
+
+  afterEach(async () => {
+    await metricReader.shutdown();
+  });
+
+  test('endpoint routes drop the query string and numeric IDs', () => {
+    expect(endpointRoute('/employees/123?fields=firstName')).toBe(
+      '/employees/{id}'
+    );
+    expect(endpointRoute('/employees/42/photo/small')).toBe(
+      '/employees/{id}/photo/small'
+    );
+    expect(endpointRoute('/reports/custom?format=JSON')).toBe(
+      '/reports/custom'
+    );
+  });
+
+  test('BambooClient requests are child spans of the tool call', async () => {
+    const toolTrace = new ToolCallTrace('bamboo_find_employee');
+    const options = { traceContext: toolTrace.traceContext };
+    await client.get('/employees/directory', options);
+    await client.get('/employees/directory', options);
+    toolTrace.end('success');
+
+    const [toolSpan] = spansNamed('tools/call bamboo_find_employee');
+    expect(toolSpan.kind).toBe(SpanKind.SERVER);
+    expect(toolSpan.attributes).toMatchObject({
+      'mcp.tool.name': 'bamboo_find_employee',
+      'bamboo.outcome': 'success',
+    });
+
+    const [miss, hit] = childrenOf(toolSpan);
+    expect(miss.name).toBe('BambooHR GET /employees/directory');
+    expect(miss.events.map((event) => event.name)).toEqual(['cache.miss']);
+    expect(miss.attributes['bamboo.cache.result']).toBe('miss');
+    expect(hit.events.map((event) => event.name)).toEqual(['cache.hit']);
+
+    // Only the miss reached the network
+    const [attempt] = childrenOf(miss);
+    expect(attempt.kind).toBe(SpanKind.CLIENT);
+    expect(attempt.attributes).toMatchObject({
+      'http.request.method': 'GET',
+      'http.response.status_code': 200,
+      'url.template': '/employees/directory',
+    });
+    expect(childrenOf(hit)).toEqual([]);
+
+    expect(await dataPoints('bamboo.client.cache.lookups')).toEqual([
+      { attributes: { 'bamboo.cache.result': 'miss' }, value: 1 },
+      { attributes: { 'bamboo.cache.result': 'hit' }, value: 1 },
+    ]);
+    const [toolDuration] = await dataPoints('bamboo.tool.duration');
+    expect(toolDuration).toMatchObject({
+      attributes: {
+        'mcp.tool.name': 'bamboo_find_employee',
+        'bamboo.outcome': 'success',
+      },
+      value: { count: 1 },
+    });
+  });
+
+  test('coalesced requests link to the span of the request they shared', async () => {
+    const toolTrace = new ToolCallTrace('bamboo_find_employee');
+    const options = { traceContext: toolTrace.traceContext };
+    await Promise.all([
+      client.get('/employees/directory', options),
+      client.get('/employees/directory', options),
+    ]);
+    toolTrace.end('success');
+
+    const [toolSpan] = spansNamed('tools/call bamboo_find_employee');
+    const requests = childrenOf(toolSpan);
+    const miss = requests.find(
+      (span) => span.attributes['bamboo.cache.result'] === 'miss'
+    )!;
+    const coalesced = requests.find(
+      (span) => span.attributes['bamboo.cache.result'] === 'coalesced'
+    )!;
+    expect(childrenOf(miss)).toHaveLength(1);
+    expect(childrenOf(coalesced)).toEqual([]);
+    expect(miss.links).toEqual([]);
+    expect(coalesced.links.map((link) => link.context.spanId)).toEqual([
+      miss.spanContext().spanId,
+    ]);
+  });
+
+  test('each retry attempt gets its own span', async () => {
+    server.setFaults({ rateLimitCount: 1, retryAfterSeconds: 1 });
+    const employeeId = server.data.employees[0].id;
+    await client.get(`/employees/${employeeId}?fields=firstName`);
+
+    const [request] = spansNamed('BambooHR GET /employees/{id}');
+    const attempts = childrenOf(request);
+    expect(
+      attempts.map((attempt) => [
+        attempt.attributes['http.response.status_code'],
+        attempt.attributes['http.request.resend_count'],
+      ])
+    ).toEqual([
+      [429, undefined],
+      [200, 1],
+    ]);
+    expect(
+      request.events.find((event) => event.name === 'retry')
+    ).toMatchObject({
+      attributes: {
+        'http.request.resend_count': 1,
+        'bamboo.retry.reason': 'rate_limited',
+        'bamboo.retry.delay_ms': 10,
+      },
+    });
+
+    expect(await dataPoints('bamboo.client.retries')).toEqual([
+      {
+        attributes: {
+          'http.request.method': 'GET',
+          'bamboo.route': '/employees/{id}',
+          'bamboo.retry.reason': 'rate_limited',
+        },
+        value: 1,
+      },
+    ]);
+    const waits = await dataPoints('bamboo.client.rate_limit.wait');
+    expect(waits[0].value).toMatchObject({ count: 2 });
+  });
+
+  test('failures are counted by error type', async () => {
+    const toolTrace = new ToolCallTrace('bamboo_get_employee_photo');
+    await expect(
+      client.get('/not-an-endpoint', { traceContext: toolTrace.traceContext })
+    ).rejects.toThrow();
+    toolTrace.end('error', 'NOT_FOUND');
+
+    const [request] = spansNamed('BambooHR GET /not-an-endpoint');
+    expect(request.status.code).toBe(SpanStatusCode.ERROR);
+    expect(request.attributes['error.type']).toBe('NOT_FOUND');
+
+    expect(await dataPoints('bamboo.client.request.errors')).toEqual([
+      {
+        attributes: {
+          'http.request.method': 'GET',
+          'bamboo.route': '/not-an-endpoint',
+          'error.type': 'NOT_FOUND',
+        },
+        value: 1,
+      },
+    ]);
+    expect(await dataPoints('bamboo.tool.errors')).toEqual([
+      {
+        attributes: {
+          'mcp.tool.name': 'bamboo_get_employee_photo',
+          'error.type': 'NOT_FOUND',
+        },
+        value: 1,
+      },
+    ]);
+  });
+
+  test('nothing is recorded when telemetry is disabled', async () => {
+    configureTelemetry({ enabled: false });
+    const toolTrace = new ToolCallTrace('bamboo_find_employee');
+    await client.get('/employees/directory', {
+      traceContext: toolTrace.traceContext,
+    });
+    toolTrace.end('success');
+
+    expect(spanExporter.getFinishedSpans()).toEqual([]);
+    expect(await dataPoints('bamboo.tool.duration')).toEqual([]);
+  });
+});
@@ -0,0 +1,259 @@
+/**
+ * Multi-company tests
+ * Companies file validation, `company` resolution, and isolation of data and
+ * cache between tenants served by two fake BambooHR APIs
+ */
+
+import { BambooClient } from '../src/bamboo-client.js';
+import {
+  getToolHandler,
+  initializeToolRouter,
+  validateToolArguments,
+} from '../src/config/toolRouter.js';
+import {
+  startFakeBambooServer,
+  type FakeBambooServerHandle,
+} from '../src/devtools/fakeBambooServer.js';
+import {
+  handleListCompanies,
+  initializeCompanyHandlers,
+} from '../src/handlers/companyHandlers.js';
+import { initializeEmployeeHandlers } from '../src/handlers/employeeHandlers.js';
+import { initializeOrganizationHandlers } from '../src/handlers/organizationHandlers.js';
+import * as formatters from '../src/formatters.js';
+import {
+  TenantConfigError,
+  TenantRegistry,
+  parseTenantsConfig,
+} from '../src/tenants/tenantRegistry.js';
+import { MCPError, MCP_ERROR_CODES } from '../src/utils/mcpErrorHandler.js';
+
+const silentLogger = {
+  debug: jest.fn(),
+  info: jest.fn(),
+  warn: jest.fn(),
+  error: jest.fn(),
+};
+
+describe('Multi-company support', () => {
+  describe('parseTenantsConfig', () => {
+    test('resolves apiKeyEnv and defaults to the first company', () => {
+      const config = parseTenantsConfig(
+        {
+          companies: {
+            acme: { subdomain: 'acme', apiKeyEnv: 'ACME_KEY' },
+            globex: {
+              subdomain: 'globex-hr',
+              apiKey: 'globex-key',
+              displayName: 'Globex',
+              baseUrl: 'http://127.0.0.1:8765/api/gateway.php/globex/v1/',
+            },
+          },
+        },
+        { env: { ACME_KEY: 'acme-key' } }
+      );
+
+      expect(config.defaultCompany).toBe('acme');
+      expect(config.companies).toEqual([
+        { name: 'acme', subdomain: 'acme', apiKey: 'acme-key' },
+        {
+          name: 'globex',
+          subdomain: 'globex-hr',
+          apiKey: 'globex-key',
+          displayName: 'Globex',
+          baseUrl: 'http://127.0.0.1:8765/api/gateway.php/globex/v1',
+        },
+      ]);
+    });
+
+    test.each([
+      [{}, /"companies" must be an object/],
+      [{ companies: {} }, /lists no companies/],
+      [
+        { companies: { acme: { subdomain: 'ac.me', apiKey: 'k' } } },
+        /subdomain/,
+      ],
+      [
+        { companies: { acme: { subdomain: 'acme' } } },
+        /set apiKey or apiKeyEnv/,
+      ],
+      [
+        { companies: { acme: { subdomain: 'acme', apiKeyEnv: 'MISSING' } } },
+        /MISSING is not set/,
+      ],
+      [
+        {
+          defaultCompany: 'initech',
+          companies: { acme: { subdomain: 'acme', apiKey: 'k' } },
+        },
+        /defaultCompany "initech"/,
+      ],
+      [
+        { companies: { 'a b': { subdomain: 'ab', apiKey: 'k' } } },
+        /name "a b"/,
+      ],
+    ])('rejects invalid config %#', (raw, message) => {
+      expect(() => parseTenantsConfig(raw, { env: {} })).toThrow(
+        TenantConfigError
+      );
+      expect(() => parseTenantsConfig(raw, { env: {} })).toThrow(message);
+    });
+
+    test('API keys are optional when not required (fixture replay)', () => {
+      const config = parseTenantsConfig(
+        { companies: { acme: { subdomain: 'acme' } } },
+        { env: {}, requireApiKey: false }
+      );
+      expect(config.companies[0].apiKey).toBe('replay');
+    });
+  });
+
+  describe('Tenant isolation', () => {
+    let acmeServer: FakeBambooServerHandle;
+    let globexServer: FakeBambooServerHandle;
+    let registry: TenantRegistry;
+
+    beforeAll(async () => {
+      acmeServer = await startFakeBambooServer({ seed: 1, employeeCount: 6 });
+      globexServer = await startFakeBambooServer({
+        seed: 2,
+        employeeCount: 9,
+      });
+
+      registry = new TenantRegistry(
+        {
+          defaultCompany: 'acme',
+          companies: [
+            {
+              name: 'acme',
+              subdomain: 'acme',
+              apiKey: 'acme-key',
+              baseUrl: acmeServer.baseUrl,
+            },
+            {
+              name: 'globex',
+              subdomain: 'globex',
+              apiKey: 'globex-key',
+              displayName: 'Globex Corporation',
+              baseUrl: globexServer.baseUrl,
+            },
+          ],
+        },
+        (tenant) =>
+          new BambooClient(
+            {
+              apiKey: tenant.apiKey,
+              subdomain: tenant.subdomain,
+              baseUrl: tenant.baseUrl,
+              maxRetryAttempts: 0,
+            },
+            silentLogger
+          )
+      );
+
+      const handlerDependencies = {
+        bambooClient: registry.getDefault().client,
+        formatters,
+        logger: silentLogger,
+      };
+      initializeEmployeeHandlers(handlerDependencies);
+      initializeOrganizationHandlers(handlerDependencies);
+      initializeCompanyHandlers(registry);
+      initializeToolRouter();
+    });
+
+    afterAll(async () => {
+      await acmeServer.close();
+      await globexServer.close();
+    });
+
+    const callTool = (name: string, args: Record<string, unknown>) => {
+      const tenant = registry.resolve(args.company);
+      return getToolHandler(name)(args, {
+        bambooClient: tenant.client,
+        company: tenant.config.name,
+      });
+    };
+
+    test('each company is answered from its own BambooHR tenant', async () => {
+      const acme = await callTool('bamboo_list_departments', {});
+      const globex = await callTool('bamboo_list_departments', {
+        company: 'globex',
+      });
+
+      expect(acme.structuredContent).toMatchObject({ employeeCount: 6 });
+      expect(globex.structuredContent).toMatchObject({ employeeCount: 9 });
+    });
+
+    test('cache entries never cross companies', async () => {
+      const acmeClient = registry.resolve('acme').client;
+      const globexClient = registry.resolve('globex').client;
+      acmeClient.clearCache();
+      globexClient.clearCache();
+
+      await callTool('bamboo_list_departments', { company: 'acme' });
+      expect(acmeClient.getCacheStats().size).toBe(1);
+      expect(globexClient.getCacheStats().size).toBe(0);
+
+      // Same endpoint for the other company must go to its own API
+      const globex = await callTool('bamboo_list_departments', {
+        company: 'globex',
+      });
+      expect(globex.structuredContent).toMatchObject({ employeeCount: 9 });
+      expect(globexClient.getCacheStats()).toMatchObject({
+        size: 1,
+        hits: 0,
+      });
+    });
+
+    test('photo URLs point at the selected company', async () => {
+      const employeeId = globexServer.data.employees[0].id;
+      const result = await callTool('bamboo_get_employee_photo', {
+        employee_id: employeeId,
+        company: 'globex',
+      });
+
+      expect(result.structuredContent).toMatchObject({
+        photoUrl: `${globexServer.baseUrl}/employees/${employeeId}/photo`,
+      });
+    });
+
+    test('unknown companies are rejected with INVALID_PARAMS', () => {
+      expect(() => registry.resolve('initech')).toThrow(MCPError);
+      try {
+        registry.resolve('initech');
+      } catch (error) {
+        expect((error as MCPError).code).toBe(MCP_ERROR_CODES.INVALID_PARAMS);
+        expect((error as MCPError).message).toContain('acme, globex');
+      }
+    });
+
+    test('company must be a string in tool arguments', () => {
+      expect(() =>
+        validateToolArguments('bamboo_list_departments', { company: 7 })
+      ).toThrow(MCPError);
+      expect(() =>
+        validateToolArguments('bamboo_list_departments', { company: 'acme' })
+      ).not.toThrow();
+    });
+
+    test('bamboo_list_companies lists companies without credentials', async () => {
+      const result = await handleListCompanies({});
+
+      expect(result.structuredContent).toEqual({
+        defaultCompany: 'acme',
+        count: 2,
+        companies: [
+          { name: 'acme', subdomain: 'acme', isDefault: true },
+          {
+            name: 'globex',
+            displayName: 'Globex Corporation',
+            subdomain: 'globex',
+            isDefault: false,
+          },
+        ],
+      });
+      expect(JSON.stringify(result)).not.toContain('-key');
+    });
+  });
+});
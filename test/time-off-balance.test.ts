@@ -0,0 +1,191 @@
+/**
+ * Time-off balance tests
+ * bamboo_time_off_balance against the fake API: employee resolution by name,
+ * and current and projected balances from the time-off calculator
+ */
+
+import { BambooClient } from '../src/bamboo-client.js';
+import {
+  startFakeBambooServer,
+  type FakeBambooServerHandle,
+} from '../src/devtools/fakeBambooServer.js';
+import {
+  handleTimeOffBalance,
+  initializeTimeOffHandlers,
+} from '../src/handlers/timeOffHandlers.js';
+import type { TimeOffBalanceSummary } from '../src/types.js';
+
+const silentLogger = {
+  debug: jest.fn(),
+  info: jest.fn(),
+  warn: jest.fn(),
+  error: jest.fn(),
+  fatal: jest.fn(),
+  child: jest.fn(),
+};
+
+describe('bamboo_time_off_balance', () => {
+  let server: FakeBambooServerHandle;
+
+  beforeAll(async () => {
+    server = await startFakeBambooServer({ seed: 5, employeeCount: 12 });
+    initializeTimeOffHandlers({
+      bambooClient: new BambooClient(
+        {
+          apiKey: 'fake-key',
+          subdomain: 'fake',
+          baseUrl: server.baseUrl,
+          maxRetryAttempts: 0,
+        },
+        silentLogger
+      ),
+      formatters: {},
+      logger: silentLogger,
+    });
+  });
+
+  afterAll(async () => {
+    await server.close();
+  });
+
+  test('balances are projected to a date for an employee found by name', async () => {
+    const employee = server.data.employees[4];
+    const requests = server.data.timeOffRequests;
+    // Without booked time off the projection is accrual alone
+    server.data.timeOffRequests = requests.filter(
+      (request) => request.employeeId !== employee.id
+    );
+    const today = new Date().toISOString().split('T')[0];
+    const yearEnd = `${today.slice(0, 4)}-12-31`;
+
+    try {
+      const result = await handleTimeOffBalance({
+        employee: `${employee.firstName} ${employee.lastName}`.toUpperCase(),
+        date: yearEnd,
+      });
+
+      const structured = result.structuredContent as {
+        employeeId: string;
+        asOf: string;
+        date: string;
+        balances: TimeOffBalanceSummary[];
+      };
+      expect(structured).toMatchObject({
+        employeeId: employee.id,
+        asOf: today,
+        date: yearEnd,
+      });
+      expect(structured.balances.map((balance) => balance.name)).toEqual([
+        'Bereavement',
+        'Sick',
+        'Vacation',
+      ]);
+
+      const [bereavement, , vacation] = structured.balances;
+      expect(bereavement).toEqual({
+        typeId: '80',
+        name: 'Bereavement',
+        units: 'hours',
+        policyType: 'manual',
+        policyId: '3',
+        current: 24,
+        projected: 24,
+        change: 0,
+        usedYearToDate: 0,
+      });
+      expect(vacation).toMatchObject({
+        policyType: 'accruing',
+        policyId: '1',
+        accrualStartDate: employee.hireDate,
+        projected: 120,
+      });
+      expect(vacation.current).toBeLessThanOrEqual(120);
+      expect(vacation.change).toBeCloseTo(120 - vacation.current, 4);
+
+      expect(result.content[0].text).toContain(
+        `**Time-Off Balances: ${employee.firstName} ${employee.lastName}** (ID: ${employee.id})`
+      );
+      expect(result.content[0].text).toContain(
+        `• **Vacation**: ${Number(vacation.current.toFixed(2))} hours now, 120 hours on ${yearEnd}`
+      );
+    } finally {
+      server.data.timeOffRequests = requests;
+    }
+  });
+
+  test('without a date only current balances are shown', async () => {
+    const employee = server.data.employees[2];
+    const result = await handleTimeOffBalance({ employee: employee.id });
+
+    const { balances } = result.structuredContent as {
+      balances: TimeOffBalanceSummary[];
+    };
+    balances.forEach((balance) => {
+      expect(balance.projected).toBe(balance.current);
+      expect(balance.change).toBe(0);
+    });
+    expect(result.content[0].text).toContain('As of ');
+    expect(result.content[0].text).not.toContain(' now, ');
+  });
+
+  test('a name matching several employees lists the candidates', async () => {
+    const result = await handleTimeOffBalance({ employee: 'a' });
+
+    expect(result.isError).toBe(true);
+    expect(result.content[0]._meta).toMatchObject({
+      errorType: 'VALIDATION',
+      candidates: expect.arrayContaining([expect.any(String)]),
+    });
+    expect(result.content[0].text).toContain(
+      'Use the employee ID or full name'
+    );
+  });
+
+  test('employees sharing the full name asked for are ambiguous', async () => {
+    const employees = server.data.employees;
+    const namesake = { ...employees[3], id: '9999', workEmail: 'other@x.com' };
+    server.data.employees = [...employees, namesake];
+    // A fresh client, so the directory includes the namesake
+    const client = new BambooClient(
+      {
+        apiKey: 'fake-key',
+        subdomain: 'fake',
+        baseUrl: server.baseUrl,
+        maxRetryAttempts: 0,
+      },
+      silentLogger
+    );
+
+    try {
+      const result = await handleTimeOffBalance(
+        { employee: `${namesake.firstName} ${namesake.lastName}` },
+        { bambooClient: client }
+      );
+
+      expect(result.isError).toBe(true);
+      expect(result.content[0]._meta).toMatchObject({
+        errorType: 'VALIDATION',
+        candidates: [employees[3].id, '9999'],
+      });
+    } finally {
+      server.data.employees = employees;
+    }
+  });
+
+  test('an unknown employee is reported as not found', async () => {
+    const result = await handleTimeOffBalance({ employee: 'Nobody Here' });
+
+    expect(result.isError).toBe(true);
+    expect(result.content[0]._meta).toMatchObject({ errorType: 'NOT_FOUND' });
+  });
+
+  test('balances cannot be projected into the past', async () => {
+    const result = await handleTimeOffBalance({
+      employee: server.data.employees[0].id,
+      date: '2000-01-01',
+    });
+
+    expect(result.isError).toBe(true);
+    expect(result.content[0]._meta).toMatchObject({ errorType: 'VALIDATION' });
+  });
+});
@@ -0,0 +1,280 @@
+/**
+ * Time-off catalog tests
+ * TimeOffCatalog lookups and caching, the type and policy tools, and the
+ * catalog details added to time-off requests and who's out
+ */
+
+import { BambooClient } from '../src/bamboo-client.js';
+import {
+  startFakeBambooServer,
+  type FakeBambooServerHandle,
+} from '../src/devtools/fakeBambooServer.js';
+import {
+  handleListTimeOffPolicies,
+  handleListTimeOffTypes,
+  handleTimeOffRequests,
+  handleWhosOut,
+  initializeTimeOffHandlers,
+} from '../src/handlers/timeOffHandlers.js';
+import {
+  TimeOffCatalog,
+  getTimeOffCatalog,
+} from '../src/timeoff/timeOffCatalog.js';
+import type {
+  TimeOffRequestSummary,
+  TimeOffTypeSummary,
+} from '../src/types.js';
+
+const silentLogger = {
+  debug: jest.fn(),
+  info: jest.fn(),
+  warn: jest.fn(),
+  error: jest.fn(),
+  fatal: jest.fn(),
+  child: jest.fn(),
+};
+
+const types = [
+  { id: '78', name: 'Vacation', units: 'hours', icon: 'palm-trees' },
+  { id: '79', name: 'Sick', units: 'days', color: null, icon: null },
+];
+const policies = [
+  {
+    id: '2',
+    timeOffTypeId: '78',
+    name: 'Vacation Part-Time',
+    type: 'accruing',
+  },
+  {
+    id: '1',
+    timeOffTypeId: '78',
+    name: 'Vacation Full-Time',
+    type: 'accruing',
+  },
+  { id: '3', timeOffTypeId: '79', name: 'Sick', type: 'manual' },
+];
+
+describe('TimeOffCatalog', () => {
+  const catalog = new TimeOffCatalog(types, policies);
+
+  test('types are found by ID or name, ignoring case', () => {
+    expect(catalog.findType('79')?.name).toBe('Sick');
+    expect(catalog.findType(' vacation ')?.id).toBe('78');
+    expect(catalog.findType('Jury Duty')).toBeUndefined();
+  });
+
+  test('summaries count and sort policies by type', () => {
+    expect(catalog.typeSummaries()).toEqual([
+      { id: '79', name: 'Sick', units: 'days', policyCount: 1 },
+      {
+        id: '78',
+        name: 'Vacation',
+        units: 'hours',
+        icon: 'palm-trees',
+        policyCount: 2,
+      },
+    ]);
+    expect(catalog.policySummaries().map((policy) => policy.id)).toEqual([
+      '3',
+      '1',
+      '2',
+    ]);
+    expect(catalog.policySummaries('79')).toEqual([
+      { id: '3', name: 'Sick', typeId: '79', typeName: 'Sick', type: 'manual' },
+    ]);
+  });
+
+  test('catalogs are cached per pair of responses', () => {
+    const response = { timeOffTypes: types };
+    expect(getTimeOffCatalog(response, policies)).toBe(
+      getTimeOffCatalog(response, policies)
+    );
+    expect(getTimeOffCatalog(response, [...policies])).not.toBe(
+      getTimeOffCatalog(response, policies)
+    );
+  });
+});
+
+describe('time-off catalog tools', () => {
+  let server: FakeBambooServerHandle;
+
+  beforeAll(async () => {
+    server = await startFakeBambooServer({
+      seed: 2,
+      employeeCount: 20,
+      referenceDate: '2024-03-15',
+    });
+    initializeTimeOffHandlers({
+      bambooClient: new BambooClient(
+        {
+          apiKey: 'fake-key',
+          subdomain: 'fake',
+          baseUrl: server.baseUrl,
+          maxRetryAttempts: 0,
+        },
+        silentLogger
+      ),
+      formatters: {},
+      logger: silentLogger,
+    });
+  });
+
+  afterAll(async () => {
+    await server.close();
+  });
+
+  test('bamboo_list_time_off_types lists types with units and icons', async () => {
+    const result = await handleListTimeOffTypes({});
+
+    const structured = result.structuredContent as {
+      count: number;
+      types: TimeOffTypeSummary[];
+    };
+    expect(structured.count).toBe(3);
+    expect(structured.types[2]).toEqual({
+      id: '78',
+      name: 'Vacation',
+      units: 'hours',
+      icon: 'palm-trees',
+      color: '#4c9f38',
+      policyCount: 1,
+    });
+    expect(result.content[0].text).toContain(
+      '• **🌴 Vacation** (ID: 78) - hours, 1 policy'
+    );
+  });
+
+  test('bamboo_list_time_off_policies filters by type name', async () => {
+    const result = await handleListTimeOffPolicies({ type: 'sick' });
+
+    expect(result.structuredContent).toEqual({
+      type: 'Sick',
+      typeId: '79',
+      count: 1,
+      policies: [
+        {
+          id: '2',
+          name: 'Sick Leave',
+          typeId: '79',
+          typeName: 'Sick',
+          type: 'accruing',
+          effectiveDate: '2015-01-01',
+        },
+      ],
+    });
+
+    const unknown = await handleListTimeOffPolicies({ type: 'Jury Duty' });
+    expect(unknown.isError).toBe(true);
+    expect(unknown.content[0]._meta).toMatchObject({ errorType: 'VALIDATION' });
+  });
+
+  test('bamboo_time_off_requests filters by a catalog type', async () => {
+    const args = { start_date: '2024-01-01', end_date: '2024-06-30' };
+    const result = await handleTimeOffRequests({ ...args, type: 'Vacation' });
+
+    const structured = result.structuredContent as {
+      type: string;
+      typeId: string;
+      requests: TimeOffRequestSummary[];
+    };
+    const expected = server.data.timeOffRequests.filter(
+      (request) => request.type.id === '78'
+    );
+    expect(structured).toMatchObject({ type: 'Vacation', typeId: '78' });
+    expect(structured.requests).toHaveLength(expected.length);
+    structured.requests.forEach((request) =>
+      expect(request.type).toBe('Vacation')
+    );
+
+    const text = result.content[0].text;
+    expect(text).toContain(
+      '**Time-Off Requests: 2024-01-01 to 2024-06-30 (Vacation)**'
+    );
+    expect(text).toContain(
+      `**${expected[0].name}** - ${expected[0].start} to ${expected[0].end} (🌴 Vacation, ${expected[0].amount.amount} hours)`
+    );
+    // Statuses arrive as { status, lastChanged } objects
+    expect(text).not.toContain('[OTHER]');
+
+    const unknown = await handleTimeOffRequests({ ...args, type: 'Jury Duty' });
+    expect(unknown.isError).toBe(true);
+    expect(unknown.content[0].text).toContain(
+      'Use one of: Bereavement (80), Sick (79), Vacation (78)'
+    );
+  });
+
+  test("bamboo_whos_out names each entry's time-off type", async () => {
+    const result = await handleWhosOut({
+      start_date: '2024-01-01',
+      end_date: '2024-06-30',
+    });
+
+    const { entries } = result.structuredContent as {
+      entries: Array<{ id: string; name: string; timeOffType?: string }>;
+    };
+    expect(entries.length).toBeGreaterThan(0);
+    entries.forEach((entry) => {
+      const request = server.data.timeOffRequests.find(
+        (candidate) => candidate.id === entry.id
+      )!;
+      expect(entry.timeOffType).toBe(request.type.name);
+    });
+    expect(result.content[0].text).toMatch(
+      /• \*\*.+\*\* - (🌴 Vacation|🤒 Sick|❤️ Bereavement) \(/
+    );
+  });
+
+  test('bamboo_whos_out leaves out the employee of holiday entries', async () => {
+    const holiday = {
+      id: '12',
+      type: 'holiday',
+      name: 'Independence Day',
+      start: '2024-07-04',
+      end: '2024-07-04',
+    };
+    const client = {
+      get: jest.fn().mockResolvedValue({ calendar: [holiday] }),
+    } as unknown as BambooClient;
+
+    const result = await handleWhosOut(
+      { start_date: '2024-07-01', end_date: '2024-07-07' },
+      { bambooClient: client }
+    );
+
+    expect(
+      (result.structuredContent as { entries: unknown[] }).entries
+    ).toEqual([holiday]);
+  });
+
+  test("bamboo_whos_out lists untyped entries when requests can't be read", async () => {
+    const client = new BambooClient(
+      {
+        apiKey: 'fake-key',
+        subdomain: 'fake',
+        baseUrl: server.baseUrl,
+        maxRetryAttempts: 0,
+      },
+      silentLogger
+    );
+    const get = client.get.bind(client);
+    jest
+      .spyOn(client, 'get')
+      .mockImplementation((endpoint, options) =>
+        endpoint.startsWith('/time_off/requests')
+          ? Promise.reject(new Error('BambooHR API error: 503'))
+          : get(endpoint, options)
+      );
+
+    const result = await handleWhosOut(
+      { start_date: '2024-01-01', end_date: '2024-06-30' },
+      { bambooClient: client }
+    );
+
+    expect(result.isError).toBeUndefined();
+    const { entries } = result.structuredContent as {
+      entries: Array<{ timeOffType?: string }>;
+    };
+    expect(entries.length).toBeGreaterThan(0);
+    entries.forEach((entry) => expect(entry.timeOffType).toBeUndefined());
+  });
+});
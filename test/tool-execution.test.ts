@@ -16,6 +16,7 @@ import { initializeOrganizationHandlers } from '../src/handlers/organizationHand
 import {
   getToolHandler,
   initializeToolRouter,
+  validateToolArguments,
 } from '../src/config/toolRouter.js';
 import { createProgressContext } from '../src/utils/progressTracker.js';
 import * as formatters from '../src/formatters.js';
@@ -120,15 +121,9 @@ describe('MCP Tool Execution Integration Tests - Modernized', () => {
       TEST_TIMEOUT
     );
 
-    test('bamboo_find_employee - should handle missing query', async () => {
-      if (skipTests) return;
-
-      const handler = getHandlerSafely('bamboo_find_employee');
-      const progressContext = createMockProgressContext();
-
-      const result = await handler({}, progressContext);
-
-      expect(result.content[0].text).toContain(
+    test('bamboo_find_employee - should handle missing query', () => {
+      // Rejected by the router before the handler runs
+      expect(() => validateToolArguments('bamboo_find_employee', {})).toThrow(
         'Missing required parameter: query'
       );
     });
@@ -192,15 +187,9 @@ describe('MCP Tool Execution Integration Tests - Modernized', () => {
       TEST_TIMEOUT
     );
 
-    test('bamboo_team_info - should handle missing department', async () => {
-      if (skipTests) return;
-
-      const handler = getHandlerSafely('bamboo_team_info');
-      const progressContext = createMockProgressContext();
-
-      const result = await handler({}, progressContext);
-
-      expect(result.content[0].text).toContain(
+    test('bamboo_team_info - should handle missing department', () => {
+      // Rejected by the router before the handler runs
+      expect(() => validateToolArguments('bamboo_team_info', {})).toThrow(
         'Missing required parameter: department'
       );
     });
@@ -227,17 +216,11 @@ describe('MCP Tool Execution Integration Tests - Modernized', () => {
       TEST_TIMEOUT
     );
 
-    test('bamboo_time_off_requests - should handle missing dates', async () => {
-      if (skipTests) return;
-
-      const handler = getHandlerSafely('bamboo_time_off_requests');
-      const progressContext = createMockProgressContext();
-
-      const result = await handler({}, progressContext);
-
-      expect(result.content[0].text).toContain(
-        'Missing required parameters: start_date and end_date'
-      );
+    test('bamboo_time_off_requests - should handle missing dates', () => {
+      // Rejected by the router before the handler runs
+      expect(() =>
+        validateToolArguments('bamboo_time_off_requests', {})
+      ).toThrow('Missing required parameter: start_date');
     });
 
     test(
@@ -282,29 +265,20 @@ describe('MCP Tool Execution Integration Tests - Modernized', () => {
       TEST_TIMEOUT
     );
 
-    test('bamboo_discover_fields - should handle missing dataset_id', async () => {
-      if (skipTests) return;
-
-      const handler = getHandlerSafely('bamboo_discover_fields');
-      const progressContext = createMockProgressContext();
-
-      const result = await handler({}, progressContext);
-
-      expect(result.content[0].text).toContain(
+    test('bamboo_discover_fields - should handle missing dataset_id', () => {
+      // Rejected by the router before the handler runs
+      expect(() => validateToolArguments('bamboo_discover_fields', {})).toThrow(
         'Missing required parameter: dataset_id'
       );
     });
 
-    test('bamboo_workforce_analytics - should handle missing parameters', async () => {
-      if (skipTests) return;
-
-      const handler = getHandlerSafely('bamboo_workforce_analytics');
-      const progressContext = createMockProgressContext();
-
-      const result = await handler({}, progressContext);
-
-      expect(result.content[0].text).toContain('Discovery required first');
-      expect(result.content[0].text).toContain('bamboo_discover_datasets');
+    test('bamboo_workforce_analytics - should handle missing parameters', () => {
+      // Rejected by the router before the handler runs
+      expect(() =>
+        validateToolArguments('bamboo_workforce_analytics', {})
+      ).toThrow(
+        'Missing required parameter: dataset_id (Dataset ID; run bamboo_discover_datasets first'
+      );
     });
 
     test(
@@ -378,17 +352,11 @@ describe('MCP Tool Execution Integration Tests - Modernized', () => {
       expect(result.content[0].text).toContain('/employees/123/photo');
     });
 
-    test('bamboo_get_employee_photo - should handle missing employee_id', async () => {
-      if (skipTests) return;
-
-      const handler = getHandlerSafely('bamboo_get_employee_photo');
-      const progressContext = createMockProgressContext();
-
-      const result = await handler({}, progressContext);
-
-      expect(result.content[0].text).toContain(
-        'Missing required parameter: employee_id'
-      );
+    test('bamboo_get_employee_photo - should handle missing employee_id', () => {
+      // Rejected by the router before the handler runs
+      expect(() =>
+        validateToolArguments('bamboo_get_employee_photo', {})
+      ).toThrow('Missing required parameter: employee_id');
     });
 
     test(
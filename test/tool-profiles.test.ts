@@ -0,0 +1,152 @@
+/**
+ * Tool profile tests
+ * Profiles and allow/deny lists decide which tools and resources a
+ * deployment offers; hidden ones are rejected with a clear error
+ */
+
+import { loadServerConfig } from '../src/config/serverConfig.js';
+import { BAMBOO_TOOLS } from '../src/config/toolDefinitions.js';
+import {
+  TOOL_PROFILES,
+  TOOL_PROFILE_NAMES,
+} from '../src/config/toolProfiles.js';
+import {
+  assertToolEnabled,
+  getEnabledTools,
+  initializeToolRouter,
+} from '../src/config/toolRouter.js';
+import {
+  handleListResourceTemplates,
+  handleReadResource,
+} from '../src/handlers/resourceHandlers.js';
+import { MCPError, MCP_ERROR_CODES } from '../src/utils/mcpErrorHandler.js';
+
+const enabledToolNames = () => getEnabledTools().map((tool) => tool.name);
+
+const rejection = (toolName: string): MCPError => {
+  try {
+    assertToolEnabled(toolName);
+  } catch (error) {
+    return error as MCPError;
+  }
+  throw new Error(`Expected ${toolName} to be rejected`);
+};
+
+describe('Tool profiles', () => {
+  afterEach(() => {
+    initializeToolRouter({});
+  });
+
+  test('every profile only names real tools, and hr-admin names all of them', () => {
+    const toolNames = BAMBOO_TOOLS.map((tool) => tool.name);
+    for (const profile of TOOL_PROFILE_NAMES) {
+      TOOL_PROFILES[profile].forEach((name) =>
+        expect(toolNames).toContain(name)
+      );
+    }
+    expect([...TOOL_PROFILES['hr-admin']].sort()).toEqual(
+      [...toolNames].sort()
+    );
+  });
+
+  test('all tools are offered by default', () => {
+    initializeToolRouter();
+    expect(getEnabledTools()).toHaveLength(BAMBOO_TOOLS.length);
+  });
+
+  test('directory-only hides photos, absences and analytics', () => {
+    initializeToolRouter({ profile: 'directory-only' });
+
+    expect(enabledToolNames()).toEqual([
+      'bamboo_find_employee',
+      'bamboo_team_info',
+      'bamboo_list_departments',
+      'bamboo_manager_chain',
+      'bamboo_reports',
+      'bamboo_org_chart',
+      'bamboo_list_companies',
+    ]);
+
+    const error = rejection('bamboo_get_employee_photo');
+    expect(error).toBeInstanceOf(MCPError);
+    expect(error.code).toBe(MCP_ERROR_CODES.METHOD_NOT_FOUND);
+    expect(error.message).toBe(
+      'Tool bamboo_get_employee_photo is not available on this server: not included in the "directory-only" tool profile'
+    );
+    expect(error.data).toMatchObject({
+      toolName: 'bamboo_get_employee_photo',
+      profile: 'directory-only',
+    });
+  });
+
+  test('manager adds time off and photos but not analytics', () => {
+    initializeToolRouter({ profile: 'manager' });
+
+    expect(enabledToolNames()).toEqual(
+      expect.arrayContaining([
+        'bamboo_whos_out',
+        'bamboo_time_off_requests',
+        'bamboo_time_off_balance',
+        'bamboo_list_time_off_types',
+        'bamboo_list_time_off_policies',
+        'bamboo_get_employee_photo',
+      ])
+    );
+    expect(enabledToolNames()).not.toContain('bamboo_workforce_analytics');
+    expect(enabledToolNames()).not.toContain('bamboo_run_custom_report');
+  });
+
+  test('allow and deny lists narrow a profile but never widen it', () => {
+    initializeToolRouter({
+      profile: 'manager',
+      enabled: [
+        'bamboo_find_employee',
+        'bamboo_whos_out',
+        'bamboo_run_custom_report',
+      ],
+      disabled: ['bamboo_whos_out'],
+    });
+
+    expect(enabledToolNames()).toEqual(['bamboo_find_employee']);
+    expect(rejection('bamboo_whos_out').message).toContain(
+      'disabled by server configuration'
+    );
+    expect(rejection('bamboo_team_info').message).toContain(
+      'not in the enabled tools list'
+    );
+    expect(rejection('bamboo_run_custom_report').message).toContain(
+      '"manager" tool profile'
+    );
+  });
+
+  test('resources follow the tool that serves the same data', async () => {
+    initializeToolRouter({ profile: 'directory-only' });
+
+    const { resourceTemplates } = await handleListResourceTemplates();
+    expect(resourceTemplates.map((template) => template.name)).toEqual([
+      'employee',
+      'department',
+    ]);
+    await expect(
+      handleReadResource('employee://7/photo')
+    ).rejects.toMatchObject({
+      code: MCP_ERROR_CODES.RESOURCE_NOT_FOUND,
+      message: expect.stringContaining('bamboo_get_employee_photo'),
+    });
+  });
+
+  test('profile is read from configuration', () => {
+    expect(
+      loadServerConfig({ argv: ['--tool-profile', 'manager'], env: {} }).config
+        .tools.profile
+    ).toBe('manager');
+    expect(loadServerConfig({ argv: [], env: {} }).config.tools.profile).toBe(
+      'hr-admin'
+    );
+    expect(() =>
+      loadServerConfig({ argv: [], env: { BAMBOO_TOOL_PROFILE: 'intern' } })
+    ).toThrow(
+      'tools.profile: must be one of directory-only, manager, hr-admin, got "intern" (env BAMBOO_TOOL_PROFILE)'
+    );
+  });
+});
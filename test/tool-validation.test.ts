@@ -0,0 +1,236 @@
+/**
+ * Tool argument validation tests
+ * Validates that the router enforces each tool's inputSchema before dispatch
+ */
+
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import {
+  CallToolRequestSchema,
+  ListToolsRequestSchema,
+  McpError,
+} from '@modelcontextprotocol/sdk/types.js';
+import { BAMBOO_TOOLS } from '../src/config/toolDefinitions.js';
+import {
+  getToolHandler,
+  initializeToolRouter,
+  validateToolArguments,
+} from '../src/config/toolRouter.js';
+import { initializeWorkforceAnalyticsHandlers } from '../src/handlers/workforceAnalyticsHandlers.js';
+import { MCPError, MCP_ERROR_CODES } from '../src/utils/mcpErrorHandler.js';
+import {
+  isValidDateString,
+  validateAgainstSchema,
+} from '../src/utils/schemaValidator.js';
+
+// Capture the MCPError thrown for a call so assertions can inspect its data
+const validationError = (toolName: string, args: Record<string, unknown>) => {
+  try {
+    validateToolArguments(toolName, args);
+  } catch (error) {
+    expect(error).toBeInstanceOf(MCPError);
+    return error as MCPError & {
+      data: {
+        toolName: string;
+        errors: { path: string; message: string; hint?: string }[];
+      };
+    };
+  }
+  throw new Error(`Expected ${toolName} arguments to be rejected`);
+};
+
+describe('Tool Argument Validation', () => {
+  test('accepts valid arguments for every tool', () => {
+    const validArgs: Record<string, Record<string, unknown>> = {
+      bamboo_find_employee: { query: 'Ada' },
+      bamboo_get_employee: {
+        employee_id: '7',
+        fields: ['jobTitle', 'Shirt Size'],
+        tables: ['jobInfo'],
+      },
+      bamboo_employee_changes: {
+        since: '2024-01-01',
+        type: 'updated',
+        tables: ['jobInfo'],
+        fields: ['jobTitle'],
+      },
+      bamboo_whos_out: { start_date: '2024-02-29' },
+      bamboo_team_info: { department: 'Engineering' },
+      bamboo_time_off_requests: {
+        start_date: '2024-01-01',
+        end_date: '2024-01-31',
+        status: 'approved',
+        type: 'Vacation',
+      },
+      bamboo_time_off_balance: { employee: 'Ada Lovelace', date: '2099-12-31' },
+      bamboo_list_time_off_types: {},
+      bamboo_list_time_off_policies: { type: 'Vacation' },
+      bamboo_discover_datasets: {},
+      bamboo_discover_fields: { dataset_id: 'employee' },
+      bamboo_workforce_analytics: {
+        dataset_id: 'employee',
+        fields: ['department'],
+        filters: [{ field: 'status', operator: 'equal', value: 'Active' }],
+      },
+      bamboo_run_custom_report: { report_id: '42', format: 'csv' },
+      bamboo_get_employee_photo: { employee_id: '7' },
+      bamboo_list_departments: {},
+      bamboo_manager_chain: { employee_id: '7' },
+      bamboo_reports: { employee_id: '7', max_depth: 1 },
+      bamboo_org_chart: { department: 'Engineering' },
+      bamboo_list_companies: {},
+    };
+
+    BAMBOO_TOOLS.forEach((tool) => {
+      expect(() =>
+        validateToolArguments(tool.name, validArgs[tool.name])
+      ).not.toThrow();
+    });
+  });
+
+  test('missing required parameters return INVALID_PARAMS', () => {
+    const error = validationError('bamboo_time_off_requests', {
+      start_date: '2024-01-01',
+    });
+
+    expect(error.code).toBe(MCP_ERROR_CODES.INVALID_PARAMS);
+    expect(error.data.errors).toEqual([
+      {
+        path: 'end_date',
+        message: 'Missing required parameter: end_date',
+        hint: 'End date in YYYY-MM-DD format (required)',
+      },
+    ]);
+  });
+
+  test('dates must be real YYYY-MM-DD calendar dates', () => {
+    const error = validationError('bamboo_whos_out', {
+      start_date: '01/15/2024',
+      end_date: '2024-02-30',
+    });
+
+    expect(error.data.errors.map((e) => e.path)).toEqual([
+      'start_date',
+      'end_date',
+    ]);
+    expect(error.message).toContain('YYYY-MM-DD');
+  });
+
+  test('enum values are enforced', () => {
+    const error = validationError('bamboo_time_off_requests', {
+      start_date: '2024-01-01',
+      end_date: '2024-01-31',
+      status: 'maybe',
+    });
+
+    expect(error.message).toContain(
+      'status must be one of: approved, denied, pending, all'
+    );
+  });
+
+  test('numeric minimums are enforced', () => {
+    const error = validationError('bamboo_reports', {
+      employee_id: '7',
+      max_depth: 0,
+    });
+
+    expect(error.data.errors).toEqual([
+      {
+        path: 'max_depth',
+        message: 'max_depth must be at least 1',
+        hint: 'Levels of reports to include (1 = direct reports only). Defaults to all levels',
+      },
+    ]);
+  });
+
+  test('wrong types and unknown parameters are rejected', () => {
+    const error = validationError('bamboo_find_employee', {
+      query: 123,
+      limit: 5,
+    });
+
+    expect(error.data.errors.map((e) => e.path)).toEqual(['query', 'limit']);
+    expect(error.data.errors[0].message).toContain('must be a string');
+  });
+
+  test('nested workforce analytics filters are validated', () => {
+    const error = validationError('bamboo_workforce_analytics', {
+      dataset_id: 'employee',
+      fields: [],
+      filters: [{ field: 'status', value: 'Active' }],
+    });
+
+    expect(error.data.errors.map((e) => e.path)).toEqual([
+      'fields',
+      'filters[0].operator',
+    ]);
+    // Each issue names the discovery tool or the expected filter shape
+    expect(error.data.errors[0].hint).toContain('bamboo_discover_fields');
+    expect(error.data.errors[1].hint).toContain(
+      '{"field": "status", "operator": "equal", "value": "Active"}'
+    );
+  });
+
+  test('discovery guidance reaches MCP clients calling workforce analytics', async () => {
+    initializeWorkforceAnalyticsHandlers({
+      bambooClient: {},
+      formatters: {},
+      logger: {},
+    });
+    initializeToolRouter();
+    // Dispatch as bamboo-mcp does: validate, then run the handler
+    const server = new Server(
+      { name: 'bamboo-mcp-test', version: '1.0.0' },
+      { capabilities: { tools: {} } }
+    );
+    server.setRequestHandler(ListToolsRequestSchema, async () => ({
+      tools: BAMBOO_TOOLS as any,
+    }));
+    server.setRequestHandler(CallToolRequestSchema, async (request) => {
+      const { name, arguments: args = {} } = request.params;
+      validateToolArguments(name, args);
+      return (await getToolHandler(name)(args, {})) as any;
+    });
+    const client = new Client({ name: 'validation-test', version: '1.0.0' });
+    const [clientTransport, serverTransport] =
+      InMemoryTransport.createLinkedPair();
+    await server.connect(serverTransport);
+    await client.connect(clientTransport);
+
+    try {
+      const error = await client
+        .callTool({ name: 'bamboo_workforce_analytics', arguments: {} })
+        .then(
+          () => {
+            throw new Error('Expected the call to be rejected');
+          },
+          (rejection: McpError) => rejection
+        );
+
+      expect(error).toBeInstanceOf(McpError);
+      expect(error.code).toBe(MCP_ERROR_CODES.INVALID_PARAMS);
+      // The SDK sends only the message, so the hints travel in it
+      expect(error.message).toContain(
+        'Missing required parameter: dataset_id (Dataset ID; run bamboo_discover_datasets first'
+      );
+      expect(error.message).toContain(
+        'run bamboo_discover_fields with the dataset ID first'
+      );
+    } finally {
+      await client.close();
+    }
+  });
+
+  test('isValidDateString handles leap years', () => {
+    expect(isValidDateString('2024-02-29')).toBe(true);
+    expect(isValidDateString('2023-02-29')).toBe(false);
+    expect(isValidDateString('2024-1-05')).toBe(false);
+  });
+
+  test('validateAgainstSchema rejects non-object arguments', () => {
+    expect(validateAgainstSchema([], { type: 'object' })).toEqual([
+      { path: '', message: 'arguments must be an object (received array)' },
+    ]);
+  });
+});